@@ -1,102 +1,80 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
-import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
-import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {NoncesUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-
-interface IR1Token is IERC20 {
-    function burn(address from, uint256 amount) external;
-}
-
-interface IUniswapV2Router {
-    function getAmountsIn(
-        uint256 amountOut,
-        address[] calldata path
-    ) external view returns (uint256[] memory amounts);
-
-    function swapExactTokensForTokens(
-        uint256 amountIn,
-        uint256 amountOutMin,
-        address[] calldata path,
-        address to,
-        uint256 deadline
-    ) external returns (uint256[] memory amounts);
-
-    function swapTokensForExactTokens(
-        uint256 amountOut,
-        uint256 amountInMax,
-        address[] calldata path,
-        address to,
-        uint256 deadline
-    ) external returns (uint256[] memory amounts);
-
-    function swapETHForExactTokens(
-        uint256 amountOut,
-        address[] calldata path,
-        address to,
-        uint256 deadline
-    ) external payable returns (uint256[] memory amounts);
-}
-
-interface IUniswapV2Pair {
-    function getReserves()
-        external
-        view
-        returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
-    function token0() external view returns (address);
-    function token1() external view returns (address);
-}
-
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "./Manager3sendSettlement.sol";
+import {Manager3sendRouter} from "./Manager3sendRouter.sol";
+
+/**
+ * @notice Tier payment entry points of the 3send upload manager for R1, USDC
+ * and ETH. Role-gated configuration plus read-only views live in
+ * {Manager3sendExtension}, the remaining payment methods in
+ * {Manager3sendPurchases} and {Manager3sendSubscriptions}, and the settlement
+ * of escrowed payments in {Manager3sendEscrow}; this contract delegates every
+ * call it does not implement to the module its {Manager3sendRouter} maps the
+ * selector to. Each stays below the contract size limit while sharing the
+ * proxy address and storage.
+ */
 contract Manager3send is
-    Initializable,
-    OwnableUpgradeable,
+    Manager3sendSettlement,
     UUPSUpgradeable,
-    ReentrancyGuardUpgradeable
+    NoncesUpgradeable
 {
-    using SafeERC20 for IERC20;
+    /// @dev ERC-2612 approval signed by the payer for this contract.
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
 
-    enum Tier {
-        Micro,
-        Standard,
-        Big,
-        Archive
+    /// @dev R1 payment signed off-chain by `payer` and submitted by any relayer.
+    struct PaymentIntent {
+        address payer;
+        uint256 tierId;
+        bytes32 uploadRef;
+        address recipient;
+        uint256 maxR1Amount;
+        uint256 nonce;
+        uint256 deadline;
     }
 
-    IR1Token public r1Token;
-    IERC20 public usdcToken;
-    IUniswapV2Pair public uniswapPair;
-    IUniswapV2Router public uniswapRouter;
-    address public weth;
-    mapping(Tier => uint256) public tierPrices;
-
-    event PaymentProcessed(
-        address indexed sender,
-        Tier tier,
-        uint256 usdcAmount,
-        uint256 r1Amount
-    );
-    event TierPriceUpdated(
-        Tier tier,
-        uint256 previousAmount,
-        uint256 newAmount
+    bytes32 private constant PAYMENT_INTENT_TYPEHASH = keccak256(
+        "PaymentIntent(address payer,uint256 tierId,bytes32 uploadRef,address recipient,uint256 maxR1Amount,uint256 nonce,uint256 deadline)"
     );
 
+    /// @notice Selector table of the logic contracts of this release.
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    Manager3sendRouter public immutable router;
+
+    /// @param router_ {Manager3sendRouter} deployed for this release.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address router_) {
+        require(router_ != address(0), "Manager3send: router is zero");
+        router = Manager3sendRouter(router_);
+        _disableInitializers();
+    }
+
+    /// @dev The EIP-712 domain is constant (see {_EIP712Name}), so
+    /// `__EIP712_init` is not needed here nor on upgraded proxies. Sets the
+    /// latest initialized version, so fresh proxies cannot run the
+    /// migrations of upgraded ones.
+    /// @custom:oz-upgrades-unsafe-allow missing-initializer-call
+    /// @custom:oz-upgrades-validate-as-initializer
     function initialize(
         address r1Address,
         address usdcAddress,
         address uniswapPairAddress,
-        address uniswapRouterAddress,
+        address swapAdapterAddress,
         address wethAddress,
-        uint256 microPrice_,
-        uint256 standardPrice_,
-        uint256 bigPrice_,
-        uint256 archivePrice_
-    ) external initializer {
+        NewTier[] calldata tiers_,
+        PriceCurve calldata priceCurve
+    ) external reinitializer(2) {
         require(r1Address != address(0), "Manager3send: R1 address is zero");
         require(
             usdcAddress != address(0),
@@ -106,334 +84,353 @@ contract Manager3send is
             uniswapPairAddress != address(0),
             "Manager3send: pair address is zero"
         );
-        require(
-            uniswapRouterAddress != address(0),
-            "Manager3send: router address is zero"
-        );
         require(
             wethAddress != address(0),
             "Manager3send: WETH address is zero"
         );
-        require(microPrice_ > 0, "Manager3send: micro price is zero");
-        require(standardPrice_ > 0, "Manager3send: standard price is zero");
-        require(bigPrice_ > 0, "Manager3send: big price is zero");
-        require(archivePrice_ > 0, "Manager3send: archive price is zero");
+        require(tiers_.length > 0, "Manager3send: no tiers");
 
-        __Ownable_init(msg.sender);
+        __AccessControl_init();
         __UUPSUpgradeable_init();
         __ReentrancyGuard_init();
+        __Pausable_init();
 
         r1Token = IR1Token(r1Address);
         usdcToken = IERC20(usdcAddress);
         uniswapPair = IUniswapV2Pair(uniswapPairAddress);
-        uniswapRouter = IUniswapV2Router(uniswapRouterAddress);
         weth = wethAddress;
         _validatePairTokens(uniswapPairAddress, r1Address, usdcAddress);
-        _setTierPrice(Tier.Micro, microPrice_);
-        _setTierPrice(Tier.Standard, standardPrice_);
-        _setTierPrice(Tier.Big, bigPrice_);
-        _setTierPrice(Tier.Archive, archivePrice_);
+        _updatePriceCurve(priceCurve);
+        for (uint256 i = 0; i < tiers_.length; i++) {
+            _addTier(
+                tiers_[i].name,
+                tiers_[i].usdcPrice,
+                tiers_[i].maxUploadSize
+            );
+        }
+        _initializeTwapOracle();
+        _setSwapAdapter(swapAdapterAddress);
+        _initializePriceChangeGuard();
+        _grantAllRoles(msg.sender);
     }
 
     /**
-     * @notice Burns the R1 amount associated with the selected pricing tier.
-     * @param tier Pricing option to charge.
-     * @param maxR1Amount Maximum R1 amount the caller is willing to spend.
+     * @notice Migrates a first-release proxy in one call: the single owner is
+     * replaced with roles (the owner receives every role), the four fixed
+     * tiers move into the tier catalog (ids 0-3), swaps are routed through
+     * `swapAdapter_` and uploads are priced by size on `priceCurve`. Tier `i`
+     * is repriced as an upload of `tierSizes[i]` bytes, which also becomes
+     * its `maxUploadSize`; tiers without a size keep their fixed price.
+     * @dev Must be called by the previous owner, ideally within the upgrade
+     * transaction since the proxy has no upgrader until it runs.
      */
-    function transferPayment(
-        Tier tier,
-        uint256 maxR1Amount
-    ) external nonReentrant {
-        uint256 usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
+    function initializeV2(
+        address swapAdapter_,
+        PriceCurve calldata priceCurve,
+        uint256[] calldata tierSizes
+    ) external reinitializer(2) {
+        _migrateFromOwnable();
+        _initializePriceChangeGuard();
+        _setSwapAdapter(swapAdapter_);
 
-        uint256 requiredR1 = _calculateR1Amount(usdcAmount);
-        require(requiredR1 > 0, "Manager3send: computed amount is zero");
         require(
-            requiredR1 <= maxR1Amount,
-            "Manager3send: slippage limit exceeded"
-        );
-
-        IERC20(address(r1Token)).safeTransferFrom(
-            _msgSender(),
-            address(this),
-            requiredR1
+            priceCurve.breakpoints.length > 0,
+            "Manager3send: no price curve"
         );
-        r1Token.burn(address(this), requiredR1);
-
-        emit PaymentProcessed(_msgSender(), tier, usdcAmount, requiredR1);
+        require(tierSizes.length <= tierCount, "Manager3send: unknown tier");
+        _updatePriceCurve(priceCurve);
+        for (uint256 i = 0; i < tierSizes.length; i++) {
+            if (tierSizes[i] > 0) {
+                TierInfo storage tier = _existingTier(i);
+                tier.usdcPrice = 0;
+                tier.maxUploadSize = tierSizes[i];
+            }
+        }
     }
 
-    function transferPaymentWithUSDC(
-        Tier tier,
-        uint256 minR1Amount
-    ) external nonReentrant {
-        uint256 usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
-        require(minR1Amount > 0, "Manager3send: min output is zero");
-
-        uint256 quotedR1 = _calculateR1Amount(usdcAmount);
-        require(
-            minR1Amount <= quotedR1,
-            "Manager3send: min output too high"
-        );
-
-        usdcToken.safeTransferFrom(_msgSender(), address(this), usdcAmount);
-        uint256 r1Amount = _swapUSDCForR1(usdcAmount, minR1Amount);
-
-        r1Token.burn(address(this), r1Amount);
-
-        emit PaymentProcessed(_msgSender(), tier, usdcAmount, r1Amount);
+    /**
+     * @notice Burns the R1 amount associated with the selected pricing tier.
+     * @param tierId Pricing option to charge.
+     * @param uploadRef Content hash or upload id the payment is bound to.
+     * @param recipient Optional address the upload is delivered to.
+     * @param maxR1Amount Maximum R1 amount the caller is willing to spend.
+     */
+    function transferPayment(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 maxR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        _payWithR1(_msgSender(), tierId, uploadRef, recipient, maxR1Amount);
     }
 
-    function transferPaymentWithETH(
-        Tier tier,
-        uint256 minR1Amount
-    ) external payable nonReentrant {
-        uint256 usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
-        require(minR1Amount > 0, "Manager3send: min output is zero");
-
-        uint256 quotedR1 = _calculateR1Amount(usdcAmount);
-        require(
-            minR1Amount <= quotedR1,
-            "Manager3send: min output too high"
-        );
-
-        uint256 ethSpent = _swapETHForExactUSDC(usdcAmount);
-        _refundExcessETH(ethSpent);
-
-        uint256 r1Amount = _swapUSDCForR1(usdcAmount, minR1Amount);
-        r1Token.burn(address(this), r1Amount);
-
-        emit PaymentProcessed(_msgSender(), tier, usdcAmount, r1Amount);
+    /**
+     * @notice Same as {transferPayment}, approving the R1 spend with an
+     * ERC-2612 permit in the same transaction.
+     */
+    function transferPaymentWithPermit(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 maxR1Amount,
+        PermitSignature calldata permit
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        _permit(IERC20(address(r1Token)), _msgSender(), permit);
+        _payWithR1(_msgSender(), tierId, uploadRef, recipient, maxR1Amount);
     }
 
-    function transferPaymentWithToken(
-        Tier tier,
-        address paymentToken,
-        uint256 maxPaymentAmount,
-        uint256 minR1Amount,
-        address[] calldata paymentToUsdcPath
-    ) external nonReentrant {
-        require(paymentToken != address(0), "Manager3send: token is zero");
-        require(maxPaymentAmount > 0, "Manager3send: amount is zero");
-
-        uint256 usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
-        require(minR1Amount > 0, "Manager3send: min output is zero");
-
-        uint256 pathLength = paymentToUsdcPath.length;
-        require(pathLength >= 2, "Manager3send: invalid path");
+    /**
+     * @notice Settles an R1 payment signed off-chain by `intent.payer`; anyone
+     * can submit it and pays the gas.
+     * @param intent EIP-712 `PaymentIntent` signed by the payer.
+     * @param signature Payer signature over `intent`.
+     * @param permit Optional R1 permit from the payer, skipped when its
+     * deadline is zero.
+     */
+    function transferPaymentBySig(
+        PaymentIntent calldata intent,
+        bytes calldata signature,
+        PermitSignature calldata permit
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
         require(
-            paymentToUsdcPath[0] == paymentToken,
-            "Manager3send: path mismatch"
+            block.timestamp <= intent.deadline,
+            "Manager3send: intent expired"
         );
         require(
-            paymentToUsdcPath[pathLength - 1] == address(usdcToken),
-            "Manager3send: path must end in USDC"
+            intent.nonce == _useNonce(intent.payer),
+            "Manager3send: invalid nonce"
         );
-
-        IERC20 token = IERC20(paymentToken);
-        token.safeTransferFrom(_msgSender(), address(this), maxPaymentAmount);
-        _forceApprove(token, address(uniswapRouter), maxPaymentAmount);
-
-        uint256[] memory amounts = uniswapRouter.swapTokensForExactTokens(
-            usdcAmount,
-            maxPaymentAmount,
-            paymentToUsdcPath,
-            address(this),
-            block.timestamp
+        (address signer, , ) = ECDSA.tryRecover(
+            _hashTypedDataV4(
+                keccak256(abi.encode(PAYMENT_INTENT_TYPEHASH, intent))
+            ),
+            signature
         );
-
-        _forceApprove(token, address(uniswapRouter), 0);
-
-        uint256 paymentSpent = amounts[0];
-        require(paymentSpent > 0, "Manager3send: swap input is zero");
         require(
-            amounts[pathLength - 1] == usdcAmount,
-            "Manager3send: USDC output mismatch"
+            signer != address(0) && signer == intent.payer,
+            "Manager3send: invalid signature"
         );
 
-        if (maxPaymentAmount > paymentSpent) {
-            token.safeTransfer(_msgSender(), maxPaymentAmount - paymentSpent);
+        if (permit.deadline != 0) {
+            _permit(IERC20(address(r1Token)), intent.payer, permit);
         }
-
-        uint256 r1Amount = _swapUSDCForR1(usdcAmount, minR1Amount);
-        r1Token.burn(address(this), r1Amount);
-
-        emit PaymentProcessed(_msgSender(), tier, usdcAmount, r1Amount);
-    }
-
-    function setTierPrice(Tier tier, uint256 newAmount) external onlyOwner {
-        require(newAmount > 0, "Manager3send: amount is zero");
-        uint256 previousAmount = tierPrices[tier];
-        _setTierPrice(tier, newAmount);
-        emit TierPriceUpdated(tier, previousAmount, newAmount);
+        _payWithR1(
+            intent.payer,
+            intent.tierId,
+            intent.uploadRef,
+            intent.recipient,
+            intent.maxR1Amount
+        );
     }
 
-    function getRequiredR1Amount(Tier tier) external view returns (uint256) {
-        uint256 usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
-        return _calculateR1Amount(usdcAmount);
+    function transferPaymentWithUSDC(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        _payWithUSDC(_msgSender(), tierId, uploadRef, recipient, minR1Amount);
     }
 
-    function quotePayment(
-        Tier tier
-    ) external view returns (Tier, uint256 usdcAmount, uint256 r1Amount) {
-        usdcAmount = tierPrices[tier];
-        require(usdcAmount > 0, "Manager3send: tier price is zero");
-        r1Amount = _calculateR1Amount(usdcAmount);
-        return (tier, usdcAmount, r1Amount);
+    /**
+     * @notice Same as {transferPaymentWithUSDC}, approving the USDC spend with
+     * an ERC-2612 permit in the same transaction.
+     */
+    function transferPaymentWithUSDCPermit(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount,
+        PermitSignature calldata permit
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        _permit(usdcToken, _msgSender(), permit);
+        _payWithUSDC(_msgSender(), tierId, uploadRef, recipient, minR1Amount);
     }
 
-    function quotePaymentWithToken(
-        Tier tier,
-        address paymentToken,
-        address[] calldata paymentToUsdcPath
-    )
-        external
-        view
-        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
-    {
-        require(paymentToken != address(0), "Manager3send: token is zero");
-
-        usdcEquivalent = tierPrices[tier];
-        require(usdcEquivalent > 0, "Manager3send: tier price is zero");
-
-        uint256 pathLength = paymentToUsdcPath.length;
-        require(pathLength >= 2, "Manager3send: invalid path");
-        require(
-            paymentToUsdcPath[0] == paymentToken,
-            "Manager3send: path mismatch"
-        );
-        require(
-            paymentToUsdcPath[pathLength - 1] == address(usdcToken),
-            "Manager3send: path must end in USDC"
-        );
-
-        uint256[] memory amountsIn = uniswapRouter.getAmountsIn(
-            usdcEquivalent,
-            paymentToUsdcPath
+    function transferPaymentWithETH(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount
+    ) external payable nonReentrant whenPaymentMethodActive(PaymentMethod.ETH) {
+        uint256 usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectETH(
+            usdcAmount,
+            minR1Amount
         );
-        require(
-            amountsIn.length == pathLength,
-            "Manager3send: router path length"
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
         );
+    }
 
-        tokenAmount = amountsIn[0];
-        require(tokenAmount > 0, "Manager3send: quote input is zero");
-
-        r1Amount = _calculateR1Amount(usdcEquivalent);
-        return (r1Amount, tokenAmount, usdcEquivalent);
+    /**
+     * @notice Records a new TWAP observation once the current window elapsed.
+     * @dev Payments already do this; keepers can call it during quiet periods
+     * so the average never spans much more than two windows.
+     */
+    function updateTwap() external {
+        _updateTwap();
     }
 
-    function getReserves()
-        external
-        view
-        returns (uint256 reserveUsdc, uint256 reserveR1)
-    {
-        return _getOrderedReserves();
+    /**
+     * @dev Runs the functions of the modules in the context of the proxy, on
+     * the module the router maps the selector to.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    fallback() external payable {
+        address module = router.moduleOf(msg.sig);
+        require(module != address(0), "Manager3send: unknown function");
+        _delegate(module);
     }
 
     receive() external payable {
         require(
-            _msgSender() == address(uniswapRouter),
+            _msgSender() == address(swapAdapter),
             "Manager3send: direct ETH transfer"
         );
     }
 
-    /**
-     * @dev Authorizes upgrades, restricted to the owner.
-     */
-    function _authorizeUpgrade(
-        address newImplementation
-    ) internal override onlyOwner {}
-
-    function _calculateR1Amount(
-        uint256 usdcAmount
-    ) internal view returns (uint256) {
-        (uint256 reserveUsdc, uint256 reserveR1) = _getOrderedReserves();
-        require(reserveUsdc > 0 && reserveR1 > 0, "Manager3send: empty pool");
-        return (usdcAmount * reserveR1) / reserveUsdc;
+    function _payWithR1(
+        address payer,
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 maxR1Amount
+    ) internal {
+        uint256 usdcAmount = _startPayment(payer, tierId, uploadRef);
+        uint256 r1Amount = _collectR1(payer, usdcAmount, maxR1Amount);
+        _completePayment(
+            payer,
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            0
+        );
     }
 
-    function _swapUSDCForR1(
-        uint256 usdcAmount,
+    function _payWithUSDC(
+        address payer,
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
         uint256 minR1Amount
-    ) internal returns (uint256) {
-        _forceApprove(usdcToken, address(uniswapRouter), usdcAmount);
-
-        address[] memory path = new address[](2);
-        path[0] = address(usdcToken);
-        path[1] = address(r1Token);
-
-        uint256[] memory amounts = uniswapRouter.swapExactTokensForTokens(
+    ) internal {
+        uint256 usdcAmount = _startPayment(payer, tierId, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectUSDC(
+            payer,
             usdcAmount,
-            minR1Amount,
-            path,
-            address(this),
-            block.timestamp
+            minR1Amount
+        );
+        _completePayment(
+            payer,
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
         );
-
-        _forceApprove(usdcToken, address(uniswapRouter), 0);
-
-        uint256 r1Amount = amounts[amounts.length - 1];
-        require(r1Amount > 0, "Manager3send: swap output is zero");
-        return r1Amount;
-    }
-
-    function _swapETHForExactUSDC(
-        uint256 usdcAmount
-    ) internal returns (uint256 ethSpent) {
-        address[] memory path = new address[](2);
-        path[0] = weth;
-        path[1] = address(usdcToken);
-
-        uint256[] memory amounts = uniswapRouter.swapETHForExactTokens{
-            value: msg.value
-        }(usdcAmount, path, address(this), block.timestamp);
-
-        ethSpent = amounts[0];
-        require(ethSpent > 0, "Manager3send: ETH input is zero");
     }
 
-    function _refundExcessETH(uint256 ethSpent) internal {
-        require(ethSpent <= msg.value, "Manager3send: overspent ETH");
-        uint256 refund = msg.value - ethSpent;
-        if (refund > 0) {
-            Address.sendValue(payable(_msgSender()), refund);
+    /**
+     * @dev Applies `permit` for `owner`. A failing permit is tolerated when the
+     * allowance is already in place, so a front-run permit cannot block the
+     * payment.
+     */
+    function _permit(
+        IERC20 token,
+        address owner,
+        PermitSignature calldata permit
+    ) internal {
+        try
+            IERC20Permit(address(token)).permit(
+                owner,
+                address(this),
+                permit.value,
+                permit.deadline,
+                permit.v,
+                permit.r,
+                permit.s
+            )
+        {} catch {
+            require(
+                token.allowance(owner, address(this)) >= permit.value,
+                "Manager3send: permit failed"
+            );
         }
     }
 
-    function _setTierPrice(Tier tier, uint256 newAmount) internal {
-        tierPrices[tier] = newAmount;
+    /**
+     * @dev Authorizes upgrades, restricted to holders of `UPGRADER_ROLE`.
+     */
+    function _authorizeUpgrade(
+        address newImplementation
+    ) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _initializeTwapOracle() internal {
+        _setTwapWindow(DEFAULT_TWAP_WINDOW);
+        _setMaxPriceDeviationBps(DEFAULT_MAX_PRICE_DEVIATION_BPS);
+
+        (
+            uint256 priceCumulative,
+            uint32 blockTimestamp
+        ) = _currentPriceCumulative();
+        TwapObservation memory observation = TwapObservation(
+            blockTimestamp,
+            priceCumulative
+        );
+        _twapPrevious = observation;
+        _twapLatest = observation;
     }
 
-    function _getOrderedReserves()
-        internal
-        view
-        returns (uint256 reserveUsdc, uint256 reserveR1)
-    {
-        IUniswapV2Pair pair = uniswapPair;
+    function _migrateFromOwnable() internal {
+        LegacyOwnableStorage storage legacy = _legacyOwnable();
+        address legacyOwner = legacy._owner;
         require(
-            address(pair) != address(0),
-            "Manager3send: pair address is zero"
+            legacyOwner != address(0) && _msgSender() == legacyOwner,
+            "Manager3send: caller is not owner"
         );
 
-        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
-        address token0 = pair.token0();
-        address token1 = pair.token1();
+        _initializeTwapOracle();
+        _migrateLegacyTier(Tier.Micro, "Micro");
+        _migrateLegacyTier(Tier.Standard, "Standard");
+        _migrateLegacyTier(Tier.Big, "Big");
+        _migrateLegacyTier(Tier.Archive, "Archive");
 
-        if (token0 == address(usdcToken) && token1 == address(r1Token)) {
-            reserveUsdc = uint256(reserve0);
-            reserveR1 = uint256(reserve1);
-        } else if (token0 == address(r1Token) && token1 == address(usdcToken)) {
-            reserveUsdc = uint256(reserve1);
-            reserveR1 = uint256(reserve0);
-        } else {
-            revert("Manager3send: pair tokens mismatch");
+        _grantAllRoles(legacyOwner);
+        if (_legacyGuardian != address(0)) {
+            _grantRole(GUARDIAN_ROLE, _legacyGuardian);
+            _legacyGuardian = address(0);
         }
+        legacy._owner = address(0);
+    }
+
+    function _initializePriceChangeGuard() internal {
+        priceChangeDelay = DEFAULT_PRICE_CHANGE_DELAY;
+        maxPriceChangeRatioBps = DEFAULT_MAX_PRICE_CHANGE_RATIO_BPS;
+    }
+
+    function _grantAllRoles(address account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, account);
+        _grantRole(PRICE_MANAGER_ROLE, account);
+        _grantRole(GUARDIAN_ROLE, account);
+        _grantRole(UPGRADER_ROLE, account);
+        _grantRole(TREASURY_ROLE, account);
+        _grantRole(OPERATOR_ROLE, account);
+    }
+
+    function _migrateLegacyTier(Tier legacyTier, string memory name) internal {
+        uint256 usdcPrice = _legacyTierPrices[legacyTier];
+        delete _legacyTierPrices[legacyTier];
+        _addTier(name, usdcPrice, 0);
     }
 
     function _validatePairTokens(
@@ -450,12 +447,4 @@ contract Manager3send is
             "Manager3send: pair tokens mismatch"
         );
     }
-
-    function _forceApprove(
-        IERC20 token,
-        address spender,
-        uint256 amount
-    ) internal {
-        token.forceApprove(spender, amount);
-    }
 }
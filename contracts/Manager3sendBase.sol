@@ -0,0 +1,905 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ISwapAdapter} from "./adapters/ISwapAdapter.sol";
+
+interface IR1Token is IERC20 {
+    function burn(address from, uint256 amount) external;
+}
+
+interface IUniswapV2Router {
+    function factory() external view returns (address);
+
+    function getAmountsIn(
+        uint256 amountOut,
+        address[] calldata path
+    ) external view returns (uint256[] memory amounts);
+
+    function getAmountsOut(
+        uint256 amountIn,
+        address[] calldata path
+    ) external view returns (uint256[] memory amounts);
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts);
+
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts);
+
+    function swapETHForExactTokens(
+        uint256 amountOut,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256[] memory amounts);
+}
+
+interface IUniswapV2Pair {
+    function getReserves()
+        external
+        view
+        returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+    function price0CumulativeLast() external view returns (uint256);
+    function price1CumulativeLast() external view returns (uint256);
+}
+
+/**
+ * @dev State, events and helpers shared by {Manager3send} and the logic
+ * contracts it delegates to. All run against the proxy storage, so state
+ * variables must only ever be appended here.
+ */
+abstract contract Manager3sendBase is
+    Initializable,
+    AccessControlUpgradeable,
+    PausableUpgradeable
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @dev Fixed tiers of the first release, only kept to key the legacy price mapping.
+    enum Tier {
+        Micro,
+        Standard,
+        Big,
+        Archive
+    }
+
+    /// @dev Tiers without a fixed `usdcPrice` cost an upload of
+    /// `maxUploadSize` bytes on the price curve.
+    struct TierInfo {
+        uint256 id;
+        string name;
+        uint256 usdcPrice;
+        bool active;
+        uint256 maxUploadSize;
+    }
+
+    struct NewTier {
+        string name;
+        uint256 usdcPrice;
+        uint256 maxUploadSize;
+    }
+
+    struct Receipt {
+        address payer;
+        address recipient;
+        uint256 tierId;
+        uint256 usdcAmount;
+        uint256 r1Amount;
+        uint64 paidAt;
+        /// @dev Byte size the payment was priced for, zero for tier payments.
+        uint64 uploadSize;
+    }
+
+    /// @dev From `fromBytes` on, every MB costs `usdcPerMb` until the next
+    /// breakpoint.
+    struct PriceBreakpoint {
+        uint256 fromBytes;
+        uint256 usdcPerMb;
+    }
+
+    /// @dev Upload price as a function of its size: `baseFee` plus the
+    /// per-MB rates of each breakpoint range the size spans, capped at
+    /// `maxPrice` unless it is zero.
+    struct PriceCurve {
+        uint256 baseFee;
+        uint256 maxPrice;
+        PriceBreakpoint[] breakpoints;
+    }
+
+    /// @dev Flat-fee access to a tier for `duration` seconds. The price of a
+    /// plan never changes; price managers retire it and add a new one instead.
+    struct SubscriptionPlan {
+        uint256 id;
+        uint256 tierId;
+        uint256 usdcPrice;
+        uint64 duration;
+        bool active;
+    }
+
+    /// @dev Promotion signed by a price manager: takes `discountBps` of the
+    /// price plus a fixed `discountAmount` (USDC) off a tier payment, until
+    /// `expiresAt` and for at most `maxUses` payments. Restricted to
+    /// `account` unless it is zero.
+    struct DiscountVoucher {
+        bytes32 code;
+        address account;
+        uint16 discountBps;
+        uint256 discountAmount;
+        uint32 maxUses;
+        uint64 expiresAt;
+    }
+
+    /// @dev Announced tier price, applicable from `effectiveAt`.
+    struct PendingTierPrice {
+        uint256 usdcPrice;
+        uint64 effectiveAt;
+    }
+
+    /// @dev Stablecoin accepted at face value for USDC prices: amounts are
+    /// scaled from USDC's 6 decimals to `decimals`, and payments are swapped
+    /// into R1 along `r1Path`. Payments revert while `maxDepegBps` is set and
+    /// the stablecoin trades further than that below USDC.
+    struct StablecoinConfig {
+        uint8 decimals;
+        uint16 maxDepegBps;
+        address[] r1Path;
+    }
+
+    /// @dev Escrow state of a payment. Refunded and reclaimed payments are
+    /// erased along with their receipt, so their upload can be paid again.
+    enum EscrowStatus {
+        None,
+        Held,
+        Settled
+    }
+
+    /// @dev Escrow of a payment; its payer and R1 amount are on the receipt.
+    struct Escrow {
+        EscrowStatus status;
+        /// @dev From then on the payer can reclaim the R1 and operators can
+        /// no longer settle it.
+        uint64 reclaimableAt;
+        /// @dev Discount voucher redeemed by the payment, zero for none; its
+        /// use is given back when the payment is refunded or reclaimed.
+        bytes32 voucherCode;
+    }
+
+    struct TwapObservation {
+        uint32 timestamp;
+        uint256 priceCumulative;
+    }
+
+    /// @dev Payment paths that can be paused on their own.
+    enum PaymentMethod {
+        R1,
+        USDC,
+        ETH,
+        Token,
+        Stablecoin
+    }
+
+    /// @dev `OwnableUpgradeable` storage of releases before role-based access
+    /// control, only read once to migrate the owner into every role.
+    /// @custom:storage-location erc7201:openzeppelin.storage.Ownable
+    struct LegacyOwnableStorage {
+        address _owner;
+    }
+
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+    uint32 public constant DEFAULT_TWAP_WINDOW = 30 minutes;
+    /// @notice Longest TWAP window; longer averages stop tracking the pool
+    /// and leave the spot deviation guard without a reference.
+    uint32 public constant MAX_TWAP_WINDOW = 1 days;
+    uint256 public constant DEFAULT_MAX_PRICE_DEVIATION_BPS = 500;
+    uint32 public constant DEFAULT_PRICE_CHANGE_DELAY = 1 days;
+    uint32 public constant MAX_PRICE_CHANGE_DELAY = 30 days;
+    /// @notice Upper bound of the time a payment can be held in escrow.
+    uint32 public constant MAX_ESCROW_TIMEOUT = 30 days;
+    /// @notice Tier prices may at most double or halve per change by default.
+    uint256 public constant DEFAULT_MAX_PRICE_CHANGE_RATIO_BPS = 20_000;
+    /// @notice Upper bound of the share of each payment sent to the treasury.
+    uint256 public constant MAX_TREASURY_SHARE_BPS = 5_000;
+    /// @notice Upper bound of the share of each payment owed to referrers.
+    uint256 public constant MAX_REFERRAL_SHARE_BPS = 2_000;
+    /// @notice Credit id of the USDC-equivalent balance; other ids are tiers.
+    uint256 public constant USDC_CREDITS = type(uint256).max;
+    /// @notice Tier id recorded for uploads priced on the size curve.
+    uint256 public constant SIZE_PRICED = type(uint256).max;
+    uint256 public constant BYTES_PER_MB = 1_000_000;
+    uint256 internal constant USDC_UNIT = 10 ** 6;
+    // keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.Ownable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant LEGACY_OWNABLE_STORAGE =
+        0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
+
+    /// @notice Manages the tier catalog and the TWAP pricing guard.
+    bytes32 public constant PRICE_MANAGER_ROLE = keccak256(
+        "PRICE_MANAGER_ROLE"
+    );
+    /// @notice Can pause payments, but never resume them.
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    /// @notice Authorizes implementation upgrades.
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    /// @notice Manages where payment proceeds go.
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+    /// @notice Settles escrowed payments once their upload is stored, or
+    /// refunds them.
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+
+    IR1Token public r1Token;
+    IERC20 public usdcToken;
+    IUniswapV2Pair public uniswapPair;
+    /// @dev Router of releases before {swapAdapter}.
+    /// @custom:oz-renamed-from uniswapRouter
+    IUniswapV2Router internal _legacyUniswapRouter;
+    address public weth;
+    /// @custom:oz-renamed-from tierPrices
+    mapping(Tier => uint256) internal _legacyTierPrices;
+    uint32 public twapWindow;
+    uint256 public maxPriceDeviationBps;
+    TwapObservation internal _twapPrevious;
+    TwapObservation internal _twapLatest;
+    uint256 public tierCount;
+    mapping(uint256 => TierInfo) internal _tiers;
+    mapping(bytes32 => Receipt) internal _receipts;
+    /// @notice Prepaid credits per account: USDC units under `USDC_CREDITS`,
+    /// upload counts under tier ids.
+    mapping(address => mapping(uint256 => uint256)) public credits;
+    mapping(address => bool) public uploaders;
+    /// @custom:oz-renamed-from guardian
+    address internal _legacyGuardian;
+    mapping(PaymentMethod => bool) public paymentMethodPaused;
+    /// @notice Minimum notice between announcing and applying a tier price.
+    uint32 public priceChangeDelay;
+    /// @notice Largest factor (in bps) between a tier price and its successor.
+    uint256 public maxPriceChangeRatioBps;
+    mapping(uint256 => PendingTierPrice) public pendingTierPrices;
+    /// @notice Receives `treasuryShareBps` of every payment, the rest is burned.
+    address public treasury;
+    uint256 public treasuryShareBps;
+    /// @notice Whether payments made in USDC, ETH or other tokens pay the
+    /// treasury share in USDC before swapping, instead of in R1 after it.
+    /// Ignored while payments are held in escrow.
+    bool public treasuryKeepsUsdc;
+    /// @dev Tokens accepted by {Manager3sendPurchases-payWithToken}, each
+    /// routed to USDC directly or through WETH.
+    EnumerableSet.AddressSet internal _paymentTokens;
+    mapping(address => bool) internal _paymentTokenViaWeth;
+    /// @dev Router paths swapping an input token (WETH for native ETH)
+    /// straight into R1, used by the direct payment methods.
+    mapping(address => address[]) internal _directR1Paths;
+    /// @notice DEX backend every swap and swap quote goes through.
+    ISwapAdapter public swapAdapter;
+    uint256 public subscriptionPlanCount;
+    mapping(uint256 => SubscriptionPlan) internal _subscriptionPlans;
+    /// @notice End of each account's subscription per tier, as a timestamp;
+    /// zero when the account never subscribed to the tier.
+    mapping(address => mapping(uint256 => uint64)) public subscriptionExpiry;
+    /// @dev Prices sized payments and tiers without a fixed price; no curve
+    /// is configured while it has no breakpoints.
+    PriceCurve internal _priceCurve;
+    PriceCurve internal _pendingPriceCurve;
+    uint64 public pendingPriceCurveEffectiveAt;
+    /// @notice Negotiated USDC price of a tier for a partner address, zero
+    /// when the partner pays the list price.
+    mapping(address => mapping(uint256 => uint256)) public partnerPrices;
+    /// @notice Payments each discount voucher code was redeemed for.
+    mapping(bytes32 => uint256) public discountVoucherUses;
+    mapping(bytes32 => bool) public discountVoucherRevoked;
+    /// @notice Share of the R1 of each payment accrued to the payer's
+    /// referrer instead of being burned.
+    uint256 public referralShareBps;
+    /// @notice Referrer each account named, earning on all its payments.
+    mapping(address => address) public referrers;
+    /// @notice R1 each referrer accrued and can claim.
+    mapping(address => uint256) public referralRewards;
+    /// @dev Stablecoins accepted by
+    /// {Manager3sendPurchases-transferPaymentWithStablecoin}.
+    EnumerableSet.AddressSet internal _stablecoins;
+    mapping(address => StablecoinConfig) internal _stablecoinConfigs;
+    /// @notice How long tier and sized payments are held in escrow before
+    /// their payer can reclaim them; zero burns them right away.
+    uint32 public escrowTimeout;
+    mapping(bytes32 => Escrow) internal _escrows;
+    /// @notice R1 of payments currently held in escrow.
+    uint256 public totalEscrowedR1;
+    /// @notice R1 burned by payments, credit purchases and subscriptions since
+    /// escrow was introduced.
+    uint256 public totalBurnedR1;
+    /// @notice R1 of escrowed payments returned to their payers.
+    uint256 public totalRefundedR1;
+    /// @notice Whether R1 is priced by the pool oracle of `swapAdapter`
+    /// instead of observations of `uniswapPair`, which it does not swap in.
+    bool public adapterOracle;
+
+    event PaymentProcessed(
+        address indexed sender,
+        bytes32 indexed uploadRef,
+        address indexed recipient,
+        uint256 tierId,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 burnedR1Amount,
+        uint256 treasuryR1Amount,
+        uint256 treasuryUsdcAmount,
+        uint256 discountUsdcAmount
+    );
+    event TierPriceUpdated(
+        uint256 tierId,
+        uint256 previousAmount,
+        uint256 newAmount
+    );
+    event TierPriceChangeProposed(
+        uint256 indexed tierId,
+        uint256 currentPrice,
+        uint256 newPrice,
+        uint64 effectiveAt
+    );
+    event TierPriceChangeCancelled(uint256 indexed tierId, uint256 newPrice);
+    event TierAdded(
+        uint256 indexed tierId,
+        string name,
+        uint256 usdcPrice,
+        uint256 maxUploadSize
+    );
+    event TierStatusUpdated(uint256 indexed tierId, bool active);
+    event CreditsPurchased(
+        address indexed account,
+        uint256 indexed creditId,
+        uint256 quantity,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 burnedR1Amount,
+        uint256 treasuryR1Amount,
+        uint256 treasuryUsdcAmount
+    );
+    event CreditsConsumed(
+        address indexed account,
+        bytes32 indexed uploadRef,
+        uint256 indexed tierId,
+        uint256 creditId,
+        uint256 amount
+    );
+    event SubscriptionPlanAdded(
+        uint256 indexed planId,
+        uint256 indexed tierId,
+        uint256 usdcPrice,
+        uint64 duration
+    );
+    event SubscriptionPlanStatusUpdated(uint256 indexed planId, bool active);
+    event SubscriptionPurchased(
+        address indexed account,
+        uint256 indexed planId,
+        uint256 indexed tierId,
+        uint256 periods,
+        uint64 expiresAt,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 burnedR1Amount,
+        uint256 treasuryR1Amount,
+        uint256 treasuryUsdcAmount
+    );
+    event PriceCurveUpdated(PriceCurve curve);
+    event PriceCurveChangeProposed(PriceCurve curve, uint64 effectiveAt);
+    event PriceCurveChangeCancelled();
+    event PartnerPriceUpdated(
+        address indexed account,
+        uint256 indexed tierId,
+        uint256 usdcPrice
+    );
+    event DiscountVoucherRedeemed(
+        bytes32 indexed code,
+        address indexed account,
+        bytes32 indexed uploadRef,
+        uint256 discountUsdcAmount
+    );
+    event DiscountVoucherRevoked(bytes32 indexed code);
+    event ReferralShareUpdated(uint256 previousBps, uint256 newBps);
+    event ReferrerSet(address indexed account, address indexed referrer);
+    event ReferralRewardAccrued(
+        address indexed referrer,
+        address indexed account,
+        uint256 r1Amount
+    );
+    event ReferralRewardsClaimed(address indexed referrer, uint256 r1Amount);
+    event UploaderUpdated(address indexed account, bool allowed);
+    event TwapWindowUpdated(uint32 previousWindow, uint32 newWindow);
+    event MaxPriceDeviationUpdated(uint256 previousBps, uint256 newBps);
+    event PaymentMethodPauseUpdated(PaymentMethod indexed method, bool paused);
+    event TreasuryUpdated(address treasury, uint256 shareBps, bool keepsUsdc);
+    event PaymentTokenRouteSet(address indexed token, address[] path);
+    event PaymentTokenRemoved(address indexed token);
+    event DirectR1PathSet(address indexed token, address[] path);
+    event StablecoinSet(
+        address indexed token,
+        uint8 decimals,
+        uint16 maxDepegBps,
+        address[] r1Path
+    );
+    event StablecoinRemoved(address indexed token);
+    event PaymentEscrowed(
+        bytes32 indexed uploadRef,
+        address indexed payer,
+        uint256 r1Amount,
+        uint64 reclaimableAt
+    );
+    event EscrowSettled(
+        bytes32 indexed uploadRef,
+        uint256 burnedR1Amount,
+        uint256 treasuryR1Amount
+    );
+    event EscrowRefunded(
+        bytes32 indexed uploadRef,
+        address indexed payer,
+        uint256 r1Amount
+    );
+    event EscrowReclaimed(
+        bytes32 indexed uploadRef,
+        address indexed payer,
+        uint256 r1Amount
+    );
+    event EscrowTimeoutUpdated(uint32 previousTimeout, uint32 newTimeout);
+    event SwapAdapterUpdated(address previousAdapter, address newAdapter);
+    event PriceChangeDelayUpdated(uint32 previousDelay, uint32 newDelay);
+    event MaxPriceChangeRatioUpdated(uint256 previousBps, uint256 newBps);
+
+    /**
+     * @dev Runs the current call on `target` in the context of the proxy and
+     * bubbles up its result.
+     */
+    function _delegate(address target) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+
+    function _legacyOwnable()
+        internal
+        pure
+        returns (LegacyOwnableStorage storage $)
+    {
+        assembly {
+            $.slot := LEGACY_OWNABLE_STORAGE
+        }
+    }
+
+    /**
+     * @dev Prices `usdcAmount` at the R1/USDC time-weighted average price. The
+     * adapter oracle averages the last window. Otherwise the average starts at
+     * the newest observation of `uniswapPair` that is at least one window old,
+     * so it always covers between one and two windows once warmed up.
+     */
+    function _calculateR1Amount(
+        uint256 usdcAmount
+    ) internal view returns (uint256) {
+        if (adapterOracle) {
+            return _consultAdapter(usdcAmount, twapWindow);
+        }
+
+        (
+            uint256 priceCumulative,
+            uint32 blockTimestamp
+        ) = _currentPriceCumulative();
+
+        TwapObservation memory observation = _twapLatest;
+        uint32 elapsed;
+        unchecked {
+            elapsed = blockTimestamp - observation.timestamp;
+        }
+        if (elapsed < twapWindow) {
+            observation = _twapPrevious;
+            unchecked {
+                elapsed = blockTimestamp - observation.timestamp;
+            }
+        }
+
+        if (observation.timestamp == 0 || elapsed == 0) {
+            // Nothing has been averaged yet (bootstrap block): fall back to spot.
+            return _calculateSpotR1Amount(usdcAmount);
+        }
+
+        uint256 cumulativeDelta;
+        unchecked {
+            cumulativeDelta = priceCumulative - observation.priceCumulative;
+        }
+        return
+            Math.mulDiv(usdcAmount, cumulativeDelta, uint256(elapsed) << 112);
+    }
+
+    function _calculateSpotR1Amount(
+        uint256 usdcAmount
+    ) internal view returns (uint256) {
+        if (adapterOracle) {
+            return _consultAdapter(usdcAmount, 0);
+        }
+        (uint256 reserveUsdc, uint256 reserveR1) = _getOrderedReserves();
+        require(reserveUsdc > 0 && reserveR1 > 0, "Manager3send: empty pool");
+        return (usdcAmount * reserveR1) / reserveUsdc;
+    }
+
+    function _consultAdapter(
+        uint256 usdcAmount,
+        uint32 secondsAgo
+    ) internal view returns (uint256) {
+        return
+            swapAdapter.consult(
+                address(usdcToken),
+                address(r1Token),
+                usdcAmount,
+                secondsAgo
+            );
+    }
+
+    /**
+     * @dev Counterfactual R1-per-USDC cumulative price at the current block,
+     * mirroring UniswapV2OracleLibrary so no pair sync is needed.
+     */
+    function _currentPriceCumulative()
+        internal
+        view
+        returns (uint256 priceCumulative, uint32 blockTimestamp)
+    {
+        IUniswapV2Pair pair = uniswapPair;
+        blockTimestamp = uint32(block.timestamp);
+
+        (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast) = pair
+            .getReserves();
+        bool usdcIsToken0 = pair.token0() == address(usdcToken);
+        priceCumulative =
+            usdcIsToken0
+                ? pair.price0CumulativeLast()
+                : pair.price1CumulativeLast();
+
+        if (
+            blockTimestampLast != blockTimestamp && reserve0 > 0 && reserve1 > 0
+        ) {
+            (uint256 reserveUsdc, uint256 reserveR1) = usdcIsToken0
+                ? (uint256(reserve0), uint256(reserve1))
+                : (uint256(reserve1), uint256(reserve0));
+            unchecked {
+                uint32 timeElapsed = blockTimestamp - blockTimestampLast;
+                priceCumulative +=
+                    ((reserveR1 << 112) / reserveUsdc) * timeElapsed;
+            }
+        }
+    }
+
+    /**
+     * @dev Payments are guarded by the price of the pool they swap in: the
+     * observations of `uniswapPair` for adapters swapping USDC for R1 there,
+     * otherwise the oracle of the adapter's pool, which has to average a whole
+     * `twapWindow` already.
+     */
+    function _setSwapAdapter(address newAdapter) internal {
+        require(newAdapter != address(0), "Manager3send: adapter is zero");
+        address usdc = address(usdcToken);
+        address r1 = address(r1Token);
+        bool useAdapterOracle =
+            ISwapAdapter(newAdapter).pool(usdc, r1) != address(uniswapPair);
+        if (useAdapterOracle) {
+            try
+                ISwapAdapter(newAdapter).consult(
+                    usdc,
+                    r1,
+                    USDC_UNIT,
+                    twapWindow
+                )
+            returns (uint256 r1Amount) {
+                require(r1Amount > 0, "Manager3send: adapter cannot price R1");
+            } catch {
+                revert("Manager3send: adapter cannot price R1");
+            }
+        }
+        emit SwapAdapterUpdated(address(swapAdapter), newAdapter);
+        swapAdapter = ISwapAdapter(newAdapter);
+        adapterOracle = useAdapterOracle;
+    }
+
+    function _setTwapWindow(uint32 newWindow) internal {
+        twapWindow = newWindow;
+    }
+
+    function _setMaxPriceDeviationBps(uint256 newBps) internal {
+        maxPriceDeviationBps = newBps;
+    }
+
+    function _deviationBps(
+        uint256 spotAmount,
+        uint256 twapAmount
+    ) internal pure returns (uint256) {
+        if (twapAmount == 0) {
+            return spotAmount == 0 ? 0 : BPS_DENOMINATOR;
+        }
+        uint256 difference =
+            spotAmount > twapAmount
+                ? spotAmount - twapAmount
+                : twapAmount - spotAmount;
+        return (difference * BPS_DENOMINATOR) / twapAmount;
+    }
+
+    function _validateUsdcPath(
+        address paymentToken,
+        address[] memory paymentToUsdcPath
+    ) internal view {
+        uint256 pathLength = paymentToUsdcPath.length;
+        require(pathLength >= 2, "Manager3send: invalid path");
+        require(
+            paymentToUsdcPath[0] == paymentToken,
+            "Manager3send: path mismatch"
+        );
+        require(
+            paymentToUsdcPath[pathLength - 1] == address(usdcToken),
+            "Manager3send: path must end in USDC"
+        );
+    }
+
+    /**
+     * @dev Canonical router path from a registered payment token to USDC.
+     */
+    function _paymentTokenRoute(
+        address token
+    ) internal view returns (address[] memory path) {
+        require(
+            _paymentTokens.contains(token),
+            "Manager3send: token not accepted"
+        );
+        if (_paymentTokenViaWeth[token]) {
+            path = new address[](3);
+            path[1] = weth;
+        } else {
+            path = new address[](2);
+        }
+        path[0] = token;
+        path[path.length - 1] = address(usdcToken);
+    }
+
+    function _directR1Path(
+        address token
+    ) internal view returns (address[] memory path) {
+        path = _directR1Paths[token];
+        require(path.length > 0, "Manager3send: no direct path");
+    }
+
+    function _stablecoinConfig(
+        address token
+    ) internal view returns (StablecoinConfig storage config) {
+        require(
+            _stablecoins.contains(token),
+            "Manager3send: stablecoin not accepted"
+        );
+        config = _stablecoinConfigs[token];
+    }
+
+    /**
+     * @dev Amount of a stablecoin with `decimals` worth `usdcAmount`, rounded
+     * up so payments never fall short of the USDC price.
+     */
+    function _stablecoinAmount(
+        uint256 usdcAmount,
+        uint8 decimals
+    ) internal pure returns (uint256) {
+        if (decimals >= 6) {
+            return usdcAmount * 10 ** (decimals - 6);
+        }
+        return Math.ceilDiv(usdcAmount, 10 ** (6 - decimals));
+    }
+
+    function _addTier(
+        string memory name,
+        uint256 usdcPrice,
+        uint256 maxUploadSize
+    ) internal returns (uint256 tierId) {
+        require(bytes(name).length > 0, "Manager3send: tier name is empty");
+        require(
+            usdcPrice > 0 ||
+                (maxUploadSize > 0 && _priceCurve.breakpoints.length > 0),
+            "Manager3send: tier price is zero"
+        );
+
+        tierId = tierCount++;
+        _tiers[tierId] = TierInfo(tierId, name, usdcPrice, true, maxUploadSize);
+        emit TierAdded(tierId, name, usdcPrice, maxUploadSize);
+    }
+
+    function _existingTier(
+        uint256 tierId
+    ) internal view returns (TierInfo storage) {
+        require(tierId < tierCount, "Manager3send: unknown tier");
+        return _tiers[tierId];
+    }
+
+    function _activeTierPrice(uint256 tierId) internal view returns (uint256) {
+        TierInfo storage tier = _existingTier(tierId);
+        require(tier.active, "Manager3send: tier is disabled");
+        return _tierPrice(tier);
+    }
+
+    /**
+     * @dev Price of `tierId` for `account`: its partner price when one is
+     * set below the list price.
+     */
+    function _payerPrice(
+        address account,
+        uint256 tierId
+    ) internal view returns (uint256 usdcAmount) {
+        usdcAmount = _activeTierPrice(tierId);
+        uint256 partnerPrice = partnerPrices[account][tierId];
+        if (partnerPrice > 0 && partnerPrice < usdcAmount) {
+            usdcAmount = partnerPrice;
+        }
+    }
+
+    function _tierPrice(TierInfo storage tier) internal view returns (uint256) {
+        if (tier.usdcPrice == 0) {
+            return _curvePrice(_priceCurve, tier.maxUploadSize);
+        }
+        return tier.usdcPrice;
+    }
+
+    /**
+     * @dev Prices `size` bytes on `curve`, rounding the per-MB part up to the
+     * next USDC unit.
+     */
+    function _curvePrice(
+        PriceCurve storage curve,
+        uint256 size
+    ) internal view returns (uint256 usdcAmount) {
+        PriceBreakpoint[] storage breakpoints = curve.breakpoints;
+        uint256 count = breakpoints.length;
+        require(count > 0, "Manager3send: no price curve");
+        require(size > 0, "Manager3send: size is zero");
+
+        uint256 scaledAmount;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 start = breakpoints[i].fromBytes;
+            if (size <= start) {
+                break;
+            }
+            uint256 end =
+                i + 1 < count
+                    ? Math.min(size, breakpoints[i + 1].fromBytes)
+                    : size;
+            scaledAmount += (end - start) * breakpoints[i].usdcPerMb;
+        }
+
+        usdcAmount = curve.baseFee + Math.ceilDiv(scaledAmount, BYTES_PER_MB);
+        if (curve.maxPrice > 0 && usdcAmount > curve.maxPrice) {
+            usdcAmount = curve.maxPrice;
+        }
+    }
+
+    /**
+     * @dev Validates `curve` and copies it into `target`. A curve without
+     * breakpoints turns size pricing off.
+     */
+    function _setPriceCurve(
+        PriceCurve storage target,
+        PriceCurve calldata curve
+    ) internal {
+        PriceBreakpoint[] calldata breakpoints = curve.breakpoints;
+        if (breakpoints.length > 0) {
+            require(curve.baseFee > 0, "Manager3send: base fee is zero");
+            require(
+                curve.maxPrice == 0 || curve.maxPrice >= curve.baseFee,
+                "Manager3send: cap below base fee"
+            );
+            require(
+                breakpoints[0].fromBytes == 0,
+                "Manager3send: curve must start at zero"
+            );
+        }
+
+        target.baseFee = curve.baseFee;
+        target.maxPrice = curve.maxPrice;
+        delete target.breakpoints;
+        for (uint256 i = 0; i < breakpoints.length; i++) {
+            require(
+                i == 0 ||
+                    breakpoints[i].fromBytes > breakpoints[i - 1].fromBytes,
+                "Manager3send: breakpoints not ascending"
+            );
+            target.breakpoints.push(breakpoints[i]);
+        }
+    }
+
+    function _existingSubscriptionPlan(
+        uint256 planId
+    ) internal view returns (SubscriptionPlan storage) {
+        require(
+            planId < subscriptionPlanCount,
+            "Manager3send: unknown subscription plan"
+        );
+        return _subscriptionPlans[planId];
+    }
+
+    /**
+     * @dev Expiry of `account`'s subscription to the plan's tier after buying
+     * `periods` more periods: stacked onto a running subscription, counted
+     * from now otherwise.
+     */
+    function _stackedExpiry(
+        address account,
+        SubscriptionPlan storage plan,
+        uint256 periods
+    ) internal view returns (uint64) {
+        return
+            SafeCast.toUint64(
+                Math.max(
+                    subscriptionExpiry[account][plan.tierId],
+                    block.timestamp
+                ) + plan.duration * periods
+            );
+    }
+
+    /// @dev Reverts unless both prices are within `maxPriceChangeRatioBps`.
+    function _checkPriceChangeRatio(
+        uint256 currentAmount,
+        uint256 newAmount
+    ) internal view {
+        require(
+            newAmount * BPS_DENOMINATOR <=
+                currentAmount * maxPriceChangeRatioBps &&
+                currentAmount * BPS_DENOMINATOR <=
+                    newAmount * maxPriceChangeRatioBps,
+            "Manager3send: price change too large"
+        );
+    }
+
+    function _updatePriceCurve(PriceCurve calldata curve) internal {
+        _setPriceCurve(_priceCurve, curve);
+        emit PriceCurveUpdated(curve);
+    }
+
+    function _getOrderedReserves()
+        internal
+        view
+        returns (uint256 reserveUsdc, uint256 reserveR1)
+    {
+        IUniswapV2Pair pair = uniswapPair;
+        require(
+            address(pair) != address(0),
+            "Manager3send: pair address is zero"
+        );
+
+        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
+        address token0 = pair.token0();
+        address token1 = pair.token1();
+
+        if (token0 == address(usdcToken) && token1 == address(r1Token)) {
+            reserveUsdc = uint256(reserve0);
+            reserveR1 = uint256(reserve1);
+        } else if (token0 == address(r1Token) && token1 == address(usdcToken)) {
+            reserveUsdc = uint256(reserve1);
+            reserveR1 = uint256(reserve0);
+        } else {
+            revert("Manager3send: pair tokens mismatch");
+        }
+    }
+}
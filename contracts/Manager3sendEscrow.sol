@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./Manager3sendSettlement.sol";
+
+/**
+ * @notice Escrow of {Manager3send} payments: while `escrowTimeout` is set,
+ * tier and sized payments hold their R1 instead of burning it. Operators
+ * settle a payment once its upload is stored, or refund it when the upload
+ * failed; after the timeout its payer can reclaim it. Refunds and reclaims
+ * give back the use of a discount voucher the payment redeemed.
+ *
+ * Credit purchases and subscriptions are not escrowed: they buy access
+ * ahead of any upload, so there is no upload whose storage could settle or
+ * refund them. The uploads they later cover carry no payment of their own.
+ *
+ * Only meant to be reached through the {Manager3send} fallback, which
+ * delegatecalls here with the proxy storage.
+ */
+contract Manager3sendEscrow is Manager3sendSettlement {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Holds new payments in escrow for `newTimeout` seconds, or burns
+     * them right away when zero. Payments already held keep their timeout.
+     */
+    function setEscrowTimeout(
+        uint32 newTimeout
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            newTimeout <= MAX_ESCROW_TIMEOUT,
+            "Manager3send: escrow timeout too long"
+        );
+        uint32 previousTimeout = escrowTimeout;
+        escrowTimeout = newTimeout;
+        emit EscrowTimeoutUpdated(previousTimeout, newTimeout);
+    }
+
+    /**
+     * @notice Burns the R1 held for the payment of `uploadRef`, sending the
+     * treasury share and accruing the referral reward as payments outside
+     * escrow do. Only possible before the payer can reclaim it.
+     */
+    function settleEscrow(
+        bytes32 uploadRef
+    ) external nonReentrant onlyRole(OPERATOR_ROLE) {
+        Escrow storage escrow = _heldEscrow(uploadRef);
+        require(
+            block.timestamp < escrow.reclaimableAt,
+            "Manager3send: escrow expired"
+        );
+        escrow.status = EscrowStatus.Settled;
+
+        Receipt storage receipt = _receipts[uploadRef];
+        totalEscrowedR1 -= receipt.r1Amount;
+        (uint256 burnedR1Amount, uint256 treasuryR1Amount) = _burnR1(
+            receipt.payer,
+            receipt.r1Amount,
+            0
+        );
+        emit EscrowSettled(uploadRef, burnedR1Amount, treasuryR1Amount);
+    }
+
+    /**
+     * @notice Returns the R1 held for the payment of `uploadRef` to its payer,
+     * e.g. when the upload could not be stored. The upload can be paid again.
+     */
+    function refundEscrow(
+        bytes32 uploadRef
+    ) external nonReentrant onlyRole(OPERATOR_ROLE) {
+        _heldEscrow(uploadRef);
+        (address payer, uint256 r1Amount) = _releaseEscrow(uploadRef);
+        emit EscrowRefunded(uploadRef, payer, r1Amount);
+    }
+
+    /**
+     * @notice Lets the payer take back the R1 of a payment operators neither
+     * settled nor refunded before its escrow timed out.
+     */
+    function reclaimEscrow(bytes32 uploadRef) external nonReentrant {
+        Escrow storage escrow = _heldEscrow(uploadRef);
+        require(
+            _receipts[uploadRef].payer == _msgSender(),
+            "Manager3send: not the payer"
+        );
+        require(
+            block.timestamp >= escrow.reclaimableAt,
+            "Manager3send: escrow not expired"
+        );
+        (address payer, uint256 r1Amount) = _releaseEscrow(uploadRef);
+        emit EscrowReclaimed(uploadRef, payer, r1Amount);
+    }
+
+    /**
+     * @notice Returns the escrow of the payment of `uploadRef`; its status is
+     * `None` for payments burned right away, refunded or never made.
+     */
+    function getEscrow(
+        bytes32 uploadRef
+    ) external view returns (Escrow memory) {
+        return _escrows[uploadRef];
+    }
+
+    function _heldEscrow(
+        bytes32 uploadRef
+    ) internal view returns (Escrow storage escrow) {
+        escrow = _escrows[uploadRef];
+        require(
+            escrow.status == EscrowStatus.Held,
+            "Manager3send: payment not in escrow"
+        );
+    }
+
+    /**
+     * @dev Sends the R1 held for `uploadRef` back to its payer and erases the
+     * payment, so the upload can be paid again, along with the use of the
+     * voucher it redeemed.
+     */
+    function _releaseEscrow(
+        bytes32 uploadRef
+    ) internal returns (address payer, uint256 r1Amount) {
+        Receipt storage receipt = _receipts[uploadRef];
+        payer = receipt.payer;
+        r1Amount = receipt.r1Amount;
+        bytes32 voucherCode = _escrows[uploadRef].voucherCode;
+        if (voucherCode != bytes32(0)) {
+            discountVoucherUses[voucherCode]--;
+        }
+        delete _receipts[uploadRef];
+        delete _escrows[uploadRef];
+
+        totalEscrowedR1 -= r1Amount;
+        totalRefundedR1 += r1Amount;
+        IERC20(address(r1Token)).safeTransfer(payer, r1Amount);
+    }
+}
@@ -0,0 +1,730 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "./Manager3sendBase.sol";
+
+/**
+ * @notice Role-gated configuration plus read-only views of
+ * {Manager3send}. Only meant to be reached through the {Manager3send}
+ * fallback, which delegatecalls here with the proxy storage.
+ */
+contract Manager3sendExtension is Manager3sendBase, ReentrancyGuardUpgradeable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Stops every payment method. Views and credit consumption keep
+     * working.
+     */
+    function pause() external onlyRole(GUARDIAN_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Lifts the global pause. Admin only, so a compromised guardian
+     * can stop payments but never resume them.
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @notice Pauses or resumes a single payment method; the guardian may
+     * only pause.
+     */
+    function setPaymentMethodPaused(
+        PaymentMethod method,
+        bool paused_
+    ) external {
+        _checkRole(paused_ ? GUARDIAN_ROLE : DEFAULT_ADMIN_ROLE);
+        require(
+            paymentMethodPaused[method] != paused_,
+            "Manager3send: pause status unchanged"
+        );
+        paymentMethodPaused[method] = paused_;
+        emit PaymentMethodPauseUpdated(method, paused_);
+    }
+
+    function setUploader(
+        address account,
+        bool allowed
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(account != address(0), "Manager3send: uploader is zero");
+        uploaders[account] = allowed;
+        emit UploaderUpdated(account, allowed);
+    }
+
+    /**
+     * @notice Sends `shareBps` of every payment to `newTreasury` and burns the
+     * rest. With `keepsUsdc`, payments made in USDC, ETH or other tokens pay
+     * the share in USDC before it is swapped into R1.
+     */
+    function setTreasury(
+        address newTreasury,
+        uint256 shareBps,
+        bool keepsUsdc
+    ) external onlyRole(TREASURY_ROLE) {
+        require(
+            shareBps <= MAX_TREASURY_SHARE_BPS,
+            "Manager3send: treasury share too high"
+        );
+        require(
+            newTreasury != address(0) || shareBps == 0,
+            "Manager3send: treasury is zero"
+        );
+        _requireSharesWithinPayment(shareBps, referralShareBps);
+        treasury = newTreasury;
+        treasuryShareBps = shareBps;
+        treasuryKeepsUsdc = keepsUsdc;
+        emit TreasuryUpdated(newTreasury, shareBps, keepsUsdc);
+    }
+
+    /**
+     * @notice Accrues `shareBps` of the R1 of every payment to the payer's
+     * referrer, taken before the burn.
+     */
+    function setReferralShareBps(
+        uint256 shareBps
+    ) external onlyRole(TREASURY_ROLE) {
+        require(
+            shareBps <= MAX_REFERRAL_SHARE_BPS,
+            "Manager3send: referral share too high"
+        );
+        _requireSharesWithinPayment(treasuryShareBps, shareBps);
+        uint256 previousBps = referralShareBps;
+        referralShareBps = shareBps;
+        emit ReferralShareUpdated(previousBps, shareBps);
+    }
+
+    /**
+     * @dev The treasury and referral shares are both taken out of the same
+     * payment. Their caps keep the sum below the payment today; this keeps it
+     * so should either cap be raised.
+     */
+    function _requireSharesWithinPayment(
+        uint256 treasuryBps,
+        uint256 referralBps
+    ) internal pure {
+        require(
+            treasuryBps + referralBps <= BPS_DENOMINATOR,
+            "Manager3send: shares exceed payment"
+        );
+    }
+
+    /**
+     * @notice Names the referrer earning on every later payment of the
+     * caller. Set once; an account cannot refer itself nor its own referrer.
+     * Longer cycles are allowed: rewards only go to the payer's direct
+     * referrer, never up the chain, so a cycle earns its members nothing
+     * their payments would not already pay them.
+     */
+    function setReferrer(address referrer) external {
+        address account = _msgSender();
+        require(referrer != address(0), "Manager3send: referrer is zero");
+        require(referrer != account, "Manager3send: self-referral");
+        require(
+            referrers[account] == address(0),
+            "Manager3send: referrer already set"
+        );
+        require(
+            referrers[referrer] != account,
+            "Manager3send: circular referral"
+        );
+        referrers[account] = referrer;
+        emit ReferrerSet(account, referrer);
+    }
+
+    function claimReferralRewards()
+        external
+        nonReentrant
+        returns (uint256 r1Amount)
+    {
+        r1Amount = referralRewards[_msgSender()];
+        require(r1Amount > 0, "Manager3send: no referral rewards");
+        referralRewards[_msgSender()] = 0;
+        IERC20(address(r1Token)).safeTransfer(_msgSender(), r1Amount);
+        emit ReferralRewardsClaimed(_msgSender(), r1Amount);
+    }
+
+    /**
+     * @notice Accepts `token` in {Manager3sendPurchases-payWithToken}, routed
+     * to USDC through WETH when `viaWeth` is set and directly otherwise.
+     * Updates the route of tokens already accepted.
+     */
+    function setPaymentToken(
+        address token,
+        bool viaWeth
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(token != address(0), "Manager3send: token is zero");
+        require(
+            token != address(usdcToken) && token != address(r1Token),
+            "Manager3send: token has its own method"
+        );
+        require(!viaWeth || token != weth, "Manager3send: invalid route");
+
+        _paymentTokens.add(token);
+        _paymentTokenViaWeth[token] = viaWeth;
+        emit PaymentTokenRouteSet(token, _paymentTokenRoute(token));
+    }
+
+    function removePaymentToken(
+        address token
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(
+            _paymentTokens.remove(token),
+            "Manager3send: token not accepted"
+        );
+        delete _paymentTokenViaWeth[token];
+        emit PaymentTokenRemoved(token);
+    }
+
+    /**
+     * @notice Sets the path `token` is swapped along by the direct payment
+     * methods, from `token` (WETH for native ETH) straight into R1. An empty
+     * path disables direct payments with `token`.
+     */
+    function setDirectR1Path(
+        address token,
+        address[] calldata path
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(token != address(0), "Manager3send: token is zero");
+        require(
+            token != address(usdcToken) && token != address(r1Token),
+            "Manager3send: token has its own method"
+        );
+        if (path.length > 0) {
+            require(
+                path.length >= 2 && path[0] == token,
+                "Manager3send: invalid route"
+            );
+            require(
+                path[path.length - 1] == address(r1Token),
+                "Manager3send: path must end in R1"
+            );
+        }
+
+        _directR1Paths[token] = path;
+        emit DirectR1PathSet(token, path);
+    }
+
+    /**
+     * @notice Accepts `token` in
+     * {Manager3sendPurchases-transferPaymentWithStablecoin} at face value,
+     * scaled to its decimals, or updates its settings. Payments are swapped
+     * into R1 along `r1Path`, e.g. through USDC or straight into R1, and
+     * revert while the `token`/USDC pool prices `token` more than
+     * `maxDepegBps` below USDC; zero turns that guard off. The limit has to
+     * leave room for the pool fee.
+     */
+    function setStablecoin(
+        address token,
+        address[] calldata r1Path,
+        uint16 maxDepegBps
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(token != address(0), "Manager3send: token is zero");
+        require(
+            token != address(usdcToken) && token != address(r1Token),
+            "Manager3send: token has its own method"
+        );
+        require(
+            r1Path.length >= 2 && r1Path[0] == token,
+            "Manager3send: invalid route"
+        );
+        require(
+            r1Path[r1Path.length - 1] == address(r1Token),
+            "Manager3send: path must end in R1"
+        );
+        require(
+            maxDepegBps < BPS_DENOMINATOR,
+            "Manager3send: invalid depeg guard"
+        );
+        uint8 decimals = IERC20Metadata(token).decimals();
+        require(decimals <= 18, "Manager3send: unsupported decimals");
+
+        _stablecoins.add(token);
+        _stablecoinConfigs[token] = StablecoinConfig(
+            decimals,
+            maxDepegBps,
+            r1Path
+        );
+        emit StablecoinSet(token, decimals, maxDepegBps, r1Path);
+    }
+
+    function removeStablecoin(
+        address token
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(
+            _stablecoins.remove(token),
+            "Manager3send: stablecoin not accepted"
+        );
+        delete _stablecoinConfigs[token];
+        emit StablecoinRemoved(token);
+    }
+
+    /**
+     * @notice Switches the DEX backend of every swap. Adapters swapping USDC
+     * for R1 through another pool than `uniswapPair` also price R1 from that
+     * pool's oracle, which must already cover a whole TWAP window.
+     */
+    function setSwapAdapter(
+        address newAdapter
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setSwapAdapter(newAdapter);
+    }
+
+    function addTier(
+        string calldata name,
+        uint256 usdcPrice,
+        uint256 maxUploadSize
+    ) external onlyRole(PRICE_MANAGER_ROLE) returns (uint256) {
+        return _addTier(name, usdcPrice, maxUploadSize);
+    }
+
+    /**
+     * @notice Announces a new tier price, applicable from `effectiveAt` once at
+     * least `priceChangeDelay` away, and within `maxPriceChangeRatioBps` of
+     * the current price. Replaces any price already pending for the tier.
+     */
+    function proposeTierPrice(
+        uint256 tierId,
+        uint256 newAmount,
+        uint64 effectiveAt
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(newAmount > 0, "Manager3send: amount is zero");
+        uint256 currentAmount = _existingTier(tierId).usdcPrice;
+        require(currentAmount > 0, "Manager3send: tier priced by curve");
+        require(
+            effectiveAt >= block.timestamp + priceChangeDelay,
+            "Manager3send: effective time too early"
+        );
+        _checkPriceChangeRatio(currentAmount, newAmount);
+
+        pendingTierPrices[tierId] = PendingTierPrice(newAmount, effectiveAt);
+        emit TierPriceChangeProposed(
+            tierId,
+            currentAmount,
+            newAmount,
+            effectiveAt
+        );
+    }
+
+    function cancelTierPrice(
+        uint256 tierId
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        uint256 newAmount = _pendingTierPrice(tierId).usdcPrice;
+        delete pendingTierPrices[tierId];
+        emit TierPriceChangeCancelled(tierId, newAmount);
+    }
+
+    /**
+     * @notice Applies the pending price of a tier once it is effective. Open to
+     * anyone, since the change was announced in advance.
+     */
+    function applyTierPrice(uint256 tierId) external {
+        PendingTierPrice memory pending = _pendingTierPrice(tierId);
+        require(
+            block.timestamp >= pending.effectiveAt,
+            "Manager3send: price change not effective"
+        );
+        delete pendingTierPrices[tierId];
+
+        TierInfo storage tier = _tiers[tierId];
+        uint256 previousAmount = tier.usdcPrice;
+        tier.usdcPrice = pending.usdcPrice;
+        emit TierPriceUpdated(tierId, previousAmount, pending.usdcPrice);
+    }
+
+    /**
+     * @notice Admin only, so price managers cannot shorten their own notice
+     * period or widen the change bound.
+     */
+    function setPriceChangeDelay(
+        uint32 newDelay
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            newDelay <= MAX_PRICE_CHANGE_DELAY,
+            "Manager3send: delay too long"
+        );
+        uint32 previousDelay = priceChangeDelay;
+        priceChangeDelay = newDelay;
+        emit PriceChangeDelayUpdated(previousDelay, newDelay);
+    }
+
+    function setMaxPriceChangeRatioBps(
+        uint256 newBps
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newBps > BPS_DENOMINATOR, "Manager3send: ratio too low");
+        uint256 previousBps = maxPriceChangeRatioBps;
+        maxPriceChangeRatioBps = newBps;
+        emit MaxPriceChangeRatioUpdated(previousBps, newBps);
+    }
+
+    function disableTier(uint256 tierId) external onlyRole(PRICE_MANAGER_ROLE) {
+        _setTierActive(tierId, false);
+    }
+
+    function enableTier(uint256 tierId) external onlyRole(PRICE_MANAGER_ROLE) {
+        _setTierActive(tierId, true);
+    }
+
+    /**
+     * @notice Lets `account` pay `usdcPrice` for `tierId` while it is below
+     * the list price; zero removes the override. Takes effect immediately,
+     * since it can only lower what the partner pays.
+     */
+    function setPartnerPrice(
+        address account,
+        uint256 tierId,
+        uint256 usdcPrice
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(account != address(0), "Manager3send: partner is zero");
+        _existingTier(tierId);
+        partnerPrices[account][tierId] = usdcPrice;
+        emit PartnerPriceUpdated(account, tierId, usdcPrice);
+    }
+
+    /**
+     * @notice Stops a leaked or withdrawn discount voucher from being
+     * redeemed again.
+     */
+    function revokeDiscountVoucher(
+        bytes32 code
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(
+            !discountVoucherRevoked[code],
+            "Manager3send: voucher already revoked"
+        );
+        discountVoucherRevoked[code] = true;
+        emit DiscountVoucherRevoked(code);
+    }
+
+    function setTwapWindow(
+        uint32 newWindow
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(newWindow > 0, "Manager3send: TWAP window is zero");
+        require(
+            newWindow <= MAX_TWAP_WINDOW,
+            "Manager3send: TWAP window too long"
+        );
+        if (adapterOracle) {
+            // Reverts while the adapter's pool cannot average that long.
+            _consultAdapter(USDC_UNIT, newWindow);
+        }
+        uint32 previousWindow = twapWindow;
+        _setTwapWindow(newWindow);
+        emit TwapWindowUpdated(previousWindow, newWindow);
+    }
+
+    function setMaxPriceDeviationBps(
+        uint256 newBps
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(newBps > 0, "Manager3send: deviation is zero");
+        require(newBps <= BPS_DENOMINATOR, "Manager3send: deviation too high");
+        uint256 previousBps = maxPriceDeviationBps;
+        _setMaxPriceDeviationBps(newBps);
+        emit MaxPriceDeviationUpdated(previousBps, newBps);
+    }
+
+    /**
+     * @notice Returns the payment bound to `uploadRef`; `payer` is zero when the
+     * upload has not been paid.
+     */
+    function getReceipt(
+        bytes32 uploadRef
+    ) external view returns (Receipt memory) {
+        return _receipts[uploadRef];
+    }
+
+    /**
+     * @notice Returns a tier with `usdcPrice` set to its current price, taken
+     * from the price curve for tiers without a fixed price.
+     */
+    function getTier(
+        uint256 tierId
+    ) external view returns (TierInfo memory tier) {
+        tier = _existingTier(tierId);
+        tier.usdcPrice = _tierPrice(_tiers[tierId]);
+    }
+
+    /**
+     * @notice Lists every tier ever added, including disabled ones, at their
+     * current price (see {getTier}).
+     */
+    function getTiers() external view returns (TierInfo[] memory tiers) {
+        uint256 count = tierCount;
+        tiers = new TierInfo[](count);
+        for (uint256 i = 0; i < count; i++) {
+            tiers[i] = _tiers[i];
+            tiers[i].usdcPrice = _tierPrice(_tiers[i]);
+        }
+    }
+
+    function tierPrices(uint256 tierId) external view returns (uint256) {
+        return _tierPrice(_existingTier(tierId));
+    }
+
+    function getRequiredR1Amount(
+        uint256 tierId
+    ) external view returns (uint256) {
+        return _calculateR1Amount(_activeTierPrice(tierId));
+    }
+
+    /**
+     * @notice Quotes a tier at the current price for the caller, i.e. its
+     * partner price when it has one. `pendingUsdcAmount` and
+     * `pendingEffectiveAt` describe an announced list price change, both zero
+     * when none is pending.
+     */
+    function quotePayment(
+        uint256 tierId
+    )
+        external
+        view
+        returns (
+            uint256,
+            uint256 usdcAmount,
+            uint256 r1Amount,
+            uint256 pendingUsdcAmount,
+            uint64 pendingEffectiveAt
+        )
+    {
+        usdcAmount = _payerPrice(_msgSender(), tierId);
+        r1Amount = _calculateR1Amount(usdcAmount);
+        PendingTierPrice memory pending = pendingTierPrices[tierId];
+        return (
+            tierId,
+            usdcAmount,
+            r1Amount,
+            pending.usdcPrice,
+            pending.effectiveAt
+        );
+    }
+
+    /**
+     * @notice Quotes {Manager3sendPurchases-transferPaymentWithToken} for the
+     * caller along `paymentToUsdcPath`.
+     */
+    function quotePaymentWithToken(
+        uint256 tierId,
+        address paymentToken,
+        address[] calldata paymentToUsdcPath
+    )
+        external
+        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
+    {
+        return
+            _quoteWithToken(
+                _payerPrice(_msgSender(), tierId),
+                paymentToken,
+                paymentToUsdcPath
+            );
+    }
+
+    /**
+     * @notice Quotes {Manager3sendPurchases-payWithToken} for the caller along
+     * the registered route of `paymentToken`.
+     */
+    function quoteWithToken(
+        uint256 tierId,
+        address paymentToken
+    )
+        external
+        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
+    {
+        return
+            _quoteWithToken(
+                _payerPrice(_msgSender(), tierId),
+                paymentToken,
+                _paymentTokenRoute(paymentToken)
+            );
+    }
+
+    /**
+     * @notice Quotes {Manager3sendPurchases-payForSizeWithToken} along the
+     * registered route of `paymentToken`.
+     */
+    function quoteForSizeWithToken(
+        uint256 size,
+        address paymentToken
+    )
+        external
+        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
+    {
+        return
+            _quoteWithToken(
+                _curvePrice(_priceCurve, size),
+                paymentToken,
+                _paymentTokenRoute(paymentToken)
+            );
+    }
+
+    function getPaymentTokens() external view returns (address[] memory) {
+        return _paymentTokens.values();
+    }
+
+    function getPaymentTokenRoute(
+        address paymentToken
+    ) external view returns (address[] memory) {
+        return _paymentTokenRoute(paymentToken);
+    }
+
+    function getDirectR1Path(
+        address token
+    ) external view returns (address[] memory) {
+        return _directR1Paths[token];
+    }
+
+    function getStablecoins() external view returns (address[] memory) {
+        return _stablecoins.values();
+    }
+
+    function getStablecoin(
+        address token
+    ) external view returns (StablecoinConfig memory) {
+        return _stablecoinConfig(token);
+    }
+
+    /**
+     * @notice Quotes {Manager3sendPurchases-transferPaymentWithStablecoin} for
+     * the caller.
+     * @return r1Amount TWAP value of the tier, the reference for `minR1Amount`.
+     * @return tokenAmount Stablecoin pulled from the payer.
+     * @return usdcEquivalent The tier's USDC price for the caller.
+     */
+    function quoteWithStablecoin(
+        uint256 tierId,
+        address stablecoin
+    )
+        external
+        view
+        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
+    {
+        usdcEquivalent = _payerPrice(_msgSender(), tierId);
+        tokenAmount = _stablecoinAmount(
+            usdcEquivalent,
+            _stablecoinConfig(stablecoin).decimals
+        );
+        r1Amount = _calculateR1Amount(usdcEquivalent);
+    }
+
+    /**
+     * @notice Compares paying a tier with `token` (WETH for native ETH) through
+     * USDC against swapping it straight into R1, at the caller's price. A route that is not available
+     * for `token` reports zero amounts.
+     * @return usdcRouteAmount Input spent buying the tier's USDC price.
+     * @return usdcRouteR1Amount R1 that USDC currently swaps into.
+     * @return directRouteAmount Input spent on the direct path.
+     * @return directR1Amount R1 the direct path buys, the tier's TWAP value.
+     */
+    function compareTokenRoutes(
+        uint256 tierId,
+        address token
+    )
+        external
+        returns (
+            uint256 usdcRouteAmount,
+            uint256 usdcRouteR1Amount,
+            uint256 directRouteAmount,
+            uint256 directR1Amount
+        )
+    {
+        uint256 usdcAmount = _payerPrice(_msgSender(), tierId);
+
+        address[] memory usdcPath;
+        if (token == weth) {
+            usdcPath = new address[](2);
+            usdcPath[0] = weth;
+            usdcPath[1] = address(usdcToken);
+        } else if (_paymentTokens.contains(token)) {
+            usdcPath = _paymentTokenRoute(token);
+        }
+        if (usdcPath.length > 0) {
+            usdcRouteAmount = swapAdapter.quoteExactOutput(
+                usdcPath,
+                usdcAmount
+            );
+
+            address[] memory r1Path = new address[](2);
+            r1Path[0] = address(usdcToken);
+            r1Path[1] = address(r1Token);
+            usdcRouteR1Amount = swapAdapter.quoteExactInput(r1Path, usdcAmount);
+        }
+
+        address[] memory directPath = _directR1Paths[token];
+        if (directPath.length > 0) {
+            directR1Amount = _calculateR1Amount(usdcAmount);
+            directRouteAmount = swapAdapter.quoteExactOutput(
+                directPath,
+                directR1Amount
+            );
+        }
+    }
+
+    function getReserves()
+        external
+        view
+        returns (uint256 reserveUsdc, uint256 reserveR1)
+    {
+        return _getOrderedReserves();
+    }
+
+    /**
+     * @notice Compares the spot pool price against the TWAP for 1 USDC.
+     * @return spotR1Amount R1 received for 1 USDC at current reserves.
+     * @return twapR1Amount R1 charged for 1 USDC at the time-weighted price.
+     * @return deviationBps Absolute difference between both, in basis points of the TWAP.
+     */
+    function getPriceDeviation()
+        external
+        view
+        returns (
+            uint256 spotR1Amount,
+            uint256 twapR1Amount,
+            uint256 deviationBps
+        )
+    {
+        spotR1Amount = _calculateSpotR1Amount(USDC_UNIT);
+        twapR1Amount = _calculateR1Amount(USDC_UNIT);
+        deviationBps = _deviationBps(spotR1Amount, twapR1Amount);
+    }
+
+    function _quoteWithToken(
+        uint256 usdcAmount,
+        address paymentToken,
+        address[] memory paymentToUsdcPath
+    )
+        internal
+        returns (uint256 r1Amount, uint256 tokenAmount, uint256 usdcEquivalent)
+    {
+        require(paymentToken != address(0), "Manager3send: token is zero");
+
+        usdcEquivalent = usdcAmount;
+        _validateUsdcPath(paymentToken, paymentToUsdcPath);
+
+        tokenAmount = swapAdapter.quoteExactOutput(
+            paymentToUsdcPath,
+            usdcEquivalent
+        );
+        require(tokenAmount > 0, "Manager3send: quote input is zero");
+
+        r1Amount = _calculateR1Amount(usdcEquivalent);
+    }
+
+    function _pendingTierPrice(
+        uint256 tierId
+    ) internal view returns (PendingTierPrice memory pending) {
+        pending = pendingTierPrices[tierId];
+        require(pending.effectiveAt != 0, "Manager3send: no pending price");
+    }
+
+    function _setTierActive(uint256 tierId, bool active) internal {
+        TierInfo storage tier = _existingTier(tierId);
+        require(tier.active != active, "Manager3send: tier status unchanged");
+        tier.active = active;
+        emit TierStatusUpdated(tierId, active);
+    }
+}
@@ -0,0 +1,701 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./Manager3sendSettlement.sol";
+
+/**
+ * @notice Payment entry points of {Manager3send} beyond R1, USDC and ETH tier
+ * payments: tier payments with stablecoins and other tokens, along a direct
+ * R1 path or with a discount voucher, and uploads priced by size, together
+ * with the price curve. Only meant to be reached through the {Manager3send}
+ * fallback, which delegatecalls here with the proxy storage.
+ */
+contract Manager3sendPurchases is Manager3sendSettlement {
+    bytes32 private constant DISCOUNT_VOUCHER_TYPEHASH = keccak256(
+        "DiscountVoucher(bytes32 code,address account,uint16 discountBps,uint256 discountAmount,uint32 maxUses,uint64 expiresAt)"
+    );
+
+    /**
+     * @notice Pays for an upload of `size` bytes, priced on the size curve
+     * instead of a tier. The receipt records the size with tier id
+     * `SIZE_PRICED`.
+     * @param maxR1Amount Maximum R1 amount the caller is willing to spend.
+     */
+    function transferPaymentForSize(
+        uint256 size,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 maxR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        uint256 usdcAmount = _startSizedPayment(size, uploadRef);
+        uint256 r1Amount = _collectR1(_msgSender(), usdcAmount, maxR1Amount);
+        _completeSizedPayment(
+            size,
+            uploadRef,
+            recipient,
+            usdcAmount,
+            r1Amount,
+            0
+        );
+    }
+
+    function transferPaymentForSizeWithUSDC(
+        uint256 size,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        uint256 usdcAmount = _startSizedPayment(size, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectUSDC(
+            _msgSender(),
+            usdcAmount,
+            minR1Amount
+        );
+        _completeSizedPayment(
+            size,
+            uploadRef,
+            recipient,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    function transferPaymentForSizeWithETH(
+        uint256 size,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount
+    ) external payable nonReentrant whenPaymentMethodActive(PaymentMethod.ETH) {
+        uint256 usdcAmount = _startSizedPayment(size, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectETH(
+            usdcAmount,
+            minR1Amount
+        );
+        _completeSizedPayment(
+            size,
+            uploadRef,
+            recipient,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Pays for an upload of `size` bytes with a registered token,
+     * swapped into USDC along the route curated for it.
+     */
+    function payForSizeWithToken(
+        uint256 size,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        uint256 usdcAmount = _startSizedPayment(size, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectToken(
+            usdcAmount,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            _paymentTokenRoute(paymentToken)
+        );
+        _completeSizedPayment(
+            size,
+            uploadRef,
+            recipient,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Same as {Manager3send-transferPayment}, with the price reduced
+     * by a discount voucher signed by a price manager.
+     * @param voucher Promotion the payment redeems.
+     * @param signature Price manager signature over `voucher`.
+     */
+    function transferPaymentWithVoucher(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 maxR1Amount,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        uint256 usdcAmount = _startVoucherPayment(
+            tierId,
+            uploadRef,
+            voucher,
+            signature
+        );
+        uint256 r1Amount = _collectR1(_msgSender(), usdcAmount, maxR1Amount);
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            0
+        );
+    }
+
+    function transferPaymentWithUSDCAndVoucher(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        uint256 usdcAmount = _startVoucherPayment(
+            tierId,
+            uploadRef,
+            voucher,
+            signature
+        );
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectUSDC(
+            _msgSender(),
+            usdcAmount,
+            minR1Amount
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    function transferPaymentWithETHAndVoucher(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) external payable nonReentrant whenPaymentMethodActive(PaymentMethod.ETH) {
+        uint256 usdcAmount = _startVoucherPayment(
+            tierId,
+            uploadRef,
+            voucher,
+            signature
+        );
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectETH(
+            usdcAmount,
+            minR1Amount
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Same as {payWithToken}, with the price reduced by a discount
+     * voucher. Vouchers only apply to registered tokens.
+     */
+    function payWithTokenAndVoucher(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        uint256 usdcAmount = _startVoucherPayment(
+            tierId,
+            uploadRef,
+            voucher,
+            signature
+        );
+        _settleTokenPayment(
+            tierId,
+            uploadRef,
+            recipient,
+            usdcAmount,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount
+        );
+    }
+
+    function transferPaymentWithToken(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount,
+        address[] calldata paymentToUsdcPath
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        _payWithToken(
+            tierId,
+            uploadRef,
+            recipient,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            paymentToUsdcPath
+        );
+    }
+
+    /**
+     * @notice Pays with a registered token, swapped into USDC along the route
+     * curated for it (see {Manager3sendExtension-setPaymentToken}).
+     * @param maxPaymentAmount Maximum amount of `paymentToken` to spend.
+     * @param minR1Amount Minimum R1 the USDC must swap into.
+     */
+    function payWithToken(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        _payWithToken(
+            tierId,
+            uploadRef,
+            recipient,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            _paymentTokenRoute(paymentToken)
+        );
+    }
+
+    /**
+     * @notice Pays with an accepted stablecoin at face value: the tier's USDC
+     * price scaled to the stablecoin's decimals, swapped into R1 along the
+     * route set for it (see {Manager3sendExtension-setStablecoin}). With
+     * `treasuryKeepsUsdc`, the treasury share is paid in the stablecoin.
+     * @param minR1Amount Minimum R1 the stablecoin must swap into.
+     */
+    function transferPaymentWithStablecoin(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address stablecoin,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Stablecoin) {
+        uint256 usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectStablecoin(
+            _msgSender(),
+            stablecoin,
+            usdcAmount,
+            minR1Amount
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Pays with ETH swapped straight into R1 along the direct path
+     * configured for WETH, skipping the USDC hop. The swap buys exactly the R1
+     * the tier is worth at the TWAP and refunds unspent ETH. The treasury
+     * share, if any, is paid in R1.
+     */
+    function transferPaymentWithETHDirect(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 minR1Amount
+    ) external payable nonReentrant whenPaymentMethodActive(PaymentMethod.ETH) {
+        address[] memory path = _directR1Path(weth);
+        uint256 usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        uint256 r1Amount = _quoteR1AmountAbove(usdcAmount, minR1Amount);
+
+        _refundExcessETH(_swapETHForExact(r1Amount, path));
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            0
+        );
+    }
+
+    /**
+     * @notice Pays with `paymentToken` swapped straight into R1 along its
+     * configured direct path (see {Manager3sendExtension-setDirectR1Path}),
+     * buying exactly the R1 the tier is worth at the TWAP. The treasury share,
+     * if any, is paid in R1.
+     * @param maxPaymentAmount Maximum amount of `paymentToken` to spend.
+     * @param minR1Amount Minimum R1 the tier may be priced at.
+     */
+    function payWithTokenDirect(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        require(maxPaymentAmount > 0, "Manager3send: amount is zero");
+        address[] memory path = _directR1Path(paymentToken);
+        uint256 usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        uint256 r1Amount = _quoteR1AmountAbove(usdcAmount, minR1Amount);
+
+        _swapTokenForExact(
+            IERC20(paymentToken),
+            maxPaymentAmount,
+            path,
+            r1Amount
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            0
+        );
+    }
+
+    /**
+     * @notice Announces a new price curve, applicable from `effectiveAt` once
+     * at least `priceChangeDelay` away. Replaces any curve already pending.
+     * While a curve is configured, the new one must price a one-byte upload,
+     * uploads as large as each breakpoint of either curve and every tier
+     * without a fixed price within `maxPriceChangeRatioBps` of the current
+     * curve. A curve without breakpoints turns size pricing off, which also
+     * disables tiers without a fixed price.
+     */
+    function proposePriceCurve(
+        PriceCurve calldata curve,
+        uint64 effectiveAt
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        require(
+            effectiveAt >= block.timestamp + priceChangeDelay,
+            "Manager3send: effective time too early"
+        );
+        _setPriceCurve(_pendingPriceCurve, curve);
+        if (
+            _priceCurve.breakpoints.length > 0 && curve.breakpoints.length > 0
+        ) {
+            _checkCurvePriceChange(1);
+            _checkCurvePriceChanges(_priceCurve.breakpoints);
+            _checkCurvePriceChanges(_pendingPriceCurve.breakpoints);
+            for (uint256 tierId = 0; tierId < tierCount; tierId++) {
+                TierInfo storage tier = _tiers[tierId];
+                if (tier.usdcPrice == 0) {
+                    _checkCurvePriceChange(tier.maxUploadSize);
+                }
+            }
+        }
+        pendingPriceCurveEffectiveAt = effectiveAt;
+        emit PriceCurveChangeProposed(curve, effectiveAt);
+    }
+
+    function cancelPriceCurve() external onlyRole(PRICE_MANAGER_ROLE) {
+        _pendingPriceCurveEffectiveAt();
+        delete _pendingPriceCurve;
+        delete pendingPriceCurveEffectiveAt;
+        emit PriceCurveChangeCancelled();
+    }
+
+    /**
+     * @notice Applies the pending price curve once it is effective. Open to
+     * anyone, since the change was announced in advance.
+     */
+    function applyPriceCurve() external {
+        require(
+            block.timestamp >= _pendingPriceCurveEffectiveAt(),
+            "Manager3send: price change not effective"
+        );
+        _priceCurve = _pendingPriceCurve;
+        delete _pendingPriceCurve;
+        delete pendingPriceCurveEffectiveAt;
+        emit PriceCurveUpdated(_priceCurve);
+    }
+
+    function getPriceCurve() external view returns (PriceCurve memory) {
+        return _priceCurve;
+    }
+
+    function getPendingPriceCurve()
+        external
+        view
+        returns (PriceCurve memory curve, uint64 effectiveAt)
+    {
+        return (_pendingPriceCurve, pendingPriceCurveEffectiveAt);
+    }
+
+    /**
+     * @notice USDC price of an upload of `size` bytes on the price curve.
+     */
+    function getPriceForSize(uint256 size) external view returns (uint256) {
+        return _curvePrice(_priceCurve, size);
+    }
+
+    /**
+     * @notice Quotes an upload of `size` bytes on the price curve.
+     * `pendingUsdcAmount` and `pendingEffectiveAt` price it on an announced
+     * curve, both zero when none is pending.
+     */
+    function quotePaymentForSize(
+        uint256 size
+    )
+        external
+        view
+        returns (
+            uint256 usdcAmount,
+            uint256 r1Amount,
+            uint256 pendingUsdcAmount,
+            uint64 pendingEffectiveAt
+        )
+    {
+        usdcAmount = _curvePrice(_priceCurve, size);
+        r1Amount = _calculateR1Amount(usdcAmount);
+        pendingEffectiveAt = pendingPriceCurveEffectiveAt;
+        if (
+            pendingEffectiveAt != 0 && _pendingPriceCurve.breakpoints.length > 0
+        ) {
+            pendingUsdcAmount = _curvePrice(_pendingPriceCurve, size);
+        }
+    }
+
+    /**
+     * @notice Quotes `tierId` for `account`, at its partner price if it has
+     * one and after the discount of `voucher`, which is skipped when
+     * `signature` is empty. `discountUsdcAmount` is taken off the list price.
+     */
+    function quoteDiscountedPayment(
+        uint256 tierId,
+        address account,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    )
+        external
+        view
+        returns (
+            uint256 usdcAmount,
+            uint256 discountUsdcAmount,
+            uint256 r1Amount
+        )
+    {
+        usdcAmount = _payerPrice(account, tierId);
+        if (signature.length > 0) {
+            usdcAmount -= _voucherDiscount(
+                account,
+                usdcAmount,
+                voucher,
+                signature
+            );
+        }
+        discountUsdcAmount = _tierPrice(_tiers[tierId]) - usdcAmount;
+        r1Amount = _calculateR1Amount(usdcAmount);
+    }
+
+    function _payWithToken(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount,
+        address[] memory paymentToUsdcPath
+    ) internal {
+        uint256 usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectToken(
+            usdcAmount,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            paymentToUsdcPath
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    function _startSizedPayment(
+        uint256 size,
+        bytes32 uploadRef
+    ) internal view returns (uint256 usdcAmount) {
+        _checkUploadRef(uploadRef);
+        usdcAmount = _curvePrice(_priceCurve, size);
+    }
+
+    function _completeSizedPayment(
+        uint256 size,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 treasuryUsdcAmount
+    ) internal {
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            SIZE_PRICED,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+        _receipts[uploadRef].uploadSize = SafeCast.toUint64(size);
+    }
+
+    function _startVoucherPayment(
+        uint256 tierId,
+        bytes32 uploadRef,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) internal returns (uint256 usdcAmount) {
+        usdcAmount = _startPayment(_msgSender(), tierId, uploadRef);
+        uint256 discountUsdcAmount = _voucherDiscount(
+            _msgSender(),
+            usdcAmount,
+            voucher,
+            signature
+        );
+        discountVoucherUses[voucher.code]++;
+        if (escrowTimeout != 0) {
+            _escrows[uploadRef].voucherCode = voucher.code;
+        }
+        emit DiscountVoucherRedeemed(
+            voucher.code,
+            _msgSender(),
+            uploadRef,
+            discountUsdcAmount
+        );
+        usdcAmount -= discountUsdcAmount;
+    }
+
+    function _settleTokenPayment(
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 usdcAmount,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount
+    ) internal {
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectToken(
+            usdcAmount,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            _paymentTokenRoute(paymentToken)
+        );
+        _completePayment(
+            _msgSender(),
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @dev Checks that `account` may redeem `voucher` now and returns what it
+     * takes off `usdcAmount`. The payment has to keep a nonzero price.
+     */
+    function _voucherDiscount(
+        address account,
+        uint256 usdcAmount,
+        DiscountVoucher calldata voucher,
+        bytes calldata signature
+    ) internal view returns (uint256 discountUsdcAmount) {
+        require(
+            voucher.code != bytes32(0),
+            "Manager3send: voucher code is zero"
+        );
+        require(
+            block.timestamp <= voucher.expiresAt,
+            "Manager3send: voucher expired"
+        );
+        require(
+            !discountVoucherRevoked[voucher.code],
+            "Manager3send: voucher revoked"
+        );
+        require(
+            voucher.account == address(0) || voucher.account == account,
+            "Manager3send: voucher not for account"
+        );
+        require(
+            discountVoucherUses[voucher.code] < voucher.maxUses,
+            "Manager3send: voucher used up"
+        );
+        (address signer, , ) = ECDSA.tryRecover(
+            _hashTypedDataV4(
+                keccak256(abi.encode(DISCOUNT_VOUCHER_TYPEHASH, voucher))
+            ),
+            signature
+        );
+        require(
+            signer != address(0) && hasRole(PRICE_MANAGER_ROLE, signer),
+            "Manager3send: invalid voucher signature"
+        );
+
+        discountUsdcAmount =
+            (usdcAmount * voucher.discountBps) / BPS_DENOMINATOR +
+            voucher.discountAmount;
+        require(
+            discountUsdcAmount < usdcAmount,
+            "Manager3send: discount exceeds price"
+        );
+    }
+
+    function _pendingPriceCurveEffectiveAt()
+        internal
+        view
+        returns (uint64 effectiveAt)
+    {
+        effectiveAt = pendingPriceCurveEffectiveAt;
+        require(effectiveAt != 0, "Manager3send: no pending price curve");
+    }
+
+    /// @dev Checks uploads as large as each breakpoint but the first, which
+    /// starts at zero bytes.
+    function _checkCurvePriceChanges(
+        PriceBreakpoint[] storage breakpoints
+    ) internal view {
+        for (uint256 i = 1; i < breakpoints.length; i++) {
+            _checkCurvePriceChange(breakpoints[i].fromBytes);
+        }
+    }
+
+    /// @dev Compares the current and pending curve prices of `size` bytes.
+    function _checkCurvePriceChange(uint256 size) internal view {
+        _checkPriceChangeRatio(
+            _curvePrice(_priceCurve, size),
+            _curvePrice(_pendingPriceCurve, size)
+        );
+    }
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @notice Selector table of a {Manager3send} release: maps every function
+ * the implementation leaves to its fallback onto the logic contract
+ * implementing it. The table is fixed at deployment, and a selector can only
+ * be routed to a single module, so two modules can never both claim a call.
+ * Each release deploys its modules and a router for them.
+ */
+contract Manager3sendRouter {
+    address[] internal _modules;
+    mapping(address => bytes4[]) internal _selectors;
+
+    /// @notice Module running calls to `selector`, zero for unknown calls.
+    mapping(bytes4 => address) public moduleOf;
+
+    /**
+     * @param modules_ Logic contracts of the release.
+     * @param selectors Selectors each module runs, in the order of `modules_`.
+     */
+    constructor(address[] memory modules_, bytes4[][] memory selectors) {
+        require(
+            modules_.length == selectors.length,
+            "Manager3send: selectors length mismatch"
+        );
+        for (uint256 i = 0; i < modules_.length; i++) {
+            address module = modules_[i];
+            require(module != address(0), "Manager3send: module is zero");
+            require(
+                _selectors[module].length == 0,
+                "Manager3send: duplicate module"
+            );
+            for (uint256 j = 0; j < selectors[i].length; j++) {
+                bytes4 selector = selectors[i][j];
+                require(
+                    moduleOf[selector] == address(0),
+                    "Manager3send: selector collision"
+                );
+                moduleOf[selector] = module;
+            }
+            require(
+                selectors[i].length > 0,
+                "Manager3send: module has no selectors"
+            );
+            _modules.push(module);
+            _selectors[module] = selectors[i];
+        }
+    }
+
+    function modules() external view returns (address[] memory) {
+        return _modules;
+    }
+
+    function selectorsOf(
+        address module
+    ) external view returns (bytes4[] memory) {
+        return _selectors[module];
+    }
+}
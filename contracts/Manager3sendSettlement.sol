@@ -0,0 +1,487 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./Manager3sendBase.sol";
+
+/**
+ * @dev Collects payments in R1, USDC, ETH, stablecoins or other tokens, swaps
+ * them into R1 and settles the burn. Shared by {Manager3send} and
+ * {Manager3sendPurchases}, which both run against the proxy storage and
+ * verify EIP-712 signatures under the same domain.
+ */
+abstract contract Manager3sendSettlement is
+    Manager3sendBase,
+    ReentrancyGuardUpgradeable,
+    EIP712Upgradeable
+{
+    using SafeERC20 for IERC20;
+
+    modifier whenPaymentMethodActive(PaymentMethod method) {
+        _requirePaymentMethodActive(method);
+        _;
+    }
+
+    /**
+     * @dev Pulls the R1 worth `usdcAmount` from `payer` into this contract.
+     */
+    function _collectR1(
+        address payer,
+        uint256 usdcAmount,
+        uint256 maxR1Amount
+    ) internal returns (uint256 requiredR1) {
+        requiredR1 = _quoteR1AmountWithGuard(usdcAmount);
+        require(requiredR1 > 0, "Manager3send: computed amount is zero");
+        require(
+            requiredR1 <= maxR1Amount,
+            "Manager3send: slippage limit exceeded"
+        );
+
+        IERC20(address(r1Token)).safeTransferFrom(
+            payer,
+            address(this),
+            requiredR1
+        );
+    }
+
+    /**
+     * @dev Pulls `usdcAmount` USDC from `payer` and converts it with
+     * {_convertUSDC}.
+     */
+    function _collectUSDC(
+        address payer,
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256, uint256) {
+        _quoteR1AmountAbove(usdcAmount, minR1Amount);
+
+        usdcToken.safeTransferFrom(payer, address(this), usdcAmount);
+        return _convertUSDC(usdcAmount, minR1Amount);
+    }
+
+    /**
+     * @dev Swaps `msg.value` ETH into exactly `usdcAmount` USDC, refunds the
+     * unspent ETH and converts the USDC with {_convertUSDC}.
+     */
+    function _collectETH(
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256, uint256) {
+        _quoteR1AmountAbove(usdcAmount, minR1Amount);
+
+        _refundExcessETH(_swapETHForExactUSDC(usdcAmount));
+        return _convertUSDC(usdcAmount, minR1Amount);
+    }
+
+    /**
+     * @dev Swaps up to `maxPaymentAmount` of the caller's `paymentToken` into
+     * exactly `usdcAmount` USDC along `paymentToUsdcPath` and converts the USDC
+     * with {_convertUSDC}.
+     */
+    function _collectToken(
+        uint256 usdcAmount,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount,
+        address[] memory paymentToUsdcPath
+    ) internal returns (uint256, uint256) {
+        require(paymentToken != address(0), "Manager3send: token is zero");
+        require(maxPaymentAmount > 0, "Manager3send: amount is zero");
+        require(minR1Amount > 0, "Manager3send: min output is zero");
+
+        _validateUsdcPath(paymentToken, paymentToUsdcPath);
+        require(
+            minR1Amount <= _quoteR1AmountWithGuard(usdcAmount),
+            "Manager3send: min output too high"
+        );
+
+        _swapTokenForExact(
+            IERC20(paymentToken),
+            maxPaymentAmount,
+            paymentToUsdcPath,
+            usdcAmount
+        );
+        return _convertUSDC(usdcAmount, minR1Amount);
+    }
+
+    /**
+     * @dev Pulls the amount of the accepted stablecoin `token` worth
+     * `usdcAmount` from `payer` and swaps it into R1 along the route set for
+     * it. When the treasury keeps USDC, its share is sent in `token` before
+     * the swap and returned in USDC units.
+     */
+    function _collectStablecoin(
+        address payer,
+        address token,
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256 r1Amount, uint256 treasuryUsdcAmount) {
+        StablecoinConfig storage config = _stablecoinConfig(token);
+        _quoteR1AmountAbove(usdcAmount, minR1Amount);
+
+        uint256 tokenAmount = _stablecoinAmount(usdcAmount, config.decimals);
+        _checkStablecoinPeg(token, tokenAmount, usdcAmount, config.maxDepegBps);
+        IERC20(token).safeTransferFrom(payer, address(this), tokenAmount);
+
+        if (_treasuryTakesUsdc()) {
+            treasuryUsdcAmount =
+                (usdcAmount * treasuryShareBps) / BPS_DENOMINATOR;
+        }
+        if (treasuryUsdcAmount > 0) {
+            uint256 treasuryTokenAmount = Math.mulDiv(
+                tokenAmount,
+                treasuryUsdcAmount,
+                usdcAmount
+            );
+            IERC20(token).safeTransfer(treasury, treasuryTokenAmount);
+            uint256 swapAmount = tokenAmount - treasuryTokenAmount;
+            minR1Amount = Math.mulDiv(minR1Amount, swapAmount, tokenAmount);
+            tokenAmount = swapAmount;
+        }
+        r1Amount = _swapExactForR1(
+            IERC20(token),
+            tokenAmount,
+            minR1Amount,
+            config.r1Path
+        );
+    }
+
+    /**
+     * @dev Reverts when `tokenAmount` of the stablecoin `token` sells for
+     * more than `maxDepegBps` less than `usdcAmount` USDC. A zero limit turns
+     * the check off.
+     */
+    function _checkStablecoinPeg(
+        address token,
+        uint256 tokenAmount,
+        uint256 usdcAmount,
+        uint256 maxDepegBps
+    ) internal {
+        if (maxDepegBps == 0) {
+            return;
+        }
+        address[] memory path = new address[](2);
+        path[0] = token;
+        path[1] = address(usdcToken);
+        uint256 usdcValue = swapAdapter.quoteExactInput(path, tokenAmount);
+        require(
+            usdcValue * BPS_DENOMINATOR >=
+                usdcAmount * (BPS_DENOMINATOR - maxDepegBps),
+            "Manager3send: stablecoin depegged"
+        );
+    }
+
+    /**
+     * @dev Swaps the `usdcAmount` USDC held for a payment into R1, first
+     * sending the treasury share in USDC when the treasury keeps USDC.
+     * `minR1Amount` applies to the full amount and is scaled down accordingly.
+     */
+    function _convertUSDC(
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256 r1Amount, uint256 treasuryUsdcAmount) {
+        if (_treasuryTakesUsdc()) {
+            treasuryUsdcAmount =
+                (usdcAmount * treasuryShareBps) / BPS_DENOMINATOR;
+        }
+        if (treasuryUsdcAmount > 0) {
+            usdcToken.safeTransfer(treasury, treasuryUsdcAmount);
+            uint256 swapAmount = usdcAmount - treasuryUsdcAmount;
+            minR1Amount = Math.mulDiv(minR1Amount, swapAmount, usdcAmount);
+            usdcAmount = swapAmount;
+        }
+        r1Amount = _swapUSDCForR1(usdcAmount, minR1Amount);
+    }
+
+    /**
+     * @dev Burns the R1 held for a payment by `payer`, sending the treasury
+     * share to the treasury unless it was already paid in USDC and accruing
+     * the referral reward of the payer's referrer.
+     */
+    function _burnR1(
+        address payer,
+        uint256 r1Amount,
+        uint256 treasuryUsdcAmount
+    ) internal returns (uint256 burnedAmount, uint256 treasuryAmount) {
+        if (treasuryUsdcAmount == 0) {
+            treasuryAmount = (r1Amount * treasuryShareBps) / BPS_DENOMINATOR;
+        }
+        if (treasuryAmount > 0) {
+            IERC20(address(r1Token)).safeTransfer(treasury, treasuryAmount);
+        }
+        burnedAmount =
+            r1Amount -
+            treasuryAmount -
+            _accrueReferralReward(payer, r1Amount);
+        r1Token.burn(address(this), burnedAmount);
+        totalBurnedR1 += burnedAmount;
+    }
+
+    /**
+     * @dev Whether the treasury share of payments is taken in USDC before
+     * swapping. Escrowed payments must stay refundable in full, so escrow
+     * mode takes it in R1 when the escrow is settled instead.
+     */
+    function _treasuryTakesUsdc() internal view returns (bool) {
+        return treasuryKeepsUsdc && escrowTimeout == 0;
+    }
+
+    function _accrueReferralReward(
+        address account,
+        uint256 r1Amount
+    ) internal returns (uint256 rewardAmount) {
+        address referrer = referrers[account];
+        if (referrer == address(0)) {
+            return 0;
+        }
+        rewardAmount = (r1Amount * referralShareBps) / BPS_DENOMINATOR;
+        if (rewardAmount > 0) {
+            referralRewards[referrer] += rewardAmount;
+            emit ReferralRewardAccrued(referrer, account, rewardAmount);
+        }
+    }
+
+    /**
+     * @dev Refreshes the oracle and returns the TWAP quote, reverting when the
+     * spot price has been pushed too far away from it.
+     */
+    function _quoteR1AmountWithGuard(
+        uint256 usdcAmount
+    ) internal returns (uint256 r1Amount) {
+        _updateTwap();
+        r1Amount = _calculateR1Amount(usdcAmount);
+        uint256 spotR1Amount = _calculateSpotR1Amount(usdcAmount);
+        require(
+            _deviationBps(spotR1Amount, r1Amount) <= maxPriceDeviationBps,
+            "Manager3send: price deviation too high"
+        );
+    }
+
+    /**
+     * @dev Guarded TWAP quote of `usdcAmount`, which must reach the caller's
+     * non-zero `minR1Amount`.
+     */
+    function _quoteR1AmountAbove(
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256 r1Amount) {
+        require(minR1Amount > 0, "Manager3send: min output is zero");
+        r1Amount = _quoteR1AmountWithGuard(usdcAmount);
+        require(minR1Amount <= r1Amount, "Manager3send: min output too high");
+    }
+
+    function _updateTwap() internal {
+        (
+            uint256 priceCumulative,
+            uint32 blockTimestamp
+        ) = _currentPriceCumulative();
+        uint32 elapsed;
+        unchecked {
+            elapsed = blockTimestamp - _twapLatest.timestamp;
+        }
+        if (elapsed >= twapWindow) {
+            _twapPrevious = _twapLatest;
+            _twapLatest = TwapObservation(blockTimestamp, priceCumulative);
+        }
+    }
+
+    function _swapUSDCForR1(
+        uint256 usdcAmount,
+        uint256 minR1Amount
+    ) internal returns (uint256) {
+        address[] memory path = new address[](2);
+        path[0] = address(usdcToken);
+        path[1] = address(r1Token);
+        return _swapExactForR1(usdcToken, usdcAmount, minR1Amount, path);
+    }
+
+    /**
+     * @dev Swaps `amount` of the `token` held for a payment into R1 along
+     * `path`.
+     */
+    function _swapExactForR1(
+        IERC20 token,
+        uint256 amount,
+        uint256 minR1Amount,
+        address[] memory path
+    ) internal returns (uint256 r1Amount) {
+        _forceApprove(token, address(swapAdapter), amount);
+
+        r1Amount = swapAdapter.swapExactInput(
+            path,
+            amount,
+            minR1Amount,
+            address(this)
+        );
+        _forceApprove(token, address(swapAdapter), 0);
+        require(r1Amount > 0, "Manager3send: swap output is zero");
+    }
+
+    /**
+     * @dev Swaps up to `maxPaymentAmount` of the payer's `token` for exactly
+     * `amountOut` of the last token in `path`, refunding the unspent input.
+     */
+    function _swapTokenForExact(
+        IERC20 token,
+        uint256 maxPaymentAmount,
+        address[] memory path,
+        uint256 amountOut
+    ) internal {
+        token.safeTransferFrom(_msgSender(), address(this), maxPaymentAmount);
+        _forceApprove(token, address(swapAdapter), maxPaymentAmount);
+
+        uint256 paymentSpent = swapAdapter.swapExactOutput(
+            path,
+            amountOut,
+            maxPaymentAmount,
+            address(this)
+        );
+
+        _forceApprove(token, address(swapAdapter), 0);
+        require(paymentSpent > 0, "Manager3send: swap input is zero");
+
+        if (maxPaymentAmount > paymentSpent) {
+            token.safeTransfer(_msgSender(), maxPaymentAmount - paymentSpent);
+        }
+    }
+
+    function _swapETHForExactUSDC(
+        uint256 usdcAmount
+    ) internal returns (uint256) {
+        address[] memory path = new address[](2);
+        path[0] = weth;
+        path[1] = address(usdcToken);
+        return _swapETHForExact(usdcAmount, path);
+    }
+
+    function _swapETHForExact(
+        uint256 amountOut,
+        address[] memory path
+    ) internal returns (uint256 ethSpent) {
+        ethSpent = swapAdapter.swapExactOutputETH{value: msg.value}(
+            path,
+            amountOut,
+            address(this)
+        );
+        require(ethSpent > 0, "Manager3send: ETH input is zero");
+    }
+
+    function _refundExcessETH(uint256 ethSpent) internal {
+        require(ethSpent <= msg.value, "Manager3send: overspent ETH");
+        uint256 refund = msg.value - ethSpent;
+        if (refund > 0) {
+            Address.sendValue(payable(_msgSender()), refund);
+        }
+    }
+
+    function _requirePaymentMethodActive(PaymentMethod method) internal view {
+        _requireNotPaused();
+        require(
+            !paymentMethodPaused[method],
+            "Manager3send: payment method paused"
+        );
+    }
+
+    function _startPayment(
+        address payer,
+        uint256 tierId,
+        bytes32 uploadRef
+    ) internal view returns (uint256 usdcAmount) {
+        _checkUploadRef(uploadRef);
+        usdcAmount = _payerPrice(payer, tierId);
+    }
+
+    function _checkUploadRef(bytes32 uploadRef) internal view {
+        require(uploadRef != bytes32(0), "Manager3send: upload ref is zero");
+        require(
+            _receipts[uploadRef].payer == address(0),
+            "Manager3send: upload already paid"
+        );
+    }
+
+    /**
+     * @dev Settles the R1 held for the payment, or holds it in escrow while
+     * `escrowTimeout` is set, and binds it to `uploadRef`. Tier payments
+     * report what was taken off the list price.
+     */
+    function _completePayment(
+        address payer,
+        bytes32 uploadRef,
+        address recipient,
+        uint256 tierId,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 treasuryUsdcAmount
+    ) internal {
+        uint256 burnedR1Amount;
+        uint256 treasuryR1Amount;
+        if (escrowTimeout == 0) {
+            (burnedR1Amount, treasuryR1Amount) = _burnR1(
+                payer,
+                r1Amount,
+                treasuryUsdcAmount
+            );
+        } else {
+            _holdInEscrow(payer, uploadRef, r1Amount);
+        }
+
+        _receipts[uploadRef] = Receipt(
+            payer,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            uint64(block.timestamp),
+            0
+        );
+
+        uint256 discountUsdcAmount =
+            tierId == SIZE_PRICED ? 0 : _tierPrice(_tiers[tierId]) - usdcAmount;
+        emit PaymentProcessed(
+            payer,
+            uploadRef,
+            recipient,
+            tierId,
+            usdcAmount,
+            r1Amount,
+            burnedR1Amount,
+            treasuryR1Amount,
+            treasuryUsdcAmount,
+            discountUsdcAmount
+        );
+    }
+
+    function _holdInEscrow(
+        address payer,
+        bytes32 uploadRef,
+        uint256 r1Amount
+    ) internal {
+        uint64 reclaimableAt = uint64(block.timestamp) + escrowTimeout;
+        // Field by field, keeping the voucher code of voucher payments.
+        Escrow storage escrow = _escrows[uploadRef];
+        escrow.status = EscrowStatus.Held;
+        escrow.reclaimableAt = reclaimableAt;
+        totalEscrowedR1 += r1Amount;
+        emit PaymentEscrowed(uploadRef, payer, r1Amount, reclaimableAt);
+    }
+
+    function _forceApprove(
+        IERC20 token,
+        address spender,
+        uint256 amount
+    ) internal {
+        token.forceApprove(spender, amount);
+    }
+
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "Manager3send";
+    }
+
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
+    }
+}
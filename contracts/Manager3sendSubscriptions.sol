@@ -0,0 +1,386 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./Manager3sendSettlement.sol";
+
+/**
+ * @notice Prepaid access to {Manager3send}: credits bought ahead of uploads
+ * and consumed by them, and subscriptions, the plans price managers offer
+ * and the purchases that extend an account's access to a tier. Only meant to
+ * be reached through the {Manager3send} fallback, which delegatecalls here
+ * with the proxy storage.
+ */
+contract Manager3sendSubscriptions is Manager3sendSettlement {
+    /**
+     * @notice Prepays uploads with a single R1 payment.
+     * @param creditId Tier to buy `quantity` uploads of, or `USDC_CREDITS` to
+     * add `quantity` USDC units to the balance.
+     * @param quantity Uploads or USDC units to buy.
+     * @param maxR1Amount Maximum R1 amount the caller is willing to spend.
+     */
+    function purchaseCredits(
+        uint256 creditId,
+        uint256 quantity,
+        uint256 maxR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        uint256 usdcAmount = _creditsPrice(creditId, quantity);
+        uint256 r1Amount = _collectR1(_msgSender(), usdcAmount, maxR1Amount);
+        _addCredits(creditId, quantity, usdcAmount, r1Amount, 0);
+    }
+
+    function purchaseCreditsWithUSDC(
+        uint256 creditId,
+        uint256 quantity,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        uint256 usdcAmount = _creditsPrice(creditId, quantity);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectUSDC(
+            _msgSender(),
+            usdcAmount,
+            minR1Amount
+        );
+        _addCredits(
+            creditId,
+            quantity,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Pays `uploadRef` from the prepaid credits of `account`, using an
+     * upload credit of the tier first and the USDC balance otherwise.
+     * @dev Callable by `account` itself or by a trusted uploader.
+     */
+    function consumeCredits(
+        address account,
+        uint256 tierId,
+        bytes32 uploadRef,
+        address recipient
+    ) external {
+        require(
+            account == _msgSender() || uploaders[_msgSender()],
+            "Manager3send: caller cannot consume"
+        );
+        _checkUploadRef(uploadRef);
+
+        uint256 creditId = tierId;
+        uint256 amount = 1;
+        uint256 usdcAmount;
+        if (credits[account][tierId] > 0) {
+            usdcAmount = _tierPrice(_existingTier(tierId));
+        } else {
+            creditId = USDC_CREDITS;
+            usdcAmount = _activeTierPrice(tierId);
+            amount = usdcAmount;
+            require(
+                credits[account][USDC_CREDITS] >= amount,
+                "Manager3send: insufficient credits"
+            );
+        }
+        credits[account][creditId] -= amount;
+
+        _receipts[uploadRef] = Receipt(
+            account,
+            recipient,
+            tierId,
+            usdcAmount,
+            0,
+            uint64(block.timestamp),
+            0
+        );
+        emit CreditsConsumed(account, uploadRef, tierId, creditId, amount);
+    }
+
+    /**
+     * @notice Buys `periods` consecutive periods of a subscription plan with
+     * R1. Periods stack: an active subscription to the tier is extended from
+     * its current expiry, an expired one restarts now.
+     * @param maxR1Amount Maximum R1 amount the caller is willing to spend.
+     */
+    function subscribe(
+        uint256 planId,
+        uint256 periods,
+        uint256 maxR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.R1) {
+        uint256 usdcAmount = _subscriptionPrice(planId, periods);
+        uint256 r1Amount = _collectR1(_msgSender(), usdcAmount, maxR1Amount);
+        _extendSubscription(planId, periods, usdcAmount, r1Amount, 0);
+    }
+
+    function subscribeWithUSDC(
+        uint256 planId,
+        uint256 periods,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.USDC) {
+        uint256 usdcAmount = _subscriptionPrice(planId, periods);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectUSDC(
+            _msgSender(),
+            usdcAmount,
+            minR1Amount
+        );
+        _extendSubscription(
+            planId,
+            periods,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    function subscribeWithETH(
+        uint256 planId,
+        uint256 periods,
+        uint256 minR1Amount
+    ) external payable nonReentrant whenPaymentMethodActive(PaymentMethod.ETH) {
+        uint256 usdcAmount = _subscriptionPrice(planId, periods);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectETH(
+            usdcAmount,
+            minR1Amount
+        );
+        _extendSubscription(
+            planId,
+            periods,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Subscribes with a registered token, swapped into USDC along the
+     * route curated for it.
+     */
+    function subscribeWithToken(
+        uint256 planId,
+        uint256 periods,
+        address paymentToken,
+        uint256 maxPaymentAmount,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Token) {
+        uint256 usdcAmount = _subscriptionPrice(planId, periods);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectToken(
+            usdcAmount,
+            paymentToken,
+            maxPaymentAmount,
+            minR1Amount,
+            _paymentTokenRoute(paymentToken)
+        );
+        _extendSubscription(
+            planId,
+            periods,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Subscribes with an accepted stablecoin, paying the plan's USDC
+     * price at face value.
+     */
+    function subscribeWithStablecoin(
+        uint256 planId,
+        uint256 periods,
+        address stablecoin,
+        uint256 minR1Amount
+    ) external nonReentrant whenPaymentMethodActive(PaymentMethod.Stablecoin) {
+        uint256 usdcAmount = _subscriptionPrice(planId, periods);
+        (uint256 r1Amount, uint256 treasuryUsdcAmount) = _collectStablecoin(
+            _msgSender(),
+            stablecoin,
+            usdcAmount,
+            minR1Amount
+        );
+        _extendSubscription(
+            planId,
+            periods,
+            usdcAmount,
+            r1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    /**
+     * @notice Sells access to `tierId` for `duration` seconds at `usdcPrice`
+     * per period, through the `subscribe*` methods.
+     */
+    function addSubscriptionPlan(
+        uint256 tierId,
+        uint256 usdcPrice,
+        uint64 duration
+    ) external onlyRole(PRICE_MANAGER_ROLE) returns (uint256 planId) {
+        _existingTier(tierId);
+        require(usdcPrice > 0, "Manager3send: plan price is zero");
+        require(duration > 0, "Manager3send: plan duration is zero");
+
+        planId = subscriptionPlanCount++;
+        _subscriptionPlans[planId] = SubscriptionPlan(
+            planId,
+            tierId,
+            usdcPrice,
+            duration,
+            true
+        );
+        emit SubscriptionPlanAdded(planId, tierId, usdcPrice, duration);
+    }
+
+    /**
+     * @notice Stops selling a plan; running subscriptions keep their expiry.
+     */
+    function disableSubscriptionPlan(
+        uint256 planId
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        _setSubscriptionPlanActive(planId, false);
+    }
+
+    function enableSubscriptionPlan(
+        uint256 planId
+    ) external onlyRole(PRICE_MANAGER_ROLE) {
+        _setSubscriptionPlanActive(planId, true);
+    }
+
+    function getSubscriptionPlan(
+        uint256 planId
+    ) external view returns (SubscriptionPlan memory) {
+        return _existingSubscriptionPlan(planId);
+    }
+
+    /**
+     * @notice Lists every subscription plan ever added, including disabled ones.
+     */
+    function getSubscriptionPlans()
+        external
+        view
+        returns (SubscriptionPlan[] memory plans)
+    {
+        uint256 count = subscriptionPlanCount;
+        plans = new SubscriptionPlan[](count);
+        for (uint256 i = 0; i < count; i++) {
+            plans[i] = _subscriptionPlans[i];
+        }
+    }
+
+    /**
+     * @notice Whether `account` holds a running subscription to `tierId`.
+     */
+    function isSubscribed(
+        address account,
+        uint256 tierId
+    ) external view returns (bool) {
+        return subscriptionExpiry[account][tierId] > block.timestamp;
+    }
+
+    /**
+     * @notice Quotes `periods` periods of a plan. `expiresAt` is the expiry the
+     * purchase would give `account`, stacked onto a running subscription.
+     */
+    function quoteSubscription(
+        uint256 planId,
+        uint256 periods,
+        address account
+    )
+        external
+        view
+        returns (uint256 usdcAmount, uint256 r1Amount, uint64 expiresAt)
+    {
+        require(periods > 0, "Manager3send: periods is zero");
+        SubscriptionPlan storage plan = _existingSubscriptionPlan(planId);
+        usdcAmount = plan.usdcPrice * periods;
+        r1Amount = _calculateR1Amount(usdcAmount);
+        expiresAt = _stackedExpiry(account, plan, periods);
+    }
+
+    function _subscriptionPrice(
+        uint256 planId,
+        uint256 periods
+    ) internal view returns (uint256) {
+        require(periods > 0, "Manager3send: periods is zero");
+        SubscriptionPlan storage plan = _existingSubscriptionPlan(planId);
+        require(plan.active, "Manager3send: subscription plan is disabled");
+        _activeTierPrice(plan.tierId);
+        return plan.usdcPrice * periods;
+    }
+
+    /**
+     * @dev Settles the R1 held for a subscription purchase and extends the
+     * caller's access to the plan's tier by `periods` plan durations.
+     */
+    function _extendSubscription(
+        uint256 planId,
+        uint256 periods,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 treasuryUsdcAmount
+    ) internal {
+        (uint256 burnedR1Amount, uint256 treasuryR1Amount) = _burnR1(
+            _msgSender(),
+            r1Amount,
+            treasuryUsdcAmount
+        );
+
+        SubscriptionPlan storage plan = _subscriptionPlans[planId];
+        uint64 expiresAt = _stackedExpiry(_msgSender(), plan, periods);
+        subscriptionExpiry[_msgSender()][plan.tierId] = expiresAt;
+
+        emit SubscriptionPurchased(
+            _msgSender(),
+            planId,
+            plan.tierId,
+            periods,
+            expiresAt,
+            usdcAmount,
+            r1Amount,
+            burnedR1Amount,
+            treasuryR1Amount,
+            treasuryUsdcAmount
+        );
+    }
+
+    function _setSubscriptionPlanActive(uint256 planId, bool active) internal {
+        SubscriptionPlan storage plan = _existingSubscriptionPlan(planId);
+        require(plan.active != active, "Manager3send: plan status unchanged");
+        plan.active = active;
+        emit SubscriptionPlanStatusUpdated(planId, active);
+    }
+
+    function _creditsPrice(
+        uint256 creditId,
+        uint256 quantity
+    ) internal view returns (uint256) {
+        require(quantity > 0, "Manager3send: quantity is zero");
+        if (creditId == USDC_CREDITS) {
+            return quantity;
+        }
+        return _activeTierPrice(creditId) * quantity;
+    }
+
+    /**
+     * @dev Settles the R1 held for a credit purchase and credits the caller.
+     */
+    function _addCredits(
+        uint256 creditId,
+        uint256 quantity,
+        uint256 usdcAmount,
+        uint256 r1Amount,
+        uint256 treasuryUsdcAmount
+    ) internal {
+        (uint256 burnedR1Amount, uint256 treasuryR1Amount) = _burnR1(
+            _msgSender(),
+            r1Amount,
+            treasuryUsdcAmount
+        );
+        credits[_msgSender()][creditId] += quantity;
+        emit CreditsPurchased(
+            _msgSender(),
+            creditId,
+            quantity,
+            usdcAmount,
+            r1Amount,
+            burnedR1Amount,
+            treasuryR1Amount,
+            treasuryUsdcAmount
+        );
+    }
+}
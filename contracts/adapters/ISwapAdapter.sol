@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @notice DEX backend {Manager3send} swaps and quotes through. Paths list the
+ * tokens from input to output, adapters translate them for their DEX. Swaps
+ * pull the input from the caller, which approves the adapter beforehand, and
+ * return any unspent input to it.
+ */
+interface ISwapAdapter {
+    function swapExactInput(
+        address[] calldata path,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        address to
+    ) external returns (uint256 amountOut);
+
+    function swapExactOutput(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 maxAmountIn,
+        address to
+    ) external returns (uint256 amountIn);
+
+    /// @dev Pays with `msg.value` for `path[0]` (WETH) and refunds the ETH left.
+    function swapExactOutputETH(
+        address[] calldata path,
+        uint256 amountOut,
+        address to
+    ) external payable returns (uint256 amountIn);
+
+    /**
+     * @dev Quotes are not views: V3 quoters simulate the swap and revert it,
+     * which fails in a static call. Off-chain, read them with `eth_call`.
+     */
+    function quoteExactInput(
+        address[] calldata path,
+        uint256 amountIn
+    ) external returns (uint256 amountOut);
+
+    function quoteExactOutput(
+        address[] calldata path,
+        uint256 amountOut
+    ) external returns (uint256 amountIn);
+
+    /// @notice Pool a single-hop swap between `tokenA` and `tokenB` goes through.
+    function pool(
+        address tokenA,
+        address tokenB
+    ) external view returns (address);
+
+    /**
+     * @notice `amountIn` of `tokenIn` valued in `tokenOut` at the average price
+     * of their {pool} over the last `secondsAgo` seconds, or at its current
+     * price when zero. Adapters whose pools keep no price history revert.
+     */
+    function consult(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint32 secondsAgo
+    ) external view returns (uint256 amountOut);
+}
@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IUniswapV2Router} from "../Manager3sendBase.sol";
+import {ISwapAdapter} from "./ISwapAdapter.sol";
+
+interface IUniswapV2Factory {
+    function getPair(
+        address tokenA,
+        address tokenB
+    ) external view returns (address);
+}
+
+/**
+ * @notice {ISwapAdapter} over a Uniswap V2 router, swapping along the token
+ * paths as given. Holds no funds between calls.
+ */
+contract UniswapV2SwapAdapter is ISwapAdapter {
+    using SafeERC20 for IERC20;
+
+    IUniswapV2Router public immutable router;
+
+    constructor(address routerAddress) {
+        require(routerAddress != address(0), "SwapAdapter: router is zero");
+        router = IUniswapV2Router(routerAddress);
+    }
+
+    function swapExactInput(
+        address[] calldata path,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        address to
+    ) external returns (uint256 amountOut) {
+        IERC20 tokenIn = _pull(path, amountIn);
+
+        uint256[] memory amounts = router.swapExactTokensForTokens(
+            amountIn,
+            minAmountOut,
+            path,
+            to,
+            block.timestamp
+        );
+
+        tokenIn.forceApprove(address(router), 0);
+        amountOut = amounts[amounts.length - 1];
+    }
+
+    function swapExactOutput(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 maxAmountIn,
+        address to
+    ) external returns (uint256 amountIn) {
+        IERC20 tokenIn = _pull(path, maxAmountIn);
+
+        amountIn = router.swapTokensForExactTokens(
+            amountOut,
+            maxAmountIn,
+            path,
+            to,
+            block.timestamp
+        )[0];
+
+        tokenIn.forceApprove(address(router), 0);
+        if (maxAmountIn > amountIn) {
+            tokenIn.safeTransfer(msg.sender, maxAmountIn - amountIn);
+        }
+    }
+
+    function swapExactOutputETH(
+        address[] calldata path,
+        uint256 amountOut,
+        address to
+    ) external payable returns (uint256 amountIn) {
+        amountIn = router.swapETHForExactTokens{value: msg.value}(
+            amountOut,
+            path,
+            to,
+            block.timestamp
+        )[0];
+
+        // The router refunds the unspent ETH here.
+        uint256 refund = address(this).balance;
+        if (refund > 0) {
+            Address.sendValue(payable(msg.sender), refund);
+        }
+    }
+
+    function quoteExactInput(
+        address[] calldata path,
+        uint256 amountIn
+    ) external view returns (uint256) {
+        uint256[] memory amounts = router.getAmountsOut(amountIn, path);
+        return amounts[amounts.length - 1];
+    }
+
+    function quoteExactOutput(
+        address[] calldata path,
+        uint256 amountOut
+    ) external view returns (uint256) {
+        return router.getAmountsIn(amountOut, path)[0];
+    }
+
+    function pool(
+        address tokenA,
+        address tokenB
+    ) external view returns (address) {
+        return IUniswapV2Factory(router.factory()).getPair(tokenA, tokenB);
+    }
+
+    /**
+     * @notice V2 pairs only keep a cumulative price, which a single call
+     * cannot average: {Manager3send} records observations of its pair itself.
+     */
+    function consult(
+        address,
+        address,
+        uint256,
+        uint32
+    ) external pure returns (uint256) {
+        revert("SwapAdapter: pair keeps no price history");
+    }
+
+    receive() external payable {}
+
+    function _pull(
+        address[] calldata path,
+        uint256 amount
+    ) internal returns (IERC20 tokenIn) {
+        tokenIn = IERC20(path[0]);
+        tokenIn.safeTransferFrom(msg.sender, address(this), amount);
+        tokenIn.forceApprove(address(router), amount);
+    }
+}
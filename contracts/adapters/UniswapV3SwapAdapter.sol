@@ -0,0 +1,324 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ISwapAdapter} from "./ISwapAdapter.sol";
+import {UniswapV3Oracle} from "./UniswapV3Oracle.sol";
+
+/// @dev Uniswap V3 `SwapRouter02` subset.
+interface IV3SwapRouter {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    struct ExactOutputParams {
+        bytes path;
+        address recipient;
+        uint256 amountOut;
+        uint256 amountInMaximum;
+    }
+
+    function exactInput(
+        ExactInputParams calldata params
+    ) external payable returns (uint256 amountOut);
+
+    function exactOutput(
+        ExactOutputParams calldata params
+    ) external payable returns (uint256 amountIn);
+
+    function refundETH() external payable;
+
+    /// @dev The V3 factory.
+    function factory() external view returns (address);
+}
+
+/// @dev Uniswap V3 `QuoterV2` subset. Quotes simulate the swap and revert it,
+/// so they are not views.
+interface IV3Quoter {
+    function quoteExactInput(
+        bytes memory path,
+        uint256 amountIn
+    )
+        external
+        returns (
+            uint256 amountOut,
+            uint160[] memory sqrtPriceX96AfterList,
+            uint32[] memory initializedTicksCrossedList,
+            uint256 gasEstimate
+        );
+
+    function quoteExactOutput(
+        bytes memory path,
+        uint256 amountOut
+    )
+        external
+        returns (
+            uint256 amountIn,
+            uint160[] memory sqrtPriceX96AfterList,
+            uint32[] memory initializedTicksCrossedList,
+            uint256 gasEstimate
+        );
+}
+
+/// @dev Uniswap V3 pool oracle subset.
+interface IV3Pool {
+    function slot0()
+        external
+        view
+        returns (
+            uint160 sqrtPriceX96,
+            int24 tick,
+            uint16 observationIndex,
+            uint16 observationCardinality,
+            uint16 observationCardinalityNext,
+            uint8 feeProtocol,
+            bool unlocked
+        );
+
+    function observe(
+        uint32[] calldata secondsAgos
+    )
+        external
+        view
+        returns (
+            int56[] memory tickCumulatives,
+            uint160[] memory secondsPerLiquidityCumulativeX128s
+        );
+}
+
+interface IV3Factory {
+    function getPool(
+        address tokenA,
+        address tokenB,
+        uint24 fee
+    ) external view returns (address);
+}
+
+/**
+ * @notice {ISwapAdapter} over Uniswap V3 concentrated-liquidity pools. Token
+ * paths are encoded with the fee tier set for each hop at deployment, or
+ * `defaultFee`; fees cannot change afterwards, so neither can the pools an
+ * adapter swaps through and prices with. Holds no funds between calls.
+ */
+contract UniswapV3SwapAdapter is ISwapAdapter {
+    using SafeERC20 for IERC20;
+
+    /// @notice Fee tier, in hundredths of a bip, of the `tokenA`/`tokenB` pool.
+    struct PoolFee {
+        address tokenA;
+        address tokenB;
+        uint24 fee;
+    }
+
+    IV3SwapRouter public immutable router;
+    IV3Quoter public immutable quoter;
+    uint24 public immutable defaultFee;
+    mapping(address => mapping(address => uint24)) internal _poolFees;
+
+    constructor(
+        address routerAddress,
+        address quoterAddress,
+        uint24 defaultFee_,
+        PoolFee[] memory poolFees
+    ) {
+        require(routerAddress != address(0), "SwapAdapter: router is zero");
+        require(quoterAddress != address(0), "SwapAdapter: quoter is zero");
+        require(defaultFee_ > 0, "SwapAdapter: fee is zero");
+        router = IV3SwapRouter(routerAddress);
+        quoter = IV3Quoter(quoterAddress);
+        defaultFee = defaultFee_;
+        for (uint256 i = 0; i < poolFees.length; i++) {
+            require(poolFees[i].fee > 0, "SwapAdapter: fee is zero");
+            (address token0, address token1) = _sort(
+                poolFees[i].tokenA,
+                poolFees[i].tokenB
+            );
+            _poolFees[token0][token1] = poolFees[i].fee;
+        }
+    }
+
+    function poolFee(
+        address tokenA,
+        address tokenB
+    ) public view returns (uint24 fee) {
+        (address token0, address token1) = _sort(tokenA, tokenB);
+        fee = _poolFees[token0][token1];
+        if (fee == 0) {
+            fee = defaultFee;
+        }
+    }
+
+    /**
+     * @notice Encodes `path` as a V3 path, output first when `reversed` as
+     * exact output swaps and quotes expect.
+     */
+    function encodePath(
+        address[] calldata path,
+        bool reversed
+    ) public view returns (bytes memory encoded) {
+        require(path.length >= 2, "SwapAdapter: invalid path");
+        uint256 last = path.length - 1;
+        encoded = abi.encodePacked(path[reversed ? last : 0]);
+        for (uint256 i = 1; i <= last; i++) {
+            (address from, address to) = reversed
+                ? (path[last - i + 1], path[last - i])
+                : (path[i - 1], path[i]);
+            encoded = abi.encodePacked(encoded, poolFee(from, to), to);
+        }
+    }
+
+    function swapExactInput(
+        address[] calldata path,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        address to
+    ) external returns (uint256 amountOut) {
+        IERC20 tokenIn = _pull(path, amountIn);
+
+        amountOut = router.exactInput(
+            IV3SwapRouter.ExactInputParams({
+                path: encodePath(path, false),
+                recipient: to,
+                amountIn: amountIn,
+                amountOutMinimum: minAmountOut
+            })
+        );
+
+        tokenIn.forceApprove(address(router), 0);
+    }
+
+    function swapExactOutput(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 maxAmountIn,
+        address to
+    ) external returns (uint256 amountIn) {
+        IERC20 tokenIn = _pull(path, maxAmountIn);
+
+        amountIn = router.exactOutput(
+            IV3SwapRouter.ExactOutputParams({
+                path: encodePath(path, true),
+                recipient: to,
+                amountOut: amountOut,
+                amountInMaximum: maxAmountIn
+            })
+        );
+
+        tokenIn.forceApprove(address(router), 0);
+        if (maxAmountIn > amountIn) {
+            tokenIn.safeTransfer(msg.sender, maxAmountIn - amountIn);
+        }
+    }
+
+    function swapExactOutputETH(
+        address[] calldata path,
+        uint256 amountOut,
+        address to
+    ) external payable returns (uint256 amountIn) {
+        amountIn = router.exactOutput{value: msg.value}(
+            IV3SwapRouter.ExactOutputParams({
+                path: encodePath(path, true),
+                recipient: to,
+                amountOut: amountOut,
+                amountInMaximum: msg.value
+            })
+        );
+        router.refundETH();
+
+        uint256 refund = address(this).balance;
+        if (refund > 0) {
+            Address.sendValue(payable(msg.sender), refund);
+        }
+    }
+
+    function quoteExactInput(
+        address[] calldata path,
+        uint256 amountIn
+    ) external returns (uint256 amountOut) {
+        (amountOut, , , ) = quoter.quoteExactInput(
+            encodePath(path, false),
+            amountIn
+        );
+    }
+
+    function quoteExactOutput(
+        address[] calldata path,
+        uint256 amountOut
+    ) external returns (uint256 amountIn) {
+        (amountIn, , , ) = quoter.quoteExactOutput(
+            encodePath(path, true),
+            amountOut
+        );
+    }
+
+    /**
+     * @notice Values `amountIn` at the mean tick of the `tokenIn`/`tokenOut`
+     * pool over the last `secondsAgo` seconds, or at its current tick when
+     * zero. The pool must hold observations covering the whole window.
+     */
+    function consult(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint32 secondsAgo
+    ) external view returns (uint256 amountOut) {
+        IV3Pool v3Pool = IV3Pool(pool(tokenIn, tokenOut));
+        require(address(v3Pool) != address(0), "SwapAdapter: no pool");
+
+        int24 tick;
+        if (secondsAgo == 0) {
+            (, tick, , , , , ) = v3Pool.slot0();
+        } else {
+            uint32[] memory secondsAgos = new uint32[](2);
+            secondsAgos[0] = secondsAgo;
+            (int56[] memory tickCumulatives, ) = v3Pool.observe(secondsAgos);
+            tick = UniswapV3Oracle.meanTick(
+                tickCumulatives[0],
+                tickCumulatives[1],
+                secondsAgo
+            );
+        }
+        amountOut = UniswapV3Oracle.getQuoteAtTick(
+            tick,
+            amountIn,
+            tokenIn,
+            tokenOut
+        );
+    }
+
+    /// @notice The `tokenA`/`tokenB` pool of the fee tier set for the pair.
+    function pool(
+        address tokenA,
+        address tokenB
+    ) public view returns (address) {
+        return
+            IV3Factory(router.factory()).getPool(
+                tokenA,
+                tokenB,
+                poolFee(tokenA, tokenB)
+            );
+    }
+
+    receive() external payable {}
+
+    function _pull(
+        address[] calldata path,
+        uint256 amount
+    ) internal returns (IERC20 tokenIn) {
+        tokenIn = IERC20(path[0]);
+        tokenIn.safeTransferFrom(msg.sender, address(this), amount);
+        tokenIn.forceApprove(address(router), amount);
+    }
+
+    function _sort(
+        address tokenA,
+        address tokenB
+    ) internal pure returns (address, address) {
+        return tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+}
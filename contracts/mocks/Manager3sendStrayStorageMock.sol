@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "../Manager3sendSettlement.sol";
+
+/**
+ * @dev Module declaring storage of its own, which the module storage layout
+ * check must reject.
+ */
+contract Manager3sendStrayStorageMock is Manager3sendSettlement {
+    uint256 public strayCounter;
+
+    function bumpStrayCounter() external {
+        strayCounter += 1;
+    }
+}
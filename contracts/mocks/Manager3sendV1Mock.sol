@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IR1Token, IUniswapV2Pair, IUniswapV2Router} from "../Manager3send.sol";
+
+/**
+ * @dev Storage-compatible stand-in for the first Manager3send release, used to
+ * rehearse upgrades and data migrations in tests.
+ */
+contract Manager3sendV1Mock is
+    Initializable,
+    OwnableUpgradeable,
+    UUPSUpgradeable,
+    ReentrancyGuardUpgradeable
+{
+    enum Tier {
+        Micro,
+        Standard,
+        Big,
+        Archive
+    }
+
+    IR1Token public r1Token;
+    IERC20 public usdcToken;
+    IUniswapV2Pair public uniswapPair;
+    IUniswapV2Router public uniswapRouter;
+    address public weth;
+    mapping(Tier => uint256) public tierPrices;
+
+    function initialize(
+        address r1Address,
+        address usdcAddress,
+        address uniswapPairAddress,
+        address uniswapRouterAddress,
+        address wethAddress,
+        uint256[4] calldata prices
+    ) external initializer {
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+        __ReentrancyGuard_init();
+
+        r1Token = IR1Token(r1Address);
+        usdcToken = IERC20(usdcAddress);
+        uniswapPair = IUniswapV2Pair(uniswapPairAddress);
+        uniswapRouter = IUniswapV2Router(uniswapRouterAddress);
+        weth = wethAddress;
+        tierPrices[Tier.Micro] = prices[0];
+        tierPrices[Tier.Standard] = prices[1];
+        tierPrices[Tier.Big] = prices[2];
+        tierPrices[Tier.Archive] = prices[3];
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+}
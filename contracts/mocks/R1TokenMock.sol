@@ -2,11 +2,16 @@
 pragma solidity ^0.8.24;
 
 import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
-contract R1TokenMock is ERC20Burnable, Ownable {
-    constructor() ERC20("R1 Token", "R1") Ownable(msg.sender) {}
+contract R1TokenMock is ERC20Burnable, ERC20Permit, Ownable {
+    constructor()
+        ERC20("R1 Token", "R1")
+        ERC20Permit("R1 Token")
+        Ownable(msg.sender)
+    {}
 
     function mint(address to, uint256 amount) external onlyOwner {
         _mint(to, amount);
@@ -6,25 +6,83 @@ import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 contract UniswapMockPair is Ownable {
+    struct ReserveSnapshot {
+        uint32 timestamp;
+        uint112 reserve0;
+        uint112 reserve1;
+    }
+
     address public token0;
     address public token1;
+    /// @dev Every reserve change, so V3 pool mocks can replay the price.
+    ReserveSnapshot[] public reserveHistory;
+
+    uint256 public price0CumulativeLast;
+    uint256 public price1CumulativeLast;
+
+    uint112 private reserve0;
+    uint112 private reserve1;
+    uint32 private blockTimestampLast;
 
     constructor(address _token0, address _token1) Ownable(msg.sender) {
         token0 = _token0;
         token1 = _token1;
-    }
 
-    function getReserves()
-        external
-        view
-        returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)
-    {
         // 200000 USDC
         // 666666 R1
-        return (
-            uint112(200000 * 10 ** 6),
-            uint112(666666 * 10 ** 18),
-            uint32(block.timestamp)
+        reserve0 = uint112(200000 * 10 ** 6);
+        reserve1 = uint112(666666 * 10 ** 18);
+        blockTimestampLast = uint32(block.timestamp);
+        reserveHistory.push(
+            ReserveSnapshot(blockTimestampLast, reserve0, reserve1)
         );
     }
+
+    function reserveHistoryLength() external view returns (uint256) {
+        return reserveHistory.length;
+    }
+
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    /**
+     * @notice Moves the pool to new reserves, accumulating prices the same way
+     * a Uniswap V2 pair does on every swap/mint/burn.
+     */
+    function setReserves(
+        uint112 _reserve0,
+        uint112 _reserve1
+    ) external onlyOwner {
+        uint32 blockTimestamp = uint32(block.timestamp);
+        uint32 timeElapsed;
+        unchecked {
+            timeElapsed = blockTimestamp - blockTimestampLast;
+        }
+
+        if (timeElapsed > 0 && reserve0 != 0 && reserve1 != 0) {
+            unchecked {
+                price0CumulativeLast +=
+                    ((uint256(reserve1) << 112) / reserve0) * timeElapsed;
+                price1CumulativeLast +=
+                    ((uint256(reserve0) << 112) / reserve1) * timeElapsed;
+            }
+        }
+
+        reserve0 = _reserve0;
+        reserve1 = _reserve1;
+        blockTimestampLast = blockTimestamp;
+
+        ReserveSnapshot storage latest = reserveHistory[
+            reserveHistory.length - 1
+        ];
+        if (latest.timestamp == blockTimestamp) {
+            latest.reserve0 = _reserve0;
+            latest.reserve1 = _reserve1;
+        } else {
+            reserveHistory.push(
+                ReserveSnapshot(blockTimestamp, _reserve0, _reserve1)
+            );
+        }
+    }
 }
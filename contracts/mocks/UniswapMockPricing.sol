@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+interface IUniswapV2PairMock {
+    function getReserves()
+        external
+        view
+        returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
+
+    function token0() external view returns (address);
+
+    function token1() external view returns (address);
+}
+
+/**
+ * @dev Prices shared by the V2 and V3 router mocks: R1 trades at the mock
+ * pair price (at the tick of its V3 pool for the V3 router), ETH at a fixed USDC price and any other token 1:1 with USDC
+ * (scaled to its decimals) unless {setTokenPrice} set another price.
+ */
+abstract contract UniswapMockPricing {
+    uint256 public constant ETH_PRICE_USDC = 2_000_000_000; // $2,000 with 6 decimals
+
+    address public immutable weth;
+    IERC20 public immutable usdcToken;
+    IERC20 public immutable r1Token;
+    IUniswapV2PairMock public immutable pair;
+    /// @dev USDC price of one whole token, zero for the 1:1 default.
+    mapping(address => uint256) public tokenPrices;
+
+    constructor(
+        address pairAddress,
+        address wethAddress,
+        address usdcAddress,
+        address r1Address
+    ) {
+        require(pairAddress != address(0), "RouterMock: pair is zero");
+        require(wethAddress != address(0), "RouterMock: WETH is zero");
+        require(usdcAddress != address(0), "RouterMock: USDC is zero");
+        require(r1Address != address(0), "RouterMock: R1 is zero");
+
+        pair = IUniswapV2PairMock(pairAddress);
+        weth = wethAddress;
+        usdcToken = IERC20(usdcAddress);
+        r1Token = IERC20(r1Address);
+    }
+
+    /// @dev Routers are their own V2 and V3 factory.
+    function factory() external view returns (address) {
+        return address(this);
+    }
+
+    /// @dev The mock pair for USDC/R1, no pool for other tokens.
+    function getPair(
+        address tokenA,
+        address tokenB
+    ) public view returns (address) {
+        bool usdcR1 =
+            (tokenA == address(usdcToken) && tokenB == address(r1Token)) ||
+                (tokenA == address(r1Token) && tokenB == address(usdcToken));
+        return usdcR1 ? address(pair) : address(0);
+    }
+
+    /// @dev Lets tests simulate a depeg; zero restores the 1:1 price.
+    function setTokenPrice(address token, uint256 usdcPrice) external {
+        tokenPrices[token] = usdcPrice;
+    }
+
+    /**
+     * @dev Input of `tokenIn` needed for `amountOut` of `tokenOut`. Outputs in
+     * R1 are valued in USDC at the pair price first; intermediate hops are
+     * free, so only both ends of a path matter.
+     */
+    function _amountIn(
+        uint256 amountOut,
+        address tokenIn,
+        address tokenOut
+    ) internal view returns (uint256 requiredIn) {
+        uint256 usdcAmount;
+        if (tokenOut == address(usdcToken)) {
+            usdcAmount = amountOut;
+        } else if (tokenOut == address(r1Token)) {
+            usdcAmount = _usdcForR1(amountOut);
+        } else {
+            revert("RouterMock: unsupported output");
+        }
+
+        if (tokenIn == weth) {
+            requiredIn =
+                (usdcAmount * 1e18 + (ETH_PRICE_USDC - 1)) / ETH_PRICE_USDC;
+        } else {
+            uint256 unit = 10 ** IERC20Metadata(tokenIn).decimals();
+            uint256 price = _tokenPrice(tokenIn);
+            requiredIn = (usdcAmount * unit + price - 1) / price;
+        }
+        require(requiredIn > 0, "RouterMock: zero in");
+    }
+
+    /**
+     * @dev Output of an exact input swap into USDC or R1. USDC inputs are
+     * taken at face value, other tokens (not ETH) at their price.
+     */
+    function _amountOut(
+        uint256 amountIn,
+        address tokenIn,
+        address tokenOut
+    ) internal view returns (uint256) {
+        require(
+            tokenIn != weth && tokenIn != address(r1Token),
+            "RouterMock: unsupported input"
+        );
+        uint256 usdcAmount =
+            tokenIn == address(usdcToken)
+                ? amountIn
+                : (amountIn * _tokenPrice(tokenIn)) /
+                    10 ** IERC20Metadata(tokenIn).decimals();
+        if (tokenOut == address(usdcToken)) {
+            return usdcAmount;
+        }
+        require(tokenOut == address(r1Token), "RouterMock: unsupported output");
+        return _quote(usdcAmount);
+    }
+
+    function _tokenPrice(address token) internal view returns (uint256 price) {
+        price = tokenPrices[token];
+        if (price == 0) {
+            price = 1e6;
+        }
+    }
+
+    /// @dev R1 bought with `usdcAmount`.
+    function _quote(
+        uint256 usdcAmount
+    ) internal view virtual returns (uint256) {
+        (uint256 reserveUsdc, uint256 reserveR1) = _orderedReserves();
+        return (usdcAmount * reserveR1) / reserveUsdc;
+    }
+
+    /// @dev USDC needed to buy `r1Amount`, rounded up.
+    function _usdcForR1(
+        uint256 r1Amount
+    ) internal view virtual returns (uint256) {
+        (uint256 reserveUsdc, uint256 reserveR1) = _orderedReserves();
+        return (r1Amount * reserveUsdc + reserveR1 - 1) / reserveR1;
+    }
+
+    function _orderedReserves()
+        internal
+        view
+        returns (uint256 reserveUsdc, uint256 reserveR1)
+    {
+        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
+        address token0 = pair.token0();
+        address token1 = pair.token1();
+
+        if (token0 == address(usdcToken) && token1 == address(r1Token)) {
+            reserveUsdc = reserve0;
+            reserveR1 = reserve1;
+        } else if (token0 == address(r1Token) && token1 == address(usdcToken)) {
+            reserveUsdc = reserve1;
+            reserveR1 = reserve0;
+        } else {
+            revert("RouterMock: pair mismatch");
+        }
+    }
+}
@@ -3,42 +3,18 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./UniswapMockPricing.sol";
 
-interface IUniswapV2PairMock {
-    function getReserves()
-        external
-        view
-        returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
-
-    function token0() external view returns (address);
-
-    function token1() external view returns (address);
-}
-
-contract UniswapMockRouter is Ownable {
-    uint256 public constant ETH_PRICE_USDC = 2_000_000_000; // $2,000 with 6 decimals
-
-    address public immutable weth;
-    IERC20 public immutable usdcToken;
-    IERC20 public immutable r1Token;
-    IUniswapV2PairMock public immutable pair;
-
+contract UniswapMockRouter is Ownable, UniswapMockPricing {
     constructor(
         address pairAddress,
         address wethAddress,
         address usdcAddress,
         address r1Address
-    ) Ownable(msg.sender) {
-        require(pairAddress != address(0), "RouterMock: pair is zero");
-        require(wethAddress != address(0), "RouterMock: WETH is zero");
-        require(usdcAddress != address(0), "RouterMock: USDC is zero");
-        require(r1Address != address(0), "RouterMock: R1 is zero");
-
-        pair = IUniswapV2PairMock(pairAddress);
-        weth = wethAddress;
-        usdcToken = IERC20(usdcAddress);
-        r1Token = IERC20(r1Address);
-    }
+    )
+        Ownable(msg.sender)
+        UniswapMockPricing(pairAddress, wethAddress, usdcAddress, r1Address)
+    {}
 
     function swapExactTokensForTokens(
         uint256 amountIn,
@@ -47,21 +23,19 @@ contract UniswapMockRouter is Ownable {
         address to,
         uint256 /* deadline */
     ) public returns (uint256[] memory amounts) {
-        require(path.length == 2, "RouterMock: invalid path");
-        require(path[0] == address(usdcToken), "RouterMock: unsupported input");
-        require(path[1] == address(r1Token), "RouterMock: unsupported output");
+        require(path.length >= 2, "RouterMock: invalid path");
         require(to != address(0), "RouterMock: zero receiver");
 
-        usdcToken.transferFrom(msg.sender, address(this), amountIn);
-
-        uint256 amountOut = _quote(amountIn);
+        address tokenOut = path[path.length - 1];
+        uint256 amountOut = _amountOut(amountIn, path[0], tokenOut);
         require(amountOut >= amountOutMin, "RouterMock: slippage");
 
-        r1Token.transfer(to, amountOut);
+        IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenOut).transfer(to, amountOut);
 
-        amounts = new uint256[](2);
+        amounts = new uint256[](path.length);
         amounts[0] = amountIn;
-        amounts[1] = amountOut;
+        amounts[path.length - 1] = amountOut;
     }
 
     function swapTokensForExactTokens(
@@ -72,15 +46,14 @@ contract UniswapMockRouter is Ownable {
         uint256 /* deadline */
     ) public returns (uint256[] memory amounts) {
         require(path.length >= 2, "RouterMock: invalid path");
-        require(path[path.length - 1] == address(usdcToken), "RouterMock: must target USDC");
         require(to != address(0), "RouterMock: zero receiver");
 
-        uint256 requiredIn = amountOut * 1e12; // approximate 6 to 18 decimals scaling
-        require(requiredIn > 0, "RouterMock: zero in");
+        address tokenOut = path[path.length - 1];
+        uint256 requiredIn = _amountIn(amountOut, path[0], tokenOut);
         require(requiredIn <= amountInMax, "RouterMock: max input exceeded");
 
         IERC20(path[0]).transferFrom(msg.sender, address(this), requiredIn);
-        usdcToken.transfer(to, amountOut);
+        IERC20(tokenOut).transfer(to, amountOut);
 
         amounts = new uint256[](path.length);
         amounts[0] = requiredIn;
@@ -93,16 +66,15 @@ contract UniswapMockRouter is Ownable {
         address to,
         uint256 /* deadline */
     ) public payable returns (uint256[] memory amounts) {
-        require(path.length == 2, "RouterMock: invalid path");
+        require(path.length >= 2, "RouterMock: invalid path");
         require(path[0] == weth, "RouterMock: unsupported ETH path");
-        require(path[1] == address(usdcToken), "RouterMock: unsupported output");
         require(to != address(0), "RouterMock: zero receiver");
 
-        uint256 requiredEth = (amountOut * 1e18 + (ETH_PRICE_USDC - 1)) /
-            ETH_PRICE_USDC;
+        address tokenOut = path[path.length - 1];
+        uint256 requiredEth = _amountIn(amountOut, weth, tokenOut);
         require(msg.value >= requiredEth, "RouterMock: insufficient ETH");
 
-        usdcToken.transfer(to, amountOut);
+        IERC20(tokenOut).transfer(to, amountOut);
 
         if (msg.value > requiredEth) {
             uint256 refund = msg.value - requiredEth;
@@ -110,9 +82,9 @@ contract UniswapMockRouter is Ownable {
             require(success, "RouterMock: refund failed");
         }
 
-        amounts = new uint256[](2);
+        amounts = new uint256[](path.length);
         amounts[0] = requiredEth;
-        amounts[1] = amountOut;
+        amounts[path.length - 1] = amountOut;
     }
 
     function getAmountsIn(
@@ -120,13 +92,12 @@ contract UniswapMockRouter is Ownable {
         address[] calldata path
     ) external view returns (uint256[] memory amounts) {
         require(path.length >= 2, "RouterMock: invalid path");
-        require(
-            path[path.length - 1] == address(usdcToken),
-            "RouterMock: must target USDC"
-        );
 
-        uint256 requiredIn = amountOut * 1e12;
-        require(requiredIn > 0, "RouterMock: zero in");
+        uint256 requiredIn = _amountIn(
+            amountOut,
+            path[0],
+            path[path.length - 1]
+        );
 
         amounts = new uint256[](path.length);
         for (uint256 i = 0; i < path.length - 1; i++) {
@@ -135,26 +106,24 @@ contract UniswapMockRouter is Ownable {
         amounts[path.length - 1] = amountOut;
     }
 
-    receive() external payable {}
+    function getAmountsOut(
+        uint256 amountIn,
+        address[] calldata path
+    ) external view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "RouterMock: invalid path");
 
-    function _quote(uint256 usdcAmount) internal view returns (uint256) {
-        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
-        address token0 = pair.token0();
-        address token1 = pair.token1();
-
-        uint256 reserveUsdc;
-        uint256 reserveR1;
-
-        if (token0 == address(usdcToken) && token1 == address(r1Token)) {
-            reserveUsdc = reserve0;
-            reserveR1 = reserve1;
-        } else if (token0 == address(r1Token) && token1 == address(usdcToken)) {
-            reserveUsdc = reserve1;
-            reserveR1 = reserve0;
-        } else {
-            revert("RouterMock: pair mismatch");
-        }
+        uint256 amountOut = _amountOut(
+            amountIn,
+            path[0],
+            path[path.length - 1]
+        );
 
-        return (usdcAmount * reserveR1) / reserveUsdc;
+        amounts = new uint256[](path.length);
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            amounts[i] = amountIn;
+        }
+        amounts[path.length - 1] = amountOut;
     }
+
+    receive() external payable {}
 }
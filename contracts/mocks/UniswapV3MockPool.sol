@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../adapters/UniswapV3Oracle.sol";
+
+interface IUniswapMockPairHistory {
+    function token0() external view returns (address);
+
+    function token1() external view returns (address);
+
+    function reserveHistory(
+        uint256 index
+    )
+        external
+        view
+        returns (uint32 timestamp, uint112 reserve0, uint112 reserve1);
+
+    function reserveHistoryLength() external view returns (uint256);
+}
+
+/**
+ * @dev Uniswap V3 pool oracle stand-in following the price of a
+ * {UniswapMockPair}: its current tick and tick cumulatives replay the pair's
+ * reserve history, rounded down to whole ticks like a V3 pool prices. The
+ * first reserves count as observed forever, so the oracle starts warmed up.
+ */
+contract UniswapV3MockPool {
+    IUniswapMockPairHistory public immutable pair;
+    address public immutable token0;
+    address public immutable token1;
+    /// @dev Whether the pair lists the tokens the other way around.
+    bool private immutable _pairReversed;
+
+    constructor(address pairAddress) {
+        pair = IUniswapMockPairHistory(pairAddress);
+        address pairToken0 = pair.token0();
+        address pairToken1 = pair.token1();
+        _pairReversed = pairToken0 > pairToken1;
+        (token0, token1) = _pairReversed
+            ? (pairToken1, pairToken0)
+            : (pairToken0, pairToken1);
+    }
+
+    function slot0()
+        external
+        view
+        returns (
+            uint160 sqrtPriceX96,
+            int24 tick,
+            uint16 observationIndex,
+            uint16 observationCardinality,
+            uint16 observationCardinalityNext,
+            uint8 feeProtocol,
+            bool unlocked
+        )
+    {
+        tick = _snapshotTick(pair.reserveHistoryLength() - 1);
+        sqrtPriceX96 = UniswapV3Oracle.getSqrtRatioAtTick(tick);
+        return (sqrtPriceX96, tick, 0, 1, 1, 0, true);
+    }
+
+    /// @dev Tick cumulatives count from the pair's first reserves.
+    function observe(
+        uint32[] calldata secondsAgos
+    )
+        external
+        view
+        returns (
+            int56[] memory tickCumulatives,
+            uint160[] memory secondsPerLiquidityCumulativeX128s
+        )
+    {
+        uint256 count = pair.reserveHistoryLength();
+        uint32[] memory starts = new uint32[](count);
+        int24[] memory ticks = new int24[](count);
+        for (uint256 i = 0; i < count; i++) {
+            (starts[i], , ) = pair.reserveHistory(i);
+            ticks[i] = _snapshotTick(i);
+        }
+
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+        for (uint256 j = 0; j < secondsAgos.length; j++) {
+            int56 time = int56(uint56(block.timestamp - secondsAgos[j]));
+            int56 cumulative;
+            for (uint256 i = 0; i < count; i++) {
+                if (i + 1 == count || time <= int56(uint56(starts[i + 1]))) {
+                    cumulative += ticks[i] * (time - int56(uint56(starts[i])));
+                    break;
+                }
+                cumulative +=
+                    ticks[i] * int56(uint56(starts[i + 1] - starts[i]));
+            }
+            tickCumulatives[j] = cumulative;
+        }
+    }
+
+    /// @dev Highest tick whose price does not exceed snapshot `index`.
+    function _snapshotTick(uint256 index) internal view returns (int24 tick) {
+        (, uint112 reserve0, uint112 reserve1) = pair.reserveHistory(index);
+        (uint256 reserveIn, uint256 reserveOut) = _pairReversed
+            ? (uint256(reserve1), uint256(reserve0))
+            : (uint256(reserve0), uint256(reserve1));
+        uint256 sqrtPriceX96 = Math.sqrt(
+            Math.mulDiv(reserveOut, 1 << 192, reserveIn)
+        );
+
+        int24 low = UniswapV3Oracle.MIN_TICK;
+        int24 high = UniswapV3Oracle.MAX_TICK;
+        while (low < high) {
+            int24 middle = low + (high - low + 1) / 2;
+            if (UniswapV3Oracle.getSqrtRatioAtTick(middle) <= sqrtPriceX96) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        tick = low;
+    }
+}
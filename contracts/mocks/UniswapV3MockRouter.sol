@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../adapters/UniswapV3Oracle.sol";
+import "./UniswapMockPricing.sol";
+import "./UniswapV3MockPool.sol";
+
+/**
+ * @dev `SwapRouter02`, `QuoterV2` and V3 factory stand-in pricing like
+ * {UniswapMockRouter}, except that R1 trades at the tick of a
+ * {UniswapV3MockPool} following the mock pair. Fees encoded in paths are
+ * ignored, but the last paths swapped and quoted are kept so tests can check
+ * their encoding. Quotes are not views, as with `QuoterV2`.
+ */
+contract UniswapV3MockRouter is UniswapMockPricing {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    struct ExactOutputParams {
+        bytes path;
+        address recipient;
+        uint256 amountOut;
+        uint256 amountInMaximum;
+    }
+
+    UniswapV3MockPool public immutable pool;
+    bytes public lastPath;
+    bytes public lastQuotedPath;
+    uint256 private _refundableEth;
+
+    constructor(
+        address pairAddress,
+        address wethAddress,
+        address usdcAddress,
+        address r1Address
+    ) UniswapMockPricing(pairAddress, wethAddress, usdcAddress, r1Address) {
+        pool = new UniswapV3MockPool(pairAddress);
+    }
+
+    /// @dev The mock pool for USDC/R1 whatever the fee, no pool otherwise.
+    function getPool(
+        address tokenA,
+        address tokenB,
+        uint24
+    ) external view returns (address) {
+        return
+            getPair(tokenA, tokenB) == address(0) ? address(0) : address(pool);
+    }
+
+    function exactInput(
+        ExactInputParams calldata params
+    ) external payable returns (uint256 amountOut) {
+        require(params.recipient != address(0), "RouterMock: zero receiver");
+        (address tokenIn, address tokenOut) = _ends(params.path);
+
+        amountOut = _amountOut(params.amountIn, tokenIn, tokenOut);
+        require(amountOut >= params.amountOutMinimum, "RouterMock: slippage");
+
+        lastPath = params.path;
+        IERC20(tokenIn).transferFrom(
+            msg.sender,
+            address(this),
+            params.amountIn
+        );
+        IERC20(tokenOut).transfer(params.recipient, amountOut);
+    }
+
+    /// @dev Exact output paths are encoded output first.
+    function exactOutput(
+        ExactOutputParams calldata params
+    ) external payable returns (uint256 amountIn) {
+        require(params.recipient != address(0), "RouterMock: zero receiver");
+        (address tokenOut, address tokenIn) = _ends(params.path);
+
+        amountIn = _amountIn(params.amountOut, tokenIn, tokenOut);
+        if (msg.value > 0) {
+            require(tokenIn == weth, "RouterMock: unsupported ETH path");
+            require(msg.value >= amountIn, "RouterMock: insufficient ETH");
+            _refundableEth = msg.value - amountIn;
+        }
+        require(
+            amountIn <= params.amountInMaximum,
+            "RouterMock: max input exceeded"
+        );
+
+        lastPath = params.path;
+        if (msg.value == 0) {
+            IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        }
+        IERC20(tokenOut).transfer(params.recipient, params.amountOut);
+    }
+
+    function refundETH() external payable {
+        uint256 refund = _refundableEth;
+        _refundableEth = 0;
+        if (refund > 0) {
+            (bool success, ) = msg.sender.call{value: refund}("");
+            require(success, "RouterMock: refund failed");
+        }
+    }
+
+    function quoteExactInput(
+        bytes memory path,
+        uint256 amountIn
+    )
+        external
+        returns (
+            uint256 amountOut,
+            uint160[] memory sqrtPriceX96AfterList,
+            uint32[] memory initializedTicksCrossedList,
+            uint256 gasEstimate
+        )
+    {
+        (address tokenIn, address tokenOut) = _ends(path);
+        lastQuotedPath = path;
+        amountOut = _amountOut(amountIn, tokenIn, tokenOut);
+        (sqrtPriceX96AfterList, initializedTicksCrossedList) = _hopLists(path);
+        gasEstimate = 0;
+    }
+
+    /// @dev Exact output paths are encoded output first.
+    function quoteExactOutput(
+        bytes memory path,
+        uint256 amountOut
+    )
+        external
+        returns (
+            uint256 amountIn,
+            uint160[] memory sqrtPriceX96AfterList,
+            uint32[] memory initializedTicksCrossedList,
+            uint256 gasEstimate
+        )
+    {
+        (address tokenOut, address tokenIn) = _ends(path);
+        lastQuotedPath = path;
+        amountIn = _amountIn(amountOut, tokenIn, tokenOut);
+        (sqrtPriceX96AfterList, initializedTicksCrossedList) = _hopLists(path);
+        gasEstimate = 0;
+    }
+
+    function _quote(
+        uint256 usdcAmount
+    ) internal view override returns (uint256) {
+        return
+            UniswapV3Oracle.getQuoteAtTick(
+                _tick(),
+                usdcAmount,
+                address(usdcToken),
+                address(r1Token)
+            );
+    }
+
+    function _usdcForR1(
+        uint256 r1Amount
+    ) internal view override returns (uint256 usdcAmount) {
+        int24 tick = _tick();
+        address usdc = address(usdcToken);
+        address r1 = address(r1Token);
+        usdcAmount = UniswapV3Oracle.getQuoteAtTick(tick, r1Amount, r1, usdc);
+        if (
+            UniswapV3Oracle.getQuoteAtTick(tick, usdcAmount, usdc, r1) <
+            r1Amount
+        ) {
+            usdcAmount++;
+        }
+    }
+
+    function _tick() internal view returns (int24 tick) {
+        (, tick, , , , , ) = pool.slot0();
+    }
+
+    /// @dev Empty per-hop lists, sized like `QuoterV2` returns them.
+    function _hopLists(
+        bytes memory path
+    ) internal pure returns (uint160[] memory, uint32[] memory) {
+        uint256 hops = (path.length - 20) / 23;
+        return (new uint160[](hops), new uint32[](hops));
+    }
+
+    /// @dev First and last token of an encoded `token (fee token)+` path.
+    function _ends(
+        bytes memory path
+    ) internal pure returns (address first, address last) {
+        require(
+            path.length >= 43 && (path.length - 20) % 23 == 0,
+            "RouterMock: invalid path"
+        );
+        uint256 lastOffset = path.length - 20;
+        assembly {
+            first := shr(96, mload(add(path, 32)))
+            last := shr(96, mload(add(add(path, 32), lastOffset)))
+        }
+    }
+}
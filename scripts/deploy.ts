@@ -1,137 +1,107 @@
-import { ethers, run, upgrades } from "hardhat";
+import { ethers, network } from "hardhat";
+import { connectManager } from "../sdk";
+import { loadDeployConfig } from "./deployConfig";
+import {
+	deploymentRecordPath,
+	readDeploymentRecord,
+	writeDeploymentRecord,
+} from "./deploymentRecord";
+import { describeManagerCall, roleTransferCalls } from "./managerCalls";
+import { LOCAL_NETWORKS, deployManager } from "./managerDeployment";
+import { describePriceCurve } from "./priceCurve";
+import { safeAddressFromEnv } from "./safeBatch";
+import { verifyDeployment } from "./verification";
 
-function requireEnv(name: string): string {
-	const value = process.env[name];
-	if (!value || value.trim() === "") {
-		throw new Error(`Missing required environment variable ${name}`);
+async function main() {
+	const [deployer] = await ethers.getSigners();
+	const { chainId } = await ethers.provider.getNetwork();
+	const config = loadDeployConfig(network.name);
+	const existing = readDeploymentRecord(network.name);
+	if (existing && !LOCAL_NETWORKS.includes(network.name)) {
+		throw new Error(
+			`${network.name} already has a deployment at ${
+				existing.proxy
+			}; upgrade it, or move ${deploymentRecordPath(
+				network.name
+			)} away to deploy a new proxy`
+		);
 	}
-	return value.trim();
-}
 
-function parseUsdcPriceEnv(name: string): bigint {
-	const raw = requireEnv(name);
-	try {
-		return ethers.parseUnits(raw, 6);
-	} catch (error) {
+	const safe = safeAddressFromEnv();
+	if (safe && (await ethers.provider.getCode(safe)) === "0x") {
 		throw new Error(
-			`Unable to parse ${name} value "${raw}" as 6-decimal USDC amount`
+			`SAFE_ADDRESS ${safe} has no code on ${network.name}; deploy the Safe first`
 		);
 	}
-}
-
-async function main() {
-	const r1Address = requireEnv("R1_TOKEN_ADDRESS");
-	const usdcAddress = requireEnv("USDC_TOKEN_ADDRESS");
-	const pairAddress = requireEnv("R1_USDC_PAIR_ADDRESS");
-	const routerAddress = requireEnv("UNISWAP_ROUTER_ADDRESS");
-	const wethAddress = requireEnv("WETH_ADDRESS");
-
-	const microPrice = parseUsdcPriceEnv("TIER_PRICE_MICRO");
-	const standardPrice = parseUsdcPriceEnv("TIER_PRICE_STANDARD");
-	const bigPrice = parseUsdcPriceEnv("TIER_PRICE_BIG");
-	const archivePrice = parseUsdcPriceEnv("TIER_PRICE_ARCHIVE");
-
-	const [deployer] = await ethers.getSigners();
-	const network = await ethers.provider.getNetwork();
 
 	console.log(`\n🚀 Deploying Manager3send from ${deployer.address}`);
-	console.log(`   Network: ${network.name} (${network.chainId})`);
+	console.log(`   Network: ${network.name} (${chainId})`);
+	console.log(`   Config: ${config.source}`);
 	console.log(
 		`   Deployer balance: ${ethers.formatEther(
 			await ethers.provider.getBalance(deployer)
 		)} ETH\n`
 	);
 
-	const Manager3send = await ethers.getContractFactory("Manager3send");
-
-	const proxy = await upgrades.deployProxy(
-		Manager3send,
-		[
-			r1Address,
-			usdcAddress,
-			pairAddress,
-			routerAddress,
-			wethAddress,
-			microPrice,
-			standardPrice,
-			bigPrice,
-			archivePrice,
-		],
-		{ initializer: "initialize", kind: "uups" }
+	const record = await deployManager(config);
+	const { contracts } = record;
+	console.log(`\n✅ Manager3send proxy deployed at ${record.proxy}`);
+	console.log(
+		`   Deployment record written to ${writeDeploymentRecord(record)}\n`
 	);
-	const deployTx = proxy.deploymentTransaction();
-	if (deployTx) {
-		console.log(
-			`   Waiting for deployment tx ${deployTx.hash} to be confirmed...`
-		);
-		await deployTx.wait(2);
-	}
-	await proxy.waitForDeployment();
-
-	const proxyAddress = await proxy.getAddress();
-	console.log(`\n✅ Manager3send proxy deployed at ${proxyAddress}`);
 
-	let implementationAddress: string | undefined;
-
-	try {
-		implementationAddress = await upgrades.erc1967.getImplementationAddress(
-			proxyAddress
-		);
-	} catch (error) {
-		console.warn(
-			"\n⚠️  Unable to read ERC1967 implementation/admin slots immediately after deployment.",
-			"This can happen on some L2 RPCs; the deployment itself is still valid.",
-			"\n   You can retry later with: npx hardhat console --network <network>",
-			`and run: await upgrades.erc1967.getImplementationAddress("${proxyAddress}")\n`,
-			error instanceof Error ? error.message : error
+	if (safe) {
+		// The deployer holds every role until here; from now on admin
+		// operations are proposed to the Safe.
+		console.log(`   Handing every role over to the Safe ${safe}...`);
+		const manager = connectManager(record.proxy, deployer);
+		const calls = await roleTransferCalls(
+			manager,
+			deployer.address,
+			safe,
+			deployer.address
 		);
-	}
-
-	const shouldVerify =
-		(process.env.VERIFY_ON_DEPLOY || "").toLowerCase() === "true";
-	if (shouldVerify) {
-		if (!process.env.ETHERSCAN_API_KEY) {
-			console.warn(
-				"⚠️  VERIFY_ON_DEPLOY is true but ETHERSCAN_API_KEY is not set. Skipping verification."
-			);
-		} else if (!implementationAddress) {
-			console.warn(
-				"⚠️  Could not determine implementation address yet; skipping verification. Try again later via Hardhat verify task."
+		for (const { method, args } of calls) {
+			const tx = await manager.getFunction(method).send(...args);
+			await tx.wait();
+			console.log(
+				`     ${await describeManagerCall(manager, tx.data)} (${
+					tx.hash
+				})`
 			);
-		} else {
-			try {
-				console.log("   Verifying implementation on Etherscan...");
-				await run("verify:verify", {
-					address: implementationAddress,
-				});
-				console.log("   Etherscan verification complete.\n");
-			} catch (error) {
-				console.warn(
-					"⚠️  Verification failed. You can retry manually with:\n",
-					`    npx hardhat verify --network ${network.name} ${
-						implementationAddress ?? "<implementation>"
-					}`,
-					"\nError:",
-					error instanceof Error ? error.message : error
-				);
-			}
 		}
+		console.log("");
+	}
+
+	if (config.verify) {
+		await verifyDeployment(record);
 	} else {
 		console.log(
-			"   Skipping Etherscan verification (set VERIFY_ON_DEPLOY=true to enable).\n"
+			`   Skipping Etherscan verification (set "verify": true in ${config.source} to enable).\n`
 		);
 	}
 
-	if (implementationAddress) {
-		console.log(`   Implementation address: ${implementationAddress}`);
-	}
+	console.log(`   Implementation address: ${record.implementation}`);
+	console.log(`   Extension address: ${contracts.extension.address}`);
+	console.log(`   Purchases address: ${contracts.purchases.address}`);
+	console.log(`   Subscriptions address: ${contracts.subscriptions.address}`);
+	console.log(`   Escrow address: ${contracts.escrow.address}`);
+	console.log(`   Router address: ${contracts.router.address}`);
+	console.log(`   Swap adapter address: ${contracts.swapAdapter.address}`);
 	console.log("");
 
-	console.log("   Tier pricing (USDC, 6 decimals):");
-	console.log(`     Micro:    ${microPrice.toString()}`);
-	console.log(`     Standard: ${standardPrice.toString()}`);
-	console.log(`     Big:      ${bigPrice.toString()}`);
-	console.log(`     Archive:  ${archivePrice.toString()}\n`);
+	console.log("   Tier catalog (USDC, 6 decimals):");
+	config.tiers.forEach((tier, id) => {
+		const limit =
+			tier.maxUploadSize > 0n
+				? ` (max ${tier.maxUploadSize.toString()} bytes)`
+				: "";
+		const price = tier.usdcPrice > 0n ? tier.usdcPrice.toString() : "curve";
+		console.log(`     #${id} ${tier.name.padEnd(10)} ${price}${limit}`);
+	});
+	console.log("   Price curve (USDC, 6 decimals):");
+	describePriceCurve(config.priceCurve).forEach((line) => console.log(line));
+	console.log("");
 }
 
 main().catch((error) => {
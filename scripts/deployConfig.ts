@@ -0,0 +1,288 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, isAddress, parseUnits } from "ethers";
+import { PriceCurveConfig } from "./priceCurve";
+
+export const CONFIG_DIR = path.join(__dirname, "..", "config");
+
+/** Networks sharing a config file with another network. */
+const CONFIG_ALIASES: Record<string, string> = {
+	hardhat: "local",
+	localhost: "local",
+};
+
+export interface TierConfig {
+	name: string;
+	usdcPrice: bigint;
+	maxUploadSize: bigint;
+}
+
+/** Fee tier of the V3 pool swapped through between two tokens. */
+export interface PoolFeeConfig {
+	tokenA: string;
+	tokenB: string;
+	fee: number;
+}
+
+/**
+ * Reuses `adapter` when set, otherwise deploys a Uniswap V2 adapter around
+ * `router` or a V3 adapter around `router` and `quoter` for the `fee` tier,
+ * or the tier `poolFees` sets for a pair of tokens.
+ */
+export type SwapConfig =
+	| { adapter: string }
+	| { backend: "v2"; router: string }
+	| {
+			backend: "v3";
+			router: string;
+			quoter: string;
+			fee: number;
+			poolFees: PoolFeeConfig[];
+	  };
+
+export interface DeployConfig {
+	/** Config file the values were read from. */
+	source: string;
+	chainId: number;
+	r1Token: string;
+	usdcToken: string;
+	weth: string;
+	r1UsdcPair: string;
+	swap: SwapConfig;
+	/** Initial tier catalog; a zero price prices a tier on the curve. */
+	tiers: TierConfig[];
+	priceCurve: PriceCurveConfig;
+	/** Byte sizes `initializeV2` maps the existing tiers onto. */
+	tierSizes: bigint[];
+	/** Whether deployments and upgrades verify their contracts. */
+	verify: boolean;
+	/** The file as written, stored in deployment records. */
+	raw: unknown;
+}
+
+type Json = Record<string, unknown>;
+
+class ConfigReader {
+	constructor(readonly source: string) {}
+
+	fail(at: string, expected: string): never {
+		throw new Error(
+			`Invalid deployment config ${this.source}: ${at} must be ${expected}`
+		);
+	}
+
+	object(value: unknown, at: string): Json {
+		if (
+			typeof value !== "object" ||
+			value === null ||
+			Array.isArray(value)
+		) {
+			this.fail(at, "an object");
+		}
+		return value as Json;
+	}
+
+	array(value: unknown, at: string): unknown[] {
+		if (!Array.isArray(value)) {
+			this.fail(at, "an array");
+		}
+		return value;
+	}
+
+	address(value: unknown, at: string): string {
+		if (typeof value !== "string" || !isAddress(value)) {
+			this.fail(at, "an address");
+		}
+		return getAddress(value);
+	}
+
+	string(value: unknown, at: string): string {
+		if (typeof value !== "string" || value.trim() === "") {
+			this.fail(at, "a non-empty string");
+		}
+		return value.trim();
+	}
+
+	/** A human USDC amount such as `"0.25"`, read into 6-decimal units. */
+	usdc(value: unknown, at: string): bigint {
+		if (typeof value !== "string") {
+			this.fail(at, 'a USDC amount string such as "0.25"');
+		}
+		try {
+			return parseUnits(value, 6);
+		} catch (error) {
+			this.fail(at, 'a USDC amount string such as "0.25"');
+		}
+	}
+
+	/** A byte size, as a JSON number or a decimal string. */
+	bytes(value: unknown, at: string): bigint {
+		if (
+			typeof value === "number" &&
+			Number.isSafeInteger(value) &&
+			value >= 0
+		) {
+			return BigInt(value);
+		}
+		if (typeof value === "string" && /^\d+$/.test(value)) {
+			return BigInt(value);
+		}
+		this.fail(at, "a byte size");
+	}
+
+	positiveInteger(value: unknown, at: string): number {
+		if (
+			typeof value !== "number" ||
+			!Number.isSafeInteger(value) ||
+			value <= 0
+		) {
+			this.fail(at, "a positive integer");
+		}
+		return value;
+	}
+}
+
+function readSwap(reader: ConfigReader, value: unknown): SwapConfig {
+	const swap = reader.object(value, "swap");
+	if (swap.adapter !== undefined) {
+		return { adapter: reader.address(swap.adapter, "swap.adapter") };
+	}
+	if (swap.backend === "v2") {
+		return {
+			backend: "v2",
+			router: reader.address(swap.router, "swap.router"),
+		};
+	}
+	if (swap.backend === "v3") {
+		return {
+			backend: "v3",
+			router: reader.address(swap.router, "swap.router"),
+			quoter: reader.address(swap.quoter, "swap.quoter"),
+			fee: reader.positiveInteger(swap.fee ?? 3000, "swap.fee"),
+			poolFees: reader
+				.array(swap.poolFees ?? [], "swap.poolFees")
+				.map((entry, index) => {
+					const at = `swap.poolFees[${index}]`;
+					const poolFee = reader.object(entry, at);
+					return {
+						tokenA: reader.address(poolFee.tokenA, `${at}.tokenA`),
+						tokenB: reader.address(poolFee.tokenB, `${at}.tokenB`),
+						fee: reader.positiveInteger(poolFee.fee, `${at}.fee`),
+					};
+				}),
+		};
+	}
+	reader.fail("swap.backend", '"v2" or "v3" unless swap.adapter is set');
+}
+
+function readPriceCurve(
+	reader: ConfigReader,
+	value: unknown
+): PriceCurveConfig {
+	if (value === undefined || value === null) {
+		return { baseFee: 0n, maxPrice: 0n, breakpoints: [] };
+	}
+	const curve = reader.object(value, "priceCurve");
+	return {
+		baseFee: reader.usdc(curve.baseFee, "priceCurve.baseFee"),
+		maxPrice:
+			curve.maxPrice === undefined
+				? 0n
+				: reader.usdc(curve.maxPrice, "priceCurve.maxPrice"),
+		breakpoints: reader
+			.array(curve.rates, "priceCurve.rates")
+			.map((entry, index) => {
+				const at = `priceCurve.rates[${index}]`;
+				const rate = reader.object(entry, at);
+				return {
+					fromBytes: reader.bytes(rate.fromBytes, `${at}.fromBytes`),
+					usdcPerMb: reader.usdc(rate.usdcPerMb, `${at}.usdcPerMb`),
+				};
+			}),
+	};
+}
+
+/**
+ * Validates a parsed config file, reporting the first invalid field by its
+ * path (e.g. `tiers[2].price`).
+ */
+export function parseDeployConfig(raw: unknown, source: string): DeployConfig {
+	const reader = new ConfigReader(source);
+	const config = reader.object(raw, "the config");
+	const tokens = reader.object(config.tokens, "tokens");
+
+	const tiers = reader.array(config.tiers, "tiers").map((entry, index) => {
+		const at = `tiers[${index}]`;
+		const tier = reader.object(entry, at);
+		return {
+			name: reader.string(tier.name, `${at}.name`),
+			usdcPrice: reader.usdc(tier.price, `${at}.price`),
+			maxUploadSize:
+				tier.maxUploadSize === undefined
+					? 0n
+					: reader.bytes(tier.maxUploadSize, `${at}.maxUploadSize`),
+		};
+	});
+	if (tiers.length === 0) {
+		reader.fail("tiers", "a non-empty array");
+	}
+
+	if (config.verify !== undefined && typeof config.verify !== "boolean") {
+		reader.fail("verify", "a boolean");
+	}
+
+	return {
+		source,
+		chainId: reader.positiveInteger(config.chainId, "chainId"),
+		r1Token: reader.address(tokens.r1, "tokens.r1"),
+		usdcToken: reader.address(tokens.usdc, "tokens.usdc"),
+		weth: reader.address(tokens.weth, "tokens.weth"),
+		r1UsdcPair: reader.address(config.r1UsdcPair, "r1UsdcPair"),
+		swap: readSwap(reader, config.swap),
+		tiers,
+		priceCurve: readPriceCurve(reader, config.priceCurve),
+		tierSizes: reader
+			.array(config.tierSizes ?? [], "tierSizes")
+			.map((size, index) => reader.bytes(size, `tierSizes[${index}]`)),
+		verify: config.verify === true,
+		raw,
+	};
+}
+
+/**
+ * Reads the config file of `network` without validating it:
+ * `config/<network>.json` (`local.json` for the hardhat and localhost
+ * networks), or the file named by `DEPLOY_CONFIG`.
+ */
+export function readDeployConfigFile(network: string): {
+	raw: unknown;
+	source: string;
+} {
+	const override = (process.env.DEPLOY_CONFIG || "").trim();
+	const file = override
+		? path.resolve(override)
+		: path.join(CONFIG_DIR, `${CONFIG_ALIASES[network] ?? network}.json`);
+	if (!fs.existsSync(file)) {
+		throw new Error(
+			`No deployment config for network ${network} at ${file}`
+		);
+	}
+
+	try {
+		return {
+			raw: JSON.parse(fs.readFileSync(file, "utf8")),
+			source: path.relative(process.cwd(), file),
+		};
+	} catch (error) {
+		throw new Error(
+			`Unable to parse deployment config ${file}: ${
+				error instanceof Error ? error.message : error
+			}`
+		);
+	}
+}
+
+export function loadDeployConfig(network: string): DeployConfig {
+	const { raw, source } = readDeployConfigFile(network);
+	return parseDeployConfig(raw, source);
+}
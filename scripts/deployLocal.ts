@@ -0,0 +1,73 @@
+import { ethers, network } from "hardhat";
+import { readDeployConfigFile } from "./deployConfig";
+import { writeDeploymentRecord } from "./deploymentRecord";
+import {
+	ACCOUNT_R1,
+	ACCOUNT_USDC,
+	deployMockEcosystem,
+	fundAccounts,
+	localDeployConfig,
+	localSwapBackend,
+} from "./localEnvironment";
+import { LOCAL_NETWORKS, deployManager } from "./managerDeployment";
+
+/**
+ * Stands up a complete Manager3send environment on a local node: mock R1,
+ * USDC, WETH, pair and router, a proxy configured from `config/local.json`,
+ * and R1 and USDC balances for the node's accounts.
+ */
+async function main() {
+	if (!LOCAL_NETWORKS.includes(network.name)) {
+		throw new Error(
+			`scripts/deployLocal.ts deploys mocks and only runs on ${LOCAL_NETWORKS.join(
+				" or "
+			)}, not ${network.name}`
+		);
+	}
+
+	const fundedCount = Number(process.env.LOCAL_FUNDED_ACCOUNTS || "10");
+	if (!Number.isInteger(fundedCount) || fundedCount < 0) {
+		throw new Error(
+			`Invalid LOCAL_FUNDED_ACCOUNTS "${process.env.LOCAL_FUNDED_ACCOUNTS}"`
+		);
+	}
+
+	const { raw, source } = readDeployConfigFile(network.name);
+	const backend = localSwapBackend(raw);
+
+	console.log(`\n🧪 Deploying a local Manager3send environment`);
+	console.log(`   Network: ${network.name}`);
+	console.log(`   Config: ${source} (${backend} swap backend)\n`);
+
+	const mocks = await deployMockEcosystem(backend);
+	const config = localDeployConfig(raw, source, mocks);
+	const record = await deployManager(config);
+	record.mocks = { ...mocks };
+
+	const accounts = (await ethers.getSigners())
+		.slice(0, fundedCount)
+		.map((signer) => signer.address);
+	await fundAccounts(mocks, accounts);
+
+	console.log(`\n✅ Manager3send proxy deployed at ${record.proxy}`);
+	console.log(
+		`   Deployment record written to ${writeDeploymentRecord(record)}\n`
+	);
+	console.log(`   R1:     ${mocks.r1Token}`);
+	console.log(`   USDC:   ${mocks.usdcToken} (6 decimals)`);
+	console.log(`   WETH:   ${mocks.weth}`);
+	console.log(`   Pair:   ${mocks.pair}`);
+	console.log(`   Router: ${mocks.router}`);
+	console.log(
+		`\n   Funded with ${ethers.formatEther(
+			ACCOUNT_R1
+		)} R1 and ${ethers.formatUnits(ACCOUNT_USDC, 6)} USDC each:`
+	);
+	accounts.forEach((account) => console.log(`     ${account}`));
+	console.log("");
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
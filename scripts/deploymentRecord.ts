@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Provider } from "ethers";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface ContractRecord {
+	contractName: string;
+	address: string;
+	/** Constructor arguments for verification, `null` when reused. */
+	constructorArgs: unknown[] | null;
+	/** Deployment transaction, `null` when reused or unknown. */
+	txHash: string | null;
+}
+
+export interface TransactionRecord {
+	txHash: string | null;
+	blockNumber: number | null;
+	/** ISO timestamp of the block. */
+	timestamp: string | null;
+}
+
+export interface UpgradeRecord extends TransactionRecord {
+	implementation: string;
+	/** Reinitializer called with the upgrade, if any. */
+	call: string | null;
+}
+
+/** An upgrade proposed to a Safe, deployed but not executed yet. */
+export interface PendingUpgradeRecord {
+	implementation: string;
+	call: string | null;
+	/** Logic contracts deployed for the upgrade, keyed like `contracts`. */
+	contracts: Record<string, ContractRecord>;
+	safe: string;
+	/** Safe batch file, relative to the repository root. */
+	batch: string;
+	/** Block the proposal was made at; the upgrade is looked up from there. */
+	blockNumber: number;
+}
+
+/**
+ * What `scripts/deploy.ts` wrote for a network, kept up to date by
+ * `scripts/upgrade.ts`. The upgrade script, verification and the
+ * `manager:*` tasks read the proxy from here.
+ */
+export interface DeploymentRecord {
+	network: string;
+	chainId: number;
+	proxy: string;
+	implementation: string;
+	deployer: string;
+	/** Logic contracts behind the proxy, keyed by role (`extension`, ...). */
+	contracts: Record<string, ContractRecord>;
+	/** Proxy deployment, `null` for proxies deployed before records. */
+	deployment: TransactionRecord | null;
+	upgrades: UpgradeRecord[];
+	/** Deployment config in effect, as written in its file. */
+	config: unknown;
+	/** Upgrade proposed with `SAFE_ADDRESS`, recorded once executed. */
+	pendingUpgrade?: PendingUpgradeRecord;
+	/** Mock tokens and pools of local environments, keyed by role. */
+	mocks?: Record<string, string>;
+}
+
+export function deploymentRecordPath(network: string) {
+	return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+export function readDeploymentRecord(network: string): DeploymentRecord | null {
+	const file = deploymentRecordPath(network);
+	if (!fs.existsSync(file)) {
+		return null;
+	}
+	return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentRecord;
+}
+
+export function writeDeploymentRecord(record: DeploymentRecord) {
+	const file = deploymentRecordPath(record.network);
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(
+		file,
+		`${JSON.stringify(
+			record,
+			(_, value) =>
+				typeof value === "bigint" ? value.toString() : value,
+			"\t"
+		)}\n`
+	);
+	return file;
+}
+
+/** Looks up the block of a mined transaction for a record. */
+export async function transactionRecord(
+	provider: Provider,
+	txHash: string | null
+): Promise<TransactionRecord> {
+	const receipt = txHash
+		? await provider.getTransactionReceipt(txHash)
+		: null;
+	const block = receipt ? await provider.getBlock(receipt.blockNumber) : null;
+	return {
+		txHash,
+		blockNumber: receipt?.blockNumber ?? null,
+		timestamp: block
+			? new Date(block.timestamp * 1000).toISOString()
+			: null,
+	};
+}
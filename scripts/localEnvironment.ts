@@ -0,0 +1,110 @@
+import { ethers } from "hardhat";
+import { parseDeployConfig } from "./deployConfig";
+
+/** Liquidity the mock routers pay swaps out of. */
+export const ROUTER_LIQUIDITY_R1 = ethers.parseEther("1000000");
+export const ROUTER_LIQUIDITY_USDC = ethers.parseUnits("1000000", 6);
+
+/** Balances minted to each funded local account. */
+export const ACCOUNT_R1 = ethers.parseEther("10000");
+export const ACCOUNT_USDC = ethers.parseUnits("10000", 6);
+
+export interface MockEcosystem {
+	r1Token: string;
+	usdcToken: string;
+	weth: string;
+	pair: string;
+	/** Uniswap V2 router mock, or V3 router mock doubling as quoter. */
+	router: string;
+}
+
+async function deployMock(contractName: string, args: unknown[] = []) {
+	const factory = await ethers.getContractFactory(contractName);
+	const contract = await factory.deploy(...args);
+	await contract.waitForDeployment();
+	const address = await contract.getAddress();
+	console.log(`   ${contractName} deployed at ${address}`);
+	return address;
+}
+
+/**
+ * Deploys R1, a 6-decimal USDC, WETH, the R1/USDC pair mock and a router mock
+ * for `backend`, and funds the router with R1 and USDC to swap out.
+ */
+export async function deployMockEcosystem(
+	backend: "v2" | "v3"
+): Promise<MockEcosystem> {
+	const r1Token = await deployMock("R1TokenMock");
+	const usdcToken = await deployMock("StablecoinMock", [
+		"USD Coin",
+		"USDC",
+		6,
+	]);
+	const weth = await deployMock("WETHMock");
+	const pair = await deployMock("UniswapMockPair", [usdcToken, r1Token]);
+	const router = await deployMock(
+		backend === "v3" ? "UniswapV3MockRouter" : "UniswapMockRouter",
+		[pair, weth, usdcToken, r1Token]
+	);
+
+	const mocks = { r1Token, usdcToken, weth, pair, router };
+	await fundAccounts(
+		mocks,
+		[router],
+		ROUTER_LIQUIDITY_R1,
+		ROUTER_LIQUIDITY_USDC
+	);
+	return mocks;
+}
+
+export async function fundAccounts(
+	mocks: MockEcosystem,
+	accounts: string[],
+	r1Amount = ACCOUNT_R1,
+	usdcAmount = ACCOUNT_USDC
+) {
+	const r1Token = await ethers.getContractAt("R1TokenMock", mocks.r1Token);
+	const usdcToken = await ethers.getContractAt(
+		"StablecoinMock",
+		mocks.usdcToken
+	);
+	for (const account of accounts) {
+		await (await r1Token.mint(account, r1Amount)).wait();
+		await (await usdcToken.mint(account, usdcAmount)).wait();
+	}
+}
+
+/**
+ * Points a local network config (`config/local.json`) at `mocks`, with the
+ * swap adapter built for the backend it names.
+ */
+export function localDeployConfig(
+	raw: unknown,
+	source: string,
+	mocks: MockEcosystem
+) {
+	const config = JSON.parse(JSON.stringify(raw));
+	const backend = localSwapBackend(raw);
+	config.tokens = {
+		r1: mocks.r1Token,
+		usdc: mocks.usdcToken,
+		weth: mocks.weth,
+	};
+	config.r1UsdcPair = mocks.pair;
+	config.swap =
+		backend === "v3"
+			? {
+					backend,
+					router: mocks.router,
+					quoter: mocks.router,
+					fee: config.swap.fee ?? 3000,
+			  }
+			: { backend, router: mocks.router };
+	return parseDeployConfig(config, source);
+}
+
+/** Swap backend named by the local config, `v2` unless it says `v3`. */
+export function localSwapBackend(raw: unknown): "v2" | "v3" {
+	const swap = (raw as { swap?: { backend?: unknown } }).swap;
+	return swap?.backend === "v3" ? "v3" : "v2";
+}
@@ -0,0 +1,171 @@
+import {
+	Interface,
+	Result,
+	TransactionDescription,
+	ZeroHash,
+	formatUnits,
+	id,
+} from "ethers";
+import type { Manager3sendContract } from "../sdk";
+
+const USDC_DECIMALS = 6;
+
+/** Roles of `Manager3send`, by the names `ROLE_GRANTS` and the tasks take. */
+export const ROLES: Record<string, string> = {
+	ADMIN: ZeroHash,
+	PRICE_MANAGER: id("PRICE_MANAGER_ROLE"),
+	GUARDIAN: id("GUARDIAN_ROLE"),
+	UPGRADER: id("UPGRADER_ROLE"),
+	TREASURY: id("TREASURY_ROLE"),
+	OPERATOR: id("OPERATOR_ROLE"),
+};
+
+/** A call to the manager, sent directly or added to a Safe batch. */
+export interface ManagerCall {
+	method: string;
+	args: unknown[];
+}
+
+export function roleName(role: string) {
+	const name = Object.keys(ROLES).find((key) => ROLES[key] === role);
+	return name ? `${name} role` : `role ${role}`;
+}
+
+/** Reads a role name of {@link ROLES}, case-insensitively. */
+export function parseRole(name: string) {
+	const role = ROLES[name.trim().toUpperCase()];
+	if (!role) {
+		throw new Error(
+			`Unknown role "${name}", expected one of ${Object.keys(ROLES).join(
+				", "
+			)}`
+		);
+	}
+	return role;
+}
+
+/**
+ * Calls moving `roles` (by default every role `from` holds) to `to`, sent by
+ * `sender`: all grants first, then the revocations, `from` renouncing its own
+ * roles. The admin role goes last so the others can still be revoked.
+ */
+export async function roleTransferCalls(
+	manager: Manager3sendContract,
+	from: string,
+	to: string,
+	sender: string,
+	roles: string[] = Object.values(ROLES)
+): Promise<ManagerCall[]> {
+	const held: string[] = [];
+	for (const role of roles) {
+		if (await manager.hasRole(role, from)) {
+			held.push(role);
+		}
+	}
+	if (held.length === 0) {
+		throw new Error(`${from} holds none of the roles to transfer`);
+	}
+	held.sort((a, b) => (a === ZeroHash ? 1 : b === ZeroHash ? -1 : 0));
+
+	const calls: ManagerCall[] = [];
+	for (const role of held) {
+		if (!(await manager.hasRole(role, to))) {
+			calls.push({ method: "grantRole", args: [role, to] });
+		}
+	}
+	for (const role of held) {
+		calls.push(
+			from.toLowerCase() === sender.toLowerCase()
+				? { method: "renounceRole", args: [role, from] }
+				: { method: "revokeRole", args: [role, from] }
+		);
+	}
+	return calls;
+}
+
+export function encodeManagerCall(
+	manager: Manager3sendContract,
+	call: ManagerCall
+) {
+	const iface: Interface = manager.interface;
+	return iface.encodeFunctionData(call.method, call.args);
+}
+
+function formatUsdc(amount: bigint) {
+	return `${formatUnits(amount, USDC_DECIMALS)} USDC`;
+}
+
+function formatTime(timestamp: bigint) {
+	return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function formatArg(value: unknown): string {
+	if (value instanceof Result || Array.isArray(value)) {
+		return `[${[...value].map(formatArg).join(", ")}]`;
+	}
+	return String(value);
+}
+
+/** `name(arg, ...)` of a decoded call, for calls without a summary of their own. */
+export function formatCall(call: TransactionDescription) {
+	return `${call.name}(${[...call.args].map(formatArg).join(", ")})`;
+}
+
+/**
+ * Decodes manager calldata into a one-line summary reading the tiers it
+ * touches, so reviewers see the price before and after a change. Throws for
+ * calldata of unknown functions.
+ */
+export async function describeManagerCall(
+	manager: Manager3sendContract,
+	data: string
+): Promise<string> {
+	const iface: Interface = manager.interface;
+	const call = iface.parseTransaction({ data });
+	if (!call) {
+		throw new Error(
+			`Unknown function selector ${data.slice(0, 10)} for Manager3send`
+		);
+	}
+
+	switch (call.name) {
+		case "upgradeToAndCall": {
+			const [implementation, callData] = call.args;
+			if (callData === "0x") {
+				return `Upgrade the proxy to implementation ${implementation}`;
+			}
+			const initializer = iface.parseTransaction({ data: callData });
+			return `Upgrade the proxy to implementation ${implementation} and call ${
+				initializer ? formatCall(initializer) : callData
+			}`;
+		}
+		case "proposeTierPrice": {
+			const [tierId, usdcPrice, effectiveAt] = call.args;
+			const tier = await manager.getTier(tierId);
+			return `Announce tier #${tierId} (${tier.name}) price ${formatUsdc(
+				tier.usdcPrice
+			)} -> ${formatUsdc(usdcPrice)}, effective ${formatTime(
+				effectiveAt
+			)}`;
+		}
+		case "applyTierPrice":
+		case "cancelTierPrice": {
+			const [tierId] = call.args;
+			const tier = await manager.getTier(tierId);
+			const pending = await manager.pendingTierPrices(tierId);
+			return `${
+				call.name === "applyTierPrice" ? "Apply" : "Cancel"
+			} the announced tier #${tierId} (${tier.name}) price ${formatUsdc(
+				tier.usdcPrice
+			)} -> ${formatUsdc(pending.usdcPrice)}`;
+		}
+		case "grantRole":
+			return `Grant the ${roleName(call.args[0])} to ${call.args[1]}`;
+		case "revokeRole":
+			return `Revoke the ${roleName(call.args[0])} of ${call.args[1]}`;
+		case "renounceRole":
+			return `Renounce the ${roleName(call.args[0])} of ${call.args[1]}`;
+		default:
+			return formatCall(call);
+	}
+}
@@ -0,0 +1,97 @@
+import { ethers, network, upgrades } from "hardhat";
+import { DeployConfig } from "./deployConfig";
+import { DeploymentRecord, transactionRecord } from "./deploymentRecord";
+import { deployManagerModules } from "./managerModules";
+import { deploySwapAdapter } from "./swapAdapter";
+
+/** Networks whose chains are thrown away, so redeploying is routine. */
+export const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+/**
+ * Deploys the swap adapter, the logic modules and a `Manager3send` proxy
+ * initialized from `config`, and returns the deployment record for them.
+ */
+export async function deployManager(
+	config: DeployConfig
+): Promise<DeploymentRecord> {
+	const [deployer] = await ethers.getSigners();
+	const { chainId } = await ethers.provider.getNetwork();
+	if (BigInt(config.chainId) !== chainId) {
+		throw new Error(
+			`${config.source} is for chain ${config.chainId} but ${network.name} is chain ${chainId}`
+		);
+	}
+
+	const swapAdapter = await deploySwapAdapter(config.swap);
+	const modules = await deployManagerModules();
+
+	const Manager3send = await ethers.getContractFactory("Manager3send");
+
+	console.log("   Deploying Manager3send implementation...");
+	const implementationTx = await upgrades.deployImplementation(Manager3send, {
+		kind: "uups",
+		constructorArgs: modules.constructorArgs,
+		getTxResponse: true,
+	});
+
+	const proxy = await upgrades.deployProxy(
+		Manager3send,
+		[
+			config.r1Token,
+			config.usdcToken,
+			config.r1UsdcPair,
+			swapAdapter.address,
+			config.weth,
+			config.tiers,
+			config.priceCurve,
+		],
+		{
+			initializer: "initialize",
+			kind: "uups",
+			constructorArgs: modules.constructorArgs,
+		}
+	);
+	const deployTx = proxy.deploymentTransaction();
+	if (deployTx) {
+		console.log(
+			`   Waiting for deployment tx ${deployTx.hash} to be confirmed...`
+		);
+		await deployTx.wait(LOCAL_NETWORKS.includes(network.name) ? 1 : 2);
+	}
+	await proxy.waitForDeployment();
+
+	const proxyAddress = await proxy.getAddress();
+	const implementationAddress =
+		await upgrades.erc1967.getImplementationAddress(proxyAddress);
+
+	return {
+		network: network.name,
+		chainId: config.chainId,
+		proxy: proxyAddress,
+		implementation: implementationAddress,
+		deployer: deployer.address,
+		contracts: {
+			implementation: {
+				contractName: "Manager3send",
+				address: implementationAddress,
+				constructorArgs: modules.constructorArgs,
+				txHash:
+					typeof implementationTx === "string"
+						? null
+						: implementationTx.hash,
+			},
+			extension: modules.extension,
+			purchases: modules.purchases,
+			subscriptions: modules.subscriptions,
+			escrow: modules.escrow,
+			router: modules.router,
+			swapAdapter,
+		},
+		deployment: await transactionRecord(
+			ethers.provider,
+			deployTx?.hash ?? null
+		),
+		upgrades: [],
+		config: config.raw,
+	};
+}
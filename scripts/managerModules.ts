@@ -0,0 +1,123 @@
+import { ethers } from "hardhat";
+import { ContractRecord } from "./deploymentRecord";
+import { moduleStorageLayoutChanges } from "./storageLayout";
+
+export interface ManagerModulesDeployment {
+	extension: ContractRecord;
+	purchases: ContractRecord;
+	subscriptions: ContractRecord;
+	escrow: ContractRecord;
+	router: ContractRecord;
+	/** Constructor arguments of the `Manager3send` implementation. */
+	constructorArgs: unknown[];
+}
+
+/** Logic contracts `Manager3send` delegates to, in router order. */
+export const MANAGER_MODULES = [
+	"Manager3sendExtension",
+	"Manager3sendPurchases",
+	"Manager3sendSubscriptions",
+	"Manager3sendEscrow",
+];
+
+/**
+ * Throws unless every module only declares storage `Manager3send` declares
+ * at the same place, see {@link moduleStorageLayoutChanges}.
+ */
+export async function checkModuleStorageLayouts() {
+	for (const module of MANAGER_MODULES) {
+		const changes = await moduleStorageLayoutChanges(
+			"Manager3send",
+			module
+		);
+		if (changes.length > 0) {
+			throw new Error(
+				`${module} storage does not match Manager3send: ${changes
+					.map((change) => change.before!.name)
+					.join(", ")}`
+			);
+		}
+	}
+}
+
+/**
+ * Selectors the router maps onto each of `MANAGER_MODULES`: the functions of
+ * the module `Manager3send` does not implement itself, such as the role and
+ * state getters every module inherits. Throws when a selector would be
+ * routed to two modules, or when a module function shares its selector with
+ * another signature of `Manager3send`, which would shadow it.
+ */
+export async function moduleSelectors(): Promise<string[][]> {
+	const manager = await ethers.getContractFactory("Manager3send");
+	const routed = new Map<string, string>();
+	manager.interface.forEachFunction((fragment) =>
+		routed.set(fragment.selector, `Manager3send.${fragment.format()}`)
+	);
+
+	const selectors: string[][] = [];
+	for (const module of MANAGER_MODULES) {
+		const factory = await ethers.getContractFactory(module);
+		const routedHere: string[] = [];
+		factory.interface.forEachFunction((fragment) => {
+			const name = `${module}.${fragment.format()}`;
+			const claimed = routed.get(fragment.selector);
+			if (claimed === undefined) {
+				routed.set(fragment.selector, name);
+				routedHere.push(fragment.selector);
+			} else if (claimed !== `Manager3send.${fragment.format()}`) {
+				throw new Error(
+					`Selector ${fragment.selector} of ${name} collides with ${claimed}`
+				);
+			}
+		});
+		selectors.push(routedHere);
+	}
+	return selectors;
+}
+
+async function deployModule(
+	contractName: string,
+	constructorArgs: unknown[] = []
+): Promise<ContractRecord> {
+	console.log(`   Deploying ${contractName}...`);
+	const factory = await ethers.getContractFactory(contractName);
+	const contract = await factory.deploy(...constructorArgs);
+	await contract.waitForDeployment();
+	const address = await contract.getAddress();
+	console.log(`   ${contractName} deployed at ${address}`);
+	return {
+		contractName,
+		address,
+		constructorArgs,
+		txHash: contract.deploymentTransaction()?.hash ?? null,
+	};
+}
+
+/**
+ * Deploys the logic contracts the `Manager3send` implementation delegates to
+ * and the router mapping their selectors onto them, after checking their
+ * storage layouts and selectors.
+ */
+export async function deployManagerModules(): Promise<ManagerModulesDeployment> {
+	await checkModuleStorageLayouts();
+	const selectors = await moduleSelectors();
+	const extension = await deployModule("Manager3sendExtension");
+	const purchases = await deployModule("Manager3sendPurchases");
+	const subscriptions = await deployModule("Manager3sendSubscriptions");
+	const escrow = await deployModule("Manager3sendEscrow");
+	const router = await deployModule("Manager3sendRouter", [
+		[extension, purchases, subscriptions, escrow].map(
+			(module) => module.address
+		),
+		selectors,
+	]);
+
+	return {
+		extension,
+		purchases,
+		subscriptions,
+		escrow,
+		router,
+		constructorArgs: [router.address],
+	};
+}
@@ -0,0 +1,465 @@
+import {
+	BaseContract,
+	Contract,
+	FunctionFragment,
+	Interface,
+	ParamType,
+	ZeroHash,
+	id,
+	isError,
+} from "ethers";
+import type { Manager3sendContract } from "../sdk";
+
+const BPS_DENOMINATOR = 10_000n;
+
+/** Roles whose admins and holders are part of a snapshot. */
+const ROLES: Record<string, string> = {
+	DEFAULT_ADMIN_ROLE: ZeroHash,
+	PRICE_MANAGER_ROLE: id("PRICE_MANAGER_ROLE"),
+	GUARDIAN_ROLE: id("GUARDIAN_ROLE"),
+	UPGRADER_ROLE: id("UPGRADER_ROLE"),
+	TREASURY_ROLE: id("TREASURY_ROLE"),
+	OPERATOR_ROLE: id("OPERATOR_ROLE"),
+};
+
+/** `PaymentMethod` values of `paymentMethodPaused`. */
+const PAYMENT_METHODS = [0, 1, 2, 3, 4];
+
+/** Upload sizes quoted on the price curve: 1 MB, 100 MB, 1 GB and 10 GB. */
+const SAMPLE_SIZES = [
+	1_000_000n,
+	100_000_000n,
+	1_000_000_000n,
+	10_000_000_000n,
+];
+
+/**
+ * Views that follow the pool and swap routes rather than the proxy's own
+ * storage; they are snapshotted with the quotes.
+ */
+const MARKET_VIEWS = ["getReserves", "getPriceDeviation"];
+
+/**
+ * Views of the first release (see `Manager3sendV1Mock`) that later releases
+ * replaced: `owner()` by the admin role and `tierPrices(uint8)` by the tier
+ * catalog. They are read with this ABI so the migrations can be checked.
+ */
+const LEGACY_VIEWS = new Interface([
+	"function owner() view returns (address)",
+	"function tierPrices(uint8 tier) view returns (uint256)",
+]);
+
+/** Fixed tiers of the first release, which had no tier count. */
+const LEGACY_TIER_COUNT = 4;
+
+/** Views whose result is covered by per-id entries of the snapshot. */
+const SKIPPED_VIEWS = ["getTiers"];
+
+/**
+ * Logic contracts redeployed by every upgrade: the router, and the module
+ * chain of releases before it.
+ */
+export const MODULE_VIEWS = [
+	"router",
+	"extension",
+	"purchases",
+	"subscriptions",
+	"escrow",
+];
+
+export type SnapshotValue =
+	| string
+	| boolean
+	| SnapshotValue[]
+	| { [key: string]: SnapshotValue };
+
+/**
+ * Results of the manager's views from `blockNumber` on, keyed by call (e.g.
+ * `getTier(1)`). Calls that revert hold `{ error }`, so views an upgrade adds
+ * show up as additions.
+ */
+export interface ManagerSnapshot {
+	blockNumber: number;
+	/** Configuration, catalog, routes and roles; expected to survive as is. */
+	state: Record<string, SnapshotValue>;
+	/** Sample quotes and pool views, which move with the market. */
+	quotes: Record<string, SnapshotValue>;
+	/**
+	 * `LEGACY_VIEWS` of proxies still on an earlier release; only checked
+	 * against the views replacing them.
+	 */
+	legacy: Record<string, SnapshotValue>;
+}
+
+export interface SnapshotOptions {
+	/** Accounts whose roles are recorded. */
+	accounts?: string[];
+}
+
+export interface StateChange {
+	key: string;
+	section: "state" | "quotes" | "legacy";
+	/** For legacy views, the value their replacement should have. */
+	before: SnapshotValue | undefined;
+	after: SnapshotValue | undefined;
+	/** Whether the change is expected, e.g. a module address. */
+	allowed: boolean;
+}
+
+export interface DiffOptions {
+	/** View names whose results may change (`getTier` covers every tier). */
+	allowedChanges?: string[];
+	/** Relative difference tolerated in quoted amounts. */
+	quoteToleranceBps?: number;
+}
+
+function plainValue(param: ParamType, value: unknown): SnapshotValue {
+	if (param.isTuple()) {
+		const entries = param.components.map(
+			(component, index) =>
+				[
+					component.name || index.toString(),
+					plainValue(component, (value as unknown[])[index]),
+				] as const
+		);
+		return Object.fromEntries(entries);
+	}
+	if (param.isArray()) {
+		return (value as unknown[]).map((item) =>
+			plainValue(param.arrayChildren, item)
+		);
+	}
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	return value as string | boolean;
+}
+
+function callKey(fragment: FunctionFragment, labels: string[]) {
+	return `${fragment.name}(${labels.join(",")})`;
+}
+
+function viewName(key: string) {
+	return key.slice(0, key.indexOf("("));
+}
+
+/**
+ * Ethers reports reverts as `CALL_EXCEPTION`; the in-process Hardhat network
+ * throws its own error, named after the VM exception.
+ */
+export function isCallRevert(error: unknown) {
+	return (
+		isError(error, "CALL_EXCEPTION") ||
+		/reverted/.test((error as { message?: string }).message ?? "")
+	);
+}
+
+function revertReason(error: unknown) {
+	const { shortMessage, message } = error as {
+		shortMessage?: string;
+		message?: string;
+	};
+	return shortMessage ?? message ?? String(error);
+}
+
+/**
+ * Takes the views of `manager` at one block: every argument-free view except
+ * constants, each tier, payment token route, stablecoin and role, sample
+ * quotes per tier, upload size, payment token and stablecoin, and the legacy
+ * views of earlier releases.
+ */
+export async function snapshotManager(
+	manager: Manager3sendContract,
+	options: SnapshotOptions = {}
+): Promise<ManagerSnapshot> {
+	const blockNumber = await manager.runner!.provider!.getBlockNumber();
+	const snapshot: ManagerSnapshot = {
+		blockNumber,
+		state: {},
+		quotes: {},
+		legacy: {},
+	};
+	const iface: Interface = manager.interface;
+	const legacyManager = new Contract(
+		await manager.getAddress(),
+		LEGACY_VIEWS,
+		manager.runner
+	);
+
+	const read = async (
+		section: "state" | "quotes" | "legacy",
+		name: string,
+		args: unknown[] = [],
+		labels = args.map(String)
+	) => {
+		const contract: BaseContract =
+			section === "legacy" ? legacyManager : manager;
+		const fragment = contract.interface.getFunction(name)!;
+		const key = callKey(fragment, labels);
+		try {
+			const result = await contract
+				.getFunction(fragment)
+				.staticCallResult(...args);
+			snapshot[section][key] =
+				fragment.outputs.length === 1
+					? plainValue(fragment.outputs[0], result[0])
+					: Object.fromEntries(
+							fragment.outputs.map((output, index) => [
+								output.name || index.toString(),
+								plainValue(output, result[index]),
+							])
+					  );
+		} catch (error) {
+			// Only reverts are results; a failing RPC must not pass as one.
+			if (!isCallRevert(error)) {
+				throw error;
+			}
+			snapshot[section][key] = { error: revertReason(error) };
+		}
+		return snapshot[section][key];
+	};
+
+	const views: string[] = [];
+	iface.forEachFunction((fragment) => {
+		if (
+			fragment.constant &&
+			fragment.inputs.length === 0 &&
+			!/^[A-Z0-9_]+$/.test(fragment.name) &&
+			!SKIPPED_VIEWS.includes(fragment.name)
+		) {
+			views.push(fragment.name);
+		}
+	});
+	for (const name of views.sort()) {
+		await read(MARKET_VIEWS.includes(name) ? "quotes" : "state", name);
+	}
+
+	const tierCount = Number(snapshot.state["tierCount()"] ?? 0);
+	for (let tier = 0; tier < tierCount; tier++) {
+		await read("state", "getTier", [tier]);
+		await read("state", "tierPrices", [tier]);
+		await read("state", "pendingTierPrices", [tier]);
+		await read("quotes", "quotePayment", [tier]);
+	}
+	for (const method of PAYMENT_METHODS) {
+		await read("state", "paymentMethodPaused", [method]);
+	}
+
+	const tokens = snapshot.state["getPaymentTokens()"];
+	for (const token of Array.isArray(tokens) ? (tokens as string[]) : []) {
+		await read("state", "getPaymentTokenRoute", [token]);
+		await read("state", "getDirectR1Path", [token]);
+		for (let tier = 0; tier < tierCount; tier++) {
+			await read("quotes", "quoteWithToken", [tier, token]);
+		}
+	}
+
+	const stablecoins = snapshot.state["getStablecoins()"];
+	for (const token of Array.isArray(stablecoins)
+		? (stablecoins as string[])
+		: []) {
+		await read("state", "getStablecoin", [token]);
+		for (let tier = 0; tier < tierCount; tier++) {
+			await read("quotes", "quoteWithStablecoin", [tier, token]);
+		}
+	}
+
+	for (const size of SAMPLE_SIZES) {
+		await read("quotes", "quotePaymentForSize", [size]);
+	}
+
+	const accounts = [...new Set(options.accounts ?? [])];
+	for (const [name, role] of Object.entries(ROLES)) {
+		await read("state", "getRoleAdmin", [role], [name]);
+		for (const account of accounts) {
+			await read("state", "hasRole", [role, account], [name, account]);
+		}
+	}
+
+	await read("legacy", "owner");
+	for (let tier = 0; tier < LEGACY_TIER_COUNT; tier++) {
+		await read("legacy", "tierPrices", [tier]);
+	}
+
+	return snapshot;
+}
+
+/**
+ * Accounts whose roles a later snapshot has to record to check the legacy
+ * views of `snapshot`: the owner of a release before access control.
+ */
+export function legacyAccounts(snapshot: ManagerSnapshot): string[] {
+	const owner = snapshot.legacy["owner()"];
+	return typeof owner === "string" ? [owner] : [];
+}
+
+function isRevert(value: SnapshotValue | undefined) {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		"error" in value
+	);
+}
+
+/** Compares two results, numbers within `toleranceBps` of each other. */
+function sameValue(
+	before: SnapshotValue,
+	after: SnapshotValue,
+	toleranceBps: bigint
+): boolean {
+	if (
+		typeof before === "string" &&
+		typeof after === "string" &&
+		/^\d+$/.test(before) &&
+		/^\d+$/.test(after)
+	) {
+		const a = BigInt(before);
+		const b = BigInt(after);
+		const larger = a > b ? a : b;
+		const difference = a > b ? a - b : b - a;
+		return difference * BPS_DENOMINATOR <= larger * toleranceBps;
+	}
+	if (typeof before !== "object" || typeof after !== "object") {
+		return before === after;
+	}
+	const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+	return [...keys].every((key) => {
+		const a = (before as Record<string, SnapshotValue>)[key];
+		const b = (after as Record<string, SnapshotValue>)[key];
+		return (
+			a !== undefined && b !== undefined && sameValue(a, b, toleranceBps)
+		);
+	});
+}
+
+/**
+ * Checks the legacy views `before` answered against the views that replaced
+ * them in `after`: the owner has to hold `DEFAULT_ADMIN_ROLE` and each fixed
+ * tier has to keep its price in the catalog.
+ */
+function legacyChanges(
+	before: ManagerSnapshot,
+	after: ManagerSnapshot,
+	allowed: Set<string>
+): StateChange[] {
+	const changes: StateChange[] = [];
+	const check = (
+		legacyKey: string,
+		key: string,
+		expected: SnapshotValue,
+		actual: SnapshotValue | undefined
+	) => {
+		if (actual !== undefined && sameValue(expected, actual, 0n)) {
+			return;
+		}
+		changes.push({
+			key: `${legacyKey} as ${key}`,
+			section: "legacy",
+			before: expected,
+			after: actual,
+			allowed:
+				allowed.has(viewName(legacyKey)) || allowed.has(viewName(key)),
+		});
+	};
+
+	for (const owner of legacyAccounts(before)) {
+		check(
+			"owner()",
+			`hasRole(DEFAULT_ADMIN_ROLE,${owner})`,
+			true,
+			after.state[`hasRole(DEFAULT_ADMIN_ROLE,${owner})`]
+		);
+	}
+	for (let tier = 0; tier < LEGACY_TIER_COUNT; tier++) {
+		const price = before.legacy[`tierPrices(${tier})`];
+		if (price === undefined || isRevert(price)) {
+			continue;
+		}
+		const catalogTier = after.state[`getTier(${tier})`];
+		check(
+			`tierPrices(${tier})`,
+			`getTier(${tier}).usdcPrice`,
+			price,
+			catalogTier === undefined || isRevert(catalogTier)
+				? catalogTier
+				: (catalogTier as Record<string, SnapshotValue>).usdcPrice
+		);
+	}
+	return changes;
+}
+
+/**
+ * Lists the views whose results differ between two snapshots, ignoring
+ * views that revert in both. Views that only start answering in `after` are
+ * additions and always allowed; other changes are allowed when their view is
+ * in `allowedChanges`. Legacy views answered in `before` must be matched by
+ * their replacements.
+ */
+export function diffSnapshots(
+	before: ManagerSnapshot,
+	after: ManagerSnapshot,
+	options: DiffOptions = {}
+): StateChange[] {
+	const allowed = new Set([
+		...MODULE_VIEWS,
+		...(options.allowedChanges ?? []),
+	]);
+	const changes: StateChange[] = [];
+
+	for (const section of ["state", "quotes"] as const) {
+		const tolerance =
+			section === "quotes" ? BigInt(options.quoteToleranceBps ?? 0) : 0n;
+		const keys = new Set([
+			...Object.keys(before[section]),
+			...Object.keys(after[section]),
+		]);
+		for (const key of [...keys].sort()) {
+			const a = before[section][key];
+			const b = after[section][key];
+			if (
+				a !== undefined &&
+				b !== undefined &&
+				((isRevert(a) && isRevert(b)) || sameValue(a, b, tolerance))
+			) {
+				continue;
+			}
+			changes.push({
+				key,
+				section,
+				before: a,
+				after: b,
+				allowed:
+					(a === undefined || isRevert(a)) && !isRevert(b)
+						? true
+						: allowed.has(viewName(key)),
+			});
+		}
+	}
+	changes.push(...legacyChanges(before, after, allowed));
+	return changes;
+}
+
+function describeValue(value: SnapshotValue | undefined) {
+	return value === undefined ? "missing" : JSON.stringify(value);
+}
+
+export function formatStateChange(change: StateChange) {
+	return `${change.key}: ${describeValue(change.before)} -> ${describeValue(
+		change.after
+	)}`;
+}
+
+/** Throws listing every change that is not allowed. */
+export function assertStateInvariants(changes: StateChange[]) {
+	const broken = changes.filter((change) => !change.allowed);
+	if (broken.length > 0) {
+		throw new Error(
+			`Upgrade broke ${broken.length} state invariant${
+				broken.length === 1 ? "" : "s"
+			}:\n${broken
+				.map((change) => `  ${formatStateChange(change)}`)
+				.join("\n")}`
+		);
+	}
+}
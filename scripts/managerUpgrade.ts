@@ -0,0 +1,404 @@
+import { spawnSync } from "child_process";
+import * as path from "path";
+import { ethers, upgrades } from "hardhat";
+import type { ContractFactory, Signer } from "ethers";
+import { connectManager } from "../sdk";
+import { DeployConfig } from "./deployConfig";
+import {
+	ContractRecord,
+	DeploymentRecord,
+	deploymentRecordPath,
+	readDeploymentRecord,
+} from "./deploymentRecord";
+import { ManagerCall } from "./managerCalls";
+import {
+	ManagerSnapshot,
+	StateChange,
+	diffSnapshots,
+	formatStateChange,
+	legacyAccounts,
+	snapshotManager,
+} from "./managerState";
+import {
+	ManagerModulesDeployment,
+	deployManagerModules,
+} from "./managerModules";
+import {
+	StorageLayoutDiff,
+	printStorageLayoutDiff,
+	storageLayoutDiff,
+} from "./storageLayout";
+import { deploySwapAdapter } from "./swapAdapter";
+
+/** Relative movement of quoted amounts tolerated across an upgrade. */
+export const DEFAULT_QUOTE_TOLERANCE_BPS = 50;
+
+/** Views each reinitializer is expected to change. */
+const UPGRADE_CALL_CHANGES: Record<string, string[]> = {
+	// Migrate the Ownable owner to roles, set the price change guard, the
+	// swap adapter and the price curve the fixed tiers are mapped onto.
+	initializeV2: [
+		"hasRole",
+		"maxPriceChangeRatioBps",
+		"priceChangeDelay",
+		"swapAdapter",
+		"getPriceCurve",
+		"getTier",
+		"tierPrices",
+		"quotePayment",
+		"quotePaymentForSize",
+		"quoteWithToken",
+	],
+};
+
+export interface UpgradeOptions {
+	proxy: string;
+	/** Network config, read by the `initializeV2` call. */
+	config?: DeployConfig;
+	/** Account holding `UPGRADER_ROLE`, and the admin role for reinitializers. */
+	upgrader: Signer;
+	/** Reinitializer called with the upgrade, e.g. `initializeV2`. */
+	upgradeCall?: string;
+	/** Accounts whose roles are checked across the upgrade. */
+	accounts?: string[];
+	/** Views allowed to change besides those of the reinitializer. */
+	allowedChanges?: string[];
+	quoteToleranceBps?: number;
+}
+
+export interface ProposalOptions {
+	proxy: string;
+	/** Network config, read by the `initializeV2` call. */
+	config?: DeployConfig;
+	/** Account deploying the implementation; it needs no role. */
+	deployer: Signer;
+	/** Reinitializer called with the upgrade, e.g. `initializeV2`. */
+	upgradeCall?: string;
+}
+
+export interface ManagerUpgradeProposal {
+	implementation: ContractRecord;
+	modules: ManagerModulesDeployment;
+	/** Adapter deployed for `initializeV2`, if any. */
+	swapAdapter: ContractRecord | null;
+	layout: StorageLayoutDiff;
+	/** `upgradeToAndCall` for the Safe to send to the proxy. */
+	call: ManagerCall;
+}
+
+export interface ManagerUpgrade {
+	implementation: ContractRecord;
+	modules: ManagerModulesDeployment;
+	/** Adapter deployed for `initializeV2`, if any. */
+	swapAdapter: ContractRecord | null;
+	upgradeTxHash: string | null;
+	layout: StorageLayoutDiff;
+	before: ManagerSnapshot;
+	after: ManagerSnapshot;
+	changes: StateChange[];
+}
+
+/**
+ * Finds the proxy to upgrade on `network`: `MANAGER_PROXY_ADDRESS` if set,
+ * which must then match the deployment record, otherwise the record's.
+ */
+export function resolveUpgradeProxy(network: string): {
+	proxy: string;
+	existing: DeploymentRecord | null;
+} {
+	const existing = readDeploymentRecord(network);
+	const proxyOverride = (process.env.MANAGER_PROXY_ADDRESS || "").trim();
+	if (!proxyOverride && !existing) {
+		throw new Error(
+			`No deployment record at ${deploymentRecordPath(
+				network
+			)}; set MANAGER_PROXY_ADDRESS to upgrade a proxy deployed without one`
+		);
+	}
+	const proxy = ethers.getAddress(proxyOverride || existing!.proxy);
+	if (existing && existing.proxy !== proxy) {
+		throw new Error(
+			`MANAGER_PROXY_ADDRESS ${proxy} does not match the ${network} deployment record (${existing.proxy})`
+		);
+	}
+	return { proxy, existing };
+}
+
+/**
+ * Reads the invariant check settings: `UPGRADE_ALLOWED_CHANGES` (comma
+ * separated view names) and `UPGRADE_QUOTE_TOLERANCE_BPS`.
+ */
+export function upgradeCheckOptionsFromEnv(): Pick<
+	UpgradeOptions,
+	"allowedChanges" | "quoteToleranceBps"
+> {
+	const tolerance = (process.env.UPGRADE_QUOTE_TOLERANCE_BPS || "").trim();
+	if (tolerance && !/^\d+$/.test(tolerance)) {
+		throw new Error(
+			`Invalid UPGRADE_QUOTE_TOLERANCE_BPS "${tolerance}", expected basis points`
+		);
+	}
+	return {
+		allowedChanges: (process.env.UPGRADE_ALLOWED_CHANGES || "")
+			.split(",")
+			.map((name) => name.trim())
+			.filter((name) => name !== ""),
+		quoteToleranceBps: tolerance
+			? Number(tolerance)
+			: DEFAULT_QUOTE_TOLERANCE_BPS,
+	};
+}
+
+async function checkUpgradeLayout(proxy: string, factory: ContractFactory) {
+	console.log("   Validating upgrade...");
+	// Checked before any module is deployed: the router address passed to
+	// the constructor does not affect the layout being validated. The plugin
+	// typings omit `constructorArgs`, which validation needs to encode the
+	// implementation deployment.
+	const placeholderArgs = [ethers.ZeroAddress];
+	await upgrades.validateUpgrade(proxy, factory, {
+		constructorArgs: placeholderArgs,
+	} as Parameters<typeof upgrades.validateUpgrade>[2]);
+	const layout = await storageLayoutDiff(
+		proxy,
+		"Manager3send",
+		placeholderArgs
+	);
+	printStorageLayoutDiff(layout);
+	return layout;
+}
+
+/**
+ * Deploys the modules, the arguments of `upgradeCall` and the implementation
+ * of an upgrade. Deployments need no role on the proxy.
+ */
+async function deployUpgrade(
+	proxy: string,
+	factory: ContractFactory,
+	upgradeCall: string,
+	config?: DeployConfig
+) {
+	const modules = await deployManagerModules();
+
+	// initializeV2 takes the swap adapter replacing the V2 router, the
+	// price curve and the sizes the tiers map onto.
+	let swapAdapter: ContractRecord | null = null;
+	const upgradeArgs: unknown[] = [];
+	if (upgradeCall === "initializeV2") {
+		swapAdapter = await deploySwapAdapter(config!.swap);
+		upgradeArgs.push(
+			swapAdapter.address,
+			config!.priceCurve,
+			config!.tierSizes
+		);
+	}
+	if (upgradeCall) {
+		console.log(
+			`   Calling ${upgradeCall}(${upgradeArgs
+				.map((arg) =>
+					JSON.stringify(arg, (_, value) =>
+						typeof value === "bigint" ? value.toString() : value
+					)
+				)
+				.join(", ")}) as part of the upgrade`
+		);
+	}
+
+	console.log("   Deploying Manager3send implementation...");
+	const implementationTx = await upgrades.prepareUpgrade(proxy, factory, {
+		constructorArgs: modules.constructorArgs,
+		getTxResponse: true,
+	});
+	const implementation: ContractRecord = {
+		contractName: "Manager3send",
+		address:
+			typeof implementationTx === "string"
+				? implementationTx
+				: ethers.getCreateAddress(implementationTx),
+		constructorArgs: modules.constructorArgs,
+		txHash:
+			typeof implementationTx === "string" ? null : implementationTx.hash,
+	};
+	return { modules, swapAdapter, upgradeArgs, implementation };
+}
+
+function checkUpgradeCall(upgradeCall: string, config?: DeployConfig) {
+	if (upgradeCall === "initializeV2" && !config) {
+		throw new Error(`${upgradeCall} needs the network's deployment config`);
+	}
+}
+
+/** Finds the transaction that pointed `proxy` at `implementation`. */
+export async function findUpgradeTxHash(
+	proxy: string,
+	implementation: string,
+	fromBlock: number
+) {
+	const [upgradeLog] = await ethers.provider.getLogs({
+		address: proxy,
+		topics: [
+			ethers.id("Upgraded(address)"),
+			ethers.zeroPadValue(implementation, 32),
+		],
+		fromBlock,
+	});
+	return upgradeLog?.transactionHash ?? null;
+}
+
+/**
+ * Validates and performs the upgrade of `proxy` to the current
+ * `Manager3send` with freshly deployed modules, snapshotting the manager's
+ * views before and after. The returned `changes` are not checked here so
+ * callers can record the upgrade first; see `assertStateInvariants`.
+ */
+export async function upgradeManager(
+	options: UpgradeOptions
+): Promise<ManagerUpgrade> {
+	const { proxy, config, upgrader } = options;
+	const upgradeCall = options.upgradeCall ?? "";
+	checkUpgradeCall(upgradeCall, config);
+	const Manager3send = await ethers.getContractFactory(
+		"Manager3send",
+		upgrader
+	);
+	const manager = connectManager(proxy, upgrader);
+
+	const layout = await checkUpgradeLayout(proxy, Manager3send);
+
+	console.log("   Snapshotting state and sample quotes...");
+	const accounts = [await upgrader.getAddress(), ...(options.accounts ?? [])];
+	const before = await snapshotManager(manager, { accounts });
+
+	const { modules, swapAdapter, upgradeArgs, implementation } =
+		await deployUpgrade(proxy, Manager3send, upgradeCall, config);
+
+	console.log("   Performing upgrade transaction...");
+	const upgradeFromBlock = await ethers.provider.getBlockNumber();
+	const upgraded = await upgrades.upgradeProxy(proxy, Manager3send, {
+		constructorArgs: modules.constructorArgs,
+		...(upgradeCall
+			? { call: { fn: upgradeCall, args: upgradeArgs } }
+			: {}),
+	});
+	await upgraded.waitForDeployment();
+
+	const implementationAddress =
+		await upgrades.erc1967.getImplementationAddress(proxy);
+
+	console.log("   Checking state and quotes after the upgrade...");
+	const after = await snapshotManager(manager, {
+		accounts: [...accounts, ...legacyAccounts(before)],
+	});
+	const changes = diffSnapshots(before, after, {
+		allowedChanges: [
+			...(UPGRADE_CALL_CHANGES[upgradeCall] ?? []),
+			...(options.allowedChanges ?? []),
+		],
+		quoteToleranceBps:
+			options.quoteToleranceBps ?? DEFAULT_QUOTE_TOLERANCE_BPS,
+	});
+
+	return {
+		implementation: { ...implementation, address: implementationAddress },
+		modules,
+		swapAdapter,
+		upgradeTxHash: await findUpgradeTxHash(
+			proxy,
+			implementationAddress,
+			upgradeFromBlock
+		),
+		layout,
+		before,
+		after,
+		changes,
+	};
+}
+
+/**
+ * Runs `scripts/rehearseUpgrade.ts` against `network` in a separate Hardhat
+ * process, since the fork needs the in-process network, with `upgrader`
+ * impersonated and the rest of the settings taken from the environment.
+ * Throws unless the rehearsal upgraded the fork with every state invariant
+ * intact, so callers can stop before sending anything.
+ */
+export function rehearseUpgrade(network: string, upgrader: string) {
+	console.log(`   Rehearsing the upgrade on a fork of ${network}...`);
+	const rehearsal = spawnSync(
+		process.execPath,
+		[
+			require.resolve("hardhat/internal/cli/cli"),
+			"run",
+			"--network",
+			"hardhat",
+			path.join(__dirname, "rehearseUpgrade.ts"),
+		],
+		{
+			env: {
+				...process.env,
+				REHEARSE_NETWORK: network,
+				REHEARSAL_UPGRADER: upgrader,
+			},
+			stdio: "inherit",
+		}
+	);
+	if (rehearsal.status !== 0) {
+		throw new Error(
+			`The upgrade failed its rehearsal on a fork of ${network}; nothing was sent to ${network}`
+		);
+	}
+}
+
+/**
+ * Validates the upgrade of `proxy` to the current `Manager3send` and deploys
+ * its modules and implementation from `deployer`, but leaves the
+ * `upgradeToAndCall` to the Safe holding `UPGRADER_ROLE`: the returned `call`
+ * is what the Safe has to send.
+ */
+export async function proposeManagerUpgrade(
+	options: ProposalOptions
+): Promise<ManagerUpgradeProposal> {
+	const { proxy, config, deployer } = options;
+	const upgradeCall = options.upgradeCall ?? "";
+	checkUpgradeCall(upgradeCall, config);
+	const Manager3send = await ethers.getContractFactory(
+		"Manager3send",
+		deployer
+	);
+
+	const layout = await checkUpgradeLayout(proxy, Manager3send);
+	const { modules, swapAdapter, upgradeArgs, implementation } =
+		await deployUpgrade(proxy, Manager3send, upgradeCall, config);
+
+	return {
+		implementation,
+		modules,
+		swapAdapter,
+		layout,
+		call: {
+			method: "upgradeToAndCall",
+			args: [
+				implementation.address,
+				upgradeCall
+					? Manager3send.interface.encodeFunctionData(
+							upgradeCall,
+							upgradeArgs
+					  )
+					: "0x",
+			],
+		},
+	};
+}
+
+export function printStateChanges(changes: StateChange[]) {
+	const expected = changes.filter((change) => change.allowed);
+	const broken = changes.filter((change) => !change.allowed);
+	console.log(
+		`   State: ${expected.length} expected changes, ${broken.length} broken invariants`
+	);
+	for (const change of expected) {
+		console.log(`     ~ ${formatStateChange(change)}`);
+	}
+	for (const change of broken) {
+		console.log(`     ✗ ${formatStateChange(change)}`);
+	}
+}
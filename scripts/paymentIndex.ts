@@ -0,0 +1,727 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+	Interface,
+	Log,
+	Provider,
+	formatEther,
+	formatUnits,
+	getAddress,
+	isError,
+} from "ethers";
+import { connectManager } from "../sdk";
+import { isCallRevert } from "./managerState";
+
+export const INDEXES_DIR = path.join(__dirname, "..", "indexes");
+export const REPORTS_DIR = path.join(__dirname, "..", "reports");
+
+const INDEX_VERSION = 2;
+const SIZE_PRICED = (1n << 256n) - 1n;
+const USDC_CREDITS = (1n << 256n) - 1n;
+const USDC_DECIMALS = 6;
+
+export type PaymentMethodName =
+	| "r1"
+	| "usdc"
+	| "eth"
+	| "stablecoin"
+	| "token"
+	| "unknown";
+
+/** What became of a payment held in escrow. */
+export type EscrowOutcome = "held" | "settled" | "refunded" | "reclaimed";
+
+interface IndexedLog {
+	blockNumber: number;
+	logIndex: number;
+	txHash: string;
+	/** Unix timestamp of the block. */
+	timestamp: number;
+}
+
+/** A `PaymentProcessed` event, amounts as decimal strings of base units. */
+export interface IndexedPayment extends IndexedLog {
+	payer: string;
+	uploadRef: string;
+	recipient: string;
+	/** Tier id, or `"size"` for uploads priced on the size curve. */
+	tier: string;
+	method: PaymentMethodName;
+	/** Manager function the transaction called, `null` through other contracts. */
+	entryPoint: string | null;
+	usdcAmount: string;
+	r1Amount: string;
+	burnedR1Amount: string;
+	treasuryR1Amount: string;
+	treasuryUsdcAmount: string;
+	discountUsdcAmount: string;
+	/**
+	 * Set for payments held in escrow. Their burned and treasury amounts are
+	 * zero until settled; refunded and reclaimed payments are left out of the
+	 * reports.
+	 */
+	escrow?: EscrowOutcome;
+}
+
+/**
+ * A `CreditsPurchased` or `SubscriptionPurchased` event, amounts as decimal
+ * strings of base units.
+ */
+export interface IndexedPurchase extends IndexedLog {
+	kind: "credits" | "subscription";
+	payer: string;
+	/** Tier id, or `"credits"` for the USDC-equivalent credit balance. */
+	tier: string;
+	/** Subscription plan id, `null` for credits. */
+	planId: string | null;
+	/** Credits bought, or subscription periods. */
+	quantity: string;
+	method: PaymentMethodName;
+	entryPoint: string | null;
+	usdcAmount: string;
+	r1Amount: string;
+	burnedR1Amount: string;
+	treasuryR1Amount: string;
+	treasuryUsdcAmount: string;
+}
+
+/**
+ * A `TierPriceUpdated` event, or the repricing of a curve-priced tier by a
+ * `PriceCurveUpdated` event, prices as decimal strings of USDC units.
+ */
+export interface IndexedPriceUpdate extends IndexedLog {
+	tier: string;
+	previousPrice: string;
+	newPrice: string;
+}
+
+/**
+ * Payments, credit and subscription purchases and tier price changes of one
+ * proxy, as written by
+ * `manager:index`. Scans resume after `lastBlock`.
+ */
+export interface PaymentIndex {
+	version: number;
+	chainId: number;
+	proxy: string;
+	startBlock: number;
+	/** Last block scanned, `startBlock - 1` before the first scan. */
+	lastBlock: number;
+	/** Tier names as of the last scan, keyed by tier id. */
+	tierNames: Record<string, string>;
+	payments: IndexedPayment[];
+	purchases: IndexedPurchase[];
+	priceUpdates: IndexedPriceUpdate[];
+}
+
+export interface IndexOptions {
+	/** Last block to scan, inclusive. */
+	toBlock: number;
+	/** Blocks fetched per `eth_getLogs` call; split when a call fails. */
+	batchSize: number;
+	/** Called after each range so callers can persist progress. */
+	onBatch?: (index: PaymentIndex, toBlock: number) => void;
+}
+
+export function paymentIndexPath(network: string) {
+	return path.join(INDEXES_DIR, `${network}.json`);
+}
+
+export function createPaymentIndex(
+	chainId: number,
+	proxy: string,
+	startBlock: number
+): PaymentIndex {
+	return {
+		version: INDEX_VERSION,
+		chainId,
+		proxy: getAddress(proxy),
+		startBlock,
+		lastBlock: startBlock - 1,
+		tierNames: {},
+		payments: [],
+		purchases: [],
+		priceUpdates: [],
+	};
+}
+
+export function readPaymentIndex(file: string): PaymentIndex | null {
+	if (!fs.existsSync(file)) {
+		return null;
+	}
+	const index = JSON.parse(fs.readFileSync(file, "utf8")) as PaymentIndex;
+	if (index.version !== INDEX_VERSION) {
+		throw new Error(
+			`Unsupported payment index version ${index.version} in ${file}`
+		);
+	}
+	return index;
+}
+
+/**
+ * Writes through a temporary file so an interrupted scan leaves the last
+ * complete range on disk.
+ */
+export function writePaymentIndex(file: string, index: PaymentIndex) {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	const temporary = `${file}.tmp`;
+	fs.writeFileSync(temporary, `${JSON.stringify(index, null, "\t")}\n`);
+	fs.renameSync(temporary, file);
+	return file;
+}
+
+/**
+ * Manager entry points by the `PaymentMethod` they charge, matched on the
+ * selector of the transactions that emitted the payments.
+ */
+const PAYMENT_ENTRY_POINTS: Record<
+	Exclude<PaymentMethodName, "unknown">,
+	string[]
+> = {
+	r1: [
+		"transferPayment",
+		"transferPaymentWithPermit",
+		"transferPaymentBySig",
+		"transferPaymentForSize",
+		"transferPaymentWithVoucher",
+		"purchaseCredits",
+		"subscribe",
+	],
+	usdc: [
+		"transferPaymentWithUSDC",
+		"transferPaymentWithUSDCPermit",
+		"transferPaymentForSizeWithUSDC",
+		"transferPaymentWithUSDCAndVoucher",
+		"purchaseCreditsWithUSDC",
+		"subscribeWithUSDC",
+	],
+	eth: [
+		"transferPaymentWithETH",
+		"transferPaymentForSizeWithETH",
+		"transferPaymentWithETHAndVoucher",
+		"transferPaymentWithETHDirect",
+		"subscribeWithETH",
+	],
+	stablecoin: ["transferPaymentWithStablecoin", "subscribeWithStablecoin"],
+	token: [
+		"transferPaymentWithToken",
+		"payWithToken",
+		"payWithTokenAndVoucher",
+		"payWithTokenDirect",
+		"payForSizeWithToken",
+		"subscribeWithToken",
+	],
+};
+
+/**
+ * Maps the selector of every payment entry point of `iface` to the payment
+ * method it charges. Throws if an entry point is missing, so a renamed
+ * function cannot go unnoticed.
+ */
+export function paymentMethodSelectors(iface: Interface) {
+	const selectors = new Map<string, PaymentMethodName>();
+	for (const [method, entryPoints] of Object.entries(PAYMENT_ENTRY_POINTS)) {
+		for (const name of entryPoints) {
+			const fragment = iface.getFunction(name);
+			if (!fragment) {
+				throw new Error(`Manager has no ${name} payment entry point`);
+			}
+			selectors.set(fragment.selector, method as PaymentMethodName);
+		}
+	}
+	return selectors;
+}
+
+function tierLabel(tierId: bigint) {
+	return tierId === SIZE_PRICED ? "size" : tierId.toString();
+}
+
+function creditLabel(creditId: bigint) {
+	return creditId === USDC_CREDITS ? "credits" : creditId.toString();
+}
+
+async function fetchLogs(
+	provider: Provider,
+	index: PaymentIndex,
+	topics: string[],
+	fromBlock: number,
+	toBlock: number
+): Promise<Log[]> {
+	try {
+		return await provider.getLogs({
+			address: index.proxy,
+			topics: [topics],
+			fromBlock,
+			toBlock,
+		});
+	} catch (error) {
+		if (fromBlock === toBlock) {
+			throw error;
+		}
+		// Providers cap the range or result size of a call; split the range
+		// until they answer.
+		const middle = Math.floor((fromBlock + toBlock) / 2);
+		return [
+			...(await fetchLogs(provider, index, topics, fromBlock, middle)),
+			...(await fetchLogs(provider, index, topics, middle + 1, toBlock)),
+		];
+	}
+}
+
+/** The last payment indexed for `uploadRef`. */
+function findPayment(index: PaymentIndex, uploadRef: string) {
+	for (let position = index.payments.length - 1; position >= 0; position--) {
+		if (index.payments[position].uploadRef === uploadRef) {
+			return index.payments[position];
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Scans the proxy for payment, purchase and price logs from
+ * `index.lastBlock + 1` to `options.toBlock` and appends them to `index`,
+ * updating escrowed payments as they are settled, refunded or reclaimed.
+ * A `PriceCurveUpdated` log reprices the curve-priced tiers, read from the
+ * tier catalog before and after its block, so older ranges need a node
+ * serving historical state. Returns the number of payments, purchases and
+ * price updates found.
+ */
+export async function updatePaymentIndex(
+	provider: Provider,
+	index: PaymentIndex,
+	options: IndexOptions
+) {
+	const chainId = Number((await provider.getNetwork()).chainId);
+	if (chainId !== index.chainId) {
+		throw new Error(
+			`Payment index is for chain ${index.chainId}, connected to ${chainId}`
+		);
+	}
+	if (options.batchSize <= 0) {
+		throw new Error(`Invalid batch size ${options.batchSize}`);
+	}
+
+	const manager = connectManager(index.proxy, provider);
+	const iface: Interface = manager.interface;
+	const topics = [
+		iface.getEvent("PaymentProcessed")!.topicHash,
+		iface.getEvent("CreditsPurchased")!.topicHash,
+		iface.getEvent("SubscriptionPurchased")!.topicHash,
+		iface.getEvent("TierPriceUpdated")!.topicHash,
+		iface.getEvent("PriceCurveUpdated")!.topicHash,
+		iface.getEvent("PaymentEscrowed")!.topicHash,
+		iface.getEvent("EscrowSettled")!.topicHash,
+		iface.getEvent("EscrowRefunded")!.topicHash,
+		iface.getEvent("EscrowReclaimed")!.topicHash,
+	];
+	const proxy = index.proxy.toLowerCase();
+	const timestamps = new Map<number, number>();
+	const methods = paymentMethodSelectors(iface);
+	const entryPoints = new Map<
+		string,
+		{ entryPoint: string | null; method: PaymentMethodName }
+	>();
+	// `PaymentEscrowed` precedes the `PaymentProcessed` of the same payment.
+	const escrowed = new Set<string>();
+	let payments = 0;
+	let purchases = 0;
+	let priceUpdates = 0;
+
+	const timestampOf = async (blockNumber: number) => {
+		if (!timestamps.has(blockNumber)) {
+			const block = await provider.getBlock(blockNumber);
+			timestamps.set(blockNumber, block!.timestamp);
+		}
+		return timestamps.get(blockNumber)!;
+	};
+
+	const entryPointOf = async (txHash: string) => {
+		if (!entryPoints.has(txHash)) {
+			const tx = await provider.getTransaction(txHash);
+			const called = tx && tx.to?.toLowerCase() === proxy;
+			entryPoints.set(txHash, {
+				entryPoint: called
+					? iface.parseTransaction({ data: tx.data, value: tx.value })
+							?.name ?? null
+					: null,
+				method: called
+					? methods.get(tx.data.slice(0, 10)) ?? "unknown"
+					: "unknown",
+			});
+		}
+		return entryPoints.get(txHash)!;
+	};
+
+	// The tier catalog at the end of a block, prices resolved on the curve.
+	const tierPricesAt = async (blockTag: number) => {
+		try {
+			const tiers = await manager.getTiers({ blockTag });
+			return tiers.map((tier) => tier.usdcPrice);
+		} catch (error) {
+			// Blocks before the proxy (empty result) or its tier catalog
+			// (revert) have no prices to compare.
+			if (isCallRevert(error) || isError(error, "BAD_DATA")) {
+				return [];
+			}
+			throw error;
+		}
+	};
+
+	for (
+		let fromBlock = index.lastBlock + 1;
+		fromBlock <= options.toBlock;
+		fromBlock += options.batchSize
+	) {
+		const toBlock = Math.min(
+			fromBlock + options.batchSize - 1,
+			options.toBlock
+		);
+		const logs = await fetchLogs(
+			provider,
+			index,
+			topics,
+			fromBlock,
+			toBlock
+		);
+
+		for (const log of logs) {
+			const parsed = iface.parseLog(log);
+			if (!parsed) {
+				continue;
+			}
+			if (parsed.name === "PaymentEscrowed") {
+				escrowed.add(`${log.transactionHash}:${parsed.args.uploadRef}`);
+				continue;
+			}
+			if (parsed.name.startsWith("Escrow")) {
+				const payment = findPayment(index, parsed.args.uploadRef);
+				if (!payment) {
+					continue;
+				}
+				if (parsed.name === "EscrowSettled") {
+					payment.escrow = "settled";
+					payment.burnedR1Amount =
+						parsed.args.burnedR1Amount.toString();
+					payment.treasuryR1Amount =
+						parsed.args.treasuryR1Amount.toString();
+				} else {
+					payment.escrow =
+						parsed.name === "EscrowRefunded"
+							? "refunded"
+							: "reclaimed";
+				}
+				continue;
+			}
+			const indexed: IndexedLog = {
+				blockNumber: log.blockNumber,
+				logIndex: log.index,
+				txHash: log.transactionHash,
+				timestamp: await timestampOf(log.blockNumber),
+			};
+
+			if (parsed.name === "PaymentProcessed") {
+				index.payments.push({
+					...indexed,
+					payer: parsed.args.sender,
+					uploadRef: parsed.args.uploadRef,
+					recipient: parsed.args.recipient,
+					tier: tierLabel(parsed.args.tierId),
+					...(await entryPointOf(log.transactionHash)),
+					usdcAmount: parsed.args.usdcAmount.toString(),
+					r1Amount: parsed.args.r1Amount.toString(),
+					burnedR1Amount: parsed.args.burnedR1Amount.toString(),
+					treasuryR1Amount: parsed.args.treasuryR1Amount.toString(),
+					treasuryUsdcAmount:
+						parsed.args.treasuryUsdcAmount.toString(),
+					discountUsdcAmount:
+						parsed.args.discountUsdcAmount.toString(),
+					...(escrowed.delete(
+						`${log.transactionHash}:${parsed.args.uploadRef}`
+					)
+						? { escrow: "held" as const }
+						: {}),
+				});
+				payments += 1;
+			} else if (
+				parsed.name === "CreditsPurchased" ||
+				parsed.name === "SubscriptionPurchased"
+			) {
+				const credits = parsed.name === "CreditsPurchased";
+				index.purchases.push({
+					...indexed,
+					kind: credits ? "credits" : "subscription",
+					payer: parsed.args.account,
+					tier: credits
+						? creditLabel(parsed.args.creditId)
+						: tierLabel(parsed.args.tierId),
+					planId: credits ? null : parsed.args.planId.toString(),
+					quantity: (credits
+						? parsed.args.quantity
+						: parsed.args.periods
+					).toString(),
+					...(await entryPointOf(log.transactionHash)),
+					usdcAmount: parsed.args.usdcAmount.toString(),
+					r1Amount: parsed.args.r1Amount.toString(),
+					burnedR1Amount: parsed.args.burnedR1Amount.toString(),
+					treasuryR1Amount: parsed.args.treasuryR1Amount.toString(),
+					treasuryUsdcAmount:
+						parsed.args.treasuryUsdcAmount.toString(),
+				});
+				purchases += 1;
+			} else if (parsed.name === "PriceCurveUpdated") {
+				// Fixed-price tiers keep their price, so the tiers whose price
+				// moved with the block are the ones priced on the curve.
+				const previous = await tierPricesAt(log.blockNumber - 1);
+				const current = await tierPricesAt(log.blockNumber);
+				current.forEach((newPrice, tierId) => {
+					if (
+						previous[tierId] === undefined ||
+						previous[tierId] === newPrice
+					) {
+						return;
+					}
+					index.priceUpdates.push({
+						...indexed,
+						tier: tierId.toString(),
+						previousPrice: previous[tierId].toString(),
+						newPrice: newPrice.toString(),
+					});
+					priceUpdates += 1;
+				});
+			} else {
+				index.priceUpdates.push({
+					...indexed,
+					tier: tierLabel(parsed.args.tierId),
+					previousPrice: parsed.args.previousAmount.toString(),
+					newPrice: parsed.args.newAmount.toString(),
+				});
+				priceUpdates += 1;
+			}
+		}
+
+		index.lastBlock = toBlock;
+		options.onBatch?.(index, toBlock);
+	}
+
+	for (const tier of await manager.getTiers()) {
+		index.tierNames[tier.id.toString()] = tier.name;
+	}
+
+	return { payments, purchases, priceUpdates };
+}
+
+export interface ReportRange {
+	/** First UTC day included, `YYYY-MM-DD`. */
+	since?: string;
+	/** Last UTC day included, `YYYY-MM-DD`. */
+	until?: string;
+}
+
+export type ReportRow = Record<string, string | number>;
+
+function utcDay(timestamp: number) {
+	return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+function inRange(timestamp: number, range: ReportRange) {
+	const day = utcDay(timestamp);
+	return (
+		(!range.since || day >= range.since) &&
+		(!range.until || day <= range.until)
+	);
+}
+
+/** A payment, or a purchase of credits or a subscription. */
+type IndexedCharge = IndexedPayment | IndexedPurchase;
+
+/** Whether a charge in `range` counts: refunded escrows are undone. */
+function isReported(charge: IndexedCharge, range: ReportRange) {
+	const escrow = "escrow" in charge ? charge.escrow : undefined;
+	return (
+		inRange(charge.timestamp, range) &&
+		escrow !== "refunded" &&
+		escrow !== "reclaimed"
+	);
+}
+
+function tierName(index: PaymentIndex, tier: string) {
+	if (tier === "size") {
+		return "size-priced";
+	}
+	return tier === "credits" ? "usdc-credits" : index.tierNames[tier] ?? "";
+}
+
+/** Payments and purchases of `index`, oldest first. */
+function charges(index: PaymentIndex): IndexedCharge[] {
+	return [...index.payments, ...index.purchases].sort(
+		(a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+	);
+}
+
+interface Totals {
+	payments: number;
+	purchases: number;
+	payers: Set<string>;
+	usdcAmount: bigint;
+	r1Amount: bigint;
+	burnedR1Amount: bigint;
+	treasuryR1Amount: bigint;
+	discountUsdcAmount: bigint;
+}
+
+function emptyTotals(): Totals {
+	return {
+		payments: 0,
+		purchases: 0,
+		payers: new Set<string>(),
+		usdcAmount: 0n,
+		r1Amount: 0n,
+		burnedR1Amount: 0n,
+		treasuryR1Amount: 0n,
+		discountUsdcAmount: 0n,
+	};
+}
+
+function addCharge(totals: Totals, charge: IndexedCharge) {
+	if ("kind" in charge) {
+		totals.purchases += 1;
+	} else {
+		totals.payments += 1;
+		totals.discountUsdcAmount += BigInt(charge.discountUsdcAmount);
+	}
+	totals.payers.add(charge.payer.toLowerCase());
+	totals.usdcAmount += BigInt(charge.usdcAmount);
+	totals.r1Amount += BigInt(charge.r1Amount);
+	totals.burnedR1Amount += BigInt(charge.burnedR1Amount);
+	totals.treasuryR1Amount += BigInt(charge.treasuryR1Amount);
+	return totals;
+}
+
+function totalsColumns(totals: Totals): ReportRow {
+	return {
+		payments: totals.payments,
+		purchases: totals.purchases,
+		payers: totals.payers.size,
+		usdc: formatUnits(totals.usdcAmount, USDC_DECIMALS),
+		r1: formatEther(totals.r1Amount),
+		burnedR1: formatEther(totals.burnedR1Amount),
+		treasuryR1: formatEther(totals.treasuryR1Amount),
+		discountUsdc: formatUnits(totals.discountUsdcAmount, USDC_DECIMALS),
+	};
+}
+
+/** Groups the payments and purchases in `range` by `key`, in key order. */
+function groupCharges(
+	index: PaymentIndex,
+	range: ReportRange,
+	key: (charge: IndexedCharge) => string[]
+) {
+	const groups = new Map<string, { key: string[]; totals: Totals }>();
+	for (const charge of charges(index)) {
+		if (!isReported(charge, range)) {
+			continue;
+		}
+		const values = key(charge);
+		const id = values.join("\u0000");
+		groups.set(id, {
+			key: values,
+			totals: addCharge(groups.get(id)?.totals ?? emptyTotals(), charge),
+		});
+	}
+	return [...groups.entries()]
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		.map(([, group]) => group);
+}
+
+/**
+ * Payments and purchases, payers, USDC value and R1 burned per UTC day and
+ * tier; credits bought as a USDC balance are reported under `credits`.
+ */
+export function burnReport(
+	index: PaymentIndex,
+	range: ReportRange = {}
+): ReportRow[] {
+	return groupCharges(index, range, (charge) => [
+		utcDay(charge.timestamp),
+		charge.tier,
+	]).map(({ key: [day, tier], totals }) => ({
+		day,
+		tier,
+		tierName: tierName(index, tier),
+		...totalsColumns(totals),
+	}));
+}
+
+/** The same totals per UTC day and payment method. */
+export function paymentMethodReport(
+	index: PaymentIndex,
+	range: ReportRange = {}
+): ReportRow[] {
+	return groupCharges(index, range, (charge) => [
+		utcDay(charge.timestamp),
+		charge.method,
+	]).map(({ key: [day, method], totals }) => ({
+		day,
+		method,
+		...totalsColumns(totals),
+	}));
+}
+
+/** Totals over the whole range; `payers` counts distinct payers. */
+export function paymentSummary(
+	index: PaymentIndex,
+	range: ReportRange = {}
+): ReportRow {
+	const totals = emptyTotals();
+	for (const charge of charges(index)) {
+		if (isReported(charge, range)) {
+			addCharge(totals, charge);
+		}
+	}
+	return {
+		since: range.since ?? "",
+		until: range.until ?? "",
+		...totalsColumns(totals),
+	};
+}
+
+/**
+ * Every applied tier price change in `range`, including the repricing of
+ * curve-priced tiers by curve changes, oldest first.
+ */
+export function priceHistoryReport(
+	index: PaymentIndex,
+	range: ReportRange = {}
+): ReportRow[] {
+	return index.priceUpdates
+		.filter((update) => inRange(update.timestamp, range))
+		.map((update) => ({
+			time: new Date(update.timestamp * 1000).toISOString(),
+			block: update.blockNumber,
+			tier: update.tier,
+			tierName: tierName(index, update.tier),
+			previousPriceUsdc: formatUnits(update.previousPrice, USDC_DECIMALS),
+			newPriceUsdc: formatUnits(update.newPrice, USDC_DECIMALS),
+			txHash: update.txHash,
+		}));
+}
+
+function csvField(value: string | number) {
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Renders rows with the columns of the first row; empty without rows. */
+export function toCsv(rows: ReportRow[]) {
+	if (rows.length === 0) {
+		return "";
+	}
+	const columns = Object.keys(rows[0]);
+	return `${[
+		columns.join(","),
+		...rows.map((row) =>
+			columns.map((column) => csvField(row[column] ?? "")).join(",")
+		),
+	].join("\n")}\n`;
+}
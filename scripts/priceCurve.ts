@@ -0,0 +1,22 @@
+export interface PriceCurveConfig {
+	baseFee: bigint;
+	maxPrice: bigint;
+	breakpoints: { fromBytes: bigint; usdcPerMb: bigint }[];
+}
+
+export function describePriceCurve(curve: PriceCurveConfig): string[] {
+	if (curve.breakpoints.length === 0) {
+		return ["     none (size pricing disabled)"];
+	}
+	return [
+		`     base fee ${curve.baseFee.toString()}${
+			curve.maxPrice > 0n
+				? `, capped at ${curve.maxPrice.toString()}`
+				: ""
+		}`,
+		...curve.breakpoints.map(
+			(point) =>
+				`     from ${point.fromBytes.toString()} bytes: ${point.usdcPerMb.toString()} per MB`
+		),
+	];
+}
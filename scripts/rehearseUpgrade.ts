@@ -0,0 +1,104 @@
+import hre, { ethers, network } from "hardhat";
+import { loadDeployConfig } from "./deployConfig";
+import { assertStateInvariants } from "./managerState";
+import {
+	printStateChanges,
+	resolveUpgradeProxy,
+	upgradeCheckOptionsFromEnv,
+	upgradeManager,
+} from "./managerUpgrade";
+
+/** Balance given to the impersonated upgrader for gas, in wei. */
+const UPGRADER_BALANCE = ethers.parseEther("100");
+
+/**
+ * Rehearses `scripts/upgrade.ts` on a fork of `REHEARSE_NETWORK` on the
+ * in-process Hardhat network: the upgrades plugin seeds the fork's manifest
+ * from `.openzeppelin/`, the upgrader is impersonated, and nothing is sent to
+ * the real network or written to its deployment record.
+ */
+async function main() {
+	if (network.name !== "hardhat") {
+		throw new Error(
+			"Rehearsals fork the target on the hardhat network: run with --network hardhat and REHEARSE_NETWORK=<network>"
+		);
+	}
+	const target = (process.env.REHEARSE_NETWORK || "").trim();
+	const targetConfig = target ? hre.config.networks[target] : undefined;
+	if (!targetConfig || !("url" in targetConfig)) {
+		throw new Error(
+			`Set REHEARSE_NETWORK to a network with an RPC URL (got "${target}")`
+		);
+	}
+	const blockNumber = (process.env.REHEARSE_BLOCK || "").trim();
+	if (blockNumber && !/^\d+$/.test(blockNumber)) {
+		throw new Error(`Invalid REHEARSE_BLOCK "${blockNumber}"`);
+	}
+
+	const { proxy, existing } = resolveUpgradeProxy(target);
+	const config = loadDeployConfig(target);
+	if (
+		targetConfig.chainId !== undefined &&
+		targetConfig.chainId !== config.chainId
+	) {
+		throw new Error(
+			`${config.source} is for chain ${config.chainId} but ${target} is chain ${targetConfig.chainId}`
+		);
+	}
+	const upgraderAddress =
+		(process.env.REHEARSAL_UPGRADER || "").trim() || existing?.deployer;
+	if (!upgraderAddress || !ethers.isAddress(upgraderAddress)) {
+		throw new Error(
+			"Set REHEARSAL_UPGRADER to an account holding UPGRADER_ROLE on the proxy"
+		);
+	}
+
+	await network.provider.request({
+		method: "hardhat_reset",
+		params: [
+			{
+				forking: {
+					jsonRpcUrl: targetConfig.url,
+					...(blockNumber
+						? { blockNumber: Number(blockNumber) }
+						: {}),
+				},
+			},
+		],
+	});
+	const forkBlock = await ethers.provider.getBlockNumber();
+	// Calls at the fork block run remotely and need the target's hardfork
+	// history; later blocks run locally.
+	await network.provider.request({ method: "hardhat_mine", params: ["0x1"] });
+	await network.provider.request({
+		method: "hardhat_setBalance",
+		params: [upgraderAddress, ethers.toQuantity(UPGRADER_BALANCE)],
+	});
+	const upgrader = await ethers.getImpersonatedSigner(upgraderAddress);
+
+	console.log(`\n🧪 Rehearsing the upgrade of Manager3send at ${proxy}`);
+	console.log(`   Forked ${target} at block ${forkBlock}`);
+	console.log(`   Config: ${config.source}`);
+	console.log(`   Upgrader (impersonated): ${upgrader.address}\n`);
+
+	const upgrade = await upgradeManager({
+		proxy,
+		config,
+		upgrader,
+		upgradeCall: (process.env.UPGRADE_CALL || "").trim(),
+		accounts: existing ? [existing.deployer] : [],
+		...upgradeCheckOptionsFromEnv(),
+	});
+
+	console.log(`\n   Upgraded the fork to ${upgrade.implementation.address}`);
+	printStateChanges(upgrade.changes);
+	assertStateInvariants(upgrade.changes);
+	console.log(
+		`\n✅ Rehearsal passed; nothing was sent to ${target}. Run scripts/upgrade.ts --network ${target} to upgrade.\n`
+	);
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
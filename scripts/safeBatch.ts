@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, id, isAddress } from "ethers";
+
+export const SAFE_BATCHES_DIR = path.join(__dirname, "..", "safe-batches");
+
+const BATCH_VERSION = "1.0";
+const TX_BUILDER_VERSION = "1.18.0";
+
+export interface SafeBatchTransaction {
+	to: string;
+	/** Wei sent with the call, as a decimal string. */
+	value: string;
+	data: string;
+}
+
+/**
+ * A Safe Transaction Builder batch: importing the file in the Transaction
+ * Builder app of the Safe proposes all `transactions` as one multisend.
+ */
+export interface SafeBatch {
+	version: string;
+	chainId: string;
+	/** Unix timestamp in milliseconds. */
+	createdAt: number;
+	meta: {
+		name: string;
+		/** One numbered summary line per transaction. */
+		description: string;
+		txBuilderVersion: string;
+		createdFromSafeAddress: string;
+		createdFromOwnerAddress: string;
+		checksum?: string;
+	};
+	transactions: SafeBatchTransaction[];
+}
+
+/**
+ * Reads `SAFE_ADDRESS`, the Safe administering the manager: deployments hand
+ * it every role and upgrades are proposed to it.
+ */
+export function safeAddressFromEnv() {
+	const safe = (process.env.SAFE_ADDRESS || "").trim();
+	if (safe && !isAddress(safe)) {
+		throw new Error(`Invalid SAFE_ADDRESS "${safe}"`);
+	}
+	return safe ? getAddress(safe) : null;
+}
+
+/**
+ * Default file of a new batch:
+ * `safe-batches/<network>/<label>-<timestamp>.json`.
+ */
+export function safeBatchPath(
+	network: string,
+	label: string,
+	createdAt: number
+) {
+	const timestamp = new Date(createdAt)
+		.toISOString()
+		.replace(/\.\d+Z$/, "Z")
+		.replace(/:/g, "-");
+	return path.join(SAFE_BATCHES_DIR, network, `${label}-${timestamp}.json`);
+}
+
+export function createSafeBatch(
+	chainId: number | bigint,
+	safe: string,
+	name: string
+): SafeBatch {
+	return {
+		version: BATCH_VERSION,
+		chainId: chainId.toString(),
+		createdAt: Date.now(),
+		meta: {
+			name,
+			description: "",
+			txBuilderVersion: TX_BUILDER_VERSION,
+			createdFromSafeAddress: getAddress(safe),
+			createdFromOwnerAddress: "",
+		},
+		transactions: [],
+	};
+}
+
+/** The summary of each transaction, as listed in the batch description. */
+export function safeBatchSummaries(batch: SafeBatch) {
+	return batch.meta.description
+		.split("\n")
+		.filter((line) => line !== "")
+		.map((line) => line.replace(/^\d+\. /, ""));
+}
+
+/** Appends a call to the batch and its summary to the description. */
+export function addSafeTransaction(
+	batch: SafeBatch,
+	transaction: { to: string; data: string; value?: bigint },
+	summary: string
+) {
+	batch.transactions.push({
+		to: getAddress(transaction.to),
+		value: (transaction.value ?? 0n).toString(),
+		data: transaction.data,
+	});
+	batch.meta.description = [...safeBatchSummaries(batch), summary]
+		.map((line, index) => `${index + 1}. ${line}`)
+		.join("\n");
+}
+
+/** Serializes like the Transaction Builder: keys sorted, listed up front. */
+function serializeForChecksum(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(serializeForChecksum).join(",")}]`;
+	}
+	if (typeof value === "object" && value !== null) {
+		const keys = Object.keys(value).sort();
+		return `{${JSON.stringify(keys)}${keys
+			.map(
+				(key) =>
+					`${serializeForChecksum(
+						(value as Record<string, unknown>)[key]
+					)},`
+			)
+			.join("")}}`;
+	}
+	return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Checksum the Transaction Builder stores in `meta.checksum` and checks on
+ * import, computed without the batch name and the checksum itself.
+ */
+export function safeBatchChecksum(batch: SafeBatch) {
+	const { checksum, ...meta } = batch.meta;
+	return id(
+		serializeForChecksum({ ...batch, meta: { ...meta, name: null } })
+	);
+}
+
+export function writeSafeBatch(file: string, batch: SafeBatch) {
+	batch.meta.checksum = safeBatchChecksum(batch);
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, `${JSON.stringify(batch, null, "\t")}\n`);
+	return file;
+}
+
+export function readSafeBatch(file: string): SafeBatch {
+	if (!fs.existsSync(file)) {
+		throw new Error(`No Safe batch at ${file}`);
+	}
+	const batch = JSON.parse(fs.readFileSync(file, "utf8")) as SafeBatch;
+	if (
+		typeof batch.chainId !== "string" ||
+		typeof batch.meta?.createdFromSafeAddress !== "string" ||
+		!Array.isArray(batch.transactions)
+	) {
+		throw new Error(`${file} is not a Safe Transaction Builder batch`);
+	}
+	return batch;
+}
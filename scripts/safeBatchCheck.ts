@@ -0,0 +1,359 @@
+import { ethers, upgrades } from "hardhat";
+import { Interface, ZeroHash } from "ethers";
+import { connectManager } from "../sdk";
+import { describeManagerCall } from "./managerCalls";
+import { MANAGER_MODULES, moduleSelectors } from "./managerModules";
+import { SafeBatch, safeBatchChecksum, safeBatchSummaries } from "./safeBatch";
+
+export interface BatchTransactionCheck {
+	index: number;
+	/** Summary read from the calldata, `null` when it does not decode. */
+	summary: string | null;
+	/** Facts reviewers should know, e.g. an execution deadline. */
+	notes: string[];
+	problems: string[];
+}
+
+export interface SafeBatchCheck {
+	safe: string;
+	/** Problems with the batch as a whole. */
+	problems: string[];
+	transactions: BatchTransactionCheck[];
+}
+
+export interface BatchCheckOptions {
+	proxy: string;
+	/** Implementation of the upgrade proposal in the deployment record. */
+	expectedImplementation?: string | null;
+}
+
+function revertReason(error: unknown, iface: Interface) {
+	const { data, shortMessage, message } = error as {
+		data?: string;
+		shortMessage?: string;
+		message?: string;
+	};
+	const decoded =
+		typeof data === "string" && data.length >= 10
+			? iface.parseError(data)
+			: null;
+	if (decoded) {
+		return `${decoded.name}(${[...decoded.args].join(", ")})`;
+	}
+	return shortMessage ?? message ?? String(error);
+}
+
+/**
+ * Runtime code the local build of `contractName` deploys with
+ * `constructorArgs`, as if deployed at `address`.
+ */
+async function localRuntimeCode(
+	contractName: string,
+	constructorArgs: unknown[],
+	address: string
+) {
+	const factory = await ethers.getContractFactory(contractName);
+	const deployment = await factory.getDeployTransaction(...constructorArgs);
+	// Running the init code returns the runtime code it would deploy. UUPS
+	// implementations hold their own address as an immutable, so the address
+	// of the simulated deployment is swapped for the real one.
+	const from = ethers.ZeroAddress;
+	const simulated = ethers.getCreateAddress({
+		from,
+		nonce: await ethers.provider.getTransactionCount(from),
+	});
+	return (await ethers.provider.call({ from, data: deployment.data }))
+		.split(simulated.slice(2).toLowerCase())
+		.join(address.slice(2).toLowerCase());
+}
+
+/**
+ * Checks that `implementation`, its router and the modules the router maps
+ * run exactly the bytecode the local build deploys, that the router maps the
+ * selectors of the local build onto them, and that the upgrades plugin
+ * accepts the implementation as an upgrade of `proxy`.
+ */
+async function checkImplementation(proxy: string, implementation: string) {
+	const problems: string[] = [];
+	const matchesBuild = async (
+		contractName: string,
+		address: string,
+		constructorArgs: unknown[] = []
+	) => {
+		const code = await ethers.provider.getCode(address);
+		if (code === "0x") {
+			problems.push(`${contractName} ${address} has no code`);
+			return false;
+		}
+		if (
+			(await localRuntimeCode(contractName, constructorArgs, address)) !==
+			code
+		) {
+			problems.push(
+				`${contractName} ${address} does not match the local build`
+			);
+			return false;
+		}
+		return true;
+	};
+
+	let routerAddress: string;
+	try {
+		routerAddress = await new ethers.Contract(
+			implementation,
+			["function router() view returns (address)"],
+			ethers.provider
+		).getFunction("router")();
+	} catch (error) {
+		problems.push(
+			`Manager3send ${implementation} does not match the local build`
+		);
+		return problems;
+	}
+	if (
+		!(await matchesBuild("Manager3send", implementation, [routerAddress]))
+	) {
+		return problems;
+	}
+
+	// The router keeps its table in storage: its code is the same whatever
+	// modules it was deployed with.
+	const router = await ethers.getContractAt(
+		"Manager3sendRouter",
+		routerAddress
+	);
+	let modules: string[];
+	try {
+		modules = [...(await router.modules())];
+	} catch (error) {
+		problems.push(
+			`Manager3sendRouter ${routerAddress} does not match the local build`
+		);
+		return problems;
+	}
+	if (modules.length !== MANAGER_MODULES.length) {
+		problems.push(
+			`Manager3sendRouter ${routerAddress} maps ${modules.length} modules, not ${MANAGER_MODULES.length}`
+		);
+		return problems;
+	}
+	const selectors = await moduleSelectors();
+	if (
+		!(await matchesBuild("Manager3sendRouter", routerAddress, [
+			modules,
+			selectors,
+		]))
+	) {
+		return problems;
+	}
+	for (const [index, contractName] of MANAGER_MODULES.entries()) {
+		const module = modules[index];
+		if (!(await matchesBuild(contractName, module))) {
+			continue;
+		}
+		const routed = await router.selectorsOf(module);
+		if (routed.join() !== selectors[index].join()) {
+			problems.push(
+				`Manager3sendRouter ${routerAddress} does not route the functions of ${contractName} ${module} as the local build`
+			);
+		}
+	}
+
+	try {
+		await upgrades.validateUpgrade(
+			proxy,
+			await ethers.getContractFactory("Manager3send"),
+			{
+				constructorArgs: [routerAddress],
+			} as Parameters<typeof upgrades.validateUpgrade>[2]
+		);
+	} catch (error) {
+		problems.push(
+			`Manager3send ${implementation} is not a safe upgrade: ${
+				(error as Error).message.split("\n")[0]
+			}`
+		);
+	}
+	return problems;
+}
+
+/**
+ * Checks a batch proposed for `proxy` against the chain and the local build:
+ * the network, checksum and Safe, that every transaction is a call to the
+ * proxy whose calldata matches the summary it was proposed with, that it
+ * succeeds when sent from the Safe in the current state, and what the call
+ * changes: upgrades must point at the local build (and the proposal in the
+ * deployment record), and the Safe must not give up the admin role without
+ * granting it to someone else. Calls are simulated one by one, so a call
+ * depending on an earlier one of the batch may be reported as reverting.
+ */
+export async function checkSafeBatch(
+	batch: SafeBatch,
+	options: BatchCheckOptions
+): Promise<SafeBatchCheck> {
+	const proxy = ethers.getAddress(options.proxy);
+	const manager = connectManager(proxy, ethers.provider);
+	const iface: Interface = manager.interface;
+	const safe = batch.meta.createdFromSafeAddress;
+	const check: SafeBatchCheck = { safe, problems: [], transactions: [] };
+
+	const { chainId } = await ethers.provider.getNetwork();
+	if (batch.chainId !== chainId.toString()) {
+		check.problems.push(
+			`Batch is for chain ${batch.chainId}, not ${chainId.toString()}`
+		);
+		return check;
+	}
+	if (
+		batch.meta.checksum &&
+		batch.meta.checksum !== safeBatchChecksum(batch)
+	) {
+		check.problems.push(
+			"Checksum does not match the batch; it was edited after export"
+		);
+	}
+	if (!ethers.isAddress(safe)) {
+		check.problems.push(`Invalid Safe address "${safe}"`);
+		return check;
+	}
+	if ((await ethers.provider.getCode(safe)) === "0x") {
+		check.problems.push(
+			`${safe} has no code; batches must be executed by a Safe`
+		);
+	}
+	const summaries = safeBatchSummaries(batch);
+	if (summaries.length !== batch.transactions.length) {
+		check.problems.push(
+			`Description lists ${summaries.length} transactions, the batch has ${batch.transactions.length}`
+		);
+	}
+
+	const calls = batch.transactions.map((transaction) => {
+		try {
+			return ethers.getAddress(transaction.to) === proxy
+				? iface.parseTransaction({ data: transaction.data })
+				: null;
+		} catch (error) {
+			return null;
+		}
+	});
+	for (const [index, transaction] of batch.transactions.entries()) {
+		const result: BatchTransactionCheck = {
+			index,
+			summary: null,
+			notes: [],
+			problems: [],
+		};
+		check.transactions.push(result);
+
+		if (ethers.getAddress(transaction.to) !== proxy) {
+			result.problems.push(
+				`Calls ${transaction.to}, not the Manager3send proxy ${proxy}`
+			);
+			continue;
+		}
+		if (transaction.value !== "0") {
+			result.problems.push(`Sends ${transaction.value} wei`);
+		}
+		try {
+			result.summary = await describeManagerCall(
+				manager,
+				transaction.data
+			);
+		} catch (error) {
+			result.problems.push((error as Error).message);
+			continue;
+		}
+		if (summaries[index] !== result.summary) {
+			result.problems.push(
+				`Proposed as "${
+					summaries[index] ?? ""
+				}" but the calldata now reads "${result.summary}"`
+			);
+		}
+
+		try {
+			await ethers.provider.call({
+				from: safe,
+				to: proxy,
+				data: transaction.data,
+			});
+		} catch (error) {
+			result.problems.push(
+				`Reverts when sent from the Safe: ${revertReason(error, iface)}`
+			);
+		}
+
+		const call = calls[index]!;
+		if (call.name === "upgradeToAndCall") {
+			const implementation = ethers.getAddress(call.args[0]);
+			result.problems.push(
+				...(await checkImplementation(proxy, implementation))
+			);
+			if (
+				options.expectedImplementation &&
+				ethers.getAddress(options.expectedImplementation) !==
+					implementation
+			) {
+				result.problems.push(
+					`Upgrades to ${implementation}, but the recorded proposal is ${options.expectedImplementation}`
+				);
+			}
+		} else if (call.name === "proposeTierPrice") {
+			const deadline =
+				BigInt(call.args[2]) - (await manager.priceChangeDelay());
+			result.notes.push(
+				`Execute by ${new Date(
+					Number(deadline) * 1000
+				).toISOString()}: later the announcement misses the price change delay`
+			);
+		} else if (
+			(call.name === "revokeRole" || call.name === "renounceRole") &&
+			call.args[0] === ZeroHash &&
+			ethers.getAddress(call.args[1]) === ethers.getAddress(safe)
+		) {
+			const handedOver = calls
+				.slice(0, index)
+				.some(
+					(earlier) =>
+						earlier?.name === "grantRole" &&
+						earlier.args[0] === ZeroHash &&
+						ethers.getAddress(earlier.args[1]) !==
+							ethers.getAddress(safe)
+				);
+			if (!handedOver) {
+				result.problems.push(
+					"Removes the Safe's admin role without granting it to another account first"
+				);
+			}
+		}
+	}
+	return check;
+}
+
+/** Number of problems found in the batch and its transactions. */
+export function countBatchProblems(check: SafeBatchCheck) {
+	return check.transactions.reduce(
+		(count, transaction) => count + transaction.problems.length,
+		check.problems.length
+	);
+}
+
+export function printSafeBatchCheck(check: SafeBatchCheck) {
+	for (const problem of check.problems) {
+		console.log(`   ✗ ${problem}`);
+	}
+	for (const transaction of check.transactions) {
+		console.log(
+			`   ${transaction.problems.length === 0 ? "✓" : "✗"} ${
+				transaction.index + 1
+			}. ${transaction.summary ?? "(undecodable call)"}`
+		);
+		for (const note of transaction.notes) {
+			console.log(`       ${note}`);
+		}
+		for (const problem of transaction.problems) {
+			console.log(`       ✗ ${problem}`);
+		}
+	}
+}
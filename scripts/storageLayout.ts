@@ -0,0 +1,289 @@
+import hre, { ethers, upgrades } from "hardhat";
+import {
+	TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+	TASK_COMPILE_SOLIDITY_RUN_SOLC,
+	TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+import type { BuildInfo, SolcBuild } from "hardhat/types";
+import {
+	Manifest,
+	SolcInput,
+	SolcOutput,
+	StorageItem,
+	StorageLayout,
+	ValidationDataCurrent,
+	concatRunData,
+	getStorageLayout,
+	getStorageLayoutForAddress,
+	getUnlinkedBytecode,
+	getVersion,
+	isNamespaceSupported,
+	makeNamespacedInput,
+	solcInputOutputDecoder,
+	trySanitizeNatSpec,
+	validate,
+} from "@openzeppelin/upgrades-core";
+
+export interface LayoutVariable {
+	/** Variable name, prefixed with its ERC-7201 namespace if any. */
+	name: string;
+	/** ERC-7201 namespace the variable lives in, `""` for plain storage. */
+	namespace: string;
+	contract: string;
+	/** Slot, relative to the namespace root for namespaced variables. */
+	slot: string;
+	offset: number;
+	type: string;
+}
+
+export interface LayoutChange {
+	kind: "added" | "removed" | "moved" | "renamed" | "retyped";
+	before: LayoutVariable | null;
+	after: LayoutVariable | null;
+}
+
+export interface StorageLayoutDiff {
+	changes: LayoutChange[];
+	/** Variables found unchanged in both layouts. */
+	unchanged: number;
+}
+
+function layoutVariables(layout: StorageLayout): LayoutVariable[] {
+	const variable = (item: StorageItem, namespace = "") => ({
+		name: namespace ? `${namespace}:${item.label}` : item.label,
+		namespace,
+		contract: item.contract,
+		slot: item.slot ?? "?",
+		offset: item.offset ?? 0,
+		type: layout.types[item.type]?.label ?? item.type,
+	});
+	return [
+		...layout.storage.map((item) => variable(item)),
+		...Object.entries(layout.namespaces ?? {}).flatMap(
+			([namespace, items]) =>
+				items.map((item) => variable(item, namespace))
+		),
+	];
+}
+
+function position(variable: LayoutVariable) {
+	return `${variable.namespace}@${variable.slot}+${variable.offset}`;
+}
+
+/**
+ * Compares two layouts by the slot and offset each variable occupies, so a
+ * variable renamed in place shows up as `renamed` rather than passing
+ * unnoticed. A variable whose name reappears at another position is `moved`.
+ */
+export function diffStorageLayouts(
+	original: StorageLayout,
+	updated: StorageLayout
+): StorageLayoutDiff {
+	const before = layoutVariables(original);
+	const after = layoutVariables(updated);
+	const afterAt = new Map(after.map((entry) => [position(entry), entry]));
+	const beforeAt = new Map(before.map((entry) => [position(entry), entry]));
+	const changes: LayoutChange[] = [];
+	const moved = new Set<LayoutVariable>();
+	let unchanged = 0;
+
+	for (const previous of before) {
+		const next = afterAt.get(position(previous));
+		if (!next) {
+			const relocated = after.find(
+				(entry) =>
+					entry.name === previous.name &&
+					!beforeAt.has(position(entry))
+			);
+			if (relocated) {
+				moved.add(relocated);
+				changes.push({
+					kind: "moved",
+					before: previous,
+					after: relocated,
+				});
+			} else {
+				changes.push({
+					kind: "removed",
+					before: previous,
+					after: null,
+				});
+			}
+		} else if (next.name !== previous.name) {
+			changes.push({ kind: "renamed", before: previous, after: next });
+		} else if (next.type !== previous.type) {
+			changes.push({ kind: "retyped", before: previous, after: next });
+		} else {
+			unchanged += 1;
+		}
+	}
+	for (const next of after) {
+		if (!beforeAt.has(position(next)) && !moved.has(next)) {
+			changes.push({ kind: "added", before: null, after: next });
+		}
+	}
+	return { changes, unchanged };
+}
+
+/**
+ * Compiles `buildInfo` again with its ERC-7201 namespaces turned into
+ * variables, which gives the namespaced variables a slot and offset, as the
+ * upgrades plugin does when it validates a build. `undefined` if that fails,
+ * leaving the namespaces without positions like the plugin would.
+ */
+async function compileNamespaces(
+	buildInfo: BuildInfo
+): Promise<SolcOutput | undefined> {
+	const { input, output, solcVersion } = buildInfo;
+	if (!isNamespaceSupported(solcVersion)) {
+		return undefined;
+	}
+	const namespacedInput = await trySanitizeNatSpec(
+		makeNamespacedInput(
+			input as SolcInput,
+			output as unknown as SolcOutput,
+			solcVersion
+		),
+		solcVersion
+	);
+	const solcBuild: SolcBuild = await hre.run(
+		TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+		{ quiet: true, solcVersion }
+	);
+	const namespacedOutput: SolcOutput = solcBuild.isSolcJs
+		? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+				input: namespacedInput,
+				solcJsPath: solcBuild.compilerPath,
+		  })
+		: await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+				input: namespacedInput,
+				solcPath: solcBuild.compilerPath,
+				solcVersion,
+		  });
+	return namespacedOutput.errors?.some((error) => error.severity === "error")
+		? undefined
+		: namespacedOutput;
+}
+
+const validationsCache = new Map<string, Promise<ValidationDataCurrent>>();
+
+/**
+ * Validation data of the build `contractName` was last compiled in, which
+ * holds the storage layout of every contract of the build, made with the
+ * upgrades-core API from the Hardhat build info.
+ */
+async function compiledValidations(contractName: string) {
+	const { sourceName } = await hre.artifacts.readArtifact(contractName);
+	const buildInfo = await hre.artifacts.getBuildInfo(
+		`${sourceName}:${contractName}`
+	);
+	if (!buildInfo) {
+		throw new Error(
+			`No build info for ${contractName}, run the compile task first`
+		);
+	}
+	if (!validationsCache.has(buildInfo.id)) {
+		validationsCache.set(buildInfo.id, validateBuild(buildInfo));
+	}
+	return validationsCache.get(buildInfo.id)!;
+}
+
+async function validateBuild(buildInfo: BuildInfo) {
+	const input = buildInfo.input as SolcInput;
+	const output = buildInfo.output as unknown as SolcOutput;
+	return concatRunData(
+		validate(
+			output,
+			solcInputOutputDecoder(input, output),
+			buildInfo.solcVersion,
+			input,
+			await compileNamespaces(buildInfo)
+		)
+	);
+}
+
+/**
+ * Diffs the storage layout of the implementation behind `proxy`, as recorded
+ * in the network's `.openzeppelin` manifest, against the compiled
+ * `contractName`'s.
+ */
+export async function storageLayoutDiff(
+	proxy: string,
+	contractName: string,
+	constructorArgs: unknown[]
+): Promise<StorageLayoutDiff> {
+	const validations = await compiledValidations(contractName);
+	const factory = await ethers.getContractFactory(contractName);
+	const manifest = await Manifest.forNetwork(ethers.provider);
+	const original = await getStorageLayoutForAddress(
+		manifest,
+		validations,
+		await upgrades.erc1967.getImplementationAddress(proxy)
+	);
+
+	const version = getVersion(
+		getUnlinkedBytecode(validations, factory.bytecode),
+		factory.bytecode,
+		factory.interface.encodeDeploy(constructorArgs)
+	);
+	return diffStorageLayouts(original, getStorageLayout(validations, version));
+}
+
+/** Storage layout of the compiled `contractName`. */
+async function compiledStorageLayout(contractName: string) {
+	const validations = await compiledValidations(contractName);
+	const { bytecode } = await ethers.getContractFactory(contractName);
+	return getStorageLayout(
+		validations,
+		getVersion(getUnlinkedBytecode(validations, bytecode), bytecode)
+	);
+}
+
+/**
+ * Checks that every variable the logic contract `module` declares is declared
+ * by `implementation` at the same slot, offset and type. Modules run with the
+ * proxy storage through `delegatecall` but the upgrades plugin only validates
+ * the implementation, so a variable of a module's own would silently overwrite
+ * whatever the proxy keeps there. Returns the offending variables.
+ */
+export async function moduleStorageLayoutChanges(
+	implementation: string,
+	module: string
+): Promise<LayoutChange[]> {
+	const { changes } = diffStorageLayouts(
+		await compiledStorageLayout(module),
+		await compiledStorageLayout(implementation)
+	);
+	return changes.filter((change) => change.kind !== "added");
+}
+
+function describeVariable(variable: LayoutVariable) {
+	return `${variable.name} (${variable.type}) at slot ${variable.slot}+${variable.offset} in ${variable.contract}`;
+}
+
+export function printStorageLayoutDiff(diff: StorageLayoutDiff) {
+	console.log(
+		`   Storage layout: ${diff.unchanged} variables unchanged, ${diff.changes.length} changed`
+	);
+	for (const change of diff.changes) {
+		if (change.kind === "added") {
+			console.log(`     + ${describeVariable(change.after!)}`);
+		} else if (change.kind === "removed") {
+			console.log(`     - ${describeVariable(change.before!)}`);
+		} else if (change.kind === "renamed") {
+			console.log(
+				`     ~ ${describeVariable(change.before!)} -> renamed ${
+					change.after!.name
+				} (${change.after!.type})`
+			);
+		} else {
+			console.log(
+				`     ~ ${describeVariable(change.before!)} -> ${
+					change.kind === "moved"
+						? `slot ${change.after!.slot}+${change.after!.offset}`
+						: change.after!.type
+				}`
+			);
+		}
+	}
+}
@@ -0,0 +1,44 @@
+import { ethers } from "hardhat";
+import { SwapConfig } from "./deployConfig";
+import { ContractRecord } from "./deploymentRecord";
+
+/**
+ * Returns the swap adapter named by `swap.adapter`, or deploys one for
+ * `swap.backend`: `v2` wraps the Uniswap V2 `router`, `v3` wraps the
+ * SwapRouter02 `router` and the `quoter` for the `fee` tier and `poolFees`,
+ * which the adapter cannot change afterwards.
+ */
+export async function deploySwapAdapter(
+	swap: SwapConfig
+): Promise<ContractRecord> {
+	if ("adapter" in swap) {
+		console.log(`   Using swap adapter ${swap.adapter}`);
+		return {
+			contractName: "ISwapAdapter",
+			address: swap.adapter,
+			constructorArgs: null,
+			txHash: null,
+		};
+	}
+
+	const [contractName, constructorArgs] =
+		swap.backend === "v2"
+			? ["UniswapV2SwapAdapter", [swap.router]]
+			: [
+					"UniswapV3SwapAdapter",
+					[swap.router, swap.quoter, swap.fee, swap.poolFees],
+			  ];
+
+	console.log(`   Deploying ${contractName}...`);
+	const factory = await ethers.getContractFactory(contractName);
+	const adapter = await factory.deploy(...constructorArgs);
+	await adapter.waitForDeployment();
+	const address = await adapter.getAddress();
+	console.log(`   ${contractName} deployed at ${address}`);
+	return {
+		contractName,
+		address,
+		constructorArgs,
+		txHash: adapter.deploymentTransaction()?.hash ?? null,
+	};
+}
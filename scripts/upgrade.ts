@@ -1,59 +1,386 @@
-import { ethers, run, upgrades } from "hardhat";
+import * as path from "path";
+import { ethers, network, upgrades } from "hardhat";
+import { connectManager } from "../sdk";
+import { DeployConfig, loadDeployConfig } from "./deployConfig";
+import {
+	DeploymentRecord,
+	PendingUpgradeRecord,
+	transactionRecord,
+	writeDeploymentRecord,
+} from "./deploymentRecord";
+import { ROLES, describeManagerCall, encodeManagerCall } from "./managerCalls";
+import { assertStateInvariants } from "./managerState";
+import {
+	findUpgradeTxHash,
+	printStateChanges,
+	proposeManagerUpgrade,
+	rehearseUpgrade,
+	resolveUpgradeProxy,
+	upgradeCheckOptionsFromEnv,
+	upgradeManager,
+} from "./managerUpgrade";
+import {
+	addSafeTransaction,
+	createSafeBatch,
+	safeAddressFromEnv,
+	safeBatchPath,
+	writeSafeBatch,
+} from "./safeBatch";
+import {
+	countBatchProblems,
+	checkSafeBatch,
+	printSafeBatchCheck,
+} from "./safeBatchCheck";
+import { verifyDeployment } from "./verification";
 
-function requireEnv(name: string): string {
-	const value = process.env[name];
-	if (!value || value.trim() === "") {
-		throw new Error(`Missing required environment variable ${name}`);
+interface RoleGrant {
+	name: string;
+	role: string;
+	account: string;
+}
+
+/**
+ * Reads optional role grants from `ROLE_GRANTS` (comma separated
+ * `role:address` entries, roles named as in {@link ROLES}).
+ */
+function parseRoleGrantsEnv(): RoleGrant[] {
+	const raw = (process.env.ROLE_GRANTS || "").trim();
+	if (!raw) {
+		return [];
+	}
+
+	const roleNames = Object.keys(ROLES).join("|");
+	return raw.split(",").map((entry) => {
+		const [name, account, ...rest] = entry
+			.split(":")
+			.map((part) => part.trim());
+		const role = ROLES[name?.toUpperCase()];
+		if (!role || !account || rest.length > 0) {
+			throw new Error(
+				`Invalid ROLE_GRANTS entry "${entry}", expected role:address with role in ${roleNames}`
+			);
+		}
+		if (!ethers.isAddress(account)) {
+			throw new Error(`Invalid address "${account}" for role ${name}`);
+		}
+		return {
+			name: name.toUpperCase(),
+			role,
+			account: ethers.getAddress(account),
+		};
+	});
+}
+
+/**
+ * Moves the upgrade proposed in the record into it once the Safe executed
+ * it: the new contracts, the implementation and the upgrade transaction.
+ */
+async function recordExecutedUpgrade(
+	existing: DeploymentRecord,
+	config: DeployConfig
+) {
+	const { pendingUpgrade, ...rest } = existing;
+	const pending = pendingUpgrade!;
+	const record: DeploymentRecord = {
+		...rest,
+		implementation: pending.implementation,
+		contracts: { ...existing.contracts, ...pending.contracts },
+		upgrades: [
+			...existing.upgrades,
+			{
+				implementation: pending.implementation,
+				call: pending.call,
+				...(await transactionRecord(
+					ethers.provider,
+					await findUpgradeTxHash(
+						existing.proxy,
+						pending.implementation,
+						pending.blockNumber
+					)
+				)),
+			},
+		],
+		config: config.raw,
+	};
+	console.log(
+		`✅ ${pending.safe} executed the upgrade to ${pending.implementation}`
+	);
+	console.log(
+		`   Deployment record written to ${writeDeploymentRecord(record)}\n`
+	);
+}
+
+/**
+ * Deploys the upgrade and writes the `upgradeToAndCall` and any role grants
+ * to a Safe batch instead of sending them, then checks the batch against the
+ * chain. The proposal is kept in the deployment record until executed.
+ */
+async function proposeUpgrade(
+	safe: string,
+	proxy: string,
+	existing: DeploymentRecord | null,
+	config: DeployConfig,
+	upgradeCall: string,
+	roleGrants: RoleGrant[]
+) {
+	const [deployer] = await ethers.getSigners();
+	const blockNumber = await ethers.provider.getBlockNumber();
+	const proposal = await proposeManagerUpgrade({
+		proxy,
+		config,
+		deployer,
+		upgradeCall,
+	});
+	const { implementation, modules, swapAdapter } = proposal;
+
+	const manager = connectManager(proxy, ethers.provider);
+	const batch = createSafeBatch(
+		config.chainId,
+		safe,
+		`Upgrade Manager3send on ${network.name}`
+	);
+	const calls = [proposal.call];
+	for (const { role, account } of roleGrants) {
+		if (!(await manager.hasRole(role, account))) {
+			calls.push({ method: "grantRole", args: [role, account] });
+		}
+	}
+	for (const call of calls) {
+		const data = encodeManagerCall(manager, call);
+		addSafeTransaction(
+			batch,
+			{ to: proxy, data },
+			await describeManagerCall(manager, data)
+		);
+	}
+	const file = writeSafeBatch(
+		safeBatchPath(network.name, "upgrade", batch.createdAt),
+		batch
+	);
+
+	const pendingUpgrade: PendingUpgradeRecord = {
+		implementation: implementation.address,
+		call: upgradeCall || null,
+		contracts: {
+			implementation,
+			extension: modules.extension,
+			purchases: modules.purchases,
+			subscriptions: modules.subscriptions,
+			escrow: modules.escrow,
+			router: modules.router,
+			...(swapAdapter ? { swapAdapter } : {}),
+		},
+		safe,
+		batch: path.relative(path.join(__dirname, ".."), file),
+		blockNumber,
+	};
+	const record: DeploymentRecord = existing
+		? { ...existing, pendingUpgrade }
+		: {
+				network: network.name,
+				chainId: config.chainId,
+				proxy,
+				implementation: await upgrades.erc1967.getImplementationAddress(
+					proxy
+				),
+				deployer: deployer.address,
+				contracts: {},
+				deployment: null,
+				upgrades: [],
+				config: config.raw,
+				pendingUpgrade,
+		  };
+
+	console.log(`\n📝 Upgrade proposed to the Safe ${safe}`);
+	console.log(`   New implementation address: ${implementation.address}`);
+	console.log(`   Safe batch written to ${file}`);
+	console.log(
+		`   Deployment record written to ${writeDeploymentRecord(record)}\n`
+	);
+
+	if (config.verify) {
+		await verifyDeployment({
+			...record,
+			contracts: pendingUpgrade.contracts,
+		});
 	}
-	return value.trim();
+
+	console.log("   Checking the batch against the chain...");
+	const check = await checkSafeBatch(batch, {
+		proxy,
+		expectedImplementation: implementation.address,
+	});
+	printSafeBatchCheck(check);
+	const problems = countBatchProblems(check);
+	if (problems > 0) {
+		throw new Error(`The proposed batch has ${problems} problem(s)`);
+	}
+	console.log(
+		`\n   Import the batch in the Safe's Transaction Builder. Once executed, run this script again to record the upgrade.\n`
+	);
+}
+
+/**
+ * Rehearses the upgrade with `upgrader` on a fork before anything is sent;
+ * the in-process network has no fork to rehearse on.
+ */
+function rehearseUpgradeFirst(upgrader: string) {
+	if (network.name === "hardhat") {
+		console.log("   Skipping the rehearsal on the in-process network\n");
+		return;
+	}
+	rehearseUpgrade(network.name, upgrader);
 }
 
 async function main() {
-	const proxyAddress = requireEnv("MANAGER_PROXY_ADDRESS");
+	const { proxy: proxyAddress, existing } = resolveUpgradeProxy(network.name);
+	const config = loadDeployConfig(network.name);
+	const roleGrants = parseRoleGrantsEnv();
+	const checks = upgradeCheckOptionsFromEnv();
+
+	const safe = safeAddressFromEnv();
 
 	const [deployer] = await ethers.getSigners();
-	const network = await ethers.provider.getNetwork();
+	const { chainId } = await ethers.provider.getNetwork();
+	if (BigInt(config.chainId) !== chainId) {
+		throw new Error(
+			`${config.source} is for chain ${config.chainId} but ${network.name} is chain ${chainId}`
+		);
+	}
+
+	const pending = existing?.pendingUpgrade;
+	if (
+		pending &&
+		(await upgrades.erc1967.getImplementationAddress(proxyAddress)) ===
+			ethers.getAddress(pending.implementation)
+	) {
+		await recordExecutedUpgrade(existing!, config);
+		return;
+	}
+	if (pending) {
+		console.log(
+			`\n⚠️  Replacing the upgrade to ${pending.implementation} proposed in ${pending.batch}, which was not executed`
+		);
+	}
+	const upgradeCall = (process.env.UPGRADE_CALL || "").trim();
+	if (safe) {
+		console.log(
+			`\n♻️  Proposing an upgrade of Manager3send at ${proxyAddress}`
+		);
+		console.log(`   Network: ${network.name} (${chainId})`);
+		console.log(`   Config: ${config.source}`);
+		console.log(`   Deployer: ${deployer.address}`);
+		console.log(`   Safe: ${safe}\n`);
+		rehearseUpgradeFirst(safe);
+		await proposeUpgrade(
+			safe,
+			proxyAddress,
+			existing,
+			config,
+			upgradeCall,
+			roleGrants
+		);
+		return;
+	}
 
 	console.log(`\n♻️  Upgrading Manager3send at ${proxyAddress}`);
-	console.log(`   Network: ${network.name} (${network.chainId})`);
+	console.log(`   Network: ${network.name} (${chainId})`);
+	console.log(`   Config: ${config.source}`);
 	console.log(`   Upgrader: ${deployer.address}\n`);
+	rehearseUpgradeFirst(deployer.address);
 
-	const Manager3send = await ethers.getContractFactory("Manager3send");
+	const upgrade = await upgradeManager({
+		proxy: proxyAddress,
+		config,
+		upgrader: deployer,
+		upgradeCall,
+		accounts: [
+			...(existing ? [existing.deployer] : []),
+			...roleGrants.map((grant) => grant.account),
+		],
+		...checks,
+	});
+	const { implementation, modules, swapAdapter } = upgrade;
 
-	console.log("   Validating upgrade...");
-	await upgrades.validateUpgrade(proxyAddress, Manager3send);
+	const manager = connectManager(proxyAddress, deployer);
 
-	console.log("   Performing upgrade transaction...");
-	const upgraded = await upgrades.upgradeProxy(proxyAddress, Manager3send);
-	await upgraded.waitForDeployment();
+	console.log("✅ Upgrade completed!");
+	console.log(`   New implementation address: ${implementation.address}`);
+	console.log(`   New extension address: ${modules.extension.address}`);
+	console.log(`   New purchases address: ${modules.purchases.address}`);
+	console.log(
+		`   New subscriptions address: ${modules.subscriptions.address}`
+	);
+	console.log(`   New escrow address: ${modules.escrow.address}`);
+	console.log(`   New router address: ${modules.router.address}\n`);
 
-	const implementationAddress =
-		await upgrades.erc1967.getImplementationAddress(proxyAddress);
+	const record: DeploymentRecord = {
+		network: network.name,
+		chainId: config.chainId,
+		proxy: proxyAddress,
+		implementation: implementation.address,
+		deployer: existing?.deployer ?? deployer.address,
+		contracts: {
+			...existing?.contracts,
+			implementation,
+			extension: modules.extension,
+			purchases: modules.purchases,
+			subscriptions: modules.subscriptions,
+			escrow: modules.escrow,
+			router: modules.router,
+			...(swapAdapter ? { swapAdapter } : {}),
+		},
+		deployment: existing?.deployment ?? null,
+		upgrades: [
+			...(existing?.upgrades ?? []),
+			{
+				implementation: implementation.address,
+				call: upgradeCall || null,
+				...(await transactionRecord(
+					ethers.provider,
+					upgrade.upgradeTxHash
+				)),
+			},
+		],
+		config: config.raw,
+	};
+	console.log(
+		`   Deployment record written to ${writeDeploymentRecord(record)}\n`
+	);
 
-	console.log("✅ Upgrade completed!");
-	console.log(`   New implementation address: ${implementationAddress}\n`);
-
-	const shouldVerify =
-		(process.env.VERIFY_ON_UPGRADE || "").toLowerCase() === "true";
-	if (shouldVerify) {
-		if (!process.env.ETHERSCAN_API_KEY) {
-			console.warn(
-				"⚠️  VERIFY_ON_UPGRADE is true but ETHERSCAN_API_KEY is not set. Skipping verification."
-			);
-		} else {
-			try {
-				console.log("   Verifying new implementation on Etherscan...");
-				await run("verify:verify", { address: implementationAddress });
-				console.log("   Etherscan verification complete.\n");
-			} catch (error) {
-				console.warn(
-					"⚠️  Verification failed. You can retry manually with:\n",
-					`    npx hardhat verify --network ${network.name} ${implementationAddress}`,
-					"\nError:",
-					error instanceof Error ? error.message : error
-				);
+	// Checked again on chain once the upgrade is recorded: it is live either
+	// way.
+	printStateChanges(upgrade.changes);
+	assertStateInvariants(upgrade.changes);
+	console.log("");
+
+	const tiers = await manager.getTiers();
+	console.log("   Tier catalog (USDC, 6 decimals):");
+	for (const tier of tiers) {
+		console.log(
+			`     #${tier.id} ${tier.name.padEnd(
+				10
+			)} ${tier.usdcPrice.toString()}${tier.active ? "" : " (disabled)"}`
+		);
+	}
+	console.log("");
+
+	if (roleGrants.length > 0) {
+		console.log("   Granting roles...");
+		for (const { name, role, account } of roleGrants) {
+			if (await manager.hasRole(role, account)) {
+				console.log(`     ${name} already held by ${account}`);
+				continue;
 			}
+			const tx = await manager.grantRole(role, account);
+			await tx.wait();
+			console.log(`     ${name} granted to ${account} (${tx.hash})`);
 		}
+		console.log("");
+	}
+
+	if (config.verify) {
+		await verifyDeployment(record);
 	}
 }
 
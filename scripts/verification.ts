@@ -0,0 +1,47 @@
+import { run } from "hardhat";
+import { DeploymentRecord } from "./deploymentRecord";
+
+/**
+ * Verifies every contract of `record` deployed with known constructor
+ * arguments. Failures are reported and skipped so one contract does not block
+ * the others; returns the number of failures.
+ */
+export async function verifyDeployment(record: DeploymentRecord) {
+	if (!process.env.ETHERSCAN_API_KEY) {
+		console.warn(
+			"⚠️  ETHERSCAN_API_KEY is not set. Skipping verification."
+		);
+		return 0;
+	}
+
+	let failures = 0;
+	for (const [role, contract] of Object.entries(record.contracts)) {
+		if (!contract.constructorArgs) {
+			continue;
+		}
+		console.log(
+			`   Verifying ${role} (${contract.contractName}) at ${contract.address}...`
+		);
+		try {
+			await run("verify:verify", {
+				address: contract.address,
+				constructorArguments: contract.constructorArgs,
+			});
+		} catch (error) {
+			failures++;
+			console.warn(
+				`⚠️  Verification of ${role} failed:`,
+				error instanceof Error ? error.message : error
+			);
+		}
+	}
+
+	if (failures > 0) {
+		console.warn(
+			`⚠️  ${failures} contract(s) not verified. Retry with: npx hardhat run --network ${record.network} scripts/verify.ts\n`
+		);
+	} else {
+		console.log("   Etherscan verification complete.\n");
+	}
+	return failures;
+}
@@ -0,0 +1,26 @@
+import { network } from "hardhat";
+import { deploymentRecordPath, readDeploymentRecord } from "./deploymentRecord";
+import { verifyDeployment } from "./verification";
+
+async function main() {
+	const record = readDeploymentRecord(network.name);
+	if (!record) {
+		throw new Error(
+			`No deployment record for network ${
+				network.name
+			} at ${deploymentRecordPath(network.name)}`
+		);
+	}
+
+	console.log(
+		`\n🔎 Verifying the Manager3send deployment at ${record.proxy}`
+	);
+	if ((await verifyDeployment(record)) > 0) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,527 @@
+import {
+	BytesLike,
+	Contract,
+	ContractRunner,
+	ZeroAddress,
+	ContractTransactionReceipt,
+	Signer,
+	TransactionReceipt,
+} from "ethers";
+import {
+	IERC20__factory,
+	ISwapAdapter__factory,
+	Manager3send,
+	Manager3send__factory,
+	Manager3sendExtension,
+	Manager3sendExtension__factory,
+	Manager3sendPurchases,
+	Manager3sendPurchases__factory,
+	Manager3sendSubscriptions,
+	Manager3sendSubscriptions__factory,
+	Manager3sendEscrow,
+	Manager3sendEscrow__factory,
+} from "../typechain-types";
+
+/**
+ * A Manager3send proxy with the ABIs of every logic contract its fallback
+ * routes to: tier payment entry points from `Manager3send`, the admin
+ * functions and views of `Manager3sendExtension`, the token payments and
+ * size-priced uploads of `Manager3sendPurchases`, the credits and
+ * subscription plans of `Manager3sendSubscriptions` and the escrow settlement
+ * of `Manager3sendEscrow`.
+ */
+export type Manager3sendContract = {
+	connect(runner: ContractRunner | null): Manager3sendContract;
+} & Manager3send &
+	Manager3sendExtension &
+	Manager3sendPurchases &
+	Manager3sendSubscriptions &
+	Manager3sendEscrow;
+
+const MANAGER_ABI = [
+	...new Map(
+		[
+			...Manager3send__factory.abi,
+			...Manager3sendExtension__factory.abi,
+			...Manager3sendPurchases__factory.abi,
+			...Manager3sendSubscriptions__factory.abi,
+			...Manager3sendEscrow__factory.abi,
+		]
+			.filter((fragment) => fragment.type !== "constructor")
+			.map((fragment) => [JSON.stringify(fragment), fragment])
+	).values(),
+];
+
+export function connectManager(
+	address: string,
+	runner?: ContractRunner | null
+): Manager3sendContract {
+	return new Contract(
+		address,
+		MANAGER_ABI,
+		runner
+	) as unknown as Manager3sendContract;
+}
+
+/** Ids of the default tiers created at deployment. */
+export enum Tier {
+	Micro,
+	Standard,
+	Big,
+	Archive,
+}
+
+/** Any id from the on-chain tier catalog. */
+export type TierId = Tier | number | bigint;
+
+/**
+ * How the caller wants to settle a tier. ERC-20 payments name the token and
+ * either use its registered route to USDC or pass a router `path` that ends in
+ * USDC. Accepted stablecoins pay the USDC price at face value.
+ */
+export type PaymentMethod =
+	| "r1"
+	| "usdc"
+	| "eth"
+	| { token: string; path?: string[] }
+	| { stablecoin: string };
+
+export interface PaymentQuote {
+	tier: number;
+	usdcAmount: bigint;
+	r1Amount: bigint;
+	/** Token pulled from the payer, `null` when paying with native ETH. */
+	inputToken: string | null;
+	inputAmount: bigint;
+	/** Announced tier price change, `null` when none is pending. */
+	pendingPrice: PendingPrice | null;
+}
+
+export interface PendingPrice {
+	usdcAmount: bigint;
+	/** Unix timestamp from which the new price can be applied. */
+	effectiveAt: number;
+}
+
+export interface PayOptions {
+	/** Content hash or upload id (32 bytes) the payment unlocks. */
+	uploadRef: BytesLike;
+	/** Optional address the upload is delivered to. */
+	recipient?: string;
+	/** Tolerance applied to the quoted amounts, in basis points. */
+	slippageBps?: number;
+}
+
+export interface PaymentProcessed {
+	sender: string;
+	uploadRef: string;
+	recipient: string;
+	tier: number;
+	usdcAmount: bigint;
+	/**
+	 * R1 the payment produced, burned apart from the treasury share. Held in
+	 * escrow instead while escrow is on, with nothing burned yet.
+	 */
+	r1Amount: bigint;
+	burnedR1Amount: bigint;
+	treasuryR1Amount: bigint;
+	/** Treasury share paid in USDC before the swap, if configured. */
+	treasuryUsdcAmount: bigint;
+	/** USDC taken off the list price by a partner price or voucher. */
+	discountUsdcAmount: bigint;
+}
+
+export interface TierDetails {
+	id: number;
+	name: string;
+	usdcPrice: bigint;
+	active: boolean;
+	/** Largest upload the tier covers, in bytes; `0n` when unlimited. */
+	maxUploadSize: bigint;
+}
+
+export interface UploadReceipt {
+	payer: string;
+	recipient: string;
+	tier: number;
+	usdcAmount: bigint;
+	r1Amount: bigint;
+	/** Unix timestamp of the payment block. */
+	paidAt: number;
+}
+
+/** Escrow of a payment held until operators settle or refund it. */
+export interface PaymentEscrow {
+	/** Whether the R1 was burned once the upload was stored. */
+	settled: boolean;
+	/** Unix timestamp from which the payer can reclaim unsettled R1. */
+	reclaimableAt: number;
+}
+
+export interface PaymentResult {
+	receipt: ContractTransactionReceipt;
+	payment: PaymentProcessed;
+	approvalHash: string | null;
+}
+
+export const BPS_DENOMINATOR = 10_000n;
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+/** `EscrowStatus` values of `getEscrow`. */
+const ESCROW_NONE = 0n;
+const ESCROW_SETTLED = 2n;
+
+export class Manager3sendClient {
+	constructor(readonly manager: Manager3sendContract) {}
+
+	static connect(address: string, runner: ContractRunner) {
+		return new Manager3sendClient(connectManager(address, runner));
+	}
+
+	/**
+	 * Reads the tier catalog; pass `activeOnly` to hide disabled tiers.
+	 */
+	async listTiers(activeOnly = false): Promise<TierDetails[]> {
+		const tiers = (await this.manager.getTiers()).map((tier) => ({
+			id: Number(tier.id),
+			name: tier.name,
+			usdcPrice: tier.usdcPrice,
+			active: tier.active,
+			maxUploadSize: tier.maxUploadSize,
+		}));
+		return activeOnly ? tiers.filter((tier) => tier.active) : tiers;
+	}
+
+	/**
+	 * Quotes a tier for the account the client is connected with, at its
+	 * partner price when it has one. Signer runners send their address with
+	 * the quote calls; read-only providers get the list price.
+	 */
+	async quote(tierId: TierId, method: PaymentMethod): Promise<PaymentQuote> {
+		const [, usdcAmount, r1Amount, pendingUsdcAmount, pendingEffectiveAt] =
+			await this.manager.quotePayment(tierId);
+		const tier = Number(tierId);
+		const pendingPrice =
+			pendingEffectiveAt === 0n
+				? null
+				: {
+						usdcAmount: pendingUsdcAmount,
+						effectiveAt: Number(pendingEffectiveAt),
+				  };
+
+		if (method === "r1") {
+			return {
+				tier,
+				usdcAmount,
+				r1Amount,
+				inputToken: await this.manager.r1Token(),
+				inputAmount: r1Amount,
+				pendingPrice,
+			};
+		}
+
+		if (method === "usdc") {
+			return {
+				tier,
+				usdcAmount,
+				r1Amount,
+				inputToken: await this.manager.usdcToken(),
+				inputAmount: usdcAmount,
+				pendingPrice,
+			};
+		}
+
+		if (method === "eth") {
+			const adapter = await this.manager.swapAdapter();
+			const path = [
+				await this.manager.weth(),
+				await this.manager.usdcToken(),
+			];
+			const ethAmount = await this._swapAdapter(
+				adapter
+			).quoteExactOutput.staticCall(path, usdcAmount);
+			return {
+				tier,
+				usdcAmount,
+				r1Amount,
+				inputToken: null,
+				inputAmount: ethAmount,
+				pendingPrice,
+			};
+		}
+
+		if ("stablecoin" in method) {
+			const [, tokenAmount] = await this.manager.quoteWithStablecoin(
+				tierId,
+				method.stablecoin
+			);
+			return {
+				tier,
+				usdcAmount,
+				r1Amount,
+				inputToken: method.stablecoin,
+				inputAmount: tokenAmount,
+				pendingPrice,
+			};
+		}
+
+		const [, tokenAmount] = method.path
+			? await this.manager.quotePaymentWithToken.staticCall(
+					tierId,
+					method.token,
+					method.path
+			  )
+			: await this.manager.quoteWithToken.staticCall(
+					tierId,
+					method.token
+			  );
+		return {
+			tier,
+			usdcAmount,
+			r1Amount,
+			inputToken: method.token,
+			inputAmount: tokenAmount,
+			pendingPrice,
+		};
+	}
+
+	/**
+	 * Quotes the tier, widens the quote by `slippageBps`, approves the input
+	 * token when the current allowance is too low and submits the payment.
+	 */
+	async pay(
+		tierId: TierId,
+		method: PaymentMethod,
+		{
+			uploadRef,
+			recipient = ZeroAddress,
+			slippageBps = DEFAULT_SLIPPAGE_BPS,
+		}: PayOptions
+	): Promise<PaymentResult> {
+		if (
+			!Number.isInteger(slippageBps) ||
+			slippageBps < 0 ||
+			BigInt(slippageBps) >= BPS_DENOMINATOR
+		) {
+			throw new Error(`Invalid slippageBps ${slippageBps}`);
+		}
+
+		const quote = await this.quote(tierId, method);
+		const minR1Amount = withSlippage(quote.r1Amount, -slippageBps);
+
+		let approvalHash: string | null = null;
+		let tx;
+
+		if (method === "r1") {
+			const maxR1Amount = withSlippage(quote.r1Amount, slippageBps);
+			approvalHash = await this._ensureAllowance(
+				quote.inputToken!,
+				maxR1Amount
+			);
+			tx = await this.manager.transferPayment(
+				tierId,
+				uploadRef,
+				recipient,
+				maxR1Amount
+			);
+		} else if (method === "usdc") {
+			approvalHash = await this._ensureAllowance(
+				quote.inputToken!,
+				quote.inputAmount
+			);
+			tx = await this.manager.transferPaymentWithUSDC(
+				tierId,
+				uploadRef,
+				recipient,
+				minR1Amount
+			);
+		} else if (method === "eth") {
+			tx = await this.manager.transferPaymentWithETH(
+				tierId,
+				uploadRef,
+				recipient,
+				minR1Amount,
+				{
+					value: withSlippage(quote.inputAmount, slippageBps),
+				}
+			);
+		} else if ("stablecoin" in method) {
+			approvalHash = await this._ensureAllowance(
+				method.stablecoin,
+				quote.inputAmount
+			);
+			tx = await this.manager.transferPaymentWithStablecoin(
+				tierId,
+				uploadRef,
+				recipient,
+				method.stablecoin,
+				minR1Amount
+			);
+		} else {
+			const maxPaymentAmount = withSlippage(
+				quote.inputAmount,
+				slippageBps
+			);
+			approvalHash = await this._ensureAllowance(
+				method.token,
+				maxPaymentAmount
+			);
+			tx = method.path
+				? await this.manager.transferPaymentWithToken(
+						tierId,
+						uploadRef,
+						recipient,
+						method.token,
+						maxPaymentAmount,
+						minR1Amount,
+						method.path
+				  )
+				: await this.manager.payWithToken(
+						tierId,
+						uploadRef,
+						recipient,
+						method.token,
+						maxPaymentAmount,
+						minR1Amount
+				  );
+		}
+
+		const receipt = await tx.wait();
+		if (!receipt) {
+			throw new Error(`Payment transaction ${tx.hash} was not mined`);
+		}
+
+		const payment = this.decodePayment(receipt);
+		if (!payment) {
+			throw new Error(
+				`Payment transaction ${tx.hash} did not emit PaymentProcessed`
+			);
+		}
+
+		return { receipt, payment, approvalHash };
+	}
+
+	/**
+	 * Extracts the `PaymentProcessed` event emitted by this manager from a
+	 * transaction receipt, or `null` when the receipt holds none.
+	 */
+	decodePayment(receipt: TransactionReceipt): PaymentProcessed | null {
+		const managerAddress = this.manager.target.toString().toLowerCase();
+
+		for (const log of receipt.logs) {
+			if (log.address.toLowerCase() !== managerAddress) {
+				continue;
+			}
+
+			const parsed = this.manager.interface.parseLog(log);
+			if (parsed?.name !== "PaymentProcessed") {
+				continue;
+			}
+
+			return {
+				sender: parsed.args.sender,
+				uploadRef: parsed.args.uploadRef,
+				recipient: parsed.args.recipient,
+				tier: Number(parsed.args.tierId),
+				usdcAmount: parsed.args.usdcAmount,
+				r1Amount: parsed.args.r1Amount,
+				burnedR1Amount: parsed.args.burnedR1Amount,
+				treasuryR1Amount: parsed.args.treasuryR1Amount,
+				treasuryUsdcAmount: parsed.args.treasuryUsdcAmount,
+				discountUsdcAmount: parsed.args.discountUsdcAmount,
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Looks up the payment bound to `uploadRef`, or `null` when it is unpaid.
+	 */
+	async getReceipt(uploadRef: BytesLike): Promise<UploadReceipt | null> {
+		const receipt = await this.manager.getReceipt(uploadRef);
+		if (receipt.payer === ZeroAddress) {
+			return null;
+		}
+		return {
+			payer: receipt.payer,
+			recipient: receipt.recipient,
+			tier: Number(receipt.tierId),
+			usdcAmount: receipt.usdcAmount,
+			r1Amount: receipt.r1Amount,
+			paidAt: Number(receipt.paidAt),
+		};
+	}
+
+	/**
+	 * Looks up the escrow of the payment bound to `uploadRef`, or `null` when
+	 * the payment was burned right away, refunded or never made.
+	 */
+	async getEscrow(uploadRef: BytesLike): Promise<PaymentEscrow | null> {
+		const escrow = await this.manager.getEscrow(uploadRef);
+		if (escrow.status === ESCROW_NONE) {
+			return null;
+		}
+		return {
+			settled: escrow.status === ESCROW_SETTLED,
+			reclaimableAt: Number(escrow.reclaimableAt),
+		};
+	}
+
+	/**
+	 * Takes back the R1 of an escrowed payment of the signer that was neither
+	 * settled nor refunded before its escrow timed out.
+	 */
+	async reclaim(uploadRef: BytesLike): Promise<ContractTransactionReceipt> {
+		const tx = await this.manager.reclaimEscrow(uploadRef);
+		const receipt = await tx.wait();
+		if (!receipt) {
+			throw new Error(`Reclaim transaction ${tx.hash} was not mined`);
+		}
+		return receipt;
+	}
+
+	private async _ensureAllowance(
+		tokenAddress: string,
+		amount: bigint
+	): Promise<string | null> {
+		const signer = this._signer();
+		const token = IERC20__factory.connect(tokenAddress, signer);
+		const owner = await signer.getAddress();
+		const spender = await this.manager.getAddress();
+
+		if ((await token.allowance(owner, spender)) >= amount) {
+			return null;
+		}
+
+		const tx = await token.approve(spender, amount);
+		await tx.wait();
+		return tx.hash;
+	}
+
+	private _swapAdapter(address: string) {
+		return ISwapAdapter__factory.connect(address, this.manager.runner);
+	}
+
+	private _signer(): Signer {
+		const runner = this.manager.runner;
+		if (!runner || typeof (runner as Signer).getAddress !== "function") {
+			throw new Error(
+				"Manager3sendClient needs a signer to send payments"
+			);
+		}
+		return runner as Signer;
+	}
+}
+
+/**
+ * Scales `amount` by `bps` basis points: positive values round up (upper
+ * bounds), negative values round down (lower bounds).
+ */
+export function withSlippage(amount: bigint, bps: number): bigint {
+	const factor = BPS_DENOMINATOR + BigInt(bps);
+	if (bps >= 0) {
+		return (amount * factor + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+	}
+	return (amount * factor) / BPS_DENOMINATOR;
+}
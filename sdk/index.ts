@@ -0,0 +1 @@
+export * from "./Manager3sendClient";
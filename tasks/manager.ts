@@ -0,0 +1,1095 @@
+import { task, types } from "hardhat/config";
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractRunner } from "ethers";
+import type { Manager3sendContract, PaymentMethod } from "../sdk";
+import {
+	deploymentRecordPath,
+	readDeploymentRecord,
+} from "../scripts/deploymentRecord";
+import {
+	ManagerCall,
+	ROLES,
+	describeManagerCall,
+	encodeManagerCall,
+	parseRole,
+	roleTransferCalls,
+} from "../scripts/managerCalls";
+import {
+	addSafeTransaction,
+	createSafeBatch,
+	readSafeBatch,
+	safeAddressFromEnv,
+	safeBatchPath,
+	writeSafeBatch,
+} from "../scripts/safeBatch";
+
+const USDC_DECIMALS = 6;
+
+const PAYMENT_METHODS = ["R1", "USDC", "ETH", "Token", "Stablecoin"];
+
+/**
+ * Notice added to the earliest effective time of prices proposed to a Safe,
+ * whose owners take days rather than blocks to sign.
+ */
+const SAFE_SIGNING_TIME = 3 * 24 * 60 * 60;
+
+interface ProxyArgs {
+	proxy: string;
+}
+
+interface SafeArgs {
+	safe: string;
+	batch: string;
+}
+
+interface QuoteArgs extends ProxyArgs {
+	tier: number;
+	size: string;
+	method: string;
+	path: string;
+}
+
+interface SetPriceArgs extends ProxyArgs, SafeArgs {
+	tier: number;
+	price: string;
+	effectiveAt: number;
+	apply: boolean;
+	dryRun: boolean;
+}
+
+interface TransferRolesArgs extends ProxyArgs, SafeArgs {
+	to: string;
+	from: string;
+	roles: string;
+	dryRun: boolean;
+}
+
+interface CheckBatchArgs extends ProxyArgs {
+	batch: string;
+}
+
+interface StatusArgs extends ProxyArgs {
+	account: string;
+}
+
+interface IndexArgs extends ProxyArgs {
+	index: string;
+	fromBlock: number;
+	toBlock: number;
+	batchSize: number;
+	confirmations: number;
+}
+
+interface ReportArgs {
+	index: string;
+	format: string;
+	out: string;
+	since: string;
+	until: string;
+}
+
+interface PayArgs extends ProxyArgs {
+	tier: number;
+	method: string;
+	path: string;
+	uploadRef: string;
+	recipient: string;
+	slippageBps: number;
+	dryRun: boolean;
+}
+
+/**
+ * Reads a human USDC amount such as `0.25` into 6-decimal units, the same
+ * format the deployment script takes tier prices in.
+ */
+function parseUsdcPrice(hre: HardhatRuntimeEnvironment, raw: string) {
+	try {
+		return hre.ethers.parseUnits(raw.trim(), USDC_DECIMALS);
+	} catch {
+		throw new Error(
+			`Unable to parse price "${raw}" as 6-decimal USDC amount`
+		);
+	}
+}
+
+function formatUsdc(hre: HardhatRuntimeEnvironment, amount: bigint) {
+	return `${hre.ethers.formatUnits(amount, USDC_DECIMALS)} USDC`;
+}
+
+function formatR1(hre: HardhatRuntimeEnvironment, amount: bigint) {
+	return `${hre.ethers.formatEther(amount)} R1`;
+}
+
+/**
+ * Takes `--proxy`, then `MANAGER_PROXY_ADDRESS`, then the proxy of the
+ * network's deployment record.
+ */
+function resolveProxy(hre: HardhatRuntimeEnvironment, proxy: string) {
+	const network = hre.network.name;
+	const address = (
+		proxy ||
+		process.env.MANAGER_PROXY_ADDRESS ||
+		readDeploymentRecord(network)?.proxy ||
+		""
+	).trim();
+	if (!address) {
+		throw new Error(
+			`Pass --proxy, set MANAGER_PROXY_ADDRESS or deploy to ${network} first (no record at ${deploymentRecordPath(
+				network
+			)})`
+		);
+	}
+	if (!hre.ethers.isAddress(address)) {
+		throw new Error(`Invalid proxy address "${address}"`);
+	}
+	return hre.ethers.getAddress(address);
+}
+
+/** Takes `--safe`, then `SAFE_ADDRESS`; `null` sends transactions directly. */
+function resolveSafe(hre: HardhatRuntimeEnvironment, safe: string) {
+	if (!safe) {
+		return safeAddressFromEnv();
+	}
+	if (!hre.ethers.isAddress(safe)) {
+		throw new Error(`Invalid Safe address "${safe}"`);
+	}
+	return hre.ethers.getAddress(safe);
+}
+
+/**
+ * Reads `r1`, `usdc`, `eth`, `stablecoin:<address>` for an accepted stablecoin
+ * or an ERC-20 address, the latter optionally with a comma separated router
+ * path ending in USDC.
+ */
+function parsePaymentMethod(
+	hre: HardhatRuntimeEnvironment,
+	method: string,
+	path: string
+): PaymentMethod {
+	const normalized = method.trim().toLowerCase();
+	if (normalized === "r1" || normalized === "usdc" || normalized === "eth") {
+		return normalized;
+	}
+	if (normalized.startsWith("stablecoin:")) {
+		const stablecoin = method.trim().slice("stablecoin:".length);
+		if (!hre.ethers.isAddress(stablecoin)) {
+			throw new Error(`Invalid stablecoin address "${stablecoin}"`);
+		}
+		return { stablecoin: hre.ethers.getAddress(stablecoin) };
+	}
+	if (!hre.ethers.isAddress(method)) {
+		throw new Error(
+			`Invalid payment method "${method}", expected r1, usdc, eth, stablecoin:<address> or a token address`
+		);
+	}
+	const hops = path
+		.split(",")
+		.map((hop) => hop.trim())
+		.filter((hop) => hop !== "");
+	for (const hop of hops) {
+		if (!hre.ethers.isAddress(hop)) {
+			throw new Error(`Invalid path address "${hop}"`);
+		}
+	}
+	return {
+		token: hre.ethers.getAddress(method),
+		...(hops.length > 0 ? { path: hops } : {}),
+	};
+}
+
+/** Takes a 32-byte hex reference as is and hashes any other string. */
+function parseUploadRef(hre: HardhatRuntimeEnvironment, uploadRef: string) {
+	if (hre.ethers.isHexString(uploadRef, 32)) {
+		return uploadRef;
+	}
+	return hre.ethers.id(uploadRef || `smoke-test-${Date.now()}`);
+}
+
+/** The first configured signer, or the provider on read-only networks. */
+async function defaultRunner(
+	hre: HardhatRuntimeEnvironment
+): Promise<ContractRunner> {
+	const [signer] = await hre.ethers.getSigners();
+	return signer ?? hre.ethers.provider;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, proxy: string) {
+	// Loaded lazily: the SDK needs the typechain bindings, which do not exist
+	// before the first compile.
+	const { connectManager } = await import("../sdk");
+	return connectManager(resolveProxy(hre, proxy), await defaultRunner(hre));
+}
+
+/**
+ * Sends `method(...args)` to the manager, or with `dryRun` only simulates it
+ * and prints the transaction that would be sent.
+ */
+async function submit(
+	hre: HardhatRuntimeEnvironment,
+	manager: Manager3sendContract,
+	method: string,
+	args: unknown[],
+	dryRun: boolean
+) {
+	const fn = manager.getFunction(method);
+	if (dryRun) {
+		const tx = await fn.populateTransaction(...args);
+		await fn.staticCall(...args);
+		const gas = await fn.estimateGas(...args);
+		console.log(`   Dry run: ${method} would succeed`);
+		console.log(`     to:   ${tx.to}`);
+		console.log(`     data: ${tx.data}`);
+		console.log(`     gas:  ${gas.toString()}`);
+		return null;
+	}
+
+	const tx = await fn.send(...args);
+	console.log(`   ${method} sent in ${tx.hash}`);
+	const receipt = await tx.wait();
+	console.log(`   Confirmed in block ${receipt?.blockNumber}`);
+	return receipt;
+}
+
+/**
+ * Adds `calls` to a Safe batch instead of sending them: to `--batch` if it
+ * exists, otherwise to a new batch written there or to
+ * `safe-batches/<network>/<label>-<time>.json`.
+ */
+async function propose(
+	hre: HardhatRuntimeEnvironment,
+	manager: Manager3sendContract,
+	safe: string,
+	batchFile: string,
+	label: string,
+	name: string,
+	calls: ManagerCall[]
+) {
+	const { chainId } = await hre.ethers.provider.getNetwork();
+	const existing = batchFile ? path.resolve(batchFile) : "";
+	const batch =
+		existing && fs.existsSync(existing)
+			? readSafeBatch(existing)
+			: createSafeBatch(chainId, safe, name);
+	if (
+		batch.chainId !== chainId.toString() ||
+		batch.meta.createdFromSafeAddress !== safe
+	) {
+		throw new Error(
+			`${existing} is a batch of ${batch.meta.createdFromSafeAddress} on chain ${batch.chainId}; pass another --batch`
+		);
+	}
+
+	const proxy = await manager.getAddress();
+	for (const call of calls) {
+		const data = encodeManagerCall(manager, call);
+		const summary = await describeManagerCall(manager, data);
+		addSafeTransaction(batch, { to: proxy, data }, summary);
+		console.log(`   Proposed: ${summary}`);
+	}
+	const file = writeSafeBatch(
+		existing || safeBatchPath(hre.network.name, label, batch.createdAt),
+		batch
+	);
+	console.log(
+		`   Safe batch for ${safe} written to ${file} (${batch.transactions.length} transactions)`
+	);
+	console.log(
+		`   Check it with: npx hardhat --network ${hre.network.name} manager:check-batch --batch ${file}\n`
+	);
+	return { file, batch };
+}
+
+task("manager:quote", "Quotes a tier or an upload size on a Manager3send proxy")
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addOptionalParam("tier", "Tier id to quote", 0, types.int)
+	.addOptionalParam(
+		"size",
+		"Upload size in bytes, quoted on the price curve instead of a tier",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"method",
+		"r1, usdc, eth, stablecoin:<address> or an ERC-20 token address",
+		"r1",
+		types.string
+	)
+	.addOptionalParam(
+		"path",
+		"Comma separated router path for token payments",
+		"",
+		types.string
+	)
+	.setAction(async (args: QuoteArgs, hre) => {
+		const manager = await connect(hre, args.proxy);
+
+		if (args.size !== "") {
+			if (!/^\d+$/.test(args.size)) {
+				throw new Error(`Invalid upload size "${args.size}"`);
+			}
+			const [
+				usdcAmount,
+				r1Amount,
+				pendingUsdcAmount,
+				pendingEffectiveAt,
+			] = await manager.quotePaymentForSize(args.size);
+			console.log(`\n💬 Quote for ${args.size} bytes`);
+			console.log(`   Price: ${formatUsdc(hre, usdcAmount)}`);
+			console.log(`   R1:    ${formatR1(hre, r1Amount)}`);
+			if (pendingEffectiveAt > 0n) {
+				console.log(
+					`   Pending curve: ${formatUsdc(
+						hre,
+						pendingUsdcAmount
+					)} from ${new Date(
+						Number(pendingEffectiveAt) * 1000
+					).toISOString()}`
+				);
+			}
+			return { usdcAmount, r1Amount };
+		}
+
+		const { Manager3sendClient } = await import("../sdk");
+		const quote = await new Manager3sendClient(manager).quote(
+			args.tier,
+			parsePaymentMethod(hre, args.method, args.path)
+		);
+		console.log(
+			`\n💬 Quote for tier #${quote.tier} paid in ${args.method}`
+		);
+		console.log(`   Price: ${formatUsdc(hre, quote.usdcAmount)}`);
+		console.log(`   R1:    ${formatR1(hre, quote.r1Amount)}`);
+		console.log(
+			`   Input: ${quote.inputAmount.toString()} of ${
+				quote.inputToken ?? "native ETH"
+			}`
+		);
+		if (quote.pendingPrice) {
+			console.log(
+				`   Pending price: ${formatUsdc(
+					hre,
+					quote.pendingPrice.usdcAmount
+				)} from ${new Date(
+					quote.pendingPrice.effectiveAt * 1000
+				).toISOString()}`
+			);
+		}
+		return quote;
+	});
+
+task(
+	"manager:set-price",
+	"Announces a tier price change, or applies an announced one with --apply"
+)
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addParam("tier", "Tier id", undefined, types.int)
+	.addOptionalParam(
+		"price",
+		"New price in USDC, e.g. 0.25 for $0.25",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"effectiveAt",
+		"Unix timestamp the price applies from (defaults to the earliest allowed)",
+		0,
+		types.int
+	)
+	.addFlag("apply", "Apply the announced price once it is effective")
+	.addOptionalParam(
+		"safe",
+		"Safe to propose the transaction to instead of sending it (defaults to SAFE_ADDRESS)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"batch",
+		"Safe batch file to add the transaction to (defaults to a new file in safe-batches/<network>)",
+		"",
+		types.string
+	)
+	.addFlag("dryRun", "Simulate the transaction without sending it")
+	.setAction(async (args: SetPriceArgs, hre) => {
+		const manager = await connect(hre, args.proxy);
+		const safe = resolveSafe(hre, args.safe);
+		const tier = await manager.getTier(args.tier);
+
+		if (args.apply) {
+			const pending = await manager.pendingTierPrices(args.tier);
+			if (pending.effectiveAt === 0n) {
+				throw new Error(`Tier #${args.tier} has no announced price`);
+			}
+			console.log(
+				`\n🏷️  Applying tier #${args.tier} (${
+					tier.name
+				}) price: ${formatUsdc(hre, tier.usdcPrice)} -> ${formatUsdc(
+					hre,
+					pending.usdcPrice
+				)}`
+			);
+			if (safe) {
+				return propose(
+					hre,
+					manager,
+					safe,
+					args.batch,
+					"set-price",
+					"Apply tier prices",
+					[{ method: "applyTierPrice", args: [args.tier] }]
+				);
+			}
+			return submit(
+				hre,
+				manager,
+				"applyTierPrice",
+				[args.tier],
+				args.dryRun
+			);
+		}
+
+		if (args.price === "") {
+			throw new Error("Pass --price, or --apply for an announced price");
+		}
+		const usdcPrice = parseUsdcPrice(hre, args.price);
+		let effectiveAt = args.effectiveAt;
+		if (effectiveAt === 0) {
+			// A minute of slack so the transaction still meets the notice
+			// period when it is mined a few blocks later.
+			const latest = await hre.ethers.provider.getBlock("latest");
+			effectiveAt =
+				latest!.timestamp +
+				Number(await manager.priceChangeDelay()) +
+				(safe ? SAFE_SIGNING_TIME : 60);
+		}
+
+		console.log(
+			`\n🏷️  Announcing tier #${args.tier} (${
+				tier.name
+			}) price: ${formatUsdc(hre, tier.usdcPrice)} -> ${formatUsdc(
+				hre,
+				usdcPrice
+			)}`
+		);
+		console.log(
+			`   Effective at ${new Date(effectiveAt * 1000).toISOString()}`
+		);
+		const call = {
+			method: "proposeTierPrice",
+			args: [args.tier, usdcPrice, effectiveAt],
+		};
+		if (safe) {
+			return propose(
+				hre,
+				manager,
+				safe,
+				args.batch,
+				"set-price",
+				"Announce tier prices",
+				[call]
+			);
+		}
+		return submit(hre, manager, call.method, call.args, args.dryRun);
+	});
+
+task(
+	"manager:transfer-roles",
+	"Moves roles to another account, e.g. from the deployer or a Safe to a new Safe"
+)
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addParam("to", "Account receiving the roles", undefined, types.string)
+	.addOptionalParam(
+		"from",
+		"Account giving up the roles (defaults to the Safe when proposing, otherwise the signer)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"roles",
+		"Comma separated roles among ADMIN, PRICE_MANAGER, GUARDIAN, UPGRADER, TREASURY and OPERATOR (defaults to every role held)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"safe",
+		"Safe to propose the transactions to instead of sending them (defaults to SAFE_ADDRESS)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"batch",
+		"Safe batch file to add the transactions to (defaults to a new file in safe-batches/<network>)",
+		"",
+		types.string
+	)
+	.addFlag("dryRun", "Simulate the transactions without sending them")
+	.setAction(async (args: TransferRolesArgs, hre) => {
+		const manager = await connect(hre, args.proxy);
+		const safe = resolveSafe(hre, args.safe);
+		const [signer] = await hre.ethers.getSigners();
+		const sender = safe ?? signer?.address;
+		if (!sender) {
+			throw new Error(
+				"No account configured to send from; pass --safe to propose the transfer instead"
+			);
+		}
+		for (const account of [args.to, args.from].filter(Boolean)) {
+			if (!hre.ethers.isAddress(account)) {
+				throw new Error(`Invalid account "${account}"`);
+			}
+		}
+		const to = hre.ethers.getAddress(args.to);
+		const from = hre.ethers.getAddress(args.from || sender);
+		if (to === from) {
+			throw new Error(
+				"--to must differ from the account giving up the roles"
+			);
+		}
+		const roles = args.roles
+			.split(",")
+			.map((name) => name.trim())
+			.filter((name) => name !== "")
+			.map(parseRole);
+
+		const calls = await roleTransferCalls(
+			manager,
+			from,
+			to,
+			sender,
+			roles.length > 0 ? roles : undefined
+		);
+		console.log(`\n🔑 Transferring roles of ${from} to ${to}`);
+		if (safe) {
+			return propose(
+				hre,
+				manager,
+				safe,
+				args.batch,
+				"transfer-roles",
+				"Transfer Manager3send roles",
+				calls
+			);
+		}
+		const receipts = [];
+		for (const call of calls) {
+			console.log(
+				`   ${await describeManagerCall(
+					manager,
+					encodeManagerCall(manager, call)
+				)}`
+			);
+			receipts.push(
+				await submit(hre, manager, call.method, call.args, args.dryRun)
+			);
+		}
+		return receipts;
+	});
+
+task(
+	"manager:check-batch",
+	"Checks the calldata of a Safe batch against the chain and the local build"
+)
+	.addParam("batch", "Safe Transaction Builder file", undefined, types.string)
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.setAction(async (args: CheckBatchArgs, hre) => {
+		const { checkSafeBatch, countBatchProblems, printSafeBatchCheck } =
+			await import("../scripts/safeBatchCheck");
+		const file = path.resolve(args.batch);
+		const batch = readSafeBatch(file);
+		const proxy = resolveProxy(hre, args.proxy);
+		const record = readDeploymentRecord(hre.network.name);
+		const pending =
+			record?.proxy === proxy ? record.pendingUpgrade : undefined;
+
+		console.log(
+			`\n🔍 Checking "${batch.meta.name}" for the Safe ${batch.meta.createdFromSafeAddress}`
+		);
+		const check = await checkSafeBatch(batch, {
+			proxy,
+			expectedImplementation: pending?.implementation,
+		});
+		printSafeBatchCheck(check);
+		const problems = countBatchProblems(check);
+		if (problems > 0) {
+			throw new Error(`${file} has ${problems} problem(s)`);
+		}
+		console.log(
+			`   ${batch.transactions.length} transactions match their summaries and succeed from the Safe\n`
+		);
+		return check;
+	});
+
+task(
+	"manager:status",
+	"Prints the configuration and pricing state of a Manager3send proxy"
+)
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"account",
+		"Account whose roles are listed (defaults to the signer)",
+		"",
+		types.string
+	)
+	.setAction(async (args: StatusArgs, hre) => {
+		const manager = await connect(hre, args.proxy);
+		const proxy = await manager.getAddress();
+		const network = await hre.ethers.provider.getNetwork();
+
+		const implementation =
+			await hre.upgrades.erc1967.getImplementationAddress(proxy);
+		const [reserveUsdc, reserveR1] = await manager.getReserves();
+		const [spotR1Amount, twapR1Amount, deviationBps] =
+			await manager.getPriceDeviation();
+		const tiers = await manager.getTiers();
+
+		console.log(`\n📊 Manager3send at ${proxy}`);
+		console.log(`   Network: ${network.name} (${network.chainId})`);
+		console.log(`   Implementation: ${implementation}`);
+		const router = await hre.ethers.getContractAt(
+			"Manager3sendRouter",
+			await manager.router()
+		);
+		console.log(`   Router:         ${await router.getAddress()}`);
+		for (const module of await router.modules()) {
+			console.log(`     Module:       ${module}`);
+		}
+		console.log(`   Swap adapter:   ${await manager.swapAdapter()}`);
+
+		const paused = await manager.paused();
+		const pausedMethods: string[] = [];
+		for (const [index, name] of PAYMENT_METHODS.entries()) {
+			if (await manager.paymentMethodPaused(index)) {
+				pausedMethods.push(name);
+			}
+		}
+		console.log(
+			`   Paused: ${
+				paused
+					? "all payments"
+					: pausedMethods.length > 0
+					? pausedMethods.join(", ")
+					: "no"
+			}`
+		);
+
+		console.log("\n   Pool:");
+		console.log(
+			`     reserves ${formatUsdc(hre, reserveUsdc)} / ${formatR1(
+				hre,
+				reserveR1
+			)}`
+		);
+		console.log(
+			`     1 USDC = ${formatR1(hre, twapR1Amount)} (TWAP), ${formatR1(
+				hre,
+				spotR1Amount
+			)} (spot), deviation ${deviationBps.toString()} bps of ${(
+				await manager.maxPriceDeviationBps()
+			).toString()} allowed`
+		);
+
+		console.log("\n   Tiers:");
+		for (const tier of tiers) {
+			const r1Amount = tier.active
+				? formatR1(hre, await manager.getRequiredR1Amount(tier.id))
+				: "disabled";
+			const pending = await manager.pendingTierPrices(tier.id);
+			console.log(
+				`     #${tier.id} ${tier.name.padEnd(10)} ${formatUsdc(
+					hre,
+					tier.usdcPrice
+				)} (${r1Amount})${
+					pending.effectiveAt > 0n
+						? `, ${formatUsdc(
+								hre,
+								pending.usdcPrice
+						  )} from ${new Date(
+								Number(pending.effectiveAt) * 1000
+						  ).toISOString()}`
+						: ""
+				}`
+			);
+		}
+
+		const treasury = await manager.treasury();
+		console.log("\n   Treasury:");
+		console.log(
+			`     ${
+				treasury === hre.ethers.ZeroAddress
+					? "none (all R1 is burned)"
+					: `${treasury}, ${(
+							await manager.treasuryShareBps()
+					  ).toString()} bps${
+							(await manager.treasuryKeepsUsdc())
+								? " in USDC"
+								: ""
+					  }`
+			}`
+		);
+		console.log(
+			`     referral share ${(
+				await manager.referralShareBps()
+			).toString()} bps`
+		);
+
+		const escrowTimeout = await manager.escrowTimeout();
+		console.log("\n   Escrow:");
+		console.log(
+			`     ${
+				escrowTimeout === 0n
+					? "off (payments are burned right away)"
+					: `payments held for ${escrowTimeout.toString()}s`
+			}`
+		);
+		console.log(
+			`     ${formatR1(
+				hre,
+				await manager.totalEscrowedR1()
+			)} held, ${formatR1(
+				hre,
+				await manager.totalBurnedR1()
+			)} burned, ${formatR1(
+				hre,
+				await manager.totalRefundedR1()
+			)} refunded`
+		);
+
+		const runner = await defaultRunner(hre);
+		const account =
+			args.account ||
+			("getAddress" in runner && typeof runner.getAddress === "function"
+				? await runner.getAddress()
+				: "");
+		const roles: string[] = [];
+		if (account) {
+			for (const [name, role] of Object.entries(ROLES)) {
+				if (await manager.hasRole(role, account)) {
+					roles.push(name);
+				}
+			}
+			console.log(`\n   Roles of ${account}:`);
+			console.log(`     ${roles.length > 0 ? roles.join(", ") : "none"}`);
+		}
+		console.log("");
+
+		return { proxy, implementation, paused, reserveUsdc, reserveR1, roles };
+	});
+
+task("manager:pay", "Pays a tier from the signer, e.g. as a smoke test")
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addOptionalParam("tier", "Tier id to pay", 0, types.int)
+	.addOptionalParam(
+		"method",
+		"r1, usdc, eth, stablecoin:<address> or an ERC-20 token address",
+		"r1",
+		types.string
+	)
+	.addOptionalParam(
+		"path",
+		"Comma separated router path for token payments",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"uploadRef",
+		"32-byte upload reference, or a string hashed into one (defaults to a fresh smoke test reference)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"recipient",
+		"Address the upload is delivered to",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"slippageBps",
+		"Tolerance applied to the quoted amounts",
+		50,
+		types.int
+	)
+	.addFlag("dryRun", "Quote the payment without sending it")
+	.setAction(async (args: PayArgs, hre) => {
+		const { Manager3sendClient, withSlippage } = await import("../sdk");
+		const manager = await connect(hre, args.proxy);
+		const client = new Manager3sendClient(manager);
+		const method = parsePaymentMethod(hre, args.method, args.path);
+		const uploadRef = parseUploadRef(hre, args.uploadRef);
+		const recipient = args.recipient || hre.ethers.ZeroAddress;
+
+		const quote = await client.quote(args.tier, method);
+		console.log(`\n💸 Paying tier #${quote.tier} in ${args.method}`);
+		console.log(`   Upload ref: ${uploadRef}`);
+		console.log(`   Price: ${formatUsdc(hre, quote.usdcAmount)}`);
+		console.log(
+			`   Input: up to ${withSlippage(
+				quote.inputAmount,
+				args.slippageBps
+			).toString()} of ${quote.inputToken ?? "native ETH"}`
+		);
+
+		if (args.dryRun) {
+			console.log("   Dry run: no transaction sent\n");
+			return { quote, uploadRef, payment: null };
+		}
+
+		const { receipt, payment } = await client.pay(args.tier, method, {
+			uploadRef,
+			recipient,
+			slippageBps: args.slippageBps,
+		});
+		console.log(`   Paid in ${receipt.hash}`);
+		console.log(
+			`   Burned ${formatR1(
+				hre,
+				payment.burnedR1Amount
+			)}, treasury ${formatR1(hre, payment.treasuryR1Amount)}\n`
+		);
+		return { quote, uploadRef, payment };
+	});
+
+task(
+	"manager:index",
+	"Indexes the payments and tier price changes of a Manager3send proxy into a local file"
+)
+	.addOptionalParam(
+		"proxy",
+		"Proxy address (defaults to MANAGER_PROXY_ADDRESS, then the deployment record)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"index",
+		"Index file (defaults to indexes/<network>.json)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"fromBlock",
+		"First block of a new index (defaults to the recorded deployment block)",
+		-1,
+		types.int
+	)
+	.addOptionalParam(
+		"toBlock",
+		"Last block to scan (defaults to the latest block less --confirmations)",
+		-1,
+		types.int
+	)
+	.addOptionalParam(
+		"batchSize",
+		"Blocks fetched per log request",
+		2000,
+		types.int
+	)
+	.addOptionalParam(
+		"confirmations",
+		"Recent blocks left unscanned until they are unlikely to reorg",
+		5,
+		types.int
+	)
+	.setAction(async (args: IndexArgs, hre) => {
+		const {
+			createPaymentIndex,
+			paymentIndexPath,
+			readPaymentIndex,
+			updatePaymentIndex,
+			writePaymentIndex,
+		} = await import("../scripts/paymentIndex");
+		const network = hre.network.name;
+		const proxy = resolveProxy(hre, args.proxy);
+		const file = args.index
+			? path.resolve(args.index)
+			: paymentIndexPath(network);
+
+		let index = readPaymentIndex(file);
+		if (index && index.proxy !== proxy) {
+			throw new Error(
+				`${file} indexes ${index.proxy}, not ${proxy}; pass another --index`
+			);
+		}
+		if (!index) {
+			const record = readDeploymentRecord(network);
+			const startBlock =
+				args.fromBlock >= 0
+					? args.fromBlock
+					: record?.proxy === proxy
+					? record.deployment?.blockNumber ?? 0
+					: 0;
+			const { chainId } = await hre.ethers.provider.getNetwork();
+			index = createPaymentIndex(Number(chainId), proxy, startBlock);
+		}
+
+		const toBlock =
+			args.toBlock >= 0
+				? args.toBlock
+				: (await hre.ethers.provider.getBlockNumber()) -
+				  args.confirmations;
+		console.log(
+			`\n🔎 Indexing ${proxy} blocks ${index.lastBlock + 1}-${toBlock}`
+		);
+		console.log(`   Index: ${file}`);
+
+		const found = await updatePaymentIndex(hre.ethers.provider, index, {
+			toBlock,
+			batchSize: args.batchSize,
+			onBatch: (progress, batchEnd) => {
+				writePaymentIndex(file, progress);
+				console.log(`   Scanned to block ${batchEnd}`);
+			},
+		});
+		writePaymentIndex(file, index);
+		console.log(
+			`   Found ${found.payments} payments, ${found.purchases} purchases and ${found.priceUpdates} price updates (${index.payments.length}, ${index.purchases.length} and ${index.priceUpdates.length} in total)\n`
+		);
+		return { file, ...found, lastBlock: index.lastBlock };
+	});
+
+task(
+	"manager:report",
+	"Writes burn, payment method and price history reports from a payment index"
+)
+	.addOptionalParam(
+		"index",
+		"Index file (defaults to indexes/<network>.json)",
+		"",
+		types.string
+	)
+	.addOptionalParam("format", "csv or json", "csv", types.string)
+	.addOptionalParam(
+		"out",
+		"Directory the reports are written to (defaults to reports/<network>)",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"since",
+		"First UTC day included, YYYY-MM-DD",
+		"",
+		types.string
+	)
+	.addOptionalParam(
+		"until",
+		"Last UTC day included, YYYY-MM-DD",
+		"",
+		types.string
+	)
+	.setAction(async (args: ReportArgs, hre) => {
+		const {
+			REPORTS_DIR,
+			burnReport,
+			paymentIndexPath,
+			paymentMethodReport,
+			paymentSummary,
+			priceHistoryReport,
+			readPaymentIndex,
+			toCsv,
+		} = await import("../scripts/paymentIndex");
+		const network = hre.network.name;
+		const file = args.index
+			? path.resolve(args.index)
+			: paymentIndexPath(network);
+		const index = readPaymentIndex(file);
+		if (!index) {
+			throw new Error(
+				`No payment index at ${file}, run manager:index first`
+			);
+		}
+		if (args.format !== "csv" && args.format !== "json") {
+			throw new Error(
+				`Invalid report format "${args.format}", expected csv or json`
+			);
+		}
+		for (const day of [args.since, args.until]) {
+			if (day !== "" && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+				throw new Error(`Invalid day "${day}", expected YYYY-MM-DD`);
+			}
+		}
+
+		const range = {
+			since: args.since || undefined,
+			until: args.until || undefined,
+		};
+		const reports = {
+			summary: paymentSummary(index, range),
+			burns: burnReport(index, range),
+			paymentMethods: paymentMethodReport(index, range),
+			priceHistory: priceHistoryReport(index, range),
+		};
+
+		const out = args.out
+			? path.resolve(args.out)
+			: path.join(REPORTS_DIR, network);
+		fs.mkdirSync(out, { recursive: true });
+		const files: string[] = [];
+		const write = (name: string, content: string) => {
+			const target = path.join(out, name);
+			fs.writeFileSync(target, content);
+			files.push(target);
+		};
+		if (args.format === "json") {
+			write(
+				"report.json",
+				`${JSON.stringify(
+					{
+						proxy: index.proxy,
+						lastBlock: index.lastBlock,
+						...reports,
+					},
+					null,
+					"\t"
+				)}\n`
+			);
+		} else {
+			write("summary.csv", toCsv([reports.summary]));
+			write("burns.csv", toCsv(reports.burns));
+			write("payment-methods.csv", toCsv(reports.paymentMethods));
+			write("price-history.csv", toCsv(reports.priceHistory));
+		}
+
+		console.log(
+			`\n📈 Payments of ${index.proxy} up to block ${index.lastBlock}`
+		);
+		console.log(
+			`   ${reports.summary.payments} payments from ${reports.summary.payers} payers`
+		);
+		console.log(
+			`   ${reports.summary.usdc} USDC, ${reports.summary.burnedR1} R1 burned`
+		);
+		for (const written of files) {
+			console.log(`   Wrote ${written}`);
+		}
+		console.log("");
+		return { files, ...reports };
+	});
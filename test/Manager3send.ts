@@ -1,114 +1,70 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+	loadFixture,
+	time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { MANAGER_MODULES, moduleSelectors } from "../scripts/managerModules";
+import { connectManager } from "../sdk";
+import {
+	ARCHIVE_PRICE,
+	BIG_PRICE,
+	DEFAULT_ADMIN_ROLE,
+	DEFAULT_TIERS,
+	MB,
+	GUARDIAN_ROLE,
+	MICRO_PRICE,
+	NO_PERMIT,
+	NO_PRICE_CURVE,
+	NO_VOUCHER,
+	OPERATOR_ROLE,
+	PAYMENT_METHODS,
+	PaymentMethod,
+	POOL_RESERVE_R1,
+	POOL_RESERVE_USDC,
+	PRICE_CHANGE_DELAY,
+	PRICE_CURVE,
+	PRICE_MANAGER_ROLE,
+	ROLES,
+	STANDARD_PRICE,
+	SWAP_BACKEND,
+	TREASURY_ROLE,
+	Tier,
+	TWAP_WINDOW,
+	UPGRADER_ROLE,
+	UPLOAD_REF,
+	V3_DEFAULT_FEE,
+	deployFixture,
+	deployManagerModules,
+	deploySwapBackend,
+	paymentMethodCalls,
+	poolPriceTolerance,
+	signDiscountVoucher,
+	signPaymentIntent,
+	signPermit,
+} from "./fixtures";
 
-enum Tier {
-	Micro,
-	Standard,
-	Big,
-	Archive,
-}
-
-const MICRO_PRICE = 100_000n; // $0.10 with 6 decimals
-const STANDARD_PRICE = 250_000n; // $0.25
-const BIG_PRICE = 750_000n; // $0.75
-const ARCHIVE_PRICE = 2_000_000n; // $2.00
-
-async function deployFixture() {
-	const [owner, user, other] = await ethers.getSigners();
-
-	const TokenFactory = await ethers.getContractFactory("R1TokenMock");
-	const r1Token = await TokenFactory.deploy();
-	const usdcToken = await TokenFactory.deploy();
-	const paymentToken = await TokenFactory.deploy();
-
-	const r1TokenAddress = await r1Token.getAddress();
-	const usdcTokenAddress = await usdcToken.getAddress();
-
-	const PairFactory = await ethers.getContractFactory("UniswapMockPair");
-	const pair = await PairFactory.deploy(usdcTokenAddress, r1TokenAddress);
-	const pairAddress = await pair.getAddress();
-
-	const WethFactory = await ethers.getContractFactory("WETHMock");
-	const weth = await WethFactory.deploy();
-	const wethAddress = await weth.getAddress();
-
-	const RouterFactory = await ethers.getContractFactory("UniswapMockRouter");
-	const router = await RouterFactory.deploy(
-		pairAddress,
-		wethAddress,
-		usdcTokenAddress,
-		r1TokenAddress
-	);
-	const routerAddress = await router.getAddress();
-
-	const ManagerFactory = await ethers.getContractFactory("Manager3send");
-	const manager = await upgrades.deployProxy(
-		ManagerFactory,
-		[
-			r1TokenAddress,
-			usdcTokenAddress,
-			pairAddress,
-			routerAddress,
-			wethAddress,
-			MICRO_PRICE,
-			STANDARD_PRICE,
-			BIG_PRICE,
-			ARCHIVE_PRICE,
-		],
-		{ initializer: "initialize", kind: "uups" }
-	);
-
-	await manager.waitForDeployment();
-
-	const routerLiquidityR1 = 1_000_000n * 10n ** 18n;
-	const routerLiquidityUsdc = 1_000_000n * 10n ** 6n;
-	await r1Token.connect(owner).mint(routerAddress, routerLiquidityR1);
-	await usdcToken.connect(owner).mint(routerAddress, routerLiquidityUsdc);
-
-	const microRequired = await manager.getRequiredR1Amount(Tier.Micro);
-	const standardRequired = await manager.getRequiredR1Amount(Tier.Standard);
-	const bigRequired = await manager.getRequiredR1Amount(Tier.Big);
-	const archiveRequired = await manager.getRequiredR1Amount(Tier.Archive);
-
-	const maxRequired = archiveRequired;
-	await r1Token.connect(owner).mint(user.address, maxRequired * 2n);
-	await usdcToken.connect(owner).mint(user.address, ARCHIVE_PRICE * 10n);
-	await paymentToken.connect(owner).mint(user.address, 10n ** 24n);
-
-	return {
-		manager,
-		r1Token,
-		usdcToken,
-		paymentToken,
-		pair,
-		router,
-		weth,
-		owner,
-		user,
-		other,
-		required: {
-			[Tier.Micro]: microRequired,
-			[Tier.Standard]: standardRequired,
-			[Tier.Big]: bigRequired,
-			[Tier.Archive]: archiveRequired,
-		},
-	};
+/** Timestamp `delay` seconds from now, with a minute of slack for mining. */
+async function effectiveIn(delay: bigint) {
+	return BigInt(await time.latest()) + 60n + delay;
 }
 
 describe("Manager3send", function () {
 	it("initializes correctly", async function () {
-		const { manager, r1Token, usdcToken, pair, router, weth, owner } =
+		const { manager, r1Token, usdcToken, pair, swapAdapter, weth, owner } =
 			await loadFixture(deployFixture);
 
-		expect(await manager.owner()).to.equal(owner.address);
+		for (const role of ROLES) {
+			expect(await manager.hasRole(role, owner.address)).to.equal(true);
+		}
 		expect(await manager.r1Token()).to.equal(await r1Token.getAddress());
 		expect(await manager.usdcToken()).to.equal(
 			await usdcToken.getAddress()
 		);
 		expect(await manager.uniswapPair()).to.equal(await pair.getAddress());
-		expect(await manager.uniswapRouter()).to.equal(
-			await router.getAddress()
+		expect(await manager.swapAdapter()).to.equal(
+			await swapAdapter.getAddress()
 		);
 		expect(await manager.weth()).to.equal(await weth.getAddress());
 		expect(await manager.tierPrices(Tier.Micro)).to.equal(MICRO_PRICE);
@@ -117,6 +73,13 @@ describe("Manager3send", function () {
 		);
 		expect(await manager.tierPrices(Tier.Big)).to.equal(BIG_PRICE);
 		expect(await manager.tierPrices(Tier.Archive)).to.equal(ARCHIVE_PRICE);
+
+		// Fresh proxies start at the latest version, past the migration.
+		await expect(
+			manager
+				.connect(owner)
+				.initializeV2(await swapAdapter.getAddress(), PRICE_CURVE, [])
+		).to.be.revertedWithCustomError(manager, "InvalidInitialization");
 	});
 
 	const paymentCases = [
@@ -141,10 +104,28 @@ describe("Manager3send", function () {
 			const userBalanceBefore = await r1Token.balanceOf(user.address);
 
 			await expect(
-				manager.connect(user).transferPayment(tier, requiredR1)
+				manager
+					.connect(user)
+					.transferPayment(
+						tier,
+						UPLOAD_REF,
+						ethers.ZeroAddress,
+						requiredR1
+					)
 			)
 				.to.emit(manager, "PaymentProcessed")
-				.withArgs(user.address, tier, price, requiredR1);
+				.withArgs(
+					user.address,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					tier,
+					price,
+					requiredR1,
+					requiredR1,
+					0n,
+					0n,
+					0n
+				);
 
 			expect(await r1Token.balanceOf(user.address)).to.equal(
 				userBalanceBefore - requiredR1
@@ -159,9 +140,8 @@ describe("Manager3send", function () {
 	}
 
 	it("allows users to pay with USDC and burns the swapped R1", async function () {
-		const { manager, usdcToken, r1Token, user, required } = await loadFixture(
-			deployFixture
-		);
+		const { manager, usdcToken, r1Token, user, required } =
+			await loadFixture(deployFixture);
 
 		const tier = Tier.Standard;
 		const usdcAmount = await manager.tierPrices(tier);
@@ -173,17 +153,35 @@ describe("Manager3send", function () {
 			.approve(await manager.getAddress(), usdcAmount);
 
 		await expect(
-			manager.connect(user).transferPaymentWithUSDC(tier, requiredR1)
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					requiredR1
+				)
 		)
 			.to.emit(manager, "PaymentProcessed")
-			.withArgs(user.address, tier, usdcAmount, requiredR1);
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				tier,
+				usdcAmount,
+				requiredR1,
+				requiredR1,
+				0n,
+				0n,
+				0n
+			);
 
 		expect(await usdcToken.balanceOf(user.address)).to.equal(
 			userUsdcBefore - usdcAmount
 		);
-		expect(
-			await r1Token.balanceOf(await manager.getAddress())
-		).to.equal(0n);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			0n
+		);
 	});
 
 	it("allows users to pay with arbitrary tokens swapped into USDC", async function () {
@@ -201,13 +199,18 @@ describe("Manager3send", function () {
 			.connect(user)
 			.approve(await manager.getAddress(), maxPaymentAmount);
 
-		const path = [await paymentToken.getAddress(), await manager.usdcToken()];
+		const path = [
+			await paymentToken.getAddress(),
+			await manager.usdcToken(),
+		];
 
 		await expect(
 			manager
 				.connect(user)
 				.transferPaymentWithToken(
 					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
 					await paymentToken.getAddress(),
 					maxPaymentAmount,
 					expectedR1,
@@ -215,213 +218,4005 @@ describe("Manager3send", function () {
 				)
 		)
 			.to.emit(manager, "PaymentProcessed")
-			.withArgs(user.address, tier, usdcAmount, expectedR1);
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				tier,
+				usdcAmount,
+				expectedR1,
+				expectedR1,
+				0n,
+				0n,
+				0n
+			);
 
 		const userTokenAfter = await paymentToken.balanceOf(user.address);
 		expect(userTokenBefore - userTokenAfter).to.equal(maxPaymentAmount);
-		expect(
-			await r1Token.balanceOf(await manager.getAddress())
-		).to.equal(0n);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			0n
+		);
 	});
 
-	it("refunds unused token input when swapping for USDC", async function () {
-		const { manager, paymentToken, user, required } = await loadFixture(
-			deployFixture
+	it("curates accepted payment tokens and their USDC routes", async function () {
+		const { manager, paymentToken, r1Token, usdcToken, weth, owner, user } =
+			await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const wethAddress = await weth.getAddress();
+
+		await expect(manager.connect(owner).setPaymentToken(token, false))
+			.to.emit(manager, "PaymentTokenRouteSet")
+			.withArgs(token, [token, usdc]);
+		expect(await manager.getPaymentTokens()).to.deep.equal([token]);
+
+		await expect(manager.connect(owner).setPaymentToken(token, true))
+			.to.emit(manager, "PaymentTokenRouteSet")
+			.withArgs(token, [token, wethAddress, usdc]);
+		expect(await manager.getPaymentTokenRoute(token)).to.deep.equal([
+			token,
+			wethAddress,
+			usdc,
+		]);
+		expect(await manager.getPaymentTokens()).to.deep.equal([token]);
+
+		await expect(manager.connect(owner).removePaymentToken(token))
+			.to.emit(manager, "PaymentTokenRemoved")
+			.withArgs(token);
+		expect(await manager.getPaymentTokens()).to.deep.equal([]);
+		await expect(manager.getPaymentTokenRoute(token)).to.be.revertedWith(
+			"Manager3send: token not accepted"
 		);
+		await expect(
+			manager.connect(owner).removePaymentToken(token)
+		).to.be.revertedWith("Manager3send: token not accepted");
 
-		const tier = Tier.Standard;
-		const usdcAmount = await manager.tierPrices(tier);
-		const maxPaymentAmount = usdcAmount * 10n ** 12n + 10n ** 18n;
-		const requiredToken = usdcAmount * 10n ** 12n;
+		await expect(
+			manager.connect(owner).setPaymentToken(ethers.ZeroAddress, false)
+		).to.be.revertedWith("Manager3send: token is zero");
+		for (const ownMethod of [usdc, await r1Token.getAddress()]) {
+			await expect(
+				manager.connect(owner).setPaymentToken(ownMethod, false)
+			).to.be.revertedWith("Manager3send: token has its own method");
+		}
+		await expect(
+			manager.connect(owner).setPaymentToken(wethAddress, true)
+		).to.be.revertedWith("Manager3send: invalid route");
+		await expect(manager.connect(user).setPaymentToken(token, false))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+	});
 
-		await paymentToken
-			.connect(user)
-			.approve(await manager.getAddress(), maxPaymentAmount);
+	for (const viaWeth of [false, true]) {
+		it(`pays with a registered token routed ${
+			viaWeth ? "through WETH" : "directly"
+		} to USDC`, async function () {
+			const {
+				manager,
+				paymentToken,
+				usdcToken,
+				weth,
+				owner,
+				user,
+				required,
+			} = await loadFixture(deployFixture);
+			const token = await paymentToken.getAddress();
+			const route = viaWeth
+				? [token, await weth.getAddress(), await usdcToken.getAddress()]
+				: [token, await usdcToken.getAddress()];
+			await manager.connect(owner).setPaymentToken(token, viaWeth);
 
-		const tokenBalanceBefore = await paymentToken.balanceOf(user.address);
+			const quote = await manager.quoteWithToken.staticCall(
+				Tier.Standard,
+				token
+			);
+			expect(quote).to.deep.equal(
+				await manager.quotePaymentWithToken.staticCall(
+					Tier.Standard,
+					token,
+					route
+				)
+			);
+			const [r1Amount, tokenAmount, usdcEquivalent] = quote;
+			expect(usdcEquivalent).to.equal(STANDARD_PRICE);
 
-		await manager.connect(user).transferPaymentWithToken(
-			tier,
-			await paymentToken.getAddress(),
-			maxPaymentAmount,
-			required[tier],
-			[await paymentToken.getAddress(), await manager.usdcToken()]
+			await paymentToken
+				.connect(user)
+				.approve(await manager.getAddress(), tokenAmount);
+			const balanceBefore = await paymentToken.balanceOf(user.address);
+			await expect(
+				manager
+					.connect(user)
+					.payWithToken(
+						Tier.Standard,
+						UPLOAD_REF,
+						ethers.ZeroAddress,
+						token,
+						tokenAmount,
+						r1Amount
+					)
+			)
+				.to.emit(manager, "PaymentProcessed")
+				.withArgs(
+					user.address,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					Tier.Standard,
+					STANDARD_PRICE,
+					required[Tier.Standard],
+					required[Tier.Standard],
+					0n,
+					0n,
+					0n
+				);
+			expect(
+				balanceBefore - (await paymentToken.balanceOf(user.address))
+			).to.equal(tokenAmount);
+		});
+	}
+
+	it("rejects payments and quotes with unregistered tokens", async function () {
+		const { manager, paymentToken, user, required } = await loadFixture(
+			deployFixture
 		);
+		const token = await paymentToken.getAddress();
 
-		const tokenBalanceAfter = await paymentToken.balanceOf(user.address);
-		expect(tokenBalanceBefore - tokenBalanceAfter).to.equal(requiredToken);
+		await expect(
+			manager.quoteWithToken.staticCall(Tier.Micro, token)
+		).to.be.revertedWith("Manager3send: token not accepted");
+		await expect(
+			manager
+				.connect(user)
+				.payWithToken(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					token,
+					MICRO_PRICE * 10n ** 12n,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: token not accepted");
 	});
 
-	it("reverts when the minimum R1 output is set above the quote for USDC payments", async function () {
-		const { manager, usdcToken, user, required } = await loadFixture(
-			deployFixture
+	it("curates accepted stablecoins", async function () {
+		const { manager, stablecoin, r1Token, usdcToken, owner, user } =
+			await loadFixture(deployFixture);
+		const usdt = await stablecoin.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const r1 = await r1Token.getAddress();
+		const StablecoinFactory = await ethers.getContractFactory(
+			"StablecoinMock"
 		);
+		const dai = await (
+			await StablecoinFactory.deploy("Dai Stablecoin", "DAI", 18)
+		).getAddress();
 
-		const tier = Tier.Big;
-		const usdcAmount = await manager.tierPrices(tier);
+		expect(await manager.getStablecoins()).to.deep.equal([usdt]);
+		await expect(manager.connect(owner).setStablecoin(dai, [dai, r1], 150))
+			.to.emit(manager, "StablecoinSet")
+			.withArgs(dai, 18, 150, [dai, r1]);
+		expect(await manager.getStablecoins()).to.deep.equal([usdt, dai]);
+		expect(await manager.getStablecoin(dai)).to.deep.equal([
+			18n,
+			150n,
+			[dai, r1],
+		]);
+		expect(await manager.getStablecoin(usdt)).to.deep.equal([
+			6n,
+			0n,
+			[usdt, usdc, r1],
+		]);
 
-		await usdcToken
-			.connect(user)
-			.approve(await manager.getAddress(), usdcAmount);
+		await manager.connect(owner).setStablecoin(dai, [dai, usdc, r1], 0);
+		expect(await manager.getStablecoins()).to.deep.equal([usdt, dai]);
+		expect((await manager.getStablecoin(dai)).r1Path).to.deep.equal([
+			dai,
+			usdc,
+			r1,
+		]);
 
+		await expect(manager.connect(owner).removeStablecoin(usdt))
+			.to.emit(manager, "StablecoinRemoved")
+			.withArgs(usdt);
+		expect(await manager.getStablecoins()).to.deep.equal([dai]);
+		await expect(manager.getStablecoin(usdt)).to.be.revertedWith(
+			"Manager3send: stablecoin not accepted"
+		);
+		await expect(
+			manager.quoteWithStablecoin(Tier.Micro, usdt)
+		).to.be.revertedWith("Manager3send: stablecoin not accepted");
 		await expect(
 			manager
 				.connect(user)
-				.transferPaymentWithUSDC(tier, required[tier] + 1n)
-		).to.be.revertedWith("Manager3send: min output too high");
+				.transferPaymentWithStablecoin(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					usdt,
+					1n
+				)
+		).to.be.revertedWith("Manager3send: stablecoin not accepted");
+		await expect(
+			manager.connect(owner).removeStablecoin(usdt)
+		).to.be.revertedWith("Manager3send: stablecoin not accepted");
+
+		await expect(
+			manager
+				.connect(owner)
+				.setStablecoin(ethers.ZeroAddress, [ethers.ZeroAddress, r1], 0)
+		).to.be.revertedWith("Manager3send: token is zero");
+		for (const ownMethod of [usdc, r1]) {
+			await expect(
+				manager
+					.connect(owner)
+					.setStablecoin(ownMethod, [ownMethod, r1], 0)
+			).to.be.revertedWith("Manager3send: token has its own method");
+		}
+		for (const path of [[usdt], [dai, r1]]) {
+			await expect(
+				manager.connect(owner).setStablecoin(usdt, path, 0)
+			).to.be.revertedWith("Manager3send: invalid route");
+		}
+		await expect(
+			manager.connect(owner).setStablecoin(usdt, [usdt, usdc], 0)
+		).to.be.revertedWith("Manager3send: path must end in R1");
+		await expect(
+			manager.connect(owner).setStablecoin(usdt, [usdt, r1], 10_000)
+		).to.be.revertedWith("Manager3send: invalid depeg guard");
+		const wide = await (
+			await StablecoinFactory.deploy("Wide Dollar", "WIDE", 24)
+		).getAddress();
+		await expect(
+			manager.connect(owner).setStablecoin(wide, [wide, r1], 0)
+		).to.be.revertedWith("Manager3send: unsupported decimals");
+		await expect(manager.connect(user).setStablecoin(usdt, [usdt, r1], 0))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
 	});
 
-	it("reverts when the token payment path is invalid", async function () {
-		const { manager, paymentToken, user, required } = await loadFixture(
+	for (const decimals of [6n, 18n]) {
+		it(`pays with a ${decimals}-decimal stablecoin at face value`, async function () {
+			const { manager, r1Token, usdcToken, owner, user, required } =
+				await loadFixture(deployFixture);
+			const StablecoinFactory = await ethers.getContractFactory(
+				"StablecoinMock"
+			);
+			const stablecoin = await StablecoinFactory.deploy(
+				"Stable",
+				"STBL",
+				decimals
+			);
+			const token = await stablecoin.getAddress();
+			const r1 = await r1Token.getAddress();
+			// Through USDC for the 6-decimal coin, straight into R1 otherwise.
+			const path =
+				decimals === 6n
+					? [token, await usdcToken.getAddress(), r1]
+					: [token, r1];
+			await manager.connect(owner).setStablecoin(token, path, 50);
+
+			const [r1Amount, tokenAmount, usdcEquivalent] =
+				await manager.quoteWithStablecoin(Tier.Standard, token);
+			expect(usdcEquivalent).to.equal(STANDARD_PRICE);
+			expect(tokenAmount).to.equal(
+				STANDARD_PRICE * 10n ** (decimals - 6n)
+			);
+			expect(r1Amount).to.equal(required[Tier.Standard]);
+
+			await stablecoin.connect(owner).mint(user.address, tokenAmount);
+			await stablecoin
+				.connect(user)
+				.approve(await manager.getAddress(), tokenAmount);
+			await expect(
+				manager
+					.connect(user)
+					.transferPaymentWithStablecoin(
+						Tier.Standard,
+						UPLOAD_REF,
+						ethers.ZeroAddress,
+						token,
+						r1Amount
+					)
+			)
+				.to.emit(manager, "PaymentProcessed")
+				.withArgs(
+					user.address,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					Tier.Standard,
+					STANDARD_PRICE,
+					required[Tier.Standard],
+					required[Tier.Standard],
+					0n,
+					0n,
+					0n
+				);
+			expect(await stablecoin.balanceOf(user.address)).to.equal(0n);
+		});
+	}
+
+	it("rounds stablecoin amounts with fewer decimals up", async function () {
+		const { manager, r1Token, owner, user } = await loadFixture(
 			deployFixture
 		);
+		const StablecoinFactory = await ethers.getContractFactory(
+			"StablecoinMock"
+		);
+		const stablecoin = await StablecoinFactory.deploy("Cents", "CNT", 2);
+		const token = await stablecoin.getAddress();
+		await manager
+			.connect(owner)
+			.setStablecoin(token, [token, await r1Token.getAddress()], 0);
+		// $0.123456 costs 13 cents.
+		await manager
+			.connect(owner)
+			.setPartnerPrice(user.address, Tier.Standard, 123_456n);
 
-		const tier = Tier.Micro;
-		const maxPaymentAmount = (await manager.tierPrices(tier)) * 10n ** 12n;
+		await stablecoin.connect(owner).mint(user.address, 100n);
+		await stablecoin
+			.connect(user)
+			.approve(await manager.getAddress(), 100n);
+		await manager
+			.connect(user)
+			.transferPaymentWithStablecoin(
+				Tier.Standard,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				token,
+				1n
+			);
+		expect(await stablecoin.balanceOf(user.address)).to.equal(87n);
+		expect((await manager.getReceipt(UPLOAD_REF)).usdcAmount).to.equal(
+			123_456n
+		);
+	});
 
-		await paymentToken
+	it("refuses stablecoin payments while the stablecoin is depegged", async function () {
+		const { manager, stablecoin, router, r1Token, owner, user, required } =
+			await loadFixture(deployFixture);
+		const usdt = await stablecoin.getAddress();
+		const path = [usdt, await r1Token.getAddress()];
+		const pay = (uploadRef: string, minR1Amount: bigint) =>
+			manager
+				.connect(user)
+				.transferPaymentWithStablecoin(
+					Tier.Micro,
+					uploadRef,
+					ethers.ZeroAddress,
+					usdt,
+					minR1Amount
+				);
+		await stablecoin
 			.connect(user)
-			.approve(await manager.getAddress(), maxPaymentAmount);
+			.approve(await manager.getAddress(), ethers.MaxUint256);
+
+		// USDT slips to $0.985.
+		await router.setTokenPrice(usdt, 985_000n);
+		await manager.connect(owner).setStablecoin(usdt, path, 100);
+		await expect(
+			pay(UPLOAD_REF, required[Tier.Micro] / 2n)
+		).to.be.revertedWith("Manager3send: stablecoin depegged");
+
+		// A wider guard accepts it; the payment burns what the USDT buys.
+		await manager.connect(owner).setStablecoin(usdt, path, 200);
+		await expect(pay(UPLOAD_REF, required[Tier.Micro])).to.be.revertedWith(
+			"RouterMock: slippage"
+		);
+		await expect(pay(UPLOAD_REF, required[Tier.Micro] / 2n)).to.emit(
+			manager,
+			"PaymentProcessed"
+		);
+		expect((await manager.getReceipt(UPLOAD_REF)).r1Amount).to.be.closeTo(
+			(required[Tier.Micro] * 985n) / 1000n,
+			required[Tier.Micro] / 1000n
+		);
+	});
+
+	it("configures direct R1 paths", async function () {
+		const { manager, paymentToken, r1Token, usdcToken, weth, owner, user } =
+			await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+		const r1 = await r1Token.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const wethAddress = await weth.getAddress();
 
 		await expect(
 			manager
-				.connect(user)
-				.transferPaymentWithToken(
-					tier,
-					await paymentToken.getAddress(),
-					maxPaymentAmount,
-					required[tier],
-					[await paymentToken.getAddress(), await paymentToken.getAddress()]
-				)
-		).to.be.revertedWith("Manager3send: path must end in USDC");
+				.connect(owner)
+				.setDirectR1Path(token, [token, wethAddress, r1])
+		)
+			.to.emit(manager, "DirectR1PathSet")
+			.withArgs(token, [token, wethAddress, r1]);
+		expect(await manager.getDirectR1Path(token)).to.deep.equal([
+			token,
+			wethAddress,
+			r1,
+		]);
+
+		await expect(manager.connect(owner).setDirectR1Path(token, []))
+			.to.emit(manager, "DirectR1PathSet")
+			.withArgs(token, []);
+		expect(await manager.getDirectR1Path(token)).to.deep.equal([]);
+
+		for (const path of [[token], [wethAddress, r1]]) {
+			await expect(
+				manager.connect(owner).setDirectR1Path(token, path)
+			).to.be.revertedWith("Manager3send: invalid route");
+		}
+		await expect(
+			manager.connect(owner).setDirectR1Path(token, [token, usdc])
+		).to.be.revertedWith("Manager3send: path must end in R1");
+		await expect(
+			manager.connect(owner).setDirectR1Path(usdc, [usdc, r1])
+		).to.be.revertedWith("Manager3send: token has its own method");
+		await expect(manager.connect(user).setDirectR1Path(token, [token, r1]))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
 	});
 
-	it("allows users to pay with ETH, refunds excess, and burns R1", async function () {
-		const { manager, router, r1Token, user, required } = await loadFixture(
-			deployFixture
-		);
+	it("compares the USDC and direct routes of a token", async function () {
+		const {
+			manager,
+			router,
+			paymentToken,
+			r1Token,
+			weth,
+			owner,
+			required,
+		} = await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+		const r1 = await r1Token.getAddress();
+		const directInputUsdc =
+			(required[Tier.Standard] * POOL_RESERVE_USDC +
+				POOL_RESERVE_R1 -
+				1n) /
+			POOL_RESERVE_R1;
 
-		const tier = Tier.Micro;
-		const usdcAmount = await manager.tierPrices(tier);
-		const expectedR1 = required[tier];
-		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
-		const requiredEth =
-			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
-			ethPrice;
-		const bufferEth = requiredEth + 10n ** 14n;
+		expect(
+			await manager.compareTokenRoutes.staticCall(Tier.Standard, token)
+		).to.deep.equal([0n, 0n, 0n, 0n]);
 
-		const userBalanceBefore = await ethers.provider.getBalance(
-			user.address
+		await manager.connect(owner).setPaymentToken(token, false);
+		await manager
+			.connect(owner)
+			.setDirectR1Path(token, [token, await weth.getAddress(), r1]);
+		const [usdcRoute, usdcRouteR1, directRoute, directR1] =
+			await manager.compareTokenRoutes.staticCall(Tier.Standard, token);
+		const spotR1 = (STANDARD_PRICE * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		const directInput = directInputUsdc * 10n ** 12n;
+		expect(usdcRoute).to.equal(STANDARD_PRICE * 10n ** 12n);
+		expect(usdcRouteR1).to.be.closeTo(spotR1, poolPriceTolerance(spotR1));
+		expect(directRoute).to.be.closeTo(
+			directInput,
+			poolPriceTolerance(directInput)
 		);
+		expect(directR1).to.equal(required[Tier.Standard]);
 
-		const tx = await manager
+		const ethPrice = await router.ETH_PRICE_USDC();
+		const [ethUsdcRoute, , ethDirectRoute, ethDirectR1] =
+			await manager.compareTokenRoutes.staticCall(
+				Tier.Standard,
+				await weth.getAddress()
+			);
+		expect(ethUsdcRoute).to.equal(
+			(STANDARD_PRICE * 10n ** 18n + ethPrice - 1n) / ethPrice
+		);
+		expect([ethDirectRoute, ethDirectR1]).to.deep.equal([0n, 0n]);
+	});
+
+	it("pays with a token swapped straight into R1", async function () {
+		const { manager, paymentToken, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+		await manager
+			.connect(owner)
+			.setDirectR1Path(token, [token, await r1Token.getAddress()]);
+		// The USDC treasury share falls back to R1 when no USDC is involved.
+		await manager.connect(owner).setTreasury(other.address, 1_000n, true);
+
+		const [, , tokenAmount, r1Amount] =
+			await manager.compareTokenRoutes.staticCall(Tier.Standard, token);
+		expect(r1Amount).to.equal(required[Tier.Standard]);
+		const treasuryR1Amount = (r1Amount * 1_000n) / 10_000n;
+
+		await paymentToken
 			.connect(user)
-			.transferPaymentWithETH(tier, expectedR1, {
-				value: bufferEth,
-			});
-		await tx.wait();
+			.approve(await manager.getAddress(), tokenAmount * 2n);
+		const balanceBefore = await paymentToken.balanceOf(user.address);
+		await expect(
+			manager
+				.connect(user)
+				.payWithTokenDirect(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					token,
+					tokenAmount * 2n,
+					r1Amount
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Standard,
+				STANDARD_PRICE,
+				r1Amount,
+				r1Amount - treasuryR1Amount,
+				treasuryR1Amount,
+				0n,
+				0n
+			);
+		expect(
+			balanceBefore - (await paymentToken.balanceOf(user.address))
+		).to.equal(tokenAmount);
+		expect(await r1Token.balanceOf(other.address)).to.equal(
+			treasuryR1Amount
+		);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			0n
+		);
+	});
 
-		const userBalanceAfter = await ethers.provider.getBalance(user.address);
-		const spent = userBalanceBefore - userBalanceAfter;
-		const overspent = spent - requiredEth;
-		expect(spent >= requiredEth).to.be.true;
-		expect(overspent >= 0n && overspent < 10n ** 14n).to.be.true;
+	it("pays with ETH swapped straight into R1", async function () {
+		const { manager, r1Token, weth, owner, user, required } =
+			await loadFixture(deployFixture);
+		const wethAddress = await weth.getAddress();
+		await manager
+			.connect(owner)
+			.setDirectR1Path(wethAddress, [
+				wethAddress,
+				await r1Token.getAddress(),
+			]);
 
+		const [, , ethAmount, r1Amount] =
+			await manager.compareTokenRoutes.staticCall(Tier.Big, wethAddress);
+		expect(r1Amount).to.equal(required[Tier.Big]);
+
+		const balanceBefore = await ethers.provider.getBalance(user.address);
+		const tx = manager
+			.connect(user)
+			.transferPaymentWithETHDirect(
+				Tier.Big,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				r1Amount,
+				{ value: ethAmount + 10n ** 18n }
+			);
 		await expect(tx)
 			.to.emit(manager, "PaymentProcessed")
-			.withArgs(user.address, tier, usdcAmount, expectedR1);
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Big,
+				BIG_PRICE,
+				r1Amount,
+				r1Amount,
+				0n,
+				0n,
+				0n
+			);
+		const receipt = await (await tx).wait();
+		const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+		expect(
+			balanceBefore - (await ethers.provider.getBalance(user.address))
+		).to.equal(ethAmount + gasCost);
+		expect(
+			await ethers.provider.getBalance(await manager.getAddress())
+		).to.equal(0n);
+	});
+
+	it("rejects direct payments without a configured path", async function () {
+		const { manager, paymentToken, r1Token, owner, user, required } =
+			await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+
+		await expect(
+			manager
+				.connect(user)
+				.payWithTokenDirect(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					token,
+					10n ** 18n,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: no direct path");
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithETHDirect(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro],
+					{ value: 10n ** 18n }
+				)
+		).to.be.revertedWith("Manager3send: no direct path");
+
+		await manager
+			.connect(owner)
+			.setDirectR1Path(token, [token, await r1Token.getAddress()]);
+		await expect(
+			manager
+				.connect(user)
+				.payWithTokenDirect(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					token,
+					10n ** 18n,
+					required[Tier.Micro] + 1n
+				)
+		).to.be.revertedWith("Manager3send: min output too high");
+	});
+
+	it("lets admins switch the swap backend", async function () {
+		const {
+			manager,
+			pair,
+			weth,
+			usdcToken,
+			r1Token,
+			swapAdapter,
+			owner,
+			user,
+			required,
+		} = await loadFixture(deployFixture);
+		const backend = SWAP_BACKEND === "v3" ? "v2" : "v3";
+		const { router, swapAdapter: newAdapter } = await deploySwapBackend(
+			backend,
+			await pair.getAddress(),
+			await weth.getAddress(),
+			await usdcToken.getAddress(),
+			await r1Token.getAddress()
+		);
+		await r1Token
+			.connect(owner)
+			.mint(await router.getAddress(), 1_000_000n * 10n ** 18n);
+
+		await expect(
+			manager.connect(user).setSwapAdapter(await newAdapter.getAddress())
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, DEFAULT_ADMIN_ROLE);
+		await expect(
+			manager.connect(owner).setSwapAdapter(ethers.ZeroAddress)
+		).to.be.revertedWith("Manager3send: adapter is zero");
+
+		// V2 pairs other than the one the TWAP observes cannot price R1.
+		const PairFactory = await ethers.getContractFactory("UniswapMockPair");
+		const otherPair = await PairFactory.deploy(
+			await usdcToken.getAddress(),
+			await r1Token.getAddress()
+		);
+		const { swapAdapter: otherAdapter } = await deploySwapBackend(
+			"v2",
+			await otherPair.getAddress(),
+			await weth.getAddress(),
+			await usdcToken.getAddress(),
+			await r1Token.getAddress()
+		);
+		await expect(
+			manager
+				.connect(owner)
+				.setSwapAdapter(await otherAdapter.getAddress())
+		).to.be.revertedWith("Manager3send: adapter cannot price R1");
+		await expect(
+			manager.connect(owner).setSwapAdapter(await newAdapter.getAddress())
+		)
+			.to.emit(manager, "SwapAdapterUpdated")
+			.withArgs(
+				await swapAdapter.getAddress(),
+				await newAdapter.getAddress()
+			);
+		// V3 adapters price R1 from their own pool, V2 ones from the pair.
+		expect(await manager.adapterOracle()).to.equal(backend === "v3");
+		const r1Amount = await manager.getRequiredR1Amount(Tier.Standard);
+		expect(r1Amount).to.be.closeTo(
+			required[Tier.Standard],
+			required[Tier.Standard] / 10_000n
+		);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), STANDARD_PRICE);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					r1Amount
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Standard,
+				STANDARD_PRICE,
+				r1Amount,
+				r1Amount,
+				0n,
+				0n,
+				0n
+			);
+		expect(await usdcToken.balanceOf(await router.getAddress())).to.equal(
+			STANDARD_PRICE
+		);
+	});
+
+	it("swaps through V3 pools with per-pool fee tiers", async function () {
+		const {
+			manager,
+			pair,
+			weth,
+			usdcToken,
+			r1Token,
+			paymentToken,
+			owner,
+			user,
+		} = await loadFixture(deployFixture);
+		const token = await paymentToken.getAddress();
+		const wethAddress = await weth.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const { router } = await deploySwapBackend(
+			"v3",
+			await pair.getAddress(),
+			wethAddress,
+			usdc,
+			await r1Token.getAddress()
+		);
+		const v3Router = await ethers.getContractAt(
+			"UniswapV3MockRouter",
+			await router.getAddress()
+		);
+		const AdapterFactory = await ethers.getContractFactory(
+			"UniswapV3SwapAdapter"
+		);
+		await expect(
+			AdapterFactory.deploy(v3Router, v3Router, V3_DEFAULT_FEE, [
+				{ tokenA: wethAddress, tokenB: usdc, fee: 0 },
+			])
+		).to.be.revertedWith("SwapAdapter: fee is zero");
+		const adapter = await AdapterFactory.deploy(
+			v3Router,
+			v3Router,
+			V3_DEFAULT_FEE,
+			[{ tokenA: wethAddress, tokenB: usdc, fee: 500 }]
+		);
+		await usdcToken
+			.connect(owner)
+			.mint(await router.getAddress(), 1_000_000n * 10n ** 6n);
+		await r1Token
+			.connect(owner)
+			.mint(await router.getAddress(), 1_000_000n * 10n ** 18n);
+
+		expect(await adapter.poolFee(usdc, wethAddress)).to.equal(500n);
+		expect(await adapter.poolFee(token, wethAddress)).to.equal(
+			V3_DEFAULT_FEE
+		);
+
+		const route = [token, wethAddress, usdc];
+		const encodedOutputFirst = ethers.solidityPacked(
+			["address", "uint24", "address", "uint24", "address"],
+			[usdc, 500, wethAddress, V3_DEFAULT_FEE, token]
+		);
+		expect(await adapter.encodePath(route, true)).to.equal(
+			encodedOutputFirst
+		);
+		expect(await adapter.encodePath(route, false)).to.equal(
+			ethers.solidityPacked(
+				["address", "uint24", "address", "uint24", "address"],
+				[token, V3_DEFAULT_FEE, wethAddress, 500, usdc]
+			)
+		);
+
+		// Quotes go through QuoterV2, which is not a view.
+		expect(
+			await adapter.quoteExactOutput.staticCall(route, MICRO_PRICE)
+		).to.equal(MICRO_PRICE * 10n ** 12n);
+		await adapter.quoteExactOutput(route, MICRO_PRICE);
+		expect(await v3Router.lastQuotedPath()).to.equal(encodedOutputFirst);
+
+		expect(await adapter.pool(usdc, await r1Token.getAddress())).to.equal(
+			await v3Router.pool()
+		);
+		await manager.connect(owner).setSwapAdapter(await adapter.getAddress());
+		expect(await manager.adapterOracle()).to.equal(true);
+		await manager.connect(owner).setPaymentToken(token, true);
+		const [r1Amount, tokenAmount] = await manager.quoteWithToken.staticCall(
+			Tier.Micro,
+			token
+		);
+		expect(tokenAmount).to.equal(MICRO_PRICE * 10n ** 12n);
+
+		await paymentToken
+			.connect(user)
+			.approve(await manager.getAddress(), tokenAmount);
+		await expect(
+			manager
+				.connect(user)
+				.payWithToken(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					token,
+					tokenAmount,
+					r1Amount
+				)
+		).to.emit(manager, "PaymentProcessed");
+		expect(await v3Router.lastPath()).to.equal(
+			ethers.solidityPacked(
+				["address", "uint24", "address"],
+				[usdc, V3_DEFAULT_FEE, await r1Token.getAddress()]
+			)
+		);
+	});
+
+	it("guards payments with the pool oracle of V3 adapters", async function () {
+		const {
+			manager,
+			pair,
+			weth,
+			usdcToken,
+			r1Token,
+			swapAdapter,
+			owner,
+			user,
+		} = await loadFixture(deployFixture);
+		const usdc = await usdcToken.getAddress();
+		const r1 = await r1Token.getAddress();
+		const { router, swapAdapter: v3Adapter } = await deploySwapBackend(
+			"v3",
+			await pair.getAddress(),
+			await weth.getAddress(),
+			usdc,
+			r1
+		);
+		const adapter = await ethers.getContractAt(
+			"UniswapV3SwapAdapter",
+			await v3Adapter.getAddress()
+		);
+		await r1Token
+			.connect(owner)
+			.mint(await router.getAddress(), 1_000_000n * 10n ** 18n);
+
+		await expect(
+			adapter.consult(usdc, await weth.getAddress(), 10n ** 6n, 0)
+		).to.be.revertedWith("SwapAdapter: no pool");
+		if (SWAP_BACKEND === "v2") {
+			await expect(
+				swapAdapter.consult(usdc, r1, 10n ** 6n, 0)
+			).to.be.revertedWith("SwapAdapter: pair keeps no price history");
+		}
+
+		await manager.connect(owner).setSwapAdapter(await adapter.getAddress());
+		expect(await manager.adapterOracle()).to.equal(true);
+		const [spotR1, twapR1, deviationBps] =
+			await manager.getPriceDeviation();
+		expect(spotR1).to.equal(await adapter.consult(usdc, r1, 10n ** 6n, 0));
+		expect(twapR1).to.equal(
+			await adapter.consult(usdc, r1, 10n ** 6n, TWAP_WINDOW)
+		);
+		const unitR1 = (10n ** 6n * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		expect(spotR1).to.be.closeTo(unitR1, unitR1 / 10_000n);
+		expect(deviationBps).to.equal(0n);
+
+		// The adapter's pool follows the pair: doubling its R1 moves the spot
+		// price at once, the average only over a whole window.
+		await time.increase(TWAP_WINDOW);
+		await pair.setReserves(POOL_RESERVE_USDC, POOL_RESERVE_R1 * 2n);
+		const [movedSpotR1, movedTwapR1] = await manager.getPriceDeviation();
+		expect(movedSpotR1).to.be.closeTo(spotR1 * 2n, spotR1 / 5_000n);
+		expect(movedTwapR1).to.be.lessThan((twapR1 * 101n) / 100n);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), MICRO_PRICE);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					1n
+				)
+		).to.be.revertedWith("Manager3send: price deviation too high");
+
+		await time.increase(TWAP_WINDOW);
+		const [, settledTwapR1, settledDeviationBps] =
+			await manager.getPriceDeviation();
+		expect(settledTwapR1).to.equal(movedSpotR1);
+		expect(settledDeviationBps).to.equal(0n);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					1n
+				)
+		).to.emit(manager, "PaymentProcessed");
+	});
+
+	it("refunds unused token input when swapping for USDC", async function () {
+		const { manager, paymentToken, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Standard;
+		const usdcAmount = await manager.tierPrices(tier);
+		const maxPaymentAmount = usdcAmount * 10n ** 12n + 10n ** 18n;
+		const requiredToken = usdcAmount * 10n ** 12n;
+
+		await paymentToken
+			.connect(user)
+			.approve(await manager.getAddress(), maxPaymentAmount);
+
+		const tokenBalanceBefore = await paymentToken.balanceOf(user.address);
+
+		await manager
+			.connect(user)
+			.transferPaymentWithToken(
+				tier,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				await paymentToken.getAddress(),
+				maxPaymentAmount,
+				required[tier],
+				[await paymentToken.getAddress(), await manager.usdcToken()]
+			);
+
+		const tokenBalanceAfter = await paymentToken.balanceOf(user.address);
+		expect(tokenBalanceBefore - tokenBalanceAfter).to.equal(requiredToken);
+	});
+
+	it("reverts when the minimum R1 output is set above the quote for USDC payments", async function () {
+		const { manager, usdcToken, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Big;
+		const usdcAmount = await manager.tierPrices(tier);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), usdcAmount);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[tier] + 1n
+				)
+		).to.be.revertedWith("Manager3send: min output too high");
+	});
+
+	it("reverts when the token payment path is invalid", async function () {
+		const { manager, paymentToken, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Micro;
+		const maxPaymentAmount = (await manager.tierPrices(tier)) * 10n ** 12n;
+
+		await paymentToken
+			.connect(user)
+			.approve(await manager.getAddress(), maxPaymentAmount);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithToken(
+					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					await paymentToken.getAddress(),
+					maxPaymentAmount,
+					required[tier],
+					[
+						await paymentToken.getAddress(),
+						await paymentToken.getAddress(),
+					]
+				)
+		).to.be.revertedWith("Manager3send: path must end in USDC");
+	});
+
+	it("allows users to pay with ETH, refunds excess, and burns R1", async function () {
+		const { manager, router, r1Token, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Micro;
+		const usdcAmount = await manager.tierPrices(tier);
+		const expectedR1 = required[tier];
+		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
+		const requiredEth =
+			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
+			ethPrice;
+		const bufferEth = requiredEth + 10n ** 14n;
+
+		const userBalanceBefore = await ethers.provider.getBalance(
+			user.address
+		);
+
+		const tx = await manager
+			.connect(user)
+			.transferPaymentWithETH(
+				tier,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				expectedR1,
+				{
+					value: bufferEth,
+				}
+			);
+		await tx.wait();
+
+		const userBalanceAfter = await ethers.provider.getBalance(user.address);
+		const spent = userBalanceBefore - userBalanceAfter;
+		const overspent = spent - requiredEth;
+		expect(spent >= requiredEth).to.be.true;
+		expect(overspent >= 0n && overspent < 10n ** 14n).to.be.true;
+
+		await expect(tx)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				tier,
+				usdcAmount,
+				expectedR1,
+				expectedR1,
+				0n,
+				0n,
+				0n
+			);
+
+		expect(
+			await ethers.provider.getBalance(await manager.getAddress())
+		).to.equal(0n);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			0n
+		);
+	});
+
+	it("reverts when ETH provided is not enough to cover the USDC price", async function () {
+		const { manager, router, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Standard;
+		const usdcAmount = await manager.tierPrices(tier);
+		const expectedR1 = required[tier];
+		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
+		const requiredEth =
+			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
+			ethPrice;
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithETH(
+					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					expectedR1,
+					{
+						value: requiredEth - 1n,
+					}
+				)
+		).to.be.revertedWith("RouterMock: insufficient ETH");
+	});
+
+	it("reverts when the minimum R1 output is set above the quote for ETH payments", async function () {
+		const { manager, router, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		const tier = Tier.Standard;
+		const usdcAmount = await manager.tierPrices(tier);
+		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
+		const requiredEth =
+			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
+			ethPrice;
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithETH(
+					tier,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[tier] + 1n,
+					{
+						value: requiredEth,
+					}
+				)
+		).to.be.revertedWith("Manager3send: min output too high");
+	});
+
+	it("stores a receipt for the paid upload", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+
+		const requiredR1 = required[Tier.Standard];
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), requiredR1);
+
+		const emptyReceipt = await manager.getReceipt(UPLOAD_REF);
+		expect(emptyReceipt.payer).to.equal(ethers.ZeroAddress);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Standard,
+					UPLOAD_REF,
+					other.address,
+					requiredR1
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				other.address,
+				Tier.Standard,
+				STANDARD_PRICE,
+				requiredR1,
+				requiredR1,
+				0n,
+				0n,
+				0n
+			);
+
+		const receipt = await manager.getReceipt(UPLOAD_REF);
+		expect(receipt.payer).to.equal(user.address);
+		expect(receipt.recipient).to.equal(other.address);
+		expect(receipt.tierId).to.equal(Tier.Standard);
+		expect(receipt.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(receipt.r1Amount).to.equal(requiredR1);
+		expect(receipt.paidAt).to.equal(await time.latest());
+	});
+
+	it("refuses to pay the same upload twice", async function () {
+		const { manager, r1Token, usdcToken, user, required } =
+			await loadFixture(deployFixture);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro] * 2n);
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), MICRO_PRICE);
+
+		await manager
+			.connect(user)
+			.transferPayment(
+				Tier.Micro,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				required[Tier.Micro]
+			);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: upload already paid");
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: upload already paid");
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					ethers.id("upload-2"),
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.emit(manager, "PaymentProcessed");
+	});
+
+	it("rejects payments without an upload reference", async function () {
+		const { manager, r1Token, user, required } = await loadFixture(
+			deployFixture
+		);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro]);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					ethers.ZeroHash,
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: upload ref is zero");
+	});
+
+	it("reverts when allowance is insufficient", async function () {
+		const { manager, r1Token, user } = await loadFixture(deployFixture);
+
+		const requiredR1 = await manager.getRequiredR1Amount(Tier.Standard);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					requiredR1
+				)
+		).to.be.revertedWithCustomError(r1Token, "ERC20InsufficientAllowance");
+	});
+
+	it("pays with an R1 permit instead of a separate approval", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+		const managerAddress = await manager.getAddress();
+		const deadline = BigInt(await time.latest()) + 3600n;
+		const permit = await signPermit(
+			r1Token,
+			user,
+			managerAddress,
+			required[Tier.Micro],
+			deadline
+		);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithPermit(
+					Tier.Micro,
+					UPLOAD_REF,
+					other.address,
+					required[Tier.Micro],
+					permit
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				other.address,
+				Tier.Micro,
+				MICRO_PRICE,
+				required[Tier.Micro],
+				required[Tier.Micro],
+				0n,
+				0n,
+				0n
+			);
+
+		expect(await r1Token.allowance(user.address, managerAddress)).to.equal(
+			0n
+		);
+		expect(await r1Token.nonces(user.address)).to.equal(1n);
+	});
+
+	it("pays with a USDC permit instead of a separate approval", async function () {
+		const { manager, usdcToken, user, required } = await loadFixture(
+			deployFixture
+		);
+		const managerAddress = await manager.getAddress();
+		const deadline = BigInt(await time.latest()) + 3600n;
+		const permit = await signPermit(
+			usdcToken,
+			user,
+			managerAddress,
+			BIG_PRICE,
+			deadline
+		);
+		const balanceBefore = await usdcToken.balanceOf(user.address);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDCPermit(
+					Tier.Big,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Big],
+					permit
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Big,
+				BIG_PRICE,
+				required[Tier.Big],
+				required[Tier.Big],
+				0n,
+				0n,
+				0n
+			);
+
+		expect(
+			balanceBefore - (await usdcToken.balanceOf(user.address))
+		).to.equal(BIG_PRICE);
+	});
+
+	it("tolerates front-run permits but rejects unusable ones", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+		const managerAddress = await manager.getAddress();
+		const deadline = BigInt(await time.latest()) + 3600n;
+		const permit = await signPermit(
+			r1Token,
+			user,
+			managerAddress,
+			required[Tier.Micro],
+			deadline
+		);
+
+		await r1Token
+			.connect(other)
+			.permit(
+				user.address,
+				managerAddress,
+				permit.value,
+				permit.deadline,
+				permit.v,
+				permit.r,
+				permit.s
+			);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithPermit(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro],
+					permit
+				)
+		).to.emit(manager, "PaymentProcessed");
+
+		const forged = await signPermit(
+			r1Token,
+			other,
+			managerAddress,
+			required[Tier.Micro],
+			deadline
+		);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithPermit(
+					Tier.Micro,
+					ethers.id("upload-2"),
+					ethers.ZeroAddress,
+					required[Tier.Micro],
+					forged
+				)
+		).to.be.revertedWith("Manager3send: permit failed");
+	});
+
+	it("settles payment intents submitted by a relayer", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+		const managerAddress = await manager.getAddress();
+		const deadline = BigInt(await time.latest()) + 3600n;
+		const maxR1Amount = required[Tier.Standard];
+		const intent = {
+			payer: user.address,
+			tierId: Tier.Standard,
+			uploadRef: UPLOAD_REF,
+			recipient: other.address,
+			maxR1Amount,
+			nonce: await manager.nonces(user.address),
+			deadline,
+		};
+		const signature = await signPaymentIntent(manager, user, intent);
+		const permit = await signPermit(
+			r1Token,
+			user,
+			managerAddress,
+			maxR1Amount,
+			deadline
+		);
+
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(intent, signature, permit)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				other.address,
+				Tier.Standard,
+				STANDARD_PRICE,
+				required[Tier.Standard],
+				required[Tier.Standard],
+				0n,
+				0n,
+				0n
+			);
+
+		expect((await manager.getReceipt(UPLOAD_REF)).payer).to.equal(
+			user.address
+		);
+		expect(await manager.nonces(user.address)).to.equal(1n);
+
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(intent, signature, NO_PERMIT)
+		).to.be.revertedWith("Manager3send: invalid nonce");
+
+		await r1Token
+			.connect(user)
+			.approve(managerAddress, required[Tier.Micro]);
+		const approvedIntent = {
+			...intent,
+			tierId: Tier.Micro,
+			uploadRef: ethers.id("upload-2"),
+			maxR1Amount: required[Tier.Micro],
+			nonce: 1n,
+		};
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(
+					approvedIntent,
+					await signPaymentIntent(manager, user, approvedIntent),
+					NO_PERMIT
+				)
+		).to.emit(manager, "PaymentProcessed");
+	});
+
+	it("rejects expired or tampered payment intents", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Archive]);
+
+		const intent = {
+			payer: user.address,
+			tierId: Tier.Micro,
+			uploadRef: UPLOAD_REF,
+			recipient: ethers.ZeroAddress,
+			maxR1Amount: required[Tier.Archive],
+			nonce: 0n,
+			deadline: BigInt(await time.latest()) + 60n,
+		};
+		const signature = await signPaymentIntent(manager, user, intent);
+
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(
+					{ ...intent, tierId: Tier.Archive },
+					signature,
+					NO_PERMIT
+				)
+		).to.be.revertedWith("Manager3send: invalid signature");
+
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(
+					intent,
+					await signPaymentIntent(manager, other, intent),
+					NO_PERMIT
+				)
+		).to.be.revertedWith("Manager3send: invalid signature");
+
+		await time.increase(120);
+		await expect(
+			manager
+				.connect(other)
+				.transferPaymentBySig(intent, signature, NO_PERMIT)
+		).to.be.revertedWith("Manager3send: intent expired");
+	});
+
+	it("charges partners their negotiated tier price", async function () {
+		const {
+			manager,
+			usdcToken,
+			paymentToken,
+			stablecoin,
+			owner,
+			user,
+			other,
+		} = await loadFixture(deployFixture);
+		const partnerPrice = STANDARD_PRICE - 50_000n;
+
+		await expect(
+			manager
+				.connect(user)
+				.setPartnerPrice(user.address, Tier.Standard, partnerPrice)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+		await expect(
+			manager
+				.connect(owner)
+				.setPartnerPrice(ethers.ZeroAddress, Tier.Standard, 1n)
+		).to.be.revertedWith("Manager3send: partner is zero");
+		await expect(
+			manager.connect(owner).setPartnerPrice(user.address, 99n, 1n)
+		).to.be.revertedWith("Manager3send: unknown tier");
+		await expect(
+			manager
+				.connect(owner)
+				.setPartnerPrice(user.address, Tier.Standard, partnerPrice)
+		)
+			.to.emit(manager, "PartnerPriceUpdated")
+			.withArgs(user.address, Tier.Standard, partnerPrice);
+		expect(
+			await manager.partnerPrices(user.address, Tier.Standard)
+		).to.equal(partnerPrice);
+
+		const [usdcAmount, discountUsdcAmount, r1Amount] =
+			await manager.quoteDiscountedPayment(
+				Tier.Standard,
+				user.address,
+				NO_VOUCHER,
+				"0x"
+			);
+		expect(usdcAmount).to.equal(partnerPrice);
+		expect(discountUsdcAmount).to.equal(50_000n);
+		const partnerR1 = (partnerPrice * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		expect(r1Amount).to.be.closeTo(
+			partnerR1,
+			poolPriceTolerance(partnerR1)
+		);
+		const [listUsdcAmount, noDiscount] =
+			await manager.quoteDiscountedPayment(
+				Tier.Standard,
+				other.address,
+				NO_VOUCHER,
+				"0x"
+			);
+		expect(listUsdcAmount).to.equal(STANDARD_PRICE);
+		expect(noDiscount).to.equal(0n);
+
+		// The tier quotes price the caller's partner price too.
+		const [, quotedUsdcAmount, quotedR1Amount] = await manager
+			.connect(user)
+			.quotePayment(Tier.Standard);
+		expect(quotedUsdcAmount).to.equal(partnerPrice);
+		expect(quotedR1Amount).to.equal(r1Amount);
+		expect(
+			(await manager.connect(other).quotePayment(Tier.Standard))
+				.usdcAmount
+		).to.equal(STANDARD_PRICE);
+		const token = await paymentToken.getAddress();
+		await manager.connect(owner).setPaymentToken(token, false);
+		const tokenQuote = await manager
+			.connect(user)
+			.quoteWithToken.staticCall(Tier.Standard, token);
+		expect(tokenQuote.usdcEquivalent).to.equal(partnerPrice);
+		expect(tokenQuote.tokenAmount).to.equal(partnerPrice * 10n ** 12n);
+		expect(
+			await manager
+				.connect(user)
+				.quotePaymentWithToken.staticCall(Tier.Standard, token, [
+					token,
+					await usdcToken.getAddress(),
+				])
+		).to.deep.equal(tokenQuote);
+		const stablecoinQuote = await manager
+			.connect(user)
+			.quoteWithStablecoin(Tier.Standard, await stablecoin.getAddress());
+		expect(stablecoinQuote.usdcEquivalent).to.equal(partnerPrice);
+		expect(stablecoinQuote.tokenAmount).to.equal(partnerPrice);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), partnerPrice);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					r1Amount
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Standard,
+				partnerPrice,
+				r1Amount,
+				r1Amount,
+				0n,
+				0n,
+				50_000n
+			);
+		expect((await manager.getReceipt(UPLOAD_REF)).usdcAmount).to.equal(
+			partnerPrice
+		);
+
+		// Partner prices never raise the price, and zero removes them.
+		await manager
+			.connect(owner)
+			.setPartnerPrice(user.address, Tier.Micro, MICRO_PRICE * 2n);
+		const [microAmount] = await manager.quoteDiscountedPayment(
+			Tier.Micro,
+			user.address,
+			NO_VOUCHER,
+			"0x"
+		);
+		expect(microAmount).to.equal(MICRO_PRICE);
+		await manager
+			.connect(owner)
+			.setPartnerPrice(user.address, Tier.Standard, 0n);
+		const [restoredAmount] = await manager.quoteDiscountedPayment(
+			Tier.Standard,
+			user.address,
+			NO_VOUCHER,
+			"0x"
+		);
+		expect(restoredAmount).to.equal(STANDARD_PRICE);
+	});
+
+	it("redeems discount vouchers through every payment method", async function () {
+		const {
+			manager,
+			swapAdapter,
+			r1Token,
+			usdcToken,
+			paymentToken,
+			weth,
+			owner,
+			user,
+		} = await loadFixture(deployFixture);
+		const managerAddress = await manager.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const token = await paymentToken.getAddress();
+		await manager.connect(owner).setPaymentToken(token, false);
+		// 10% plus $0.05 off the Big tier.
+		const voucher = {
+			code: ethers.id("LAUNCH"),
+			account: ethers.ZeroAddress,
+			discountBps: 1_000n,
+			discountAmount: 50_000n,
+			maxUses: 4n,
+			expiresAt: BigInt(await time.latest()) + 3600n,
+		};
+		const signature = await signDiscountVoucher(manager, owner, voucher);
+		const discount = BIG_PRICE / 10n + 50_000n;
+
+		const [usdcAmount, discountUsdcAmount, r1Amount] =
+			await manager.quoteDiscountedPayment(
+				Tier.Big,
+				user.address,
+				voucher,
+				signature
+			);
+		expect(usdcAmount).to.equal(BIG_PRICE - discount);
+		expect(discountUsdcAmount).to.equal(discount);
+
+		await r1Token.connect(user).approve(managerAddress, ethers.MaxUint256);
+		await usdcToken
+			.connect(user)
+			.approve(managerAddress, ethers.MaxUint256);
+		const tokenAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[token, usdc],
+			usdcAmount
+		);
+		await paymentToken.connect(user).approve(managerAddress, tokenAmount);
+		const ethAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[await weth.getAddress(), usdc],
+			usdcAmount
+		);
+
+		const userManager = manager.connect(user);
+		const payments = [
+			(uploadRef: string) =>
+				userManager.transferPaymentWithVoucher(
+					Tier.Big,
+					uploadRef,
+					ethers.ZeroAddress,
+					r1Amount,
+					voucher,
+					signature
+				),
+			(uploadRef: string) =>
+				userManager.transferPaymentWithUSDCAndVoucher(
+					Tier.Big,
+					uploadRef,
+					ethers.ZeroAddress,
+					r1Amount,
+					voucher,
+					signature
+				),
+			(uploadRef: string) =>
+				userManager.transferPaymentWithETHAndVoucher(
+					Tier.Big,
+					uploadRef,
+					ethers.ZeroAddress,
+					r1Amount,
+					voucher,
+					signature,
+					{ value: ethAmount * 2n }
+				),
+			(uploadRef: string) =>
+				userManager.payWithTokenAndVoucher(
+					Tier.Big,
+					uploadRef,
+					ethers.ZeroAddress,
+					token,
+					tokenAmount,
+					r1Amount,
+					voucher,
+					signature
+				),
+		];
+		for (const [index, pay] of payments.entries()) {
+			const uploadRef = ethers.id(`voucher-upload-${index}`);
+			await expect(pay(uploadRef))
+				.to.emit(manager, "DiscountVoucherRedeemed")
+				.withArgs(voucher.code, user.address, uploadRef, discount)
+				.and.to.emit(manager, "PaymentProcessed")
+				.withArgs(
+					user.address,
+					uploadRef,
+					ethers.ZeroAddress,
+					Tier.Big,
+					usdcAmount,
+					r1Amount,
+					r1Amount,
+					0n,
+					0n,
+					discount
+				);
+			expect(await manager.discountVoucherUses(voucher.code)).to.equal(
+				BigInt(index + 1)
+			);
+		}
+
+		await expect(
+			payments[0](ethers.id("voucher-upload-4"))
+		).to.be.revertedWith("Manager3send: voucher used up");
+		expect(await ethers.provider.getBalance(managerAddress)).to.equal(0n);
+		expect(await usdcToken.balanceOf(managerAddress)).to.equal(0n);
+	});
+
+	it("rejects unusable discount vouchers", async function () {
+		const { manager, owner, user, other } = await loadFixture(
+			deployFixture
+		);
+		const voucher = {
+			code: ethers.id("PARTNER"),
+			account: user.address,
+			discountBps: 0n,
+			discountAmount: 50_000n,
+			maxUses: 1n,
+			expiresAt: BigInt(await time.latest()) + 3600n,
+		};
+		const signature = await signDiscountVoucher(manager, owner, voucher);
+		const quote = (
+			account: string,
+			tierId: Tier,
+			signed = voucher,
+			voucherSignature = signature
+		) =>
+			manager.quoteDiscountedPayment(
+				tierId,
+				account,
+				signed,
+				voucherSignature
+			);
+
+		await expect(quote(other.address, Tier.Standard)).to.be.revertedWith(
+			"Manager3send: voucher not for account"
+		);
+		await expect(
+			quote(
+				user.address,
+				Tier.Standard,
+				voucher,
+				await signDiscountVoucher(manager, other, voucher)
+			)
+		).to.be.revertedWith("Manager3send: invalid voucher signature");
+		await expect(
+			quote(user.address, Tier.Standard, {
+				...voucher,
+				discountAmount: 100_000n,
+			})
+		).to.be.revertedWith("Manager3send: invalid voucher signature");
+
+		const fullDiscount = { ...voucher, discountBps: 10_000n };
+		await expect(
+			quote(
+				user.address,
+				Tier.Standard,
+				fullDiscount,
+				await signDiscountVoucher(manager, owner, fullDiscount)
+			)
+		).to.be.revertedWith("Manager3send: discount exceeds price");
+		// Zero marks escrowed payments without a voucher.
+		const zeroCode = { ...voucher, code: ethers.ZeroHash };
+		await expect(
+			quote(
+				user.address,
+				Tier.Standard,
+				zeroCode,
+				await signDiscountVoucher(manager, owner, zeroCode)
+			)
+		).to.be.revertedWith("Manager3send: voucher code is zero");
+		await expect(quote(user.address, Tier.Micro)).to.not.be.reverted;
+
+		await expect(manager.connect(user).revokeDiscountVoucher(voucher.code))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+		await expect(manager.connect(owner).revokeDiscountVoucher(voucher.code))
+			.to.emit(manager, "DiscountVoucherRevoked")
+			.withArgs(voucher.code);
+		await expect(
+			manager.connect(owner).revokeDiscountVoucher(voucher.code)
+		).to.be.revertedWith("Manager3send: voucher already revoked");
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithVoucher(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					ethers.MaxUint256,
+					voucher,
+					signature
+				)
+		).to.be.revertedWith("Manager3send: voucher revoked");
+
+		await time.increaseTo(voucher.expiresAt + 1n);
+		await expect(quote(user.address, Tier.Standard)).to.be.revertedWith(
+			"Manager3send: voucher expired"
+		);
+	});
+
+	it("sells tier upload credits with a single burn", async function () {
+		const { manager, r1Token, user, other, required } = await loadFixture(
+			deployFixture
+		);
+		const maxR1Amount = required[Tier.Micro] * 4n;
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), maxR1Amount);
+
+		const supplyBefore = await r1Token.totalSupply();
+		const tx = manager
+			.connect(user)
+			.purchaseCredits(Tier.Micro, 3n, maxR1Amount);
+		await expect(tx).to.emit(manager, "CreditsPurchased");
+
+		const receipt = await (await tx).wait();
+		const [event] = await manager.queryFilter(
+			manager.filters.CreditsPurchased(),
+			receipt!.blockNumber
+		);
+		expect(event.args.account).to.equal(user.address);
+		expect(event.args.creditId).to.equal(Tier.Micro);
+		expect(event.args.quantity).to.equal(3n);
+		expect(event.args.usdcAmount).to.equal(MICRO_PRICE * 3n);
+		expect(supplyBefore - (await r1Token.totalSupply())).to.equal(
+			event.args.r1Amount
+		);
+		expect(await manager.credits(user.address, Tier.Micro)).to.equal(3n);
+
+		await expect(
+			manager
+				.connect(user)
+				.consumeCredits(
+					user.address,
+					Tier.Micro,
+					UPLOAD_REF,
+					other.address
+				)
+		)
+			.to.emit(manager, "CreditsConsumed")
+			.withArgs(user.address, UPLOAD_REF, Tier.Micro, Tier.Micro, 1n);
+
+		const stored = await manager.getReceipt(UPLOAD_REF);
+		expect(stored.payer).to.equal(user.address);
+		expect(stored.recipient).to.equal(other.address);
+		expect(stored.usdcAmount).to.equal(MICRO_PRICE);
+		expect(stored.r1Amount).to.equal(0n);
+		expect(await manager.credits(user.address, Tier.Micro)).to.equal(2n);
+
+		await expect(
+			manager
+				.connect(user)
+				.consumeCredits(
+					user.address,
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress
+				)
+		).to.be.revertedWith("Manager3send: upload already paid");
+	});
+
+	it("sells a USDC credit balance that covers any active tier", async function () {
+		const { manager, usdcToken, owner, user, other } = await loadFixture(
+			deployFixture
+		);
+		const usdcCredits = await manager.USDC_CREDITS();
+		const balance = 1_000_000n;
+		const [, r1PerUsdc] = await manager.getPriceDeviation();
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), balance);
+
+		await expect(
+			manager
+				.connect(user)
+				.purchaseCreditsWithUSDC(usdcCredits, balance, r1PerUsdc)
+		)
+			.to.emit(manager, "CreditsPurchased")
+			.withArgs(
+				user.address,
+				usdcCredits,
+				balance,
+				balance,
+				r1PerUsdc,
+				r1PerUsdc,
+				0n,
+				0n
+			);
+		expect(await manager.credits(user.address, usdcCredits)).to.equal(
+			balance
+		);
+
+		await expect(manager.connect(owner).setUploader(other.address, true))
+			.to.emit(manager, "UploaderUpdated")
+			.withArgs(other.address, true);
+
+		await expect(
+			manager
+				.connect(other)
+				.consumeCredits(
+					user.address,
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress
+				)
+		)
+			.to.emit(manager, "CreditsConsumed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				Tier.Standard,
+				usdcCredits,
+				STANDARD_PRICE
+			);
+		expect(await manager.credits(user.address, usdcCredits)).to.equal(
+			balance - STANDARD_PRICE
+		);
+
+		await expect(
+			manager
+				.connect(other)
+				.consumeCredits(
+					user.address,
+					Tier.Archive,
+					ethers.id("upload-2"),
+					ethers.ZeroAddress
+				)
+		).to.be.revertedWith("Manager3send: insufficient credits");
+	});
+
+	it("restricts credit consumption to the account and trusted uploaders", async function () {
+		const { manager, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Big] * 2n);
+		await manager
+			.connect(user)
+			.purchaseCredits(Tier.Big, 1n, required[Tier.Big] * 2n);
+
+		await expect(
+			manager
+				.connect(other)
+				.consumeCredits(
+					user.address,
+					Tier.Big,
+					UPLOAD_REF,
+					ethers.ZeroAddress
+				)
+		).to.be.revertedWith("Manager3send: caller cannot consume");
+
+		await expect(manager.connect(other).setUploader(other.address, true))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(other.address, DEFAULT_ADMIN_ROLE);
+		await expect(
+			manager.connect(owner).setUploader(ethers.ZeroAddress, true)
+		).to.be.revertedWith("Manager3send: uploader is zero");
+
+		await manager.connect(owner).setUploader(other.address, true);
+		await manager.connect(owner).setUploader(other.address, false);
+		await expect(
+			manager
+				.connect(other)
+				.consumeCredits(
+					user.address,
+					Tier.Big,
+					UPLOAD_REF,
+					ethers.ZeroAddress
+				)
+		).to.be.revertedWith("Manager3send: caller cannot consume");
+
+		await expect(
+			manager.connect(user).purchaseCredits(Tier.Big, 0n, 1n)
+		).to.be.revertedWith("Manager3send: quantity is zero");
+	});
+
+	const TREASURY_SHARE_BPS = 2_500n;
+
+	for (const keepsUsdc of [false, true]) {
+		for (const method of PAYMENT_METHODS) {
+			const sharesUsdc = keepsUsdc && method !== PaymentMethod.R1;
+
+			it(`splits ${
+				PaymentMethod[method]
+			} payments between burn and treasury${
+				keepsUsdc ? " keeping USDC" : ""
+			}`, async function () {
+				const {
+					manager,
+					r1Token,
+					usdcToken,
+					paymentToken,
+					stablecoin,
+					owner,
+					user,
+					other,
+				} = await loadFixture(deployFixture);
+				// Stablecoin payments pay the treasury in the (6-decimal)
+				// stablecoin itself.
+				const treasuryToken =
+					method === PaymentMethod.Stablecoin
+						? stablecoin
+						: usdcToken;
+				const pay = await paymentMethodCalls(
+					manager,
+					user,
+					paymentToken
+				);
+				await expect(
+					manager
+						.connect(owner)
+						.setTreasury(
+							other.address,
+							TREASURY_SHARE_BPS,
+							keepsUsdc
+						)
+				)
+					.to.emit(manager, "TreasuryUpdated")
+					.withArgs(other.address, TREASURY_SHARE_BPS, keepsUsdc);
+
+				const supplyBefore = await r1Token.totalSupply();
+				const treasuryR1Before = await r1Token.balanceOf(other.address);
+				const treasuryUsdcBefore = await treasuryToken.balanceOf(
+					other.address
+				);
+
+				const receipt = await (await pay[method](UPLOAD_REF)).wait();
+				const event = receipt!.logs
+					.map((log) => manager.interface.parseLog(log))
+					.find((parsed) => parsed?.name === "PaymentProcessed")!;
+				const {
+					usdcAmount,
+					r1Amount,
+					burnedR1Amount,
+					treasuryR1Amount,
+					treasuryUsdcAmount,
+				} = event.args;
+
+				expect(burnedR1Amount + treasuryR1Amount).to.equal(r1Amount);
+				expect(supplyBefore - (await r1Token.totalSupply())).to.equal(
+					burnedR1Amount
+				);
+				expect(
+					(await r1Token.balanceOf(other.address)) - treasuryR1Before
+				).to.equal(treasuryR1Amount);
+				expect(
+					(await treasuryToken.balanceOf(other.address)) -
+						treasuryUsdcBefore
+				).to.equal(treasuryUsdcAmount);
+				if (sharesUsdc) {
+					expect(treasuryUsdcAmount).to.equal(
+						(usdcAmount * TREASURY_SHARE_BPS) / 10_000n
+					);
+					expect(treasuryR1Amount).to.equal(0n);
+				} else {
+					expect(treasuryR1Amount).to.equal(
+						(r1Amount * TREASURY_SHARE_BPS) / 10_000n
+					);
+					expect(treasuryUsdcAmount).to.equal(0n);
+				}
+
+				// Everything collected was either burned or sent to the treasury.
+				const managerAddress = await manager.getAddress();
+				expect(await r1Token.balanceOf(managerAddress)).to.equal(0n);
+				expect(await usdcToken.balanceOf(managerAddress)).to.equal(0n);
+				expect(await stablecoin.balanceOf(managerAddress)).to.equal(0n);
+			});
+		}
+	}
+
+	it("splits credit purchases between burn and treasury", async function () {
+		const { manager, r1Token, usdcToken, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const r1Share = (required[Tier.Micro] * TREASURY_SHARE_BPS) / 10_000n;
+		const usdcShare = (MICRO_PRICE * TREASURY_SHARE_BPS) / 10_000n;
+		await manager
+			.connect(owner)
+			.setTreasury(other.address, TREASURY_SHARE_BPS, true);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro]);
+		await expect(
+			manager
+				.connect(user)
+				.purchaseCredits(Tier.Micro, 1n, required[Tier.Micro])
+		)
+			.to.emit(manager, "CreditsPurchased")
+			.withArgs(
+				user.address,
+				Tier.Micro,
+				1n,
+				MICRO_PRICE,
+				required[Tier.Micro],
+				required[Tier.Micro] - r1Share,
+				r1Share,
+				0n
+			);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), MICRO_PRICE);
+		await expect(
+			manager
+				.connect(user)
+				.purchaseCreditsWithUSDC(Tier.Micro, 1n, required[Tier.Micro])
+		)
+			.to.emit(manager, "CreditsPurchased")
+			.withArgs(
+				user.address,
+				Tier.Micro,
+				1n,
+				MICRO_PRICE,
+				anyValue,
+				anyValue,
+				0n,
+				usdcShare
+			);
+		expect(await usdcToken.balanceOf(other.address)).to.equal(usdcShare);
+		expect(await manager.credits(user.address, Tier.Micro)).to.equal(2n);
+	});
+
+	it("sells subscriptions that stack and renew", async function () {
+		const { manager, r1Token, owner, user } = await loadFixture(
+			deployFixture
+		);
+		const duration = 30n * 24n * 60n * 60n;
+		await expect(
+			manager
+				.connect(owner)
+				.addSubscriptionPlan(Tier.Standard, BIG_PRICE, duration)
+		)
+			.to.emit(manager, "SubscriptionPlanAdded")
+			.withArgs(0n, Tier.Standard, BIG_PRICE, duration);
+		expect(await manager.getSubscriptionPlans()).to.deep.equal([
+			[0n, BigInt(Tier.Standard), BIG_PRICE, duration, true],
+		]);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), ethers.MaxUint256);
+
+		const [usdcAmount, r1Amount] = await manager.quoteSubscription(
+			0n,
+			2n,
+			user.address
+		);
+		expect(usdcAmount).to.equal(BIG_PRICE * 2n);
+		const supplyBefore = await r1Token.totalSupply();
+		const tx = await manager.connect(user).subscribe(0n, 2n, r1Amount);
+		const firstExpiry = BigInt(await time.latest()) + 2n * duration;
+		await expect(tx)
+			.to.emit(manager, "SubscriptionPurchased")
+			.withArgs(
+				user.address,
+				0n,
+				Tier.Standard,
+				2n,
+				firstExpiry,
+				usdcAmount,
+				r1Amount,
+				r1Amount,
+				0n,
+				0n
+			);
+		expect(supplyBefore - (await r1Token.totalSupply())).to.equal(r1Amount);
+		expect(
+			await manager.subscriptionExpiry(user.address, Tier.Standard)
+		).to.equal(firstExpiry);
+		expect(await manager.isSubscribed(user.address, Tier.Standard)).to.be
+			.true;
+		expect(await manager.isSubscribed(user.address, Tier.Big)).to.be.false;
+
+		const [, , stackedExpiry] = await manager.quoteSubscription(
+			0n,
+			1n,
+			user.address
+		);
+		expect(stackedExpiry).to.equal(firstExpiry + duration);
+		await manager.connect(user).subscribe(0n, 1n, ethers.MaxUint256);
+		expect(
+			await manager.subscriptionExpiry(user.address, Tier.Standard)
+		).to.equal(stackedExpiry);
+
+		await time.increaseTo(stackedExpiry);
+		expect(await manager.isSubscribed(user.address, Tier.Standard)).to.be
+			.false;
+
+		await manager.connect(user).subscribe(0n, 1n, ethers.MaxUint256);
+		expect(
+			await manager.subscriptionExpiry(user.address, Tier.Standard)
+		).to.equal(BigInt(await time.latest()) + duration);
+	});
+
+	it("sells subscriptions through every payment method", async function () {
+		const {
+			manager,
+			swapAdapter,
+			r1Token,
+			usdcToken,
+			paymentToken,
+			stablecoin,
+			weth,
+			owner,
+			user,
+			other,
+		} = await loadFixture(deployFixture);
+		const duration = 7n * 24n * 60n * 60n;
+		const managerAddress = await manager.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const token = await paymentToken.getAddress();
+		await manager
+			.connect(owner)
+			.addSubscriptionPlan(Tier.Micro, MICRO_PRICE, duration);
+		await manager.connect(owner).setPaymentToken(token, false);
+		await manager
+			.connect(owner)
+			.setTreasury(other.address, TREASURY_SHARE_BPS, false);
+		const [, r1Amount] = await manager.quoteSubscription(
+			0n,
+			1n,
+			user.address
+		);
+
+		await r1Token.connect(user).approve(managerAddress, r1Amount);
+		await usdcToken.connect(user).approve(managerAddress, MICRO_PRICE);
+		const tokenAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[token, usdc],
+			MICRO_PRICE
+		);
+		await paymentToken.connect(user).approve(managerAddress, tokenAmount);
+		await stablecoin.connect(user).approve(managerAddress, MICRO_PRICE);
+		const ethAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[await weth.getAddress(), usdc],
+			MICRO_PRICE
+		);
+
+		const purchases = [
+			() => manager.connect(user).subscribe(0n, 1n, r1Amount),
+			() => manager.connect(user).subscribeWithUSDC(0n, 1n, r1Amount),
+			() =>
+				manager.connect(user).subscribeWithETH(0n, 1n, r1Amount, {
+					value: ethAmount * 2n,
+				}),
+			() =>
+				manager
+					.connect(user)
+					.subscribeWithToken(0n, 1n, token, tokenAmount, r1Amount),
+			() =>
+				manager
+					.connect(user)
+					.subscribeWithStablecoin(
+						0n,
+						1n,
+						stablecoin.getAddress(),
+						r1Amount
+					),
+		];
+		let expiry = BigInt(await time.latest()) + 1n;
+		for (const purchase of purchases) {
+			const supplyBefore = await r1Token.totalSupply();
+			const treasuryBefore = await r1Token.balanceOf(other.address);
+			const receipt = await (await purchase()).wait();
+			const [event] = await manager.queryFilter(
+				manager.filters.SubscriptionPurchased(),
+				receipt!.blockNumber,
+				receipt!.blockNumber
+			);
+			expiry += duration;
+			expect(event.args.expiresAt).to.equal(expiry);
+			expect(event.args.usdcAmount).to.equal(MICRO_PRICE);
+			expect(event.args.treasuryR1Amount).to.equal(
+				(event.args.r1Amount * TREASURY_SHARE_BPS) / 10_000n
+			);
+			expect(supplyBefore - (await r1Token.totalSupply())).to.equal(
+				event.args.burnedR1Amount
+			);
+			expect(
+				(await r1Token.balanceOf(other.address)) - treasuryBefore
+			).to.equal(event.args.treasuryR1Amount);
+		}
+
+		expect(
+			await manager.subscriptionExpiry(user.address, Tier.Micro)
+		).to.equal(expiry);
+		expect(await ethers.provider.getBalance(managerAddress)).to.equal(0n);
+		expect(await r1Token.balanceOf(managerAddress)).to.equal(0n);
+		expect(await usdcToken.balanceOf(managerAddress)).to.equal(0n);
+		expect(await stablecoin.balanceOf(managerAddress)).to.equal(0n);
+	});
+
+	it("validates subscription plans and purchases", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		const duration = 24n * 60n * 60n;
+
+		await expect(
+			manager
+				.connect(user)
+				.addSubscriptionPlan(Tier.Micro, MICRO_PRICE, duration)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+		await expect(
+			manager
+				.connect(owner)
+				.addSubscriptionPlan(99n, MICRO_PRICE, duration)
+		).to.be.revertedWith("Manager3send: unknown tier");
+		await expect(
+			manager.connect(owner).addSubscriptionPlan(Tier.Micro, 0n, duration)
+		).to.be.revertedWith("Manager3send: plan price is zero");
+		await expect(
+			manager
+				.connect(owner)
+				.addSubscriptionPlan(Tier.Micro, MICRO_PRICE, 0n)
+		).to.be.revertedWith("Manager3send: plan duration is zero");
+
+		await manager
+			.connect(owner)
+			.addSubscriptionPlan(Tier.Micro, MICRO_PRICE, duration);
+		await expect(
+			manager.connect(user).subscribe(1n, 1n, ethers.MaxUint256)
+		).to.be.revertedWith("Manager3send: unknown subscription plan");
+		await expect(
+			manager.connect(user).subscribe(0n, 0n, ethers.MaxUint256)
+		).to.be.revertedWith("Manager3send: periods is zero");
+
+		await expect(manager.connect(owner).disableSubscriptionPlan(0n))
+			.to.emit(manager, "SubscriptionPlanStatusUpdated")
+			.withArgs(0n, false);
+		await expect(
+			manager.connect(owner).disableSubscriptionPlan(0n)
+		).to.be.revertedWith("Manager3send: plan status unchanged");
+		await expect(
+			manager.connect(user).subscribe(0n, 1n, ethers.MaxUint256)
+		).to.be.revertedWith("Manager3send: subscription plan is disabled");
+
+		await manager.connect(owner).enableSubscriptionPlan(0n);
+		await manager.connect(owner).disableTier(Tier.Micro);
+		await expect(
+			manager.connect(user).subscribe(0n, 1n, ethers.MaxUint256)
+		).to.be.revertedWith("Manager3send: tier is disabled");
+	});
+
+	it("prices uploads by size on the curve", async function () {
+		const { manager } = await loadFixture(deployFixture);
+
+		const curve = await manager.getPriceCurve();
+		expect(curve.baseFee).to.equal(PRICE_CURVE.baseFee);
+		expect(curve.maxPrice).to.equal(PRICE_CURVE.maxPrice);
+		expect(
+			curve.breakpoints.map((point) => [point.fromBytes, point.usdcPerMb])
+		).to.deep.equal(
+			PRICE_CURVE.breakpoints.map((point) => [
+				point.fromBytes,
+				point.usdcPerMb,
+			])
+		);
+
+		// The per-MB part rounds up to the next USDC unit.
+		expect(await manager.getPriceForSize(1n)).to.equal(50_001n);
+		expect(await manager.getPriceForSize(10n * MB)).to.equal(250_000n);
+		expect(await manager.getPriceForSize(600n * MB)).to.equal(12_050_000n);
+		expect(await manager.getPriceForSize(2_000n * MB)).to.equal(
+			PRICE_CURVE.maxPrice
+		);
+		await expect(manager.getPriceForSize(0n)).to.be.revertedWith(
+			"Manager3send: size is zero"
+		);
+
+		const [usdcAmount, r1Amount, pendingUsdcAmount, pendingEffectiveAt] =
+			await manager.quotePaymentForSize(10n * MB);
+		expect(usdcAmount).to.equal(250_000n);
+		const sizeR1 = (250_000n * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		expect(r1Amount).to.be.closeTo(sizeR1, poolPriceTolerance(sizeR1));
+		expect(pendingUsdcAmount).to.equal(0n);
+		expect(pendingEffectiveAt).to.equal(0n);
+	});
+
+	it("pays for uploads by size through every payment method", async function () {
+		const {
+			manager,
+			swapAdapter,
+			r1Token,
+			usdcToken,
+			paymentToken,
+			weth,
+			owner,
+			user,
+		} = await loadFixture(deployFixture);
+		const size = 10n * MB;
+		const managerAddress = await manager.getAddress();
+		const usdc = await usdcToken.getAddress();
+		const token = await paymentToken.getAddress();
+		await manager.connect(owner).setPaymentToken(token, false);
+		const [usdcAmount, r1Amount] = await manager.quotePaymentForSize(size);
+
+		await r1Token.connect(user).approve(managerAddress, r1Amount);
+		await usdcToken.connect(user).approve(managerAddress, usdcAmount);
+		const tokenAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[token, usdc],
+			usdcAmount
+		);
+		await paymentToken.connect(user).approve(managerAddress, tokenAmount);
+		const ethAmount = await swapAdapter.quoteExactOutput.staticCall(
+			[await weth.getAddress(), usdc],
+			usdcAmount
+		);
+
+		const payments = [
+			(uploadRef: string) =>
+				manager
+					.connect(user)
+					.transferPaymentForSize(
+						size,
+						uploadRef,
+						ethers.ZeroAddress,
+						r1Amount
+					),
+			(uploadRef: string) =>
+				manager
+					.connect(user)
+					.transferPaymentForSizeWithUSDC(
+						size,
+						uploadRef,
+						ethers.ZeroAddress,
+						r1Amount
+					),
+			(uploadRef: string) =>
+				manager
+					.connect(user)
+					.transferPaymentForSizeWithETH(
+						size,
+						uploadRef,
+						ethers.ZeroAddress,
+						r1Amount,
+						{ value: ethAmount * 2n }
+					),
+			(uploadRef: string) =>
+				manager
+					.connect(user)
+					.payForSizeWithToken(
+						size,
+						uploadRef,
+						ethers.ZeroAddress,
+						token,
+						tokenAmount,
+						r1Amount
+					),
+		];
+		for (const [index, pay] of payments.entries()) {
+			const uploadRef = ethers.id(`sized-upload-${index}`);
+			const supplyBefore = await r1Token.totalSupply();
+			await expect(pay(uploadRef))
+				.to.emit(manager, "PaymentProcessed")
+				.withArgs(
+					user.address,
+					uploadRef,
+					ethers.ZeroAddress,
+					ethers.MaxUint256,
+					usdcAmount,
+					r1Amount,
+					r1Amount,
+					0n,
+					0n,
+					0n
+				);
+			expect(supplyBefore - (await r1Token.totalSupply())).to.equal(
+				r1Amount
+			);
+
+			const receipt = await manager.getReceipt(uploadRef);
+			expect(receipt.tierId).to.equal(ethers.MaxUint256);
+			expect(receipt.usdcAmount).to.equal(usdcAmount);
+			expect(receipt.uploadSize).to.equal(size);
+			await expect(pay(uploadRef)).to.be.revertedWith(
+				"Manager3send: upload already paid"
+			);
+		}
+
+		expect(await ethers.provider.getBalance(managerAddress)).to.equal(0n);
+		expect(await usdcToken.balanceOf(managerAddress)).to.equal(0n);
+	});
+
+	it("announces price curve changes before applying them", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		const newCurve = {
+			baseFee: 30_000n,
+			maxPrice: 0n,
+			breakpoints: [
+				{ fromBytes: 0n, usdcPerMb: 30_000n },
+				{ fromBytes: 10n * MB, usdcPerMb: 10_000n },
+			],
+		};
+
+		await expect(
+			manager
+				.connect(owner)
+				.proposePriceCurve(newCurve, await effectiveIn(0n))
+		).to.be.revertedWith("Manager3send: effective time too early");
+		await expect(
+			manager
+				.connect(user)
+				.proposePriceCurve(
+					newCurve,
+					await effectiveIn(PRICE_CHANGE_DELAY)
+				)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+
+		const effectiveAt = await effectiveIn(PRICE_CHANGE_DELAY);
+		await expect(
+			manager.connect(owner).proposePriceCurve(newCurve, effectiveAt)
+		).to.emit(manager, "PriceCurveChangeProposed");
+		const [pending, pendingAt] = await manager.getPendingPriceCurve();
+		expect(pending.baseFee).to.equal(newCurve.baseFee);
+		expect(pendingAt).to.equal(effectiveAt);
+
+		const [usdcAmount, , pendingUsdcAmount, pendingEffectiveAt] =
+			await manager.quotePaymentForSize(20n * MB);
+		expect(usdcAmount).to.equal(450_000n);
+		expect(pendingUsdcAmount).to.equal(430_000n);
+		expect(pendingEffectiveAt).to.equal(effectiveAt);
+
+		await expect(
+			manager.connect(user).applyPriceCurve()
+		).to.be.revertedWith("Manager3send: price change not effective");
+		await time.increaseTo(effectiveAt);
+		await expect(manager.connect(user).applyPriceCurve()).to.emit(
+			manager,
+			"PriceCurveUpdated"
+		);
+		expect(await manager.getPriceForSize(20n * MB)).to.equal(430_000n);
+		expect(await manager.pendingPriceCurveEffectiveAt()).to.equal(0n);
+		await expect(
+			manager.connect(user).applyPriceCurve()
+		).to.be.revertedWith("Manager3send: no pending price curve");
+
+		await manager
+			.connect(owner)
+			.proposePriceCurve(
+				PRICE_CURVE,
+				await effectiveIn(PRICE_CHANGE_DELAY)
+			);
+		await expect(manager.connect(owner).cancelPriceCurve()).to.emit(
+			manager,
+			"PriceCurveChangeCancelled"
+		);
+		await expect(
+			manager.connect(owner).cancelPriceCurve()
+		).to.be.revertedWith("Manager3send: no pending price curve");
+		expect(await manager.getPriceForSize(20n * MB)).to.equal(430_000n);
+	});
+
+	it("validates price curves", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		const effectiveAt = await effectiveIn(PRICE_CHANGE_DELAY);
+		const propose = (curve: typeof PRICE_CURVE) =>
+			manager.connect(owner).proposePriceCurve(curve, effectiveAt);
+
+		await expect(
+			propose({ ...PRICE_CURVE, baseFee: 0n })
+		).to.be.revertedWith("Manager3send: base fee is zero");
+		await expect(
+			propose({ ...PRICE_CURVE, maxPrice: PRICE_CURVE.baseFee - 1n })
+		).to.be.revertedWith("Manager3send: cap below base fee");
+		await expect(
+			propose({
+				...PRICE_CURVE,
+				breakpoints: [{ fromBytes: MB, usdcPerMb: 1n }],
+			})
+		).to.be.revertedWith("Manager3send: curve must start at zero");
+		await expect(
+			propose({
+				...PRICE_CURVE,
+				breakpoints: [
+					{ fromBytes: 0n, usdcPerMb: 1n },
+					{ fromBytes: MB, usdcPerMb: 2n },
+					{ fromBytes: MB, usdcPerMb: 3n },
+				],
+			})
+		).to.be.revertedWith("Manager3send: breakpoints not ascending");
+
+		// Changes are bounded like tier prices, for small uploads and for the
+		// tiers priced on the curve.
+		await expect(
+			propose({ ...PRICE_CURVE, baseFee: PRICE_CURVE.baseFee * 3n })
+		).to.be.revertedWith("Manager3send: price change too large");
+		await manager.connect(owner).addTier("Sized", 0n, 100n * MB);
+		const steeperCurve = {
+			...PRICE_CURVE,
+			breakpoints: PRICE_CURVE.breakpoints.map((breakpoint) => ({
+				...breakpoint,
+				usdcPerMb: breakpoint.usdcPerMb * 3n,
+			})),
+		};
+		await expect(propose(steeperCurve)).to.be.revertedWith(
+			"Manager3send: price change too large"
+		);
+
+		await propose(NO_PRICE_CURVE);
+		await time.increaseTo(effectiveAt);
+		await manager.applyPriceCurve();
+		await expect(manager.getPriceForSize(MB)).to.be.revertedWith(
+			"Manager3send: no price curve"
+		);
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentForSize(
+					MB,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					ethers.MaxUint256
+				)
+		).to.be.revertedWith("Manager3send: no price curve");
+		await expect(
+			manager.connect(owner).addTier("Sized", 0n, MB)
+		).to.be.revertedWith("Manager3send: tier price is zero");
+	});
+
+	it("caps and restricts the treasury share", async function () {
+		const { manager, owner, user, other } = await loadFixture(
+			deployFixture
+		);
+
+		await expect(
+			manager.connect(owner).setTreasury(other.address, 5_001n, false)
+		).to.be.revertedWith("Manager3send: treasury share too high");
+		await expect(
+			manager.connect(owner).setTreasury(ethers.ZeroAddress, 1n, false)
+		).to.be.revertedWith("Manager3send: treasury is zero");
+		await expect(manager.connect(user).setTreasury(user.address, 1n, false))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, TREASURY_ROLE);
+
+		await manager.connect(owner).setTreasury(other.address, 5_000n, true);
+		expect(await manager.treasury()).to.equal(other.address);
+		expect(await manager.treasuryShareBps()).to.equal(5_000n);
+		expect(await manager.treasuryKeepsUsdc()).to.equal(true);
+
+		await manager.connect(owner).setTreasury(ethers.ZeroAddress, 0n, false);
+		expect(await manager.treasuryShareBps()).to.equal(0n);
+	});
+
+	it("accrues referral rewards from the R1 of each payment", async function () {
+		const { manager, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const shareBps = 1_500n;
+		const treasuryShareBps = 1_000n;
+		const r1Amount = required[Tier.Standard];
+		const rewardAmount = (r1Amount * shareBps) / 10_000n;
+		const treasuryR1Amount = (r1Amount * treasuryShareBps) / 10_000n;
+		const [, , , treasury] = await ethers.getSigners();
+
+		await expect(manager.connect(owner).setReferralShareBps(shareBps))
+			.to.emit(manager, "ReferralShareUpdated")
+			.withArgs(0n, shareBps);
+		await manager
+			.connect(owner)
+			.setTreasury(treasury.address, treasuryShareBps, false);
+		await expect(manager.connect(user).setReferrer(other.address))
+			.to.emit(manager, "ReferrerSet")
+			.withArgs(user.address, other.address);
+		expect(await manager.referrers(user.address)).to.equal(other.address);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), r1Amount);
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					r1Amount
+				)
+		)
+			.to.emit(manager, "ReferralRewardAccrued")
+			.withArgs(other.address, user.address, rewardAmount)
+			.and.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Standard,
+				STANDARD_PRICE,
+				r1Amount,
+				r1Amount - treasuryR1Amount - rewardAmount,
+				treasuryR1Amount,
+				0n,
+				0n
+			);
+		expect(await manager.referralRewards(other.address)).to.equal(
+			rewardAmount
+		);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			rewardAmount
+		);
+
+		await expect(manager.connect(other).claimReferralRewards())
+			.to.emit(manager, "ReferralRewardsClaimed")
+			.withArgs(other.address, rewardAmount);
+		expect(await r1Token.balanceOf(other.address)).to.equal(rewardAmount);
+		expect(await manager.referralRewards(other.address)).to.equal(0n);
+		await expect(
+			manager.connect(other).claimReferralRewards()
+		).to.be.revertedWith("Manager3send: no referral rewards");
+	});
+
+	it("accrues referral rewards on credit purchases and subscriptions", async function () {
+		const { manager, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		await manager.connect(owner).setReferralShareBps(2_000n);
+		await manager.connect(user).setReferrer(other.address);
+		await manager
+			.connect(owner)
+			.addSubscriptionPlan(
+				Tier.Micro,
+				MICRO_PRICE,
+				30n * 24n * 60n * 60n
+			);
+		const r1Amount = required[Tier.Micro];
+		const rewardAmount = (r1Amount * 2_000n) / 10_000n;
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), r1Amount * 2n);
+		await expect(
+			manager.connect(user).purchaseCredits(Tier.Micro, 1n, r1Amount)
+		)
+			.to.emit(manager, "ReferralRewardAccrued")
+			.withArgs(other.address, user.address, rewardAmount);
+		await expect(manager.connect(user).subscribe(0n, 1n, r1Amount))
+			.to.emit(manager, "ReferralRewardAccrued")
+			.withArgs(other.address, user.address, rewardAmount);
+		expect(await manager.referralRewards(other.address)).to.equal(
+			rewardAmount * 2n
+		);
+	});
+
+	it("binds each account to a single referrer", async function () {
+		const { manager, user, other } = await loadFixture(deployFixture);
+
+		await expect(
+			manager.connect(user).setReferrer(ethers.ZeroAddress)
+		).to.be.revertedWith("Manager3send: referrer is zero");
+		await expect(
+			manager.connect(user).setReferrer(user.address)
+		).to.be.revertedWith("Manager3send: self-referral");
+
+		await manager.connect(user).setReferrer(other.address);
+		await expect(
+			manager.connect(user).setReferrer(other.address)
+		).to.be.revertedWith("Manager3send: referrer already set");
+		await expect(
+			manager.connect(other).setReferrer(user.address)
+		).to.be.revertedWith("Manager3send: circular referral");
+	});
+
+	it("allows longer referral cycles, rewarding direct referrers only", async function () {
+		const { manager, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const [, , , third] = await ethers.getSigners();
+		await manager.connect(owner).setReferralShareBps(2_000n);
+
+		await manager.connect(user).setReferrer(other.address);
+		await manager.connect(other).setReferrer(third.address);
+		await manager.connect(third).setReferrer(user.address);
+
+		const r1Amount = required[Tier.Standard];
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), r1Amount);
+		await manager
+			.connect(user)
+			.transferPayment(
+				Tier.Standard,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				r1Amount
+			);
+		expect(await manager.referralRewards(other.address)).to.equal(
+			(r1Amount * 2_000n) / 10_000n
+		);
+		expect(await manager.referralRewards(third.address)).to.equal(0n);
+		expect(await manager.referralRewards(user.address)).to.equal(0n);
+	});
+
+	it("caps and restricts the referral share", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+
+		await expect(
+			manager.connect(owner).setReferralShareBps(2_001n)
+		).to.be.revertedWith("Manager3send: referral share too high");
+		await expect(manager.connect(user).setReferralShareBps(1n))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, TREASURY_ROLE);
+
+		await manager.connect(owner).setReferralShareBps(2_000n);
+		expect(await manager.referralShareBps()).to.equal(2_000n);
+	});
+
+	it("holds payments in escrow until an operator settles them", async function () {
+		const { manager, r1Token, owner, user, required } = await loadFixture(
+			deployFixture
+		);
+		const [, , , treasury] = await ethers.getSigners();
+		const timeout = 24n * 60n * 60n;
+		const r1Amount = required[Tier.Standard];
+		const treasuryR1Amount = (r1Amount * 1_000n) / 10_000n;
+		const managerAddress = await manager.getAddress();
+
+		await expect(manager.connect(owner).setEscrowTimeout(timeout))
+			.to.emit(manager, "EscrowTimeoutUpdated")
+			.withArgs(0n, timeout);
+		await manager
+			.connect(owner)
+			.setTreasury(treasury.address, 1_000n, true);
+		await r1Token.connect(user).approve(managerAddress, r1Amount);
+		const supplyBefore = await r1Token.totalSupply();
+
+		const tx = manager
+			.connect(user)
+			.transferPayment(
+				Tier.Standard,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				r1Amount
+			);
+		const reclaimableAt = BigInt(await time.latest()) + 1n + timeout;
+		await expect(tx)
+			.to.emit(manager, "PaymentEscrowed")
+			.withArgs(UPLOAD_REF, user.address, r1Amount, reclaimableAt)
+			.and.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Standard,
+				STANDARD_PRICE,
+				r1Amount,
+				0n,
+				0n,
+				0n,
+				0n
+			);
+		expect(await r1Token.balanceOf(managerAddress)).to.equal(r1Amount);
+		expect(await r1Token.totalSupply()).to.equal(supplyBefore);
+		expect(await manager.totalEscrowedR1()).to.equal(r1Amount);
+		expect(await manager.getEscrow(UPLOAD_REF)).to.deep.equal([
+			1n,
+			reclaimableAt,
+			ethers.ZeroHash,
+		]);
+		expect((await manager.getReceipt(UPLOAD_REF)).payer).to.equal(
+			user.address
+		);
+
+		await expect(manager.connect(user).settleEscrow(UPLOAD_REF))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, OPERATOR_ROLE);
+		await expect(
+			manager.connect(owner).settleEscrow(ethers.id("unpaid"))
+		).to.be.revertedWith("Manager3send: payment not in escrow");
+
+		await expect(manager.connect(owner).settleEscrow(UPLOAD_REF))
+			.to.emit(manager, "EscrowSettled")
+			.withArgs(
+				UPLOAD_REF,
+				r1Amount - treasuryR1Amount,
+				treasuryR1Amount
+			);
+		expect(await r1Token.balanceOf(treasury.address)).to.equal(
+			treasuryR1Amount
+		);
+		expect(await r1Token.balanceOf(managerAddress)).to.equal(0n);
+		expect(await r1Token.totalSupply()).to.equal(
+			supplyBefore - r1Amount + treasuryR1Amount
+		);
+		expect(await manager.totalEscrowedR1()).to.equal(0n);
+		expect(await manager.totalBurnedR1()).to.equal(
+			r1Amount - treasuryR1Amount
+		);
+		expect((await manager.getEscrow(UPLOAD_REF)).status).to.equal(2n);
+
+		await expect(
+			manager.connect(owner).settleEscrow(UPLOAD_REF)
+		).to.be.revertedWith("Manager3send: payment not in escrow");
+		await expect(
+			manager.connect(owner).refundEscrow(UPLOAD_REF)
+		).to.be.revertedWith("Manager3send: payment not in escrow");
+		await time.increase(timeout);
+		await expect(
+			manager.connect(user).reclaimEscrow(UPLOAD_REF)
+		).to.be.revertedWith("Manager3send: payment not in escrow");
+	});
+
+	it("refunds escrowed payments and lets payers reclaim them after the timeout", async function () {
+		const { manager, r1Token, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const timeout = 60n * 60n;
+		const r1Amount = required[Tier.Micro];
+		const secondRef = ethers.id("upload-2");
+		const pay = (uploadRef: string) =>
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					uploadRef,
+					ethers.ZeroAddress,
+					r1Amount
+				);
+
+		await manager.connect(owner).setEscrowTimeout(timeout);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), r1Amount * 3n);
+		await pay(UPLOAD_REF);
+		await pay(secondRef);
+		const balance = await r1Token.balanceOf(user.address);
+
+		await expect(manager.connect(user).refundEscrow(UPLOAD_REF))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, OPERATOR_ROLE);
+		await expect(manager.connect(owner).refundEscrow(UPLOAD_REF))
+			.to.emit(manager, "EscrowRefunded")
+			.withArgs(UPLOAD_REF, user.address, r1Amount);
+		expect(await r1Token.balanceOf(user.address)).to.equal(
+			balance + r1Amount
+		);
+		expect((await manager.getReceipt(UPLOAD_REF)).payer).to.equal(
+			ethers.ZeroAddress
+		);
+		expect((await manager.getEscrow(UPLOAD_REF)).status).to.equal(0n);
+		// The failed upload can be paid again.
+		await expect(pay(UPLOAD_REF)).to.emit(manager, "PaymentEscrowed");
+
+		await expect(
+			manager.connect(user).reclaimEscrow(secondRef)
+		).to.be.revertedWith("Manager3send: escrow not expired");
+		await time.increase(timeout);
+		await expect(
+			manager.connect(owner).settleEscrow(secondRef)
+		).to.be.revertedWith("Manager3send: escrow expired");
+		await expect(
+			manager.connect(other).reclaimEscrow(secondRef)
+		).to.be.revertedWith("Manager3send: not the payer");
+		await expect(manager.connect(user).reclaimEscrow(secondRef))
+			.to.emit(manager, "EscrowReclaimed")
+			.withArgs(secondRef, user.address, r1Amount);
+		expect((await manager.getReceipt(secondRef)).payer).to.equal(
+			ethers.ZeroAddress
+		);
+
+		expect(await manager.totalEscrowedR1()).to.equal(r1Amount);
+		expect(await manager.totalRefundedR1()).to.equal(r1Amount * 2n);
+		expect(await manager.totalBurnedR1()).to.equal(0n);
+		expect(await r1Token.balanceOf(await manager.getAddress())).to.equal(
+			r1Amount
+		);
+	});
+
+	it("gives voucher uses back when escrowed payments are not settled", async function () {
+		const { manager, r1Token, owner, user } = await loadFixture(
+			deployFixture
+		);
+		const timeout = 60n * 60n;
+		const voucher = {
+			code: ethers.id("ESCROW"),
+			account: ethers.ZeroAddress,
+			discountBps: 1_000n,
+			discountAmount: 0n,
+			maxUses: 2n,
+			expiresAt: BigInt(await time.latest()) + 2n * timeout,
+		};
+		const signature = await signDiscountVoucher(manager, owner, voucher);
+		const secondRef = ethers.id("upload-2");
+		const thirdRef = ethers.id("upload-3");
+		const pay = (uploadRef: string) =>
+			manager
+				.connect(user)
+				.transferPaymentWithVoucher(
+					Tier.Standard,
+					uploadRef,
+					ethers.ZeroAddress,
+					ethers.MaxUint256,
+					voucher,
+					signature
+				);
+
+		await manager.connect(owner).setEscrowTimeout(timeout);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), ethers.MaxUint256);
+		await pay(UPLOAD_REF);
+		await pay(secondRef);
+		expect((await manager.getEscrow(UPLOAD_REF)).voucherCode).to.equal(
+			voucher.code
+		);
+		expect(await manager.discountVoucherUses(voucher.code)).to.equal(2n);
+		await expect(pay(thirdRef)).to.be.revertedWith(
+			"Manager3send: voucher used up"
+		);
+
+		await manager.connect(owner).refundEscrow(UPLOAD_REF);
+		expect(await manager.discountVoucherUses(voucher.code)).to.equal(1n);
+		expect((await manager.getEscrow(UPLOAD_REF)).voucherCode).to.equal(
+			ethers.ZeroHash
+		);
+		// The refunded upload can redeem the use again.
+		await pay(UPLOAD_REF);
+		expect(await manager.discountVoucherUses(voucher.code)).to.equal(2n);
+
+		// Settled payments keep their use.
+		await manager.connect(owner).settleEscrow(UPLOAD_REF);
+		await time.increase(timeout);
+		await manager.connect(user).reclaimEscrow(secondRef);
+		expect(await manager.discountVoucherUses(voucher.code)).to.equal(1n);
+		await expect(pay(thirdRef)).to.emit(manager, "DiscountVoucherRedeemed");
+		expect(await manager.discountVoucherUses(voucher.code)).to.equal(2n);
+	});
+
+	it("escrows every payment method and takes the treasury share on settlement", async function () {
+		const { manager, usdcToken, stablecoin, paymentToken, owner, user } =
+			await loadFixture(deployFixture);
+		const [, , , treasury] = await ethers.getSigners();
+		await manager.connect(owner).setEscrowTimeout(60n * 60n);
+		await manager
+			.connect(owner)
+			.setTreasury(treasury.address, 1_000n, true);
+		const pay = await paymentMethodCalls(manager, user, paymentToken);
+
+		let escrowed = 0n;
+		for (const method of PAYMENT_METHODS) {
+			const uploadRef = ethers.id(`escrow-${method}`);
+			await expect(pay[method](uploadRef))
+				.to.emit(manager, "PaymentEscrowed")
+				.withArgs(uploadRef, user.address, anyValue, anyValue);
+			escrowed += (await manager.getReceipt(uploadRef)).r1Amount;
+		}
+		expect(await manager.totalEscrowedR1()).to.equal(escrowed);
+		expect(await usdcToken.balanceOf(treasury.address)).to.equal(0n);
+		expect(await stablecoin.balanceOf(treasury.address)).to.equal(0n);
+
+		const uploadRef = ethers.id(`escrow-${PaymentMethod.USDC}`);
+		const { r1Amount } = await manager.getReceipt(uploadRef);
+		await expect(manager.connect(owner).settleEscrow(uploadRef))
+			.to.emit(manager, "EscrowSettled")
+			.withArgs(
+				uploadRef,
+				r1Amount - (r1Amount * 1_000n) / 10_000n,
+				(r1Amount * 1_000n) / 10_000n
+			);
+		expect(await manager.totalEscrowedR1()).to.equal(escrowed - r1Amount);
+	});
+
+	it("bounds and restricts the escrow timeout", async function () {
+		const { manager, r1Token, owner, user, required } = await loadFixture(
+			deployFixture
+		);
+		const r1Amount = required[Tier.Micro];
+
+		await expect(
+			manager.connect(owner).setEscrowTimeout(30 * 24 * 60 * 60 + 1)
+		).to.be.revertedWith("Manager3send: escrow timeout too long");
+		await expect(manager.connect(user).setEscrowTimeout(1n))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, DEFAULT_ADMIN_ROLE);
+
+		await manager.connect(owner).setEscrowTimeout(30 * 24 * 60 * 60);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), r1Amount * 3n);
+		await manager
+			.connect(user)
+			.transferPayment(
+				Tier.Micro,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				r1Amount
+			);
+		// Credits are spent later on and burn right away.
+		await expect(
+			manager.connect(user).purchaseCredits(Tier.Micro, 1n, r1Amount)
+		)
+			.to.emit(manager, "CreditsPurchased")
+			.withArgs(
+				user.address,
+				Tier.Micro,
+				1n,
+				MICRO_PRICE,
+				r1Amount,
+				r1Amount,
+				0n,
+				0n
+			);
+
+		// Turning escrow off burns new payments; held ones can still settle.
+		await expect(manager.connect(owner).setEscrowTimeout(0n))
+			.to.emit(manager, "EscrowTimeoutUpdated")
+			.withArgs(30n * 24n * 60n * 60n, 0n);
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					ethers.id("upload-2"),
+					ethers.ZeroAddress,
+					r1Amount
+				)
+		).not.to.emit(manager, "PaymentEscrowed");
+		await manager.connect(owner).settleEscrow(UPLOAD_REF);
+		expect(await manager.totalEscrowedR1()).to.equal(0n);
+		expect(await manager.totalBurnedR1()).to.equal(r1Amount * 3n);
+	});
+
+	it("lets the guardian pause every payment method while views keep working", async function () {
+		const { manager, paymentToken, owner, user, other, required } =
+			await loadFixture(deployFixture);
+		const pay = await paymentMethodCalls(manager, user, paymentToken);
+
+		await manager
+			.connect(user)
+			.purchaseCredits(Tier.Micro, 1n, required[Tier.Micro] * 2n);
+
+		await manager.connect(owner).grantRole(GUARDIAN_ROLE, other.address);
+		await expect(manager.connect(other).pause())
+			.to.emit(manager, "Paused")
+			.withArgs(other.address);
+
+		for (const method of PAYMENT_METHODS) {
+			await expect(pay[method](UPLOAD_REF)).to.be.revertedWithCustomError(
+				manager,
+				"EnforcedPause"
+			);
+		}
+		await expect(
+			manager.connect(user).purchaseCredits(Tier.Micro, 1n, 1n)
+		).to.be.revertedWithCustomError(manager, "EnforcedPause");
+
+		const [, usdcAmount, r1Amount] = await manager.quotePayment(Tier.Micro);
+		expect(usdcAmount).to.equal(MICRO_PRICE);
+		expect(r1Amount).to.equal(required[Tier.Micro]);
+		await expect(
+			manager
+				.connect(user)
+				.consumeCredits(
+					user.address,
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress
+				)
+		).to.emit(manager, "CreditsConsumed");
+
+		await expect(manager.connect(other).unpause())
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(other.address, DEFAULT_ADMIN_ROLE);
+		await manager.connect(owner).unpause();
+
+		for (const method of PAYMENT_METHODS) {
+			await expect(pay[method](ethers.id(`after-${method}`))).to.emit(
+				manager,
+				"PaymentProcessed"
+			);
+		}
+	});
+
+	for (const method of PAYMENT_METHODS) {
+		it(`pauses ${PaymentMethod[method]} payments on their own`, async function () {
+			const { manager, paymentToken, owner, user, other } =
+				await loadFixture(deployFixture);
+			const pay = await paymentMethodCalls(manager, user, paymentToken);
+			await manager
+				.connect(owner)
+				.grantRole(GUARDIAN_ROLE, other.address);
+
+			await expect(
+				manager.connect(other).setPaymentMethodPaused(method, true)
+			)
+				.to.emit(manager, "PaymentMethodPauseUpdated")
+				.withArgs(method, true);
+			expect(await manager.paymentMethodPaused(method)).to.equal(true);
+
+			for (const otherMethod of PAYMENT_METHODS) {
+				const uploadRef = ethers.id(`method-${otherMethod}`);
+				if (otherMethod === method) {
+					await expect(
+						pay[otherMethod](uploadRef)
+					).to.be.revertedWith("Manager3send: payment method paused");
+				} else {
+					await expect(pay[otherMethod](uploadRef)).to.emit(
+						manager,
+						"PaymentProcessed"
+					);
+				}
+			}
+
+			await expect(
+				manager.connect(other).setPaymentMethodPaused(method, false)
+			)
+				.to.be.revertedWithCustomError(
+					manager,
+					"AccessControlUnauthorizedAccount"
+				)
+				.withArgs(other.address, DEFAULT_ADMIN_ROLE);
+			await manager.connect(owner).setPaymentMethodPaused(method, false);
+			await expect(pay[method](UPLOAD_REF)).to.emit(
+				manager,
+				"PaymentProcessed"
+			);
+		});
+	}
+
+	it("restricts pause controls to guardians and admins", async function () {
+		const { manager, owner, user, other } = await loadFixture(
+			deployFixture
+		);
+		await manager.connect(owner).grantRole(GUARDIAN_ROLE, other.address);
+
+		await expect(manager.connect(user).pause())
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, GUARDIAN_ROLE);
+		await expect(
+			manager
+				.connect(user)
+				.setPaymentMethodPaused(PaymentMethod.ETH, true)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, GUARDIAN_ROLE);
+		await expect(
+			manager.connect(user).grantRole(GUARDIAN_ROLE, user.address)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, DEFAULT_ADMIN_ROLE);
+
+		await manager
+			.connect(owner)
+			.setPaymentMethodPaused(PaymentMethod.ETH, true);
+		await expect(
+			manager
+				.connect(other)
+				.setPaymentMethodPaused(PaymentMethod.ETH, true)
+		).to.be.revertedWith("Manager3send: pause status unchanged");
+
+		await manager.connect(owner).revokeRole(GUARDIAN_ROLE, other.address);
+		await expect(
+			manager.connect(other).pause()
+		).to.be.revertedWithCustomError(
+			manager,
+			"AccessControlUnauthorizedAccount"
+		);
+		await expect(manager.connect(owner).pause()).to.emit(manager, "Paused");
+	});
+
+	it("separates pricing, pausing and upgrade permissions", async function () {
+		const { manager, owner, user, other } = await loadFixture(
+			deployFixture
+		);
+		await manager
+			.connect(owner)
+			.grantRole(PRICE_MANAGER_ROLE, user.address);
+		await manager.connect(owner).grantRole(UPGRADER_ROLE, other.address);
+
+		await expect(
+			manager
+				.connect(user)
+				.proposeTierPrice(
+					Tier.Micro,
+					MICRO_PRICE + 1n,
+					await effectiveIn(PRICE_CHANGE_DELAY)
+				)
+		).to.emit(manager, "TierPriceChangeProposed");
+		await expect(manager.connect(user).addTier("Team", 1n, 0n)).to.emit(
+			manager,
+			"TierAdded"
+		);
+		await expect(manager.connect(user).pause())
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, GUARDIAN_ROLE);
+		await expect(manager.connect(other).cancelTierPrice(Tier.Micro))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(other.address, PRICE_MANAGER_ROLE);
+
+		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		const implementation = await upgrades.deployImplementation(
+			ManagerFactory,
+			await deployManagerModules()
+		);
+		await expect(
+			manager
+				.connect(user)
+				.upgradeToAndCall(implementation as string, "0x")
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, UPGRADER_ROLE);
+		await expect(
+			manager
+				.connect(other)
+				.upgradeToAndCall(implementation as string, "0x")
+		).to.emit(manager, "Upgraded");
+	});
+
+	it("announces tier price changes before applying them", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		const newPrice = STANDARD_PRICE + 100_000n;
+		const effectiveAt = await effectiveIn(PRICE_CHANGE_DELAY + 60n);
+
+		await expect(
+			manager
+				.connect(owner)
+				.proposeTierPrice(Tier.Standard, newPrice, effectiveAt)
+		)
+			.to.emit(manager, "TierPriceChangeProposed")
+			.withArgs(Tier.Standard, STANDARD_PRICE, newPrice, effectiveAt);
+
+		const [, usdcAmount, , pendingUsdcAmount, pendingEffectiveAt] =
+			await manager.quotePayment(Tier.Standard);
+		expect(usdcAmount).to.equal(STANDARD_PRICE);
+		expect(pendingUsdcAmount).to.equal(newPrice);
+		expect(pendingEffectiveAt).to.equal(effectiveAt);
+
+		await expect(
+			manager.connect(user).applyTierPrice(Tier.Standard)
+		).to.be.revertedWith("Manager3send: price change not effective");
+
+		await time.increaseTo(effectiveAt);
+		await expect(manager.connect(user).applyTierPrice(Tier.Standard))
+			.to.emit(manager, "TierPriceUpdated")
+			.withArgs(Tier.Standard, STANDARD_PRICE, newPrice);
+
+		expect(await manager.tierPrices(Tier.Standard)).to.equal(newPrice);
+		const [, , , clearedUsdcAmount, clearedEffectiveAt] =
+			await manager.quotePayment(Tier.Standard);
+		expect(clearedUsdcAmount).to.equal(0n);
+		expect(clearedEffectiveAt).to.equal(0n);
+		await expect(
+			manager.connect(user).applyTierPrice(Tier.Standard)
+		).to.be.revertedWith("Manager3send: no pending price");
+	});
+
+	it("cancels pending tier price changes", async function () {
+		const { manager, owner } = await loadFixture(deployFixture);
+		const effectiveAt = await effectiveIn(PRICE_CHANGE_DELAY);
+
+		await manager
+			.connect(owner)
+			.proposeTierPrice(Tier.Big, BIG_PRICE * 2n, effectiveAt);
+		await expect(manager.connect(owner).cancelTierPrice(Tier.Big))
+			.to.emit(manager, "TierPriceChangeCancelled")
+			.withArgs(Tier.Big, BIG_PRICE * 2n);
+
+		await time.increaseTo(effectiveAt);
+		await expect(manager.applyTierPrice(Tier.Big)).to.be.revertedWith(
+			"Manager3send: no pending price"
+		);
+		await expect(
+			manager.connect(owner).cancelTierPrice(Tier.Big)
+		).to.be.revertedWith("Manager3send: no pending price");
+		expect(await manager.tierPrices(Tier.Big)).to.equal(BIG_PRICE);
+	});
+
+	it("bounds the notice and size of tier price changes", async function () {
+		const { manager, owner } = await loadFixture(deployFixture);
+
+		await expect(
+			manager
+				.connect(owner)
+				.proposeTierPrice(
+					Tier.Micro,
+					MICRO_PRICE + 1n,
+					await effectiveIn(PRICE_CHANGE_DELAY - 120n)
+				)
+		).to.be.revertedWith("Manager3send: effective time too early");
+
+		const effectiveAt = await effectiveIn(PRICE_CHANGE_DELAY * 2n);
+		// A misplaced decimal would charge 1000x the intended price.
+		for (const newPrice of [
+			MICRO_PRICE * 1_000n,
+			MICRO_PRICE * 2n + 1n,
+			MICRO_PRICE / 2n - 1n,
+		]) {
+			await expect(
+				manager
+					.connect(owner)
+					.proposeTierPrice(Tier.Micro, newPrice, effectiveAt)
+			).to.be.revertedWith("Manager3send: price change too large");
+		}
+		for (const newPrice of [MICRO_PRICE * 2n, MICRO_PRICE / 2n]) {
+			await expect(
+				manager
+					.connect(owner)
+					.proposeTierPrice(Tier.Micro, newPrice, effectiveAt)
+			).to.emit(manager, "TierPriceChangeProposed");
+		}
+
+		await expect(manager.connect(owner).setMaxPriceChangeRatioBps(50_000))
+			.to.emit(manager, "MaxPriceChangeRatioUpdated")
+			.withArgs(20_000n, 50_000n);
+		await expect(manager.connect(owner).setPriceChangeDelay(0))
+			.to.emit(manager, "PriceChangeDelayUpdated")
+			.withArgs(PRICE_CHANGE_DELAY, 0n);
+		const immediate = await effectiveIn(0n);
+		await manager
+			.connect(owner)
+			.proposeTierPrice(Tier.Micro, MICRO_PRICE * 5n, immediate);
+		await time.increaseTo(immediate);
+		await manager.applyTierPrice(Tier.Micro);
+		expect(await manager.tierPrices(Tier.Micro)).to.equal(MICRO_PRICE * 5n);
+
+		await expect(
+			manager.connect(owner).setMaxPriceChangeRatioBps(10_000)
+		).to.be.revertedWith("Manager3send: ratio too low");
+		await expect(
+			manager.connect(owner).setPriceChangeDelay(31 * 24 * 60 * 60)
+		).to.be.revertedWith("Manager3send: delay too long");
+	});
+
+	it("restricts tier price changes to price managers", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		await manager
+			.connect(owner)
+			.grantRole(PRICE_MANAGER_ROLE, user.address);
+		await manager
+			.connect(owner)
+			.revokeRole(PRICE_MANAGER_ROLE, owner.address);
+
+		await expect(
+			manager
+				.connect(owner)
+				.proposeTierPrice(
+					Tier.Standard,
+					STANDARD_PRICE + 1n,
+					await effectiveIn(PRICE_CHANGE_DELAY)
+				)
+		)
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(owner.address, PRICE_MANAGER_ROLE);
+		await expect(manager.connect(user).setPriceChangeDelay(0))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, DEFAULT_ADMIN_ROLE);
+		await expect(manager.connect(user).setMaxPriceChangeRatioBps(50_000))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, DEFAULT_ADMIN_ROLE);
+	});
+
+	it("rejects zero-value tier updates", async function () {
+		const { manager, owner } = await loadFixture(deployFixture);
+
+		await expect(
+			manager
+				.connect(owner)
+				.proposeTierPrice(
+					Tier.Micro,
+					0n,
+					await effectiveIn(PRICE_CHANGE_DELAY)
+				)
+		).to.be.revertedWith("Manager3send: amount is zero");
+	});
+
+	it("lists the tier catalog", async function () {
+		const { manager } = await loadFixture(deployFixture);
+
+		expect(await manager.tierCount()).to.equal(4n);
+		const tiers = await manager.getTiers();
+		expect(
+			tiers.map((tier) => [
+				tier.id,
+				tier.name,
+				tier.usdcPrice,
+				tier.active,
+				tier.maxUploadSize,
+			])
+		).to.deep.equal(
+			DEFAULT_TIERS.map((tier, id) => [
+				BigInt(id),
+				tier.name,
+				tier.usdcPrice,
+				true,
+				tier.maxUploadSize,
+			])
+		);
+
+		const big = await manager.getTier(Tier.Big);
+		expect(big.name).to.equal("Big");
+		expect(big.usdcPrice).to.equal(BIG_PRICE);
+	});
+
+	it("allows the owner to add tiers that can be paid right away", async function () {
+		const { manager, r1Token, owner, user } = await loadFixture(
+			deployFixture
+		);
+		const teamPrice = 5_000_000n;
+		const maxUploadSize = 10n * 1024n ** 3n;
+
+		await expect(
+			manager.connect(owner).addTier("Team", teamPrice, maxUploadSize)
+		)
+			.to.emit(manager, "TierAdded")
+			.withArgs(4n, "Team", teamPrice, maxUploadSize);
+
+		const team = await manager.getTier(4n);
+		expect(team.name).to.equal("Team");
+		expect(team.active).to.equal(true);
+		expect(team.maxUploadSize).to.equal(maxUploadSize);
+		expect(await manager.tierCount()).to.equal(5n);
+
+		const requiredR1 = await manager.getRequiredR1Amount(4n);
+		await r1Token.connect(owner).mint(user.address, requiredR1);
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), requiredR1);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(4n, UPLOAD_REF, ethers.ZeroAddress, requiredR1)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				4n,
+				teamPrice,
+				requiredR1,
+				requiredR1,
+				0n,
+				0n,
+				0n
+			);
+	});
 
-		expect(
-			await ethers.provider.getBalance(await manager.getAddress())
-		).to.equal(0n);
-		expect(
-			await r1Token.balanceOf(await manager.getAddress())
-		).to.equal(0n);
+	it("validates new tiers", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+
+		await expect(
+			manager.connect(owner).addTier("", 1n, 0n)
+		).to.be.revertedWith("Manager3send: tier name is empty");
+		await expect(
+			manager.connect(owner).addTier("Team", 0n, 0n)
+		).to.be.revertedWith("Manager3send: tier price is zero");
+		await expect(manager.connect(user).addTier("Team", 1n, 0n))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
 	});
 
-	it("reverts when ETH provided is not enough to cover the USDC price", async function () {
-		const { manager, router, user, required } = await loadFixture(
+	it("prices tiers without a fixed price on the curve", async function () {
+		const { manager, usdcToken, owner, user } = await loadFixture(
 			deployFixture
 		);
+		const maxUploadSize = 10n * MB;
+		const curvePrice = 250_000n;
 
-		const tier = Tier.Standard;
-		const usdcAmount = await manager.tierPrices(tier);
-		const expectedR1 = required[tier];
-		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
-		const requiredEth =
-			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
-			ethPrice;
+		await expect(manager.connect(owner).addTier("Sized", 0n, maxUploadSize))
+			.to.emit(manager, "TierAdded")
+			.withArgs(4n, "Sized", 0n, maxUploadSize);
+		expect((await manager.getTier(4n)).usdcPrice).to.equal(curvePrice);
+		expect(await manager.tierPrices(4n)).to.equal(curvePrice);
+		await expect(
+			manager
+				.connect(owner)
+				.proposeTierPrice(
+					4n,
+					curvePrice,
+					await effectiveIn(PRICE_CHANGE_DELAY)
+				)
+		).to.be.revertedWith("Manager3send: tier priced by curve");
 
+		const required = await manager.getRequiredR1Amount(4n);
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), curvePrice);
 		await expect(
-			manager.connect(user).transferPaymentWithETH(tier, expectedR1, {
-				value: requiredEth - 1n,
-			})
-		).to.be.revertedWith("RouterMock: insufficient ETH");
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					4n,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				4n,
+				curvePrice,
+				required,
+				required,
+				0n,
+				0n,
+				0n
+			);
+		expect((await manager.getReceipt(UPLOAD_REF)).uploadSize).to.equal(0n);
 	});
 
-	it("reverts when the minimum R1 output is set above the quote for ETH payments", async function () {
-		const { manager, router, user, required } = await loadFixture(
+	it("disables and re-enables tiers", async function () {
+		const { manager, r1Token, owner, user, required } = await loadFixture(
 			deployFixture
 		);
 
-		const tier = Tier.Standard;
-		const usdcAmount = await manager.tierPrices(tier);
-		const ethPrice = ethers.toBigInt(await router.ETH_PRICE_USDC());
-		const requiredEth =
-			(ethers.toBigInt(usdcAmount) * 10n ** 18n + (ethPrice - 1n)) /
-			ethPrice;
+		await expect(manager.connect(owner).disableTier(Tier.Micro))
+			.to.emit(manager, "TierStatusUpdated")
+			.withArgs(Tier.Micro, false);
+		expect((await manager.getTier(Tier.Micro)).active).to.equal(false);
 
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro]);
 		await expect(
-			manager.connect(user).transferPaymentWithETH(tier, required[tier] + 1n, {
-				value: requiredEth,
-			})
-		).to.be.revertedWith("Manager3send: min output too high");
-	});
-
-	it("reverts when allowance is insufficient", async function () {
-		const { manager, r1Token, user } = await loadFixture(deployFixture);
-
-		const requiredR1 = await manager.getRequiredR1Amount(Tier.Standard);
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.be.revertedWith("Manager3send: tier is disabled");
+		await expect(manager.quotePayment(Tier.Micro)).to.be.revertedWith(
+			"Manager3send: tier is disabled"
+		);
+		await expect(
+			manager.connect(owner).disableTier(Tier.Micro)
+		).to.be.revertedWith("Manager3send: tier status unchanged");
 
+		await expect(manager.connect(owner).enableTier(Tier.Micro))
+			.to.emit(manager, "TierStatusUpdated")
+			.withArgs(Tier.Micro, true);
 		await expect(
-			manager.connect(user).transferPayment(Tier.Standard, requiredR1)
-		).to.be.revertedWithCustomError(r1Token, "ERC20InsufficientAllowance");
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro]
+				)
+		).to.emit(manager, "PaymentProcessed");
+
+		await expect(manager.connect(user).disableTier(Tier.Big))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
 	});
 
-	it("allows the owner to update tier pricing", async function () {
+	it("rejects unknown tiers", async function () {
 		const { manager, owner } = await loadFixture(deployFixture);
-		const newPrice = STANDARD_PRICE + 100_000n;
 
+		await expect(manager.getRequiredR1Amount(4n)).to.be.revertedWith(
+			"Manager3send: unknown tier"
+		);
 		await expect(
-			manager.connect(owner).setTierPrice(Tier.Standard, newPrice)
-		)
-			.to.emit(manager, "TierPriceUpdated")
-			.withArgs(Tier.Standard, STANDARD_PRICE, newPrice);
-
-		expect(await manager.tierPrices(Tier.Standard)).to.equal(newPrice);
+			manager
+				.connect(owner)
+				.proposeTierPrice(4n, 1n, await effectiveIn(PRICE_CHANGE_DELAY))
+		).to.be.revertedWith("Manager3send: unknown tier");
+		await expect(manager.connect(owner).enableTier(4n)).to.be.revertedWith(
+			"Manager3send: unknown tier"
+		);
 	});
 
-	it("blocks non-owners from updating tier pricing", async function () {
-		const { manager, user } = await loadFixture(deployFixture);
+	async function deployFirstRelease() {
+		const fixture = await loadFixture(deployFixture);
+		const { r1Token, usdcToken, pair, router, weth } = fixture;
+
+		const LegacyFactory = await ethers.getContractFactory(
+			"Manager3sendV1Mock"
+		);
+		const legacy = await upgrades.deployProxy(
+			LegacyFactory,
+			[
+				await r1Token.getAddress(),
+				await usdcToken.getAddress(),
+				await pair.getAddress(),
+				await router.getAddress(),
+				await weth.getAddress(),
+				[MICRO_PRICE, STANDARD_PRICE, BIG_PRICE, ARCHIVE_PRICE],
+			],
+			{ initializer: "initialize", kind: "uups" }
+		);
+		return { ...fixture, legacy };
+	}
+
+	const LEGACY_TIER_SIZES = [MB, 10n * MB, 100n * MB, 0n];
+
+	it("migrates a first-release proxy in a single call", async function () {
+		const { legacy, usdcToken, swapAdapter, owner, user } =
+			await deployFirstRelease();
+
+		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		await upgrades.upgradeProxy(await legacy.getAddress(), ManagerFactory, {
+			...(await deployManagerModules()),
+			call: {
+				fn: "initializeV2",
+				args: [
+					await swapAdapter.getAddress(),
+					PRICE_CURVE,
+					LEGACY_TIER_SIZES,
+				],
+			},
+		});
+		const upgraded = connectManager(await legacy.getAddress(), owner);
+
+		for (const role of ROLES) {
+			expect(await upgraded.hasRole(role, owner.address)).to.equal(true);
+		}
+		expect(await upgraded.twapWindow()).to.equal(TWAP_WINDOW);
+		expect(await upgraded.priceChangeDelay()).to.equal(PRICE_CHANGE_DELAY);
+		expect(await upgraded.maxPriceChangeRatioBps()).to.equal(20_000n);
+		expect(await upgraded.swapAdapter()).to.equal(
+			await swapAdapter.getAddress()
+		);
+		expect(
+			(await upgraded.getTiers()).map((tier) => [
+				tier.name,
+				tier.usdcPrice,
+				tier.maxUploadSize,
+				tier.active,
+			])
+		).to.deep.equal([
+			["Micro", 70_000n, MB, true],
+			["Standard", 250_000n, 10n * MB, true],
+			["Big", 2_050_000n, 100n * MB, true],
+			["Archive", ARCHIVE_PRICE, 0n, true],
+		]);
+		expect(await upgraded.getPriceForSize(10n * MB)).to.equal(250_000n);
+		const archiveR1 = (ARCHIVE_PRICE * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		expect(await upgraded.getRequiredR1Amount(Tier.Archive)).to.be.closeTo(
+			archiveR1,
+			poolPriceTolerance(archiveR1)
+		);
 
+		const [, microPrice, required] = await upgraded.quotePayment(
+			Tier.Micro
+		);
+		await usdcToken
+			.connect(user)
+			.approve(await upgraded.getAddress(), microPrice);
 		await expect(
-			manager
+			upgraded
 				.connect(user)
-				.setTierPrice(Tier.Standard, STANDARD_PRICE + 1n)
-		)
-			.to.be.revertedWithCustomError(
-				manager,
-				"OwnableUnauthorizedAccount"
-			)
-			.withArgs(user.address);
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required
+				)
+		).to.emit(upgraded, "PaymentProcessed");
+
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(
+					await swapAdapter.getAddress(),
+					PRICE_CURVE,
+					LEGACY_TIER_SIZES
+				)
+		).to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
 	});
 
-	it("rejects zero-value tier updates", async function () {
-		const { manager, owner } = await loadFixture(deployFixture);
+	it("only lets the previous owner migrate a first-release proxy", async function () {
+		const { legacy, swapAdapter, owner, user } = await deployFirstRelease();
+
+		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		await upgrades.upgradeProxy(
+			await legacy.getAddress(),
+			ManagerFactory,
+			await deployManagerModules()
+		);
+		const upgraded = connectManager(await legacy.getAddress(), owner);
+		const adapter = await swapAdapter.getAddress();
 
 		await expect(
-			manager.connect(owner).setTierPrice(Tier.Micro, 0n)
-		).to.be.revertedWith("Manager3send: amount is zero");
+			upgraded
+				.connect(user)
+				.initializeV2(adapter, PRICE_CURVE, LEGACY_TIER_SIZES)
+		).to.be.revertedWith("Manager3send: caller is not owner");
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(
+					ethers.ZeroAddress,
+					PRICE_CURVE,
+					LEGACY_TIER_SIZES
+				)
+		).to.be.revertedWith("Manager3send: adapter is zero");
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(adapter, NO_PRICE_CURVE, LEGACY_TIER_SIZES)
+		).to.be.revertedWith("Manager3send: no price curve");
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(
+					adapter,
+					{ ...PRICE_CURVE, baseFee: 0n },
+					LEGACY_TIER_SIZES
+				)
+		).to.be.revertedWith("Manager3send: base fee is zero");
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(adapter, PRICE_CURVE, [...LEGACY_TIER_SIZES, 0n])
+		).to.be.revertedWith("Manager3send: unknown tier");
+
+		await expect(
+			upgraded
+				.connect(owner)
+				.initializeV2(adapter, PRICE_CURVE, LEGACY_TIER_SIZES)
+		).to.emit(upgraded, "PriceCurveUpdated");
+		expect(
+			await upgraded.hasRole(DEFAULT_ADMIN_ROLE, owner.address)
+		).to.equal(true);
+		expect(
+			await upgraded.hasRole(DEFAULT_ADMIN_ROLE, user.address)
+		).to.equal(false);
 	});
 
 	it("quotes payment information for a given payload size", async function () {
@@ -436,8 +4231,9 @@ describe("Manager3send", function () {
 	});
 
 	it("quotes payment information when swapping from another token", async function () {
-		const { manager, paymentToken, required } =
-			await loadFixture(deployFixture);
+		const { manager, paymentToken, required } = await loadFixture(
+			deployFixture
+		);
 
 		const tier = Tier.Standard;
 		const usdcAmount = await manager.tierPrices(tier);
@@ -447,7 +4243,7 @@ describe("Manager3send", function () {
 		];
 
 		const [r1Amount, tokenAmount, usdcEquivalent] =
-			await manager.quotePaymentWithToken(
+			await manager.quotePaymentWithToken.staticCall(
 				tier,
 				await paymentToken.getAddress(),
 				path
@@ -471,7 +4267,12 @@ describe("Manager3send", function () {
 		await expect(
 			manager
 				.connect(user)
-				.transferPayment(Tier.Standard, requiredR1 - 1n)
+				.transferPayment(
+					Tier.Standard,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					requiredR1 - 1n
+				)
 		).to.be.revertedWith("Manager3send: slippage limit exceeded");
 	});
 
@@ -486,10 +4287,238 @@ describe("Manager3send", function () {
 			.approve(await manager.getAddress(), requiredR1);
 
 		await expect(
-			manager.connect(user).transferPayment(Tier.Micro, 0n)
+			manager
+				.connect(user)
+				.transferPayment(Tier.Micro, UPLOAD_REF, ethers.ZeroAddress, 0n)
 		).to.be.revertedWith("Manager3send: slippage limit exceeded");
 	});
 
+	it("starts with the default TWAP configuration", async function () {
+		const { manager } = await loadFixture(deployFixture);
+
+		expect(await manager.twapWindow()).to.equal(TWAP_WINDOW);
+		expect(await manager.maxPriceDeviationBps()).to.equal(500n);
+
+		const [spotR1, twapR1, deviationBps] =
+			await manager.getPriceDeviation();
+		const unitR1 = (10n ** 6n * POOL_RESERVE_R1) / POOL_RESERVE_USDC;
+		expect(spotR1).to.be.closeTo(unitR1, poolPriceTolerance(unitR1));
+		expect(twapR1).to.equal(spotR1);
+		expect(deviationBps).to.equal(0n);
+	});
+
+	it("keeps quoting the TWAP when the pool is moved", async function () {
+		const { manager, pair } = await loadFixture(deployFixture);
+
+		const quoteBefore = await manager.getRequiredR1Amount(Tier.Standard);
+		await time.increase(TWAP_WINDOW);
+		await pair.setReserves(POOL_RESERVE_USDC, POOL_RESERVE_R1 * 2n);
+
+		const quoteAfter = await manager.getRequiredR1Amount(Tier.Standard);
+		const spotAfter =
+			(STANDARD_PRICE * POOL_RESERVE_R1 * 2n) / POOL_RESERVE_USDC;
+		expect(quoteAfter).to.be.lessThan((quoteBefore * 101n) / 100n);
+		expect(quoteAfter).to.be.lessThan(spotAfter);
+
+		const [spotR1, twapR1, deviationBps] =
+			await manager.getPriceDeviation();
+		const movedR1 = (10n ** 6n * POOL_RESERVE_R1 * 2n) / POOL_RESERVE_USDC;
+		expect(spotR1).to.be.closeTo(movedR1, poolPriceTolerance(movedR1));
+		expect(deviationBps).to.equal(((spotR1 - twapR1) * 10_000n) / twapR1);
+		expect(deviationBps).to.be.greaterThan(500n);
+	});
+
+	it("reverts payments while spot deviates too far from the TWAP", async function () {
+		const { manager, pair, r1Token, usdcToken, user, required } =
+			await loadFixture(deployFixture);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro] * 2n);
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), MICRO_PRICE);
+
+		await time.increase(TWAP_WINDOW);
+		await pair.setReserves(POOL_RESERVE_USDC / 2n, POOL_RESERVE_R1);
+
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro] * 2n
+				)
+		).to.be.revertedWith("Manager3send: price deviation too high");
+		await expect(
+			manager
+				.connect(user)
+				.transferPaymentWithUSDC(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					required[Tier.Micro] / 2n
+				)
+		).to.be.revertedWith("Manager3send: price deviation too high");
+	});
+
+	it("converges to the new price once a full window has been observed", async function () {
+		const { manager, pair, r1Token, user } = await loadFixture(
+			deployFixture
+		);
+
+		const newReserveR1 = POOL_RESERVE_R1 + POOL_RESERVE_R1 / 10n;
+		await pair.setReserves(POOL_RESERVE_USDC, newReserveR1);
+		await time.increase(TWAP_WINDOW);
+		await manager.updateTwap();
+		await time.increase(TWAP_WINDOW);
+		await manager.updateTwap();
+
+		const expectedR1 = (MICRO_PRICE * newReserveR1) / POOL_RESERVE_USDC;
+		const quotedR1 = await manager.getRequiredR1Amount(Tier.Micro);
+		expect(quotedR1).to.be.closeTo(
+			expectedR1,
+			SWAP_BACKEND === "v3" ? poolPriceTolerance(expectedR1) : 1n
+		);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), quotedR1);
+		await expect(
+			manager
+				.connect(user)
+				.transferPayment(
+					Tier.Micro,
+					UPLOAD_REF,
+					ethers.ZeroAddress,
+					quotedR1
+				)
+		)
+			.to.emit(manager, "PaymentProcessed")
+			.withArgs(
+				user.address,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				Tier.Micro,
+				MICRO_PRICE,
+				quotedR1,
+				quotedR1,
+				0n,
+				0n,
+				0n
+			);
+	});
+
+	it("allows the owner to configure the TWAP oracle", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+
+		await expect(manager.connect(owner).setTwapWindow(3600))
+			.to.emit(manager, "TwapWindowUpdated")
+			.withArgs(TWAP_WINDOW, 3600);
+		expect(await manager.twapWindow()).to.equal(3600n);
+
+		await expect(manager.connect(owner).setMaxPriceDeviationBps(1_000))
+			.to.emit(manager, "MaxPriceDeviationUpdated")
+			.withArgs(500n, 1_000n);
+		expect(await manager.maxPriceDeviationBps()).to.equal(1_000n);
+
+		await expect(
+			manager.connect(owner).setTwapWindow(0)
+		).to.be.revertedWith("Manager3send: TWAP window is zero");
+		await expect(
+			manager.connect(owner).setTwapWindow(24 * 60 * 60 + 1)
+		).to.be.revertedWith("Manager3send: TWAP window too long");
+		await manager.connect(owner).setTwapWindow(24 * 60 * 60);
+		await expect(
+			manager.connect(owner).setMaxPriceDeviationBps(0)
+		).to.be.revertedWith("Manager3send: deviation is zero");
+		await expect(
+			manager.connect(owner).setMaxPriceDeviationBps(10_001)
+		).to.be.revertedWith("Manager3send: deviation too high");
+
+		await expect(manager.connect(user).setTwapWindow(60))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+		await expect(manager.connect(user).setMaxPriceDeviationBps(100))
+			.to.be.revertedWithCustomError(
+				manager,
+				"AccessControlUnauthorizedAccount"
+			)
+			.withArgs(user.address, PRICE_MANAGER_ROLE);
+	});
+
+	it("routes every module function to a single module", async function () {
+		const { manager, owner } = await loadFixture(deployFixture);
+		const router = await ethers.getContractAt(
+			"Manager3sendRouter",
+			await manager.router()
+		);
+		const modules = await router.modules();
+		const selectors = await moduleSelectors();
+		expect(modules.length).to.equal(MANAGER_MODULES.length);
+
+		const routed = new Set<string>();
+		for (const [index, module] of modules.entries()) {
+			expect(await router.selectorsOf(module)).to.deep.equal(
+				selectors[index]
+			);
+			for (const selector of selectors[index]) {
+				expect(await router.moduleOf(selector)).to.equal(module);
+				routed.add(selector);
+			}
+		}
+		// Functions Manager3send implements never reach its fallback.
+		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		ManagerFactory.interface.forEachFunction((fragment) => {
+			expect(routed.has(fragment.selector)).to.equal(false);
+		});
+
+		await expect(
+			owner.sendTransaction({
+				to: await manager.getAddress(),
+				data: ethers.id("missing()").slice(0, 10),
+			})
+		).to.be.revertedWith("Manager3send: unknown function");
+	});
+
+	it("rejects router tables claiming a selector twice", async function () {
+		const { manager } = await loadFixture(deployFixture);
+		const RouterFactory = await ethers.getContractFactory(
+			"Manager3sendRouter"
+		);
+		const router = await ethers.getContractAt(
+			"Manager3sendRouter",
+			await manager.router()
+		);
+		const [extension, purchases] = await router.modules();
+		const pause = ethers.id("pause()").slice(0, 10);
+		const claim = ethers.id("claimReferralRewards()").slice(0, 10);
+
+		await expect(
+			RouterFactory.deploy([extension, purchases], [[pause], [pause]])
+		).to.be.revertedWith("Manager3send: selector collision");
+		await expect(
+			RouterFactory.deploy([extension], [[pause, pause]])
+		).to.be.revertedWith("Manager3send: selector collision");
+		await expect(
+			RouterFactory.deploy([extension, extension], [[pause], [claim]])
+		).to.be.revertedWith("Manager3send: duplicate module");
+		await expect(
+			RouterFactory.deploy([extension, purchases], [[pause]])
+		).to.be.revertedWith("Manager3send: selectors length mismatch");
+		await expect(
+			RouterFactory.deploy([ethers.ZeroAddress], [[pause]])
+		).to.be.revertedWith("Manager3send: module is zero");
+		await expect(
+			RouterFactory.deploy([extension], [[]])
+		).to.be.revertedWith("Manager3send: module has no selectors");
+	});
+
 	it("validates constructor arguments", async function () {
 		const TokenFactory = await ethers.getContractFactory("R1TokenMock");
 		const token = await TokenFactory.deploy();
@@ -503,7 +4532,9 @@ describe("Manager3send", function () {
 		const weth = await WethFactory.deploy();
 		const wethAddress = await weth.getAddress();
 
-		const RouterFactory = await ethers.getContractFactory("UniswapMockRouter");
+		const RouterFactory = await ethers.getContractFactory(
+			"UniswapMockRouter"
+		);
 		const router = await RouterFactory.deploy(
 			pairAddress,
 			wethAddress,
@@ -513,6 +4544,11 @@ describe("Manager3send", function () {
 		const routerAddress = await router.getAddress();
 
 		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		const deployOptions = {
+			initializer: "initialize",
+			kind: "uups" as const,
+			...(await deployManagerModules()),
+		};
 
 		await expect(
 			upgrades.deployProxy(
@@ -523,12 +4559,10 @@ describe("Manager3send", function () {
 					pairAddress,
 					routerAddress,
 					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
 		).to.be.revertedWith("Manager3send: R1 address is zero");
 
@@ -541,12 +4575,10 @@ describe("Manager3send", function () {
 					pairAddress,
 					routerAddress,
 					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
 		).to.be.revertedWith("Manager3send: USDC address is zero");
 
@@ -559,12 +4591,10 @@ describe("Manager3send", function () {
 					ethers.ZeroAddress,
 					routerAddress,
 					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
 		).to.be.revertedWith("Manager3send: pair address is zero");
 
@@ -577,14 +4607,12 @@ describe("Manager3send", function () {
 					pairAddress,
 					ethers.ZeroAddress,
 					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
-		).to.be.revertedWith("Manager3send: router address is zero");
+		).to.be.revertedWith("Manager3send: adapter is zero");
 
 		await expect(
 			upgrades.deployProxy(
@@ -595,12 +4623,10 @@ describe("Manager3send", function () {
 					pairAddress,
 					routerAddress,
 					ethers.ZeroAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
 		).to.be.revertedWith("Manager3send: WETH address is zero");
 
@@ -613,50 +4639,12 @@ describe("Manager3send", function () {
 					pairAddress,
 					routerAddress,
 					wethAddress,
-					0n,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
-				],
-				{ initializer: "initialize", kind: "uups" }
-			)
-		).to.be.revertedWith("Manager3send: micro price is zero");
-
-		await expect(
-			upgrades.deployProxy(
-				ManagerFactory,
-				[
-					tokenAddress,
-					tokenAddress,
-					pairAddress,
-					routerAddress,
-					wethAddress,
-					MICRO_PRICE,
-					0n,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
-				],
-				{ initializer: "initialize", kind: "uups" }
-			)
-		).to.be.revertedWith("Manager3send: standard price is zero");
-
-		await expect(
-			upgrades.deployProxy(
-				ManagerFactory,
-				[
-					tokenAddress,
-					tokenAddress,
-					pairAddress,
-					routerAddress,
-					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					0n,
-					ARCHIVE_PRICE,
+					[],
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
-		).to.be.revertedWith("Manager3send: big price is zero");
+		).to.be.revertedWith("Manager3send: no tiers");
 
 		await expect(
 			upgrades.deployProxy(
@@ -667,14 +4655,12 @@ describe("Manager3send", function () {
 					pairAddress,
 					routerAddress,
 					wethAddress,
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					0n,
+					[{ name: "Micro", usdcPrice: 0n, maxUploadSize: 0n }],
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
-		).to.be.revertedWith("Manager3send: archive price is zero");
+		).to.be.revertedWith("Manager3send: tier price is zero");
 	});
 
 	it("rejects mismatched pairs", async function () {
@@ -706,6 +4692,11 @@ describe("Manager3send", function () {
 		);
 
 		const ManagerFactory = await ethers.getContractFactory("Manager3send");
+		const deployOptions = {
+			initializer: "initialize",
+			kind: "uups" as const,
+			...(await deployManagerModules()),
+		};
 
 		await expect(
 			upgrades.deployProxy(
@@ -716,12 +4707,10 @@ describe("Manager3send", function () {
 					await wrongPair.getAddress(),
 					await router.getAddress(),
 					await weth.getAddress(),
-					MICRO_PRICE,
-					STANDARD_PRICE,
-					BIG_PRICE,
-					ARCHIVE_PRICE,
+					DEFAULT_TIERS,
+					PRICE_CURVE,
 				],
-				{ initializer: "initialize", kind: "uups" }
+				deployOptions
 			)
 		).to.be.revertedWith("Manager3send: pair tokens mismatch");
 	});
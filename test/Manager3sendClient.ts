@@ -0,0 +1,348 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	loadFixture,
+	time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { Manager3sendClient, withSlippage } from "../sdk";
+import {
+	BIG_PRICE,
+	MICRO_PRICE,
+	STANDARD_PRICE,
+	Tier,
+	UPLOAD_REF,
+	deployFixture,
+} from "./fixtures";
+
+async function clientFixture() {
+	const fixture = await deployFixture();
+	const client = Manager3sendClient.connect(
+		await fixture.manager.getAddress(),
+		fixture.user
+	);
+	return { ...fixture, client };
+}
+
+describe("Manager3sendClient", function () {
+	it("quotes every payment method", async function () {
+		const { client, manager, router, r1Token, usdcToken, paymentToken } =
+			await loadFixture(clientFixture);
+
+		const r1Quote = await client.quote(Tier.Standard, "r1");
+		expect(r1Quote.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(r1Quote.r1Amount).to.equal(
+			await manager.getRequiredR1Amount(Tier.Standard)
+		);
+		expect(r1Quote.inputToken).to.equal(await r1Token.getAddress());
+		expect(r1Quote.inputAmount).to.equal(r1Quote.r1Amount);
+		expect(r1Quote.pendingPrice).to.equal(null);
+
+		const usdcQuote = await client.quote(Tier.Standard, "usdc");
+		expect(usdcQuote.inputToken).to.equal(await usdcToken.getAddress());
+		expect(usdcQuote.inputAmount).to.equal(STANDARD_PRICE);
+
+		const ethPrice = await router.ETH_PRICE_USDC();
+		const ethQuote = await client.quote(Tier.Standard, "eth");
+		expect(ethQuote.inputToken).to.equal(null);
+		expect(ethQuote.inputAmount).to.equal(
+			(STANDARD_PRICE * 10n ** 18n + ethPrice - 1n) / ethPrice
+		);
+
+		const token = await paymentToken.getAddress();
+		const tokenQuote = await client.quote(Tier.Standard, {
+			token,
+			path: [token, await usdcToken.getAddress()],
+		});
+		expect(tokenQuote.inputToken).to.equal(token);
+		expect(tokenQuote.inputAmount).to.equal(STANDARD_PRICE * 10n ** 12n);
+	});
+
+	it("quotes partner prices for the connected account", async function () {
+		const { client, manager, owner, user } = await loadFixture(
+			clientFixture
+		);
+		const partnerPrice = STANDARD_PRICE - 50_000n;
+		await manager
+			.connect(owner)
+			.setPartnerPrice(user.address, Tier.Standard, partnerPrice);
+
+		const quote = await client.quote(Tier.Standard, "usdc");
+		expect(quote.usdcAmount).to.equal(partnerPrice);
+		expect(quote.inputAmount).to.equal(partnerPrice);
+		expect(quote.r1Amount).to.equal(
+			(await manager.connect(user).quotePayment(Tier.Standard)).r1Amount
+		);
+
+		const readOnly = Manager3sendClient.connect(
+			await manager.getAddress(),
+			ethers.provider
+		);
+		expect(
+			(await readOnly.quote(Tier.Standard, "usdc")).usdcAmount
+		).to.equal(STANDARD_PRICE);
+	});
+
+	it("reports announced tier price changes", async function () {
+		const { client, manager, owner } = await loadFixture(clientFixture);
+		const effectiveAt = (await time.latest()) + 2 * 24 * 60 * 60;
+
+		await manager
+			.connect(owner)
+			.proposeTierPrice(Tier.Standard, STANDARD_PRICE * 2n, effectiveAt);
+
+		const quote = await client.quote(Tier.Standard, "usdc");
+		expect(quote.inputAmount).to.equal(STANDARD_PRICE);
+		expect(quote.pendingPrice).to.deep.equal({
+			usdcAmount: STANDARD_PRICE * 2n,
+			effectiveAt,
+		});
+	});
+
+	it("lists the tier catalog", async function () {
+		const { client, manager, owner } = await loadFixture(clientFixture);
+
+		await manager.connect(owner).addTier("Team", 5_000_000n, 1024n);
+		await manager.connect(owner).disableTier(Tier.Micro);
+
+		const tiers = await client.listTiers();
+		expect(tiers.map((tier) => tier.name)).to.deep.equal([
+			"Micro",
+			"Standard",
+			"Big",
+			"Archive",
+			"Team",
+		]);
+		expect(tiers[4]).to.deep.equal({
+			id: 4,
+			name: "Team",
+			usdcPrice: 5_000_000n,
+			active: true,
+			maxUploadSize: 1024n,
+		});
+
+		const active = await client.listTiers(true);
+		expect(active.map((tier) => tier.id)).to.deep.equal([1, 2, 3, 4]);
+	});
+
+	it("approves R1 once and pays the tier", async function () {
+		const { client, manager, r1Token, user, other, required } =
+			await loadFixture(clientFixture);
+
+		const result = await client.pay(Tier.Micro, "r1", {
+			uploadRef: ethers.id("upload-1"),
+			recipient: other.address,
+			slippageBps: 100,
+		});
+
+		expect(result.approvalHash).to.not.equal(null);
+		expect(result.payment).to.deep.equal({
+			sender: user.address,
+			uploadRef: ethers.id("upload-1"),
+			recipient: other.address,
+			tier: Tier.Micro,
+			usdcAmount: MICRO_PRICE,
+			r1Amount: required[Tier.Micro],
+			burnedR1Amount: required[Tier.Micro],
+			treasuryR1Amount: 0n,
+			treasuryUsdcAmount: 0n,
+			discountUsdcAmount: 0n,
+		});
+		expect(
+			await r1Token.allowance(user.address, await manager.getAddress())
+		).to.equal(
+			withSlippage(required[Tier.Micro], 100) - required[Tier.Micro]
+		);
+
+		await r1Token
+			.connect(user)
+			.approve(await manager.getAddress(), required[Tier.Micro]);
+		const second = await client.pay(Tier.Micro, "r1", {
+			uploadRef: ethers.id("upload-2"),
+			slippageBps: 0,
+		});
+		expect(second.approvalHash).to.equal(null);
+		expect(second.payment.r1Amount).to.equal(required[Tier.Micro]);
+	});
+
+	it("pays with USDC, ETH and arbitrary tokens", async function () {
+		const { client, manager, usdcToken, paymentToken, user, required } =
+			await loadFixture(clientFixture);
+
+		const usdcPayment = await client.pay(Tier.Standard, "usdc", {
+			uploadRef: ethers.id("upload-usdc"),
+		});
+		expect(usdcPayment.payment.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(usdcPayment.payment.r1Amount).to.equal(required[Tier.Standard]);
+
+		const ethPayment = await client.pay(Tier.Big, "eth", {
+			uploadRef: ethers.id("upload-eth"),
+		});
+		expect(ethPayment.approvalHash).to.equal(null);
+		expect(ethPayment.payment.usdcAmount).to.equal(BIG_PRICE);
+		expect(
+			await ethers.provider.getBalance(await manager.getAddress())
+		).to.equal(0n);
+
+		const token = await paymentToken.getAddress();
+		const balanceBefore = await paymentToken.balanceOf(user.address);
+		const tokenPayment = await client.pay(
+			Tier.Micro,
+			{ token, path: [token, await usdcToken.getAddress()] },
+			{ uploadRef: ethers.id("upload-token") }
+		);
+		expect(tokenPayment.payment.sender).to.equal(user.address);
+		expect(
+			balanceBefore - (await paymentToken.balanceOf(user.address))
+		).to.equal(MICRO_PRICE * 10n ** 12n);
+	});
+
+	it("routes registered tokens without a caller-supplied path", async function () {
+		const { client, manager, paymentToken, owner, user } =
+			await loadFixture(clientFixture);
+		const token = await paymentToken.getAddress();
+		await manager.connect(owner).setPaymentToken(token, true);
+
+		const quote = await client.quote(Tier.Standard, { token });
+		expect(quote.inputAmount).to.equal(STANDARD_PRICE * 10n ** 12n);
+
+		const balanceBefore = await paymentToken.balanceOf(user.address);
+		const { payment } = await client.pay(
+			Tier.Standard,
+			{ token },
+			{ uploadRef: ethers.id("upload-routed"), slippageBps: 0 }
+		);
+		expect(payment.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(
+			balanceBefore - (await paymentToken.balanceOf(user.address))
+		).to.equal(quote.inputAmount);
+	});
+
+	it("pays with accepted stablecoins at face value", async function () {
+		const { client, stablecoin, user } = await loadFixture(clientFixture);
+		const token = await stablecoin.getAddress();
+
+		const quote = await client.quote(Tier.Standard, { stablecoin: token });
+		expect(quote.inputToken).to.equal(token);
+		expect(quote.inputAmount).to.equal(STANDARD_PRICE);
+
+		const balanceBefore = await stablecoin.balanceOf(user.address);
+		const { payment, approvalHash } = await client.pay(
+			Tier.Standard,
+			{ stablecoin: token },
+			{ uploadRef: ethers.id("upload-stablecoin") }
+		);
+		expect(approvalHash).to.not.equal(null);
+		expect(payment.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(
+			balanceBefore - (await stablecoin.balanceOf(user.address))
+		).to.equal(STANDARD_PRICE);
+	});
+
+	it("decodes PaymentProcessed from raw receipts", async function () {
+		const { client, manager, usdcToken, user, required } =
+			await loadFixture(clientFixture);
+
+		await usdcToken
+			.connect(user)
+			.approve(await manager.getAddress(), BIG_PRICE);
+		const tx = await manager
+			.connect(user)
+			.transferPaymentWithUSDC(
+				Tier.Big,
+				UPLOAD_REF,
+				ethers.ZeroAddress,
+				required[Tier.Big]
+			);
+		const receipt = await tx.wait();
+
+		expect(client.decodePayment(receipt!)).to.deep.equal({
+			sender: user.address,
+			uploadRef: UPLOAD_REF,
+			recipient: ethers.ZeroAddress,
+			tier: Tier.Big,
+			usdcAmount: BIG_PRICE,
+			r1Amount: required[Tier.Big],
+			burnedR1Amount: required[Tier.Big],
+			treasuryR1Amount: 0n,
+			treasuryUsdcAmount: 0n,
+			discountUsdcAmount: 0n,
+		});
+
+		const approval = await (
+			await usdcToken
+				.connect(user)
+				.approve(await manager.getAddress(), 1n)
+		).wait();
+		expect(client.decodePayment(approval!)).to.equal(null);
+	});
+
+	it("reads upload receipts", async function () {
+		const { client, user, other, required } = await loadFixture(
+			clientFixture
+		);
+
+		expect(await client.getReceipt(UPLOAD_REF)).to.equal(null);
+
+		const { receipt } = await client.pay(Tier.Standard, "r1", {
+			uploadRef: UPLOAD_REF,
+			recipient: other.address,
+		});
+		const block = await ethers.provider.getBlock(receipt.blockNumber);
+
+		expect(await client.getReceipt(UPLOAD_REF)).to.deep.equal({
+			payer: user.address,
+			recipient: other.address,
+			tier: Tier.Standard,
+			usdcAmount: STANDARD_PRICE,
+			r1Amount: required[Tier.Standard],
+			paidAt: block!.timestamp,
+		});
+	});
+
+	it("reads escrows and reclaims timed out payments", async function () {
+		const { client, manager, owner, r1Token, user } = await loadFixture(
+			clientFixture
+		);
+		await manager.connect(owner).setEscrowTimeout(60 * 60);
+
+		expect(await client.getEscrow(UPLOAD_REF)).to.equal(null);
+		const { payment } = await client.pay(Tier.Micro, "r1", {
+			uploadRef: UPLOAD_REF,
+		});
+		expect(payment.burnedR1Amount).to.equal(0n);
+		const escrow = await client.getEscrow(UPLOAD_REF);
+		expect(escrow).to.deep.equal({
+			settled: false,
+			reclaimableAt: (await time.latest()) + 60 * 60,
+		});
+
+		await time.increaseTo(escrow!.reclaimableAt);
+		const balance = await r1Token.balanceOf(user.address);
+		await client.reclaim(UPLOAD_REF);
+		expect(await r1Token.balanceOf(user.address)).to.equal(
+			balance + payment.r1Amount
+		);
+		expect(await client.getEscrow(UPLOAD_REF)).to.equal(null);
+		expect(await client.getReceipt(UPLOAD_REF)).to.equal(null);
+	});
+
+	it("rejects invalid slippage settings", async function () {
+		const { client } = await loadFixture(clientFixture);
+
+		for (const slippageBps of [-1, 1.5, 10_000]) {
+			let error: unknown;
+			try {
+				await client.pay(Tier.Micro, "r1", {
+					uploadRef: UPLOAD_REF,
+					slippageBps,
+				});
+			} catch (caught) {
+				error = caught;
+			}
+			expect(error).to.be.instanceOf(Error);
+			expect((error as Error).message).to.equal(
+				`Invalid slippageBps ${slippageBps}`
+			);
+		}
+	});
+});
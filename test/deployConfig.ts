@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { CONFIG_DIR, parseDeployConfig } from "../scripts/deployConfig";
+
+function localConfig() {
+	const raw = JSON.parse(
+		fs.readFileSync(path.join(CONFIG_DIR, "local.json"), "utf8")
+	);
+	const address = (label: string) =>
+		ethers.getAddress(ethers.id(label).slice(0, 42));
+	raw.tokens = {
+		r1: address("r1"),
+		usdc: address("usdc"),
+		weth: address("weth"),
+	};
+	raw.r1UsdcPair = address("pair");
+	raw.swap.router = address("router");
+	return raw;
+}
+
+function parseError(raw: unknown) {
+	try {
+		parseDeployConfig(raw, "config/test.json");
+	} catch (error) {
+		return (error as Error).message;
+	}
+	throw new Error("config was accepted");
+}
+
+describe("deployment config", function () {
+	it("reads tiers, the price curve and the swap backend", function () {
+		const raw = localConfig();
+		const config = parseDeployConfig(raw, "config/test.json");
+
+		expect(config.chainId).to.equal(31337);
+		expect(config.r1Token).to.equal(raw.tokens.r1);
+		expect(config.swap).to.deep.equal({
+			backend: "v2",
+			router: raw.swap.router,
+		});
+		expect(config.tiers[1]).to.deep.equal({
+			name: "Standard",
+			usdcPrice: 250_000n,
+			maxUploadSize: 0n,
+		});
+		expect(config.priceCurve).to.deep.equal({
+			baseFee: 50_000n,
+			maxPrice: 15_000_000n,
+			breakpoints: [
+				{ fromBytes: 0n, usdcPerMb: 20_000n },
+				{ fromBytes: 1_000_000_000n, usdcPerMb: 10_000n },
+			],
+		});
+		expect(config.verify).to.equal(false);
+		expect(config.raw).to.equal(raw);
+
+		raw.swap = { adapter: raw.swap.router };
+		delete raw.priceCurve;
+		const reused = parseDeployConfig(raw, "config/test.json");
+		expect(reused.swap).to.deep.equal({ adapter: raw.swap.adapter });
+		expect(reused.priceCurve.breakpoints).to.deep.equal([]);
+	});
+
+	it("names the first invalid field", function () {
+		const missingToken = localConfig();
+		missingToken.tokens.r1 = "";
+		expect(parseError(missingToken)).to.equal(
+			"Invalid deployment config config/test.json: tokens.r1 must be an address"
+		);
+
+		const badPrice = localConfig();
+		badPrice.tiers[2].price = 0.75;
+		expect(parseError(badPrice)).to.equal(
+			'Invalid deployment config config/test.json: tiers[2].price must be a USDC amount string such as "0.25"'
+		);
+
+		const badBackend = localConfig();
+		badBackend.swap.backend = "v4";
+		expect(parseError(badBackend)).to.contain(
+			'swap.backend must be "v2" or "v3"'
+		);
+
+		const badRate = localConfig();
+		badRate.priceCurve.rates[1].fromBytes = -1;
+		expect(parseError(badRate)).to.contain(
+			"priceCurve.rates[1].fromBytes must be a byte size"
+		);
+
+		const noTiers = localConfig();
+		noTiers.tiers = [];
+		expect(parseError(noTiers)).to.contain(
+			"tiers must be a non-empty array"
+		);
+	});
+});
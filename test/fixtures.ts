@@ -0,0 +1,464 @@
+import { ethers, upgrades } from "hardhat";
+import {
+	AddressLike,
+	BaseContract,
+	ContractTransactionResponse,
+	Signer,
+} from "ethers";
+import { MANAGER_MODULES, moduleSelectors } from "../scripts/managerModules";
+import { Manager3sendContract, connectManager } from "../sdk";
+import { R1TokenMock } from "../typechain-types";
+
+export enum Tier {
+	Micro,
+	Standard,
+	Big,
+	Archive,
+}
+
+export enum PaymentMethod {
+	R1,
+	USDC,
+	ETH,
+	Token,
+	Stablecoin,
+}
+
+export const PAYMENT_METHODS = [
+	PaymentMethod.R1,
+	PaymentMethod.USDC,
+	PaymentMethod.ETH,
+	PaymentMethod.Token,
+	PaymentMethod.Stablecoin,
+];
+
+export const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+export const PRICE_MANAGER_ROLE = ethers.id("PRICE_MANAGER_ROLE");
+export const GUARDIAN_ROLE = ethers.id("GUARDIAN_ROLE");
+export const UPGRADER_ROLE = ethers.id("UPGRADER_ROLE");
+export const TREASURY_ROLE = ethers.id("TREASURY_ROLE");
+export const OPERATOR_ROLE = ethers.id("OPERATOR_ROLE");
+export const ROLES = [
+	DEFAULT_ADMIN_ROLE,
+	PRICE_MANAGER_ROLE,
+	GUARDIAN_ROLE,
+	UPGRADER_ROLE,
+	TREASURY_ROLE,
+	OPERATOR_ROLE,
+];
+
+export const MICRO_PRICE = 100_000n; // $0.10 with 6 decimals
+export const STANDARD_PRICE = 250_000n; // $0.25
+export const BIG_PRICE = 750_000n; // $0.75
+export const ARCHIVE_PRICE = 2_000_000n; // $2.00
+
+export const POOL_RESERVE_USDC = 200_000n * 10n ** 6n;
+export const POOL_RESERVE_R1 = 666_666n * 10n ** 18n;
+export const TWAP_WINDOW = 30n * 60n;
+export const PRICE_CHANGE_DELAY = 24n * 60n * 60n;
+
+export const UPLOAD_REF = ethers.id("upload-1");
+
+/** DEX backend the suite runs against: `v2` (default) or `v3`. */
+export const SWAP_BACKEND = (process.env.SWAP_BACKEND || "v2").toLowerCase();
+export const V3_DEFAULT_FEE = 3000;
+
+/**
+ * Margin of amounts computed from the pool reserves: none on the V2 backend,
+ * a basis point on V3, whose pools price at whole ticks.
+ */
+export function poolPriceTolerance(amount: bigint): bigint {
+	return SWAP_BACKEND === "v3" ? amount / 10_000n + 1n : 0n;
+}
+
+export const DEFAULT_TIERS = [
+	{ name: "Micro", usdcPrice: MICRO_PRICE, maxUploadSize: 0n },
+	{ name: "Standard", usdcPrice: STANDARD_PRICE, maxUploadSize: 0n },
+	{ name: "Big", usdcPrice: BIG_PRICE, maxUploadSize: 0n },
+	{ name: "Archive", usdcPrice: ARCHIVE_PRICE, maxUploadSize: 0n },
+];
+
+export const MB = 1_000_000n;
+/** $0.05 per upload plus $0.02 per MB, $0.01 per MB past 1 GB, capped at $15. */
+export const PRICE_CURVE = {
+	baseFee: 50_000n,
+	maxPrice: 15_000_000n,
+	breakpoints: [
+		{ fromBytes: 0n, usdcPerMb: 20_000n },
+		{ fromBytes: 1_000n * MB, usdcPerMb: 10_000n },
+	],
+};
+export const NO_PRICE_CURVE = { baseFee: 0n, maxPrice: 0n, breakpoints: [] };
+
+/**
+ * Deploys the logic contracts a `Manager3send` implementation delegates to
+ * and their router, and returns its constructor arguments.
+ */
+export async function deployManagerModules() {
+	const modules: string[] = [];
+	for (const module of MANAGER_MODULES) {
+		const factory = await ethers.getContractFactory(module);
+		const contract = await factory.deploy();
+		modules.push(await contract.getAddress());
+	}
+	const RouterFactory = await ethers.getContractFactory("Manager3sendRouter");
+	const router = await RouterFactory.deploy(modules, await moduleSelectors());
+	return { constructorArgs: [await router.getAddress()] };
+}
+
+export async function deployFixture() {
+	const [owner, user, other] = await ethers.getSigners();
+
+	const TokenFactory = await ethers.getContractFactory("R1TokenMock");
+	const r1Token = await TokenFactory.deploy();
+	const usdcToken = await TokenFactory.deploy();
+	const paymentToken = await TokenFactory.deploy();
+
+	const r1TokenAddress = await r1Token.getAddress();
+	const usdcTokenAddress = await usdcToken.getAddress();
+
+	const PairFactory = await ethers.getContractFactory("UniswapMockPair");
+	const pair = await PairFactory.deploy(usdcTokenAddress, r1TokenAddress);
+	const pairAddress = await pair.getAddress();
+
+	const WethFactory = await ethers.getContractFactory("WETHMock");
+	const weth = await WethFactory.deploy();
+	const wethAddress = await weth.getAddress();
+
+	const { router, swapAdapter } = await deploySwapBackend(
+		SWAP_BACKEND,
+		pairAddress,
+		wethAddress,
+		usdcTokenAddress,
+		r1TokenAddress
+	);
+	const routerAddress = await router.getAddress();
+
+	const ManagerFactory = await ethers.getContractFactory("Manager3send");
+	const proxy = await upgrades.deployProxy(
+		ManagerFactory,
+		[
+			r1TokenAddress,
+			usdcTokenAddress,
+			pairAddress,
+			await swapAdapter.getAddress(),
+			wethAddress,
+			DEFAULT_TIERS,
+			PRICE_CURVE,
+		],
+		{
+			initializer: "initialize",
+			kind: "uups",
+			...(await deployManagerModules()),
+		}
+	);
+
+	await proxy.waitForDeployment();
+	const manager = connectManager(await proxy.getAddress(), owner);
+
+	const routerLiquidityR1 = 1_000_000n * 10n ** 18n;
+	const routerLiquidityUsdc = 1_000_000n * 10n ** 6n;
+	await r1Token.connect(owner).mint(routerAddress, routerLiquidityR1);
+	await usdcToken.connect(owner).mint(routerAddress, routerLiquidityUsdc);
+
+	const microRequired = await manager.getRequiredR1Amount(Tier.Micro);
+	const standardRequired = await manager.getRequiredR1Amount(Tier.Standard);
+	const bigRequired = await manager.getRequiredR1Amount(Tier.Big);
+	const archiveRequired = await manager.getRequiredR1Amount(Tier.Archive);
+
+	const maxRequired = archiveRequired;
+	await r1Token.connect(owner).mint(user.address, maxRequired * 2n);
+	await usdcToken.connect(owner).mint(user.address, ARCHIVE_PRICE * 10n);
+	await paymentToken.connect(owner).mint(user.address, 10n ** 24n);
+
+	// A 6-decimal stablecoin accepted at face value, swapped through USDC.
+	const StablecoinFactory = await ethers.getContractFactory("StablecoinMock");
+	const stablecoin = await StablecoinFactory.deploy("Tether USD", "USDT", 6);
+	const stablecoinAddress = await stablecoin.getAddress();
+	await manager
+		.connect(owner)
+		.setStablecoin(
+			stablecoinAddress,
+			[stablecoinAddress, usdcTokenAddress, r1TokenAddress],
+			0
+		);
+	await stablecoin.connect(owner).mint(user.address, ARCHIVE_PRICE * 10n);
+
+	return {
+		manager,
+		r1Token,
+		usdcToken,
+		paymentToken,
+		stablecoin,
+		pair,
+		router,
+		swapAdapter,
+		weth,
+		owner,
+		user,
+		other,
+		required: {
+			[Tier.Micro]: microRequired,
+			[Tier.Standard]: standardRequired,
+			[Tier.Big]: bigRequired,
+			[Tier.Archive]: archiveRequired,
+		},
+	};
+}
+
+/**
+ * Deploys a mock router pricing off `pairAddress` and the swap adapter for it.
+ * The V3 router prices R1 at whole ticks of a mock pool following the pair,
+ * within a basis point of the V2 price.
+ */
+export async function deploySwapBackend(
+	backend: string,
+	pairAddress: string,
+	wethAddress: string,
+	usdcAddress: string,
+	r1Address: string
+) {
+	if (backend === "v3") {
+		const RouterFactory = await ethers.getContractFactory(
+			"UniswapV3MockRouter"
+		);
+		const router = await RouterFactory.deploy(
+			pairAddress,
+			wethAddress,
+			usdcAddress,
+			r1Address
+		);
+		const AdapterFactory = await ethers.getContractFactory(
+			"UniswapV3SwapAdapter"
+		);
+		const swapAdapter = await AdapterFactory.deploy(
+			await router.getAddress(),
+			await router.getAddress(),
+			V3_DEFAULT_FEE,
+			[]
+		);
+		return { router, swapAdapter };
+	}
+	if (backend !== "v2") {
+		throw new Error(`Unknown SWAP_BACKEND "${backend}"`);
+	}
+
+	const RouterFactory = await ethers.getContractFactory("UniswapMockRouter");
+	const router = await RouterFactory.deploy(
+		pairAddress,
+		wethAddress,
+		usdcAddress,
+		r1Address
+	);
+	const AdapterFactory = await ethers.getContractFactory(
+		"UniswapV2SwapAdapter"
+	);
+	const swapAdapter = await AdapterFactory.deploy(await router.getAddress());
+	return { router, swapAdapter };
+}
+
+export interface PaymentIntent {
+	payer: string;
+	tierId: bigint | number;
+	uploadRef: string;
+	recipient: string;
+	maxR1Amount: bigint;
+	nonce: bigint;
+	deadline: bigint;
+}
+
+/**
+ * Signs an ERC-2612 permit and returns it in the `PermitSignature` layout
+ * expected by the manager.
+ */
+export async function signPermit(
+	token: R1TokenMock,
+	owner: Signer,
+	spender: AddressLike,
+	value: bigint,
+	deadline: bigint
+) {
+	const ownerAddress = await owner.getAddress();
+	const { chainId } = await ethers.provider.getNetwork();
+	const signature = await owner.signTypedData(
+		{
+			name: await token.name(),
+			version: "1",
+			chainId,
+			verifyingContract: await token.getAddress(),
+		},
+		{
+			Permit: [
+				{ name: "owner", type: "address" },
+				{ name: "spender", type: "address" },
+				{ name: "value", type: "uint256" },
+				{ name: "nonce", type: "uint256" },
+				{ name: "deadline", type: "uint256" },
+			],
+		},
+		{
+			owner: ownerAddress,
+			spender: await ethers.resolveAddress(spender),
+			value,
+			nonce: await token.nonces(ownerAddress),
+			deadline,
+		}
+	);
+	const { v, r, s } = ethers.Signature.from(signature);
+	return { value, deadline, v, r, s };
+}
+
+export const NO_PERMIT = {
+	value: 0n,
+	deadline: 0n,
+	v: 0,
+	r: ethers.ZeroHash,
+	s: ethers.ZeroHash,
+};
+
+export async function signPaymentIntent(
+	manager: BaseContract,
+	payer: Signer,
+	intent: PaymentIntent
+) {
+	const { chainId } = await ethers.provider.getNetwork();
+	return payer.signTypedData(
+		{
+			name: "Manager3send",
+			version: "1",
+			chainId,
+			verifyingContract: await manager.getAddress(),
+		},
+		{
+			PaymentIntent: [
+				{ name: "payer", type: "address" },
+				{ name: "tierId", type: "uint256" },
+				{ name: "uploadRef", type: "bytes32" },
+				{ name: "recipient", type: "address" },
+				{ name: "maxR1Amount", type: "uint256" },
+				{ name: "nonce", type: "uint256" },
+				{ name: "deadline", type: "uint256" },
+			],
+		},
+		intent
+	);
+}
+
+export interface DiscountVoucher {
+	code: string;
+	account: string;
+	discountBps: bigint;
+	discountAmount: bigint;
+	maxUses: bigint;
+	expiresAt: bigint;
+}
+
+/** Placeholder for quotes without a voucher, skipped with an empty signature. */
+export const NO_VOUCHER: DiscountVoucher = {
+	code: ethers.ZeroHash,
+	account: ethers.ZeroAddress,
+	discountBps: 0n,
+	discountAmount: 0n,
+	maxUses: 0n,
+	expiresAt: 0n,
+};
+
+export async function signDiscountVoucher(
+	manager: BaseContract,
+	signer: Signer,
+	voucher: DiscountVoucher
+) {
+	const { chainId } = await ethers.provider.getNetwork();
+	return signer.signTypedData(
+		{
+			name: "Manager3send",
+			version: "1",
+			chainId,
+			verifyingContract: await manager.getAddress(),
+		},
+		{
+			DiscountVoucher: [
+				{ name: "code", type: "bytes32" },
+				{ name: "account", type: "address" },
+				{ name: "discountBps", type: "uint16" },
+				{ name: "discountAmount", type: "uint256" },
+				{ name: "maxUses", type: "uint32" },
+				{ name: "expiresAt", type: "uint64" },
+			],
+		},
+		voucher
+	);
+}
+
+/**
+ * Approves every input token for `payer` and returns one Micro tier payment
+ * call per method, keyed by `PaymentMethod`.
+ */
+export async function paymentMethodCalls(
+	manager: Manager3sendContract,
+	payer: Signer,
+	paymentToken: R1TokenMock
+) {
+	const managerAddress = await manager.getAddress();
+	const usdcAddress = await manager.usdcToken();
+	const tokenAddress = await paymentToken.getAddress();
+	const [stablecoinAddress] = await manager.getStablecoins();
+	for (const address of [
+		await manager.r1Token(),
+		usdcAddress,
+		tokenAddress,
+		stablecoinAddress,
+	]) {
+		const token = await ethers.getContractAt("R1TokenMock", address, payer);
+		await token.approve(managerAddress, ethers.MaxUint256);
+	}
+
+	const [, usdcAmount, r1Amount] = await manager.quotePayment(Tier.Micro);
+	const payerManager = manager.connect(payer);
+	const pay: Record<
+		PaymentMethod,
+		(uploadRef: string) => Promise<ContractTransactionResponse>
+	> = {
+		[PaymentMethod.R1]: (uploadRef) =>
+			payerManager.transferPayment(
+				Tier.Micro,
+				uploadRef,
+				ethers.ZeroAddress,
+				r1Amount
+			),
+		[PaymentMethod.USDC]: (uploadRef) =>
+			payerManager.transferPaymentWithUSDC(
+				Tier.Micro,
+				uploadRef,
+				ethers.ZeroAddress,
+				r1Amount
+			),
+		[PaymentMethod.ETH]: (uploadRef) =>
+			payerManager.transferPaymentWithETH(
+				Tier.Micro,
+				uploadRef,
+				ethers.ZeroAddress,
+				r1Amount,
+				{ value: ethers.parseEther("1") }
+			),
+		[PaymentMethod.Token]: (uploadRef) =>
+			payerManager.transferPaymentWithToken(
+				Tier.Micro,
+				uploadRef,
+				ethers.ZeroAddress,
+				tokenAddress,
+				usdcAmount * 10n ** 12n,
+				r1Amount,
+				[tokenAddress, usdcAddress]
+			),
+		[PaymentMethod.Stablecoin]: (uploadRef) =>
+			payerManager.transferPaymentWithStablecoin(
+				Tier.Micro,
+				uploadRef,
+				ethers.ZeroAddress,
+				stablecoinAddress,
+				r1Amount
+			),
+	};
+	return pay;
+}
@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { Manager3sendClient } from "../sdk";
+import { readDeployConfigFile } from "../scripts/deployConfig";
+import {
+	ACCOUNT_USDC,
+	deployMockEcosystem,
+	fundAccounts,
+	localDeployConfig,
+} from "../scripts/localEnvironment";
+import { deployManager } from "../scripts/managerDeployment";
+import { SWAP_BACKEND, STANDARD_PRICE, Tier } from "./fixtures";
+
+describe("local environment", function () {
+	const log = console.log;
+
+	beforeEach(function () {
+		console.log = () => {};
+	});
+
+	afterEach(function () {
+		console.log = log;
+	});
+
+	it("deploys a payable manager on the mock ecosystem", async function () {
+		const [, user] = await ethers.getSigners();
+		const backend = SWAP_BACKEND as "v2" | "v3";
+		const file = readDeployConfigFile(network.name);
+		const raw = { ...(file.raw as object), swap: { backend } };
+
+		const mocks = await deployMockEcosystem(backend);
+		const record = await deployManager(
+			localDeployConfig(raw, file.source, mocks)
+		);
+		await fundAccounts(mocks, [user.address]);
+
+		expect(record.network).to.equal("hardhat");
+		expect(record.contracts.swapAdapter.contractName).to.equal(
+			SWAP_BACKEND === "v3"
+				? "UniswapV3SwapAdapter"
+				: "UniswapV2SwapAdapter"
+		);
+		expect(
+			(record.config as { tokens: { usdc: string } }).tokens.usdc
+		).to.equal(mocks.usdcToken);
+
+		const usdcToken = await ethers.getContractAt(
+			"StablecoinMock",
+			mocks.usdcToken
+		);
+		expect(await usdcToken.decimals()).to.equal(6n);
+
+		const client = Manager3sendClient.connect(record.proxy, user);
+		const usdcPayment = await client.pay(Tier.Standard, "usdc", {
+			uploadRef: ethers.id("local-usdc"),
+		});
+		expect(usdcPayment.payment.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(await usdcToken.balanceOf(user.address)).to.equal(
+			ACCOUNT_USDC - STANDARD_PRICE
+		);
+
+		const ethPayment = await client.pay(Tier.Standard, "eth", {
+			uploadRef: ethers.id("local-eth"),
+		});
+		expect(ethPayment.payment.r1Amount).to.equal(
+			usdcPayment.payment.r1Amount
+		);
+	});
+});
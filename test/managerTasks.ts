@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+	loadFixture,
+	time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+	MICRO_PRICE,
+	STANDARD_PRICE,
+	Tier,
+	UPLOAD_REF,
+	deployFixture,
+} from "./fixtures";
+
+async function runError(name: string, args: Record<string, unknown>) {
+	try {
+		await hre.run(name, args);
+	} catch (error) {
+		return error as Error;
+	}
+	throw new Error(`${name} did not fail`);
+}
+
+describe("manager tasks", function () {
+	const log = console.log;
+	const proxyEnv = process.env.MANAGER_PROXY_ADDRESS;
+
+	beforeEach(function () {
+		console.log = () => {};
+		delete process.env.MANAGER_PROXY_ADDRESS;
+	});
+
+	afterEach(function () {
+		console.log = log;
+		if (proxyEnv === undefined) {
+			delete process.env.MANAGER_PROXY_ADDRESS;
+		} else {
+			process.env.MANAGER_PROXY_ADDRESS = proxyEnv;
+		}
+	});
+
+	it("quotes tiers and upload sizes", async function () {
+		const { manager, required } = await loadFixture(deployFixture);
+		const proxy = await manager.getAddress();
+
+		const quote = await hre.run("manager:quote", {
+			proxy,
+			tier: Tier.Standard,
+		});
+		expect(quote.usdcAmount).to.equal(STANDARD_PRICE);
+		expect(quote.r1Amount).to.equal(required[Tier.Standard]);
+
+		const [usdcAmount] = await manager.quotePaymentForSize(1_000_000n);
+		const sizeQuote = await hre.run("manager:quote", {
+			proxy,
+			size: "1000000",
+		});
+		expect(sizeQuote.usdcAmount).to.equal(usdcAmount);
+	});
+
+	it("falls back to MANAGER_PROXY_ADDRESS", async function () {
+		const { manager } = await loadFixture(deployFixture);
+
+		expect((await runError("manager:status", {})).message).to.contain(
+			"Pass --proxy, set MANAGER_PROXY_ADDRESS or deploy to hardhat first"
+		);
+
+		process.env.MANAGER_PROXY_ADDRESS = await manager.getAddress();
+		const status = await hre.run("manager:status", {});
+		expect(status.proxy).to.equal(await manager.getAddress());
+		expect(status.implementation).to.equal(
+			await hre.upgrades.erc1967.getImplementationAddress(status.proxy)
+		);
+		expect(status.paused).to.equal(false);
+		expect(status.roles).to.include("ADMIN");
+	});
+
+	it("announces and applies tier prices from USDC strings", async function () {
+		const { manager } = await loadFixture(deployFixture);
+		const proxy = await manager.getAddress();
+
+		await hre.run("manager:set-price", {
+			proxy,
+			tier: Tier.Micro,
+			price: "0.15",
+			dryRun: true,
+		});
+		expect(
+			(await manager.pendingTierPrices(Tier.Micro)).effectiveAt
+		).to.equal(0n);
+
+		await hre.run("manager:set-price", {
+			proxy,
+			tier: Tier.Micro,
+			price: "0.15",
+		});
+		const pending = await manager.pendingTierPrices(Tier.Micro);
+		expect(pending.usdcPrice).to.equal(150_000n);
+
+		await time.increaseTo(pending.effectiveAt);
+		await hre.run("manager:set-price", {
+			proxy,
+			tier: Tier.Micro,
+			apply: true,
+		});
+		expect((await manager.getTier(Tier.Micro)).usdcPrice).to.equal(
+			150_000n
+		);
+
+		expect(
+			(
+				await runError("manager:set-price", {
+					proxy,
+					tier: Tier.Micro,
+					price: "0.1.5",
+				})
+			).message
+		).to.equal('Unable to parse price "0.1.5" as 6-decimal USDC amount');
+	});
+
+	it("pays tiers as a smoke test", async function () {
+		const { manager, usdcToken, owner, required } = await loadFixture(
+			deployFixture
+		);
+		const proxy = await manager.getAddress();
+
+		const dryRun = await hre.run("manager:pay", {
+			proxy,
+			tier: Tier.Micro,
+			uploadRef: UPLOAD_REF,
+			dryRun: true,
+		});
+		expect(dryRun.payment).to.equal(null);
+		expect((await manager.getReceipt(UPLOAD_REF)).payer).to.equal(
+			ethers.ZeroAddress
+		);
+
+		// The tasks pay from the first signer.
+		await usdcToken.connect(owner).mint(owner.address, MICRO_PRICE);
+		const { payment } = await hre.run("manager:pay", {
+			proxy,
+			tier: Tier.Micro,
+			method: "usdc",
+			uploadRef: UPLOAD_REF,
+		});
+		expect(payment.sender).to.equal(owner.address);
+		expect(payment.r1Amount).to.equal(required[Tier.Micro]);
+		expect((await manager.getReceipt(UPLOAD_REF)).payer).to.equal(
+			owner.address
+		);
+	});
+});
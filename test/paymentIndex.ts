@@ -0,0 +1,396 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import {
+	loadFixture,
+	time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { ContractTransactionResponse } from "ethers";
+import { Manager3sendClient } from "../sdk";
+import { PaymentIndex, readPaymentIndex } from "../scripts/paymentIndex";
+import {
+	MB,
+	MICRO_PRICE,
+	PRICE_CURVE,
+	PaymentMethod,
+	Tier,
+	deployFixture,
+	paymentMethodCalls,
+} from "./fixtures";
+
+const NEW_MICRO_PRICE = 150_000n;
+
+/**
+ * Pays the Micro tier once per method, then applies a Micro price change and
+ * pays it again in R1 on a later day.
+ */
+async function paymentsFixture() {
+	const fixture = await deployFixture();
+	const { manager, user, paymentToken } = fixture;
+	const pay = await paymentMethodCalls(manager, user, paymentToken);
+	const client = new Manager3sendClient(manager);
+
+	const transactions: ContractTransactionResponse[] = [];
+	for (const method of [
+		PaymentMethod.R1,
+		PaymentMethod.USDC,
+		PaymentMethod.ETH,
+		PaymentMethod.Token,
+	]) {
+		transactions.push(await pay[method](ethers.id(`index-${method}`)));
+	}
+
+	const effectiveAt =
+		(await time.latest()) + Number(await manager.priceChangeDelay()) + 60;
+	await manager.proposeTierPrice(Tier.Micro, NEW_MICRO_PRICE, effectiveAt);
+	await time.increaseTo(effectiveAt);
+	const priceTx = await manager.applyTierPrice(Tier.Micro);
+
+	const [, , r1Amount] = await manager.quotePayment(Tier.Micro);
+	transactions.push(
+		await manager
+			.connect(user)
+			.transferPayment(
+				Tier.Micro,
+				ethers.id("index-after-price-change"),
+				ethers.ZeroAddress,
+				r1Amount
+			)
+	);
+
+	const payments = [];
+	for (const tx of transactions) {
+		const receipt = (await tx.wait())!;
+		payments.push({ receipt, payment: client.decodePayment(receipt)! });
+	}
+	return { ...fixture, payments, priceTx };
+}
+
+describe("payment index", function () {
+	const log = console.log;
+	let dir: string;
+
+	beforeEach(function () {
+		console.log = () => {};
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "payment-index-"));
+	});
+
+	afterEach(function () {
+		console.log = log;
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("indexes payments and price updates in resumable ranges", async function () {
+		const { manager, user, payments, priceTx } = await loadFixture(
+			paymentsFixture
+		);
+		const proxy = await manager.getAddress();
+		const index = path.join(dir, "index.json");
+
+		// Stops after the USDC payment, as an interrupted run would.
+		const first = await hre.run("manager:index", {
+			proxy,
+			index,
+			fromBlock: 0,
+			toBlock: payments[1].receipt.blockNumber,
+			batchSize: 3,
+		});
+		expect(first.payments).to.equal(2);
+		expect(first.lastBlock).to.equal(payments[1].receipt.blockNumber);
+
+		const second = await hre.run("manager:index", {
+			proxy,
+			index,
+			confirmations: 0,
+		});
+		expect(second.payments).to.equal(3);
+		expect(second.priceUpdates).to.equal(1);
+		expect(second.lastBlock).to.equal(
+			await ethers.provider.getBlockNumber()
+		);
+
+		const stored = readPaymentIndex(index) as PaymentIndex;
+		expect(stored.proxy).to.equal(proxy);
+		expect(stored.tierNames[Tier.Micro.toString()]).to.equal("Micro");
+		expect(stored.payments.map((payment) => payment.method)).to.deep.equal([
+			"r1",
+			"usdc",
+			"eth",
+			"token",
+			"r1",
+		]);
+		expect(stored.payments[1].entryPoint).to.equal(
+			"transferPaymentWithUSDC"
+		);
+		stored.payments.forEach((indexed, position) => {
+			const { receipt, payment } = payments[position];
+			expect(indexed.txHash).to.equal(receipt.hash);
+			expect(indexed.payer).to.equal(user.address);
+			expect(indexed.tier).to.equal(Tier.Micro.toString());
+			expect(indexed.burnedR1Amount).to.equal(
+				payment.burnedR1Amount.toString()
+			);
+		});
+		expect(stored.priceUpdates).to.have.length(1);
+		expect(stored.priceUpdates[0]).to.include({
+			txHash: priceTx.hash,
+			tier: Tier.Micro.toString(),
+			previousPrice: "100000",
+			newPrice: NEW_MICRO_PRICE.toString(),
+		});
+
+		let error: Error | undefined;
+		try {
+			await hre.run("manager:index", {
+				proxy: ethers.Wallet.createRandom().address,
+				index,
+			});
+		} catch (caught) {
+			error = caught as Error;
+		}
+		expect(error?.message).to.contain("pass another --index");
+	});
+
+	it("reports burns per day and tier, payment methods and price history", async function () {
+		const { manager, payments } = await loadFixture(paymentsFixture);
+		const index = path.join(dir, "index.json");
+		await hre.run("manager:index", {
+			proxy: await manager.getAddress(),
+			index,
+			fromBlock: 0,
+			confirmations: 0,
+		});
+
+		const day = async (position: number) =>
+			new Date(
+				(await ethers.provider.getBlock(
+					payments[position].receipt.blockNumber
+				))!.timestamp * 1000
+			)
+				.toISOString()
+				.slice(0, 10);
+		const firstDay = await day(0);
+		const lastDay = await day(4);
+		expect(lastDay > firstDay).to.equal(true);
+
+		const burned = (positions: number[]) =>
+			ethers.formatEther(
+				positions.reduce(
+					(total, position) =>
+						total + payments[position].payment.burnedR1Amount,
+					0n
+				)
+			);
+
+		const csv = await hre.run("manager:report", {
+			index,
+			out: path.join(dir, "csv"),
+		});
+		expect(csv.files).to.have.length(4);
+		expect(csv.summary).to.include({
+			payments: 5,
+			payers: 1,
+			burnedR1: burned([0, 1, 2, 3, 4]),
+		});
+		expect(csv.burns).to.have.length(2);
+		expect(csv.burns[0]).to.include({
+			day: firstDay,
+			tier: Tier.Micro.toString(),
+			tierName: "Micro",
+			payments: 4,
+			usdc: "0.4",
+			burnedR1: burned([0, 1, 2, 3]),
+		});
+		expect(csv.burns[1]).to.include({ day: lastDay, usdc: "0.15" });
+		expect(
+			csv.paymentMethods.map(
+				(row: Record<string, unknown>) => `${row.day} ${row.method}`
+			)
+		).to.deep.equal([
+			`${firstDay} eth`,
+			`${firstDay} r1`,
+			`${firstDay} token`,
+			`${firstDay} usdc`,
+			`${lastDay} r1`,
+		]);
+
+		const burnsCsv = fs
+			.readFileSync(path.join(dir, "csv", "burns.csv"), "utf8")
+			.trim()
+			.split("\n");
+		expect(burnsCsv[0]).to.equal(
+			"day,tier,tierName,payments,purchases,payers,usdc,r1,burnedR1,treasuryR1,discountUsdc"
+		);
+		expect(burnsCsv).to.have.length(3);
+		expect(
+			fs.readFileSync(path.join(dir, "csv", "price-history.csv"), "utf8")
+		).to.contain(`${Tier.Micro},Micro,0.1,0.15,`);
+
+		await hre.run("manager:report", {
+			index,
+			format: "json",
+			out: path.join(dir, "json"),
+			since: lastDay,
+		});
+		const report = JSON.parse(
+			fs.readFileSync(path.join(dir, "json", "report.json"), "utf8")
+		);
+		expect(report.summary).to.include({ since: lastDay, payments: 1 });
+		expect(report.burns).to.have.length(1);
+		expect(report.priceHistory).to.have.length(1);
+	});
+
+	it("follows escrowed payments until they are settled or refunded", async function () {
+		const { manager, owner, user, paymentToken } = await loadFixture(
+			deployFixture
+		);
+		await manager.connect(owner).setEscrowTimeout(60 * 60);
+		const pay = await paymentMethodCalls(manager, user, paymentToken);
+		const settled = ethers.id("escrow-settled");
+		const refunded = ethers.id("escrow-refunded");
+		await pay[PaymentMethod.R1](settled);
+		await pay[PaymentMethod.R1](refunded);
+		const settleReceipt = (await (
+			await manager.connect(owner).settleEscrow(settled)
+		).wait())!;
+		await manager.connect(owner).refundEscrow(refunded);
+		const [settlement] = await manager.queryFilter(
+			manager.filters.EscrowSettled(),
+			settleReceipt.blockNumber,
+			settleReceipt.blockNumber
+		);
+
+		const index = path.join(dir, "index.json");
+		await hre.run("manager:index", {
+			proxy: await manager.getAddress(),
+			index,
+			fromBlock: 0,
+			confirmations: 0,
+		});
+		const stored = readPaymentIndex(index) as PaymentIndex;
+		expect(stored.payments).to.have.length(2);
+		expect(stored.payments[0]).to.include({
+			uploadRef: settled,
+			escrow: "settled",
+			burnedR1Amount: settlement.args.burnedR1Amount.toString(),
+		});
+		expect(stored.payments[1]).to.include({
+			uploadRef: refunded,
+			escrow: "refunded",
+			burnedR1Amount: "0",
+		});
+
+		const { summary } = await hre.run("manager:report", {
+			index,
+			out: path.join(dir, "csv"),
+		});
+		expect(summary).to.include({
+			payments: 1,
+			burnedR1: ethers.formatEther(settlement.args.burnedR1Amount),
+		});
+	});
+
+	it("indexes credit and subscription purchases and curve repricings", async function () {
+		const { manager, owner, user, usdcToken, required } = await loadFixture(
+			deployFixture
+		);
+		const managerAddress = await manager.getAddress();
+		const sizedTier = await manager.tierCount();
+		await manager.connect(owner).addTier("Sized", 0n, 10n * MB);
+		await manager
+			.connect(owner)
+			.addSubscriptionPlan(Tier.Micro, MICRO_PRICE, 30 * 24 * 60 * 60);
+
+		await usdcToken.connect(user).approve(managerAddress, 2n * MICRO_PRICE);
+		const creditsTx = await manager
+			.connect(user)
+			.purchaseCreditsWithUSDC(Tier.Micro, 1n, required[Tier.Micro]);
+		const subscriptionTx = await manager
+			.connect(user)
+			.subscribeWithUSDC(0n, 1n, required[Tier.Micro]);
+		const [credits] = await manager.queryFilter(
+			manager.filters.CreditsPurchased()
+		);
+		const [subscription] = await manager.queryFilter(
+			manager.filters.SubscriptionPurchased()
+		);
+
+		const previousPrice = await manager.tierPrices(sizedTier);
+		const effectiveAt =
+			(await time.latest()) +
+			Number(await manager.priceChangeDelay()) +
+			60;
+		await manager.connect(owner).proposePriceCurve(
+			{
+				...PRICE_CURVE,
+				baseFee: 60_000n,
+				breakpoints: [{ fromBytes: 0n, usdcPerMb: 25_000n }],
+			},
+			effectiveAt
+		);
+		await time.increaseTo(effectiveAt);
+		const curveTx = await manager.applyPriceCurve();
+		const newPrice = await manager.tierPrices(sizedTier);
+		expect(newPrice).to.not.equal(previousPrice);
+
+		const index = path.join(dir, "index.json");
+		const found = await hre.run("manager:index", {
+			proxy: managerAddress,
+			index,
+			fromBlock: 0,
+			confirmations: 0,
+		});
+		expect(found).to.include({
+			payments: 0,
+			purchases: 2,
+			priceUpdates: 1,
+		});
+
+		const stored = readPaymentIndex(index) as PaymentIndex;
+		expect(stored.purchases[0]).to.include({
+			txHash: creditsTx.hash,
+			kind: "credits",
+			payer: user.address,
+			tier: Tier.Micro.toString(),
+			planId: null,
+			quantity: "1",
+			method: "usdc",
+			entryPoint: "purchaseCreditsWithUSDC",
+			burnedR1Amount: credits.args.burnedR1Amount.toString(),
+		});
+		expect(stored.purchases[1]).to.include({
+			txHash: subscriptionTx.hash,
+			kind: "subscription",
+			tier: Tier.Micro.toString(),
+			planId: "0",
+			method: "usdc",
+			entryPoint: "subscribeWithUSDC",
+			burnedR1Amount: subscription.args.burnedR1Amount.toString(),
+		});
+		expect(stored.priceUpdates).to.have.length(1);
+		expect(stored.priceUpdates[0]).to.include({
+			txHash: curveTx.hash,
+			tier: sizedTier.toString(),
+			previousPrice: previousPrice.toString(),
+			newPrice: newPrice.toString(),
+		});
+
+		const { burns, paymentMethods } = await hre.run("manager:report", {
+			index,
+			out: path.join(dir, "csv"),
+		});
+		expect(burns).to.have.length(1);
+		expect(burns[0]).to.include({
+			tier: Tier.Micro.toString(),
+			payments: 0,
+			purchases: 2,
+			usdc: "0.2",
+			burnedR1: ethers.formatEther(
+				credits.args.burnedR1Amount + subscription.args.burnedR1Amount
+			),
+		});
+		expect(paymentMethods[0]).to.include({ method: "usdc", purchases: 2 });
+	});
+});
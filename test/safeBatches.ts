@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import {
+	loadFixture,
+	setBalance,
+	setCode,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ROLES, encodeManagerCall } from "../scripts/managerCalls";
+import { proposeManagerUpgrade } from "../scripts/managerUpgrade";
+import {
+	SafeBatch,
+	addSafeTransaction,
+	createSafeBatch,
+	readSafeBatch,
+	safeBatchChecksum,
+} from "../scripts/safeBatch";
+import { checkSafeBatch } from "../scripts/safeBatchCheck";
+import {
+	DEFAULT_ADMIN_ROLE,
+	PRICE_MANAGER_ROLE,
+	Tier,
+	UPGRADER_ROLE,
+	deployFixture,
+} from "./fixtures";
+
+/** A fixture whose price manager and upgrader roles are held by a Safe. */
+async function safeFixture() {
+	const fixture = await deployFixture();
+	const safe = ethers.Wallet.createRandom().address;
+	// Stand-in for the Safe proxy: batches are only checked from contracts.
+	await setCode(safe, "0x00");
+	await fixture.manager.grantRole(PRICE_MANAGER_ROLE, safe);
+	await fixture.manager.grantRole(UPGRADER_ROLE, safe);
+	await fixture.manager.grantRole(DEFAULT_ADMIN_ROLE, safe);
+	return { ...fixture, safe };
+}
+
+async function execute(batch: SafeBatch) {
+	const safe = batch.meta.createdFromSafeAddress;
+	await setBalance(safe, ethers.parseEther("1"));
+	const signer = await ethers.getImpersonatedSigner(safe);
+	for (const transaction of batch.transactions) {
+		await (
+			await signer.sendTransaction({
+				to: transaction.to,
+				data: transaction.data,
+			})
+		).wait();
+	}
+}
+
+function problemsOf(check: Awaited<ReturnType<typeof checkSafeBatch>>) {
+	return [
+		...check.problems,
+		...check.transactions.flatMap((transaction) => transaction.problems),
+	];
+}
+
+describe("Safe batches", function () {
+	const log = console.log;
+	let directory: string;
+
+	beforeEach(function () {
+		console.log = () => {};
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "safe-batches-"));
+	});
+
+	afterEach(function () {
+		console.log = log;
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("proposes tier prices to a Safe and checks the batch", async function () {
+		const { manager, safe } = await loadFixture(safeFixture);
+		const proxy = await manager.getAddress();
+		const file = path.join(directory, "prices.json");
+
+		await hre.run("manager:set-price", {
+			proxy,
+			tier: Tier.Standard,
+			price: "0.30",
+			safe,
+			batch: file,
+		});
+		await hre.run("manager:set-price", {
+			proxy,
+			tier: Tier.Micro,
+			price: "0.12",
+			safe,
+			batch: file,
+		});
+		expect(
+			(await manager.pendingTierPrices(Tier.Standard)).effectiveAt
+		).to.equal(0n);
+
+		const batch = readSafeBatch(file);
+		expect(batch).to.deep.include({ version: "1.0", chainId: "31337" });
+		expect(batch.meta.createdFromSafeAddress).to.equal(safe);
+		expect(batch.meta.checksum).to.equal(safeBatchChecksum(batch));
+		expect(batch.transactions).to.have.length(2);
+		expect(batch.transactions[0]).to.deep.include({
+			to: proxy,
+			value: "0",
+		});
+		const lines = batch.meta.description.split("\n");
+		expect(lines[0]).to.match(
+			/^1\. Announce tier #1 \(Standard\) price 0\.25 USDC -> 0\.3 USDC, effective \d{4}-/
+		);
+		expect(lines[1]).to.match(
+			/^2\. Announce tier #0 \(Micro\) price 0\.1 USDC -> 0\.12 USDC/
+		);
+
+		const check = await hre.run("manager:check-batch", {
+			proxy,
+			batch: file,
+		});
+		expect(problemsOf(check)).to.deep.equal([]);
+		expect(check.transactions[0].notes[0]).to.match(/^Execute by /);
+
+		await execute(batch);
+		expect(
+			(await manager.pendingTierPrices(Tier.Standard)).usdcPrice
+		).to.equal(300_000n);
+		expect(
+			(await manager.pendingTierPrices(Tier.Micro)).usdcPrice
+		).to.equal(120_000n);
+	});
+
+	it("flags batches that do not match the chain", async function () {
+		const { manager, safe, user, r1Token } = await loadFixture(safeFixture);
+		const proxy = await manager.getAddress();
+		const effectiveAt = 4_000_000_000n;
+		const propose = (price: bigint) =>
+			encodeManagerCall(manager, {
+				method: "proposeTierPrice",
+				args: [Tier.Standard, price, effectiveAt],
+			});
+
+		const batch = createSafeBatch(31337, safe, "Prices");
+		addSafeTransaction(
+			batch,
+			{ to: proxy, data: propose(300_000n) },
+			"Announce tier #1 (Standard) price 0.25 USDC -> 0.3 USDC, effective 2096-10-02T07:06:40.000Z"
+		);
+		batch.meta.checksum = safeBatchChecksum(batch);
+		expect(
+			problemsOf(await checkSafeBatch(batch, { proxy }))
+		).to.deep.equal([]);
+
+		// Calldata swapped after the summary was written.
+		batch.transactions[0].data = propose(400_000n);
+		const tampered = problemsOf(await checkSafeBatch(batch, { proxy }));
+		expect(tampered[0]).to.equal(
+			"Checksum does not match the batch; it was edited after export"
+		);
+		expect(tampered[1]).to.contain(
+			'but the calldata now reads "Announce tier #1 (Standard) price 0.25 USDC -> 0.4 USDC'
+		);
+
+		const unauthorized = createSafeBatch(31337, user.address, "Prices");
+		addSafeTransaction(
+			unauthorized,
+			{ to: proxy, data: propose(300_000n) },
+			"Announce tier #1 (Standard) price 0.25 USDC -> 0.3 USDC, effective 2096-10-02T07:06:40.000Z"
+		);
+		addSafeTransaction(
+			unauthorized,
+			{ to: await r1Token.getAddress(), data: propose(300_000n) },
+			"Announce a price elsewhere"
+		);
+		expect(
+			problemsOf(await checkSafeBatch(unauthorized, { proxy }))
+		).to.deep.equal([
+			`${user.address} has no code; batches must be executed by a Safe`,
+			`Reverts when sent from the Safe: AccessControlUnauthorizedAccount(${user.address}, ${PRICE_MANAGER_ROLE})`,
+			`Calls ${await r1Token.getAddress()}, not the Manager3send proxy ${proxy}`,
+		]);
+	});
+
+	it("proposes upgrades and role transfers", async function () {
+		const { manager, owner, user, other, safe, r1Token } =
+			await loadFixture(safeFixture);
+		const proxy = await manager.getAddress();
+		const current = await upgrades.erc1967.getImplementationAddress(proxy);
+
+		const proposal = await proposeManagerUpgrade({
+			proxy,
+			deployer: owner,
+		});
+		const batch = createSafeBatch(31337, safe, "Upgrade");
+		const upgradeData = encodeManagerCall(manager, proposal.call);
+		addSafeTransaction(
+			batch,
+			{ to: proxy, data: upgradeData },
+			`Upgrade the proxy to implementation ${proposal.implementation.address}`
+		);
+		expect(
+			problemsOf(
+				await checkSafeBatch(batch, {
+					proxy,
+					expectedImplementation: proposal.implementation.address,
+				})
+			)
+		).to.deep.equal([]);
+		expect(
+			problemsOf(
+				await checkSafeBatch(batch, {
+					proxy,
+					expectedImplementation: current,
+				})
+			)
+		).to.deep.equal([
+			`Upgrades to ${proposal.implementation.address}, but the recorded proposal is ${current}`,
+		]);
+
+		const foreign = createSafeBatch(31337, safe, "Upgrade");
+		const token = await r1Token.getAddress();
+		addSafeTransaction(
+			foreign,
+			{
+				to: proxy,
+				data: encodeManagerCall(manager, {
+					method: "upgradeToAndCall",
+					args: [token, "0x"],
+				}),
+			},
+			`Upgrade the proxy to implementation ${token}`
+		);
+		expect(problemsOf(await checkSafeBatch(foreign, { proxy }))).to.include(
+			`Manager3send ${token} does not match the local build`
+		);
+
+		await execute(batch);
+		expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(
+			proposal.implementation.address
+		);
+
+		// Hand the Safe's roles to a new owner, admin role last.
+		const file = path.join(directory, "roles.json");
+		const { batch: transfer } = await hre.run("manager:transfer-roles", {
+			proxy,
+			to: user.address,
+			roles: "upgrader,admin",
+			safe,
+			batch: file,
+		});
+		expect(transfer.meta.description.split("\n")).to.deep.equal([
+			`1. Grant the UPGRADER role to ${user.address}`,
+			`2. Grant the ADMIN role to ${user.address}`,
+			`3. Renounce the UPGRADER role of ${safe}`,
+			`4. Renounce the ADMIN role of ${safe}`,
+		]);
+		expect(
+			problemsOf(await checkSafeBatch(transfer, { proxy }))
+		).to.deep.equal([]);
+
+		const abandon = createSafeBatch(31337, safe, "Roles");
+		addSafeTransaction(
+			abandon,
+			{
+				to: proxy,
+				data: encodeManagerCall(manager, {
+					method: "renounceRole",
+					args: [ROLES.ADMIN, safe],
+				}),
+			},
+			`Renounce the ADMIN role of ${safe}`
+		);
+		expect(
+			problemsOf(await checkSafeBatch(abandon, { proxy }))
+		).to.deep.equal([
+			"Removes the Safe's admin role without granting it to another account first",
+		]);
+
+		// Without a Safe the signer transfers its own roles directly.
+		await hre.run("manager:transfer-roles", { proxy, to: other.address });
+		for (const role of Object.values(ROLES)) {
+			expect(await manager.hasRole(role, other.address)).to.equal(true);
+			expect(await manager.hasRole(role, owner.address)).to.equal(false);
+		}
+	});
+});
@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { reset } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+// Uniswap V3 deployment and tokens on Base.
+const SWAP_ROUTER_02 = "0x2626664c2603336E57B271c5C0b26F421741e481";
+const QUOTER_V2 = "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC_WETH_FEE = 500;
+
+describe("UniswapV3SwapAdapter on a Base fork", function () {
+	const forkUrl = process.env.BASE_FORK_RPC_URL;
+
+	before(async function () {
+		if (!forkUrl) {
+			this.skip();
+		}
+		await reset(forkUrl);
+	});
+
+	after(async function () {
+		if (forkUrl) {
+			await reset();
+		}
+	});
+
+	it("quotes through QuoterV2", async function () {
+		const Adapter = await ethers.getContractFactory("UniswapV3SwapAdapter");
+		const adapter = await Adapter.deploy(
+			SWAP_ROUTER_02,
+			QUOTER_V2,
+			USDC_WETH_FEE,
+			[]
+		);
+
+		expect(await adapter.pool(USDC, WETH)).to.not.equal(ethers.ZeroAddress);
+
+		const usdcAmount = 100n * 10n ** 6n;
+		const ethAmount = await adapter.quoteExactOutput.staticCall(
+			[WETH, USDC],
+			usdcAmount
+		);
+		expect(ethAmount).to.be.greaterThan(0n);
+		// Selling the ETH again returns about the same USDC, less pool fees.
+		expect(
+			await adapter.quoteExactInput.staticCall([WETH, USDC], ethAmount)
+		).to.be.closeTo(usdcAmount, usdcAmount / 100n);
+
+		// The pool oracle prices 1 ETH about the same now and on average.
+		const spotUsdc = await adapter.consult(WETH, USDC, 10n ** 18n, 0);
+		expect(spotUsdc).to.be.greaterThan(0n);
+		expect(
+			await adapter.consult(WETH, USDC, 10n ** 18n, 600)
+		).to.be.closeTo(spotUsdc, spotUsdc / 20n);
+	});
+});
@@ -0,0 +1,290 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+	ManagerSnapshot,
+	assertStateInvariants,
+	diffSnapshots,
+	snapshotManager,
+} from "../scripts/managerState";
+import type { DeployConfig } from "../scripts/deployConfig";
+import { MANAGER_MODULES } from "../scripts/managerModules";
+import { upgradeManager } from "../scripts/managerUpgrade";
+import type { StorageLayout } from "@openzeppelin/upgrades-core";
+import {
+	diffStorageLayouts,
+	moduleStorageLayoutChanges,
+} from "../scripts/storageLayout";
+import {
+	ARCHIVE_PRICE,
+	BIG_PRICE,
+	MICRO_PRICE,
+	PRICE_CURVE,
+	PaymentMethod,
+	STANDARD_PRICE,
+	Tier,
+	deployFixture,
+} from "./fixtures";
+
+const LEGACY_PRICES = [MICRO_PRICE, STANDARD_PRICE, BIG_PRICE, ARCHIVE_PRICE];
+
+/** A proxy still running the first release, owned by `owner`. */
+async function legacyFixture() {
+	const fixture = await deployFixture();
+	const { r1Token, usdcToken, pair, router, weth } = fixture;
+	const LegacyFactory = await ethers.getContractFactory("Manager3sendV1Mock");
+	const legacy = await upgrades.deployProxy(
+		LegacyFactory,
+		[
+			await r1Token.getAddress(),
+			await usdcToken.getAddress(),
+			await pair.getAddress(),
+			await router.getAddress(),
+			await weth.getAddress(),
+			LEGACY_PRICES,
+		],
+		{ initializer: "initialize", kind: "uups" }
+	);
+	return { ...fixture, proxy: await legacy.getAddress() };
+}
+
+/**
+ * The parts of a deployment config `initializeV2` reads: the fixture's swap
+ * adapter and a price curve leaving the fixed tiers as they are.
+ */
+function migrationConfig(swapAdapter: string) {
+	return {
+		swap: { adapter: swapAdapter },
+		priceCurve: PRICE_CURVE,
+		tierSizes: [],
+	} as unknown as DeployConfig;
+}
+
+/** A layout of `[label, slot, type]` variables at offset zero. */
+function storageLayout(variables: [string, string, string][]) {
+	return {
+		storage: variables.map(([label, slot, type]) => ({
+			contract: "Manager3send",
+			label,
+			type,
+			src: "contracts/Manager3send.sol:1",
+			slot,
+			offset: 0,
+		})),
+		types: {
+			t_uint256: { label: "uint256" },
+			t_address: { label: "address" },
+		},
+	} as StorageLayout;
+}
+
+function invariantError(changes: ReturnType<typeof diffSnapshots>) {
+	try {
+		assertStateInvariants(changes);
+	} catch (error) {
+		return (error as Error).message;
+	}
+	throw new Error("invariants held");
+}
+
+describe("upgrade checks", function () {
+	const log = console.log;
+
+	beforeEach(function () {
+		console.log = () => {};
+	});
+
+	afterEach(function () {
+		console.log = log;
+	});
+
+	it("upgrades with state and quotes intact", async function () {
+		const { manager, owner, user } = await loadFixture(deployFixture);
+		const proxy = await manager.getAddress();
+		const router = await manager.router();
+
+		const upgrade = await upgradeManager({
+			proxy,
+			upgrader: owner,
+			accounts: [user.address],
+		});
+
+		expect(upgrade.layout.changes).to.deep.equal([]);
+		expect(upgrade.layout.unchanged).to.be.greaterThan(0);
+		expect(upgrade.implementation.address).to.equal(
+			await upgrades.erc1967.getImplementationAddress(proxy)
+		);
+		expect(await manager.router()).to.equal(upgrade.modules.router.address);
+
+		expect(upgrade.before.state["getTier(1)"]).to.deep.include({
+			name: "Standard",
+			usdcPrice: STANDARD_PRICE.toString(),
+		});
+		expect(
+			upgrade.before.state[`hasRole(UPGRADER_ROLE,${owner.address})`]
+		).to.equal(true);
+		expect(upgrade.before.quotes["quotePayment(1)"]).to.deep.include({
+			usdcAmount: STANDARD_PRICE.toString(),
+		});
+
+		expect(upgrade.changes.map((change) => change.key)).to.deep.equal([
+			"router()",
+		]);
+		expect(upgrade.changes[0]).to.deep.include({
+			before: router,
+			allowed: true,
+		});
+		assertStateInvariants(upgrade.changes);
+	});
+
+	it("checks first-release owners and tier prices across the upgrade", async function () {
+		const { proxy, owner, swapAdapter } = await loadFixture(legacyFixture);
+
+		const upgrade = await upgradeManager({
+			proxy,
+			config: migrationConfig(await swapAdapter.getAddress()),
+			upgrader: owner,
+			upgradeCall: "initializeV2",
+		});
+
+		expect(upgrade.before.legacy["owner()"]).to.equal(owner.address);
+		expect(
+			LEGACY_PRICES.map(
+				(_, tier) => upgrade.before.legacy[`tierPrices(${tier})`]
+			)
+		).to.deep.equal(LEGACY_PRICES.map(String));
+		expect(
+			upgrade.after.state[`hasRole(DEFAULT_ADMIN_ROLE,${owner.address})`]
+		).to.equal(true);
+		expect(
+			upgrade.changes.filter((change) => change.section === "legacy")
+		).to.deep.equal([]);
+		assertStateInvariants(upgrade.changes);
+	});
+
+	it("fails first-release upgrades that skip the migration", async function () {
+		const { proxy, owner } = await loadFixture(legacyFixture);
+
+		// Without initializeV2 the owner gets no role and the fixed tiers
+		// never reach the catalog.
+		const upgrade = await upgradeManager({ proxy, upgrader: owner });
+
+		expect(invariantError(upgrade.changes)).to.equal(
+			[
+				"Upgrade broke 5 state invariants:",
+				`  owner() as hasRole(DEFAULT_ADMIN_ROLE,${owner.address}): true -> false`,
+				...LEGACY_PRICES.map(
+					(price, tier) =>
+						`  tierPrices(${tier}) as getTier(${tier}).usdcPrice: "${price}" -> missing`
+				),
+			].join("\n")
+		);
+	});
+
+	it("flags state and quotes that did not survive", async function () {
+		const { manager, owner } = await loadFixture(deployFixture);
+		const before = await snapshotManager(manager, {
+			accounts: [owner.address],
+		});
+
+		await manager.setPaymentMethodPaused(PaymentMethod.USDC, true);
+		await manager.revokeRole(ethers.id("TREASURY_ROLE"), owner.address);
+		const after = await snapshotManager(manager, {
+			accounts: [owner.address],
+		});
+
+		const changes = diffSnapshots(before, after);
+		expect(changes.map((change) => change.key)).to.deep.equal([
+			`hasRole(TREASURY_ROLE,${owner.address})`,
+			`paymentMethodPaused(${PaymentMethod.USDC})`,
+		]);
+		expect(invariantError(changes)).to.equal(
+			[
+				"Upgrade broke 2 state invariants:",
+				`  hasRole(TREASURY_ROLE,${owner.address}): true -> false`,
+				`  paymentMethodPaused(${PaymentMethod.USDC}): false -> true`,
+			].join("\n")
+		);
+		expect(
+			diffSnapshots(before, after, {
+				allowedChanges: ["hasRole", "paymentMethodPaused"],
+			}).every((change) => change.allowed)
+		).to.equal(true);
+
+		// Quotes move with the pool; amounts within the tolerance pass.
+		const quote = before.quotes[`quotePayment(${Tier.Standard})`] as {
+			r1Amount: string;
+		};
+		const moved: ManagerSnapshot = {
+			...before,
+			quotes: {
+				...before.quotes,
+				[`quotePayment(${Tier.Standard})`]: {
+					...quote,
+					r1Amount: (
+						(BigInt(quote.r1Amount) * 10_030n) /
+						10_000n
+					).toString(),
+				},
+			},
+		};
+		expect(
+			diffSnapshots(before, moved, { quoteToleranceBps: 50 })
+		).to.deep.equal([]);
+		expect(
+			diffSnapshots(before, moved, { quoteToleranceBps: 10 }).map(
+				(change) => change.key
+			)
+		).to.deep.equal([`quotePayment(${Tier.Standard})`]);
+	});
+
+	it("only lets modules use the storage Manager3send declares", async function () {
+		for (const module of MANAGER_MODULES) {
+			expect(
+				await moduleStorageLayoutChanges("Manager3send", module)
+			).to.deep.equal([]);
+		}
+
+		const changes = await moduleStorageLayoutChanges(
+			"Manager3send",
+			"Manager3sendStrayStorageMock"
+		);
+		expect(
+			changes.map((change) => [change.kind, change.before!.name])
+		).to.deep.equal([["removed", "strayCounter"]]);
+	});
+
+	it("matches storage variables by slot and offset", async function () {
+		const { changes, unchanged } = diffStorageLayouts(
+			storageLayout([
+				["treasury", "0", "t_address"],
+				["guardian", "1", "t_address"],
+				["fee", "2", "t_uint256"],
+				["counter", "3", "t_uint256"],
+				["limit", "4", "t_uint256"],
+			]),
+			storageLayout([
+				["treasury", "0", "t_address"],
+				["_legacyGuardian", "1", "t_address"],
+				["fee", "2", "t_address"],
+				["limit", "5", "t_uint256"],
+				["pending", "6", "t_uint256"],
+			])
+		);
+
+		expect(unchanged).to.equal(1);
+		expect(
+			changes.map((change) => [
+				change.kind,
+				change.before?.name ?? null,
+				change.after?.name ?? null,
+			])
+		).to.deep.equal([
+			["renamed", "guardian", "_legacyGuardian"],
+			["retyped", "fee", "fee"],
+			["removed", "counter", null],
+			["moved", "limit", "limit"],
+			["added", null, "pending"],
+		]);
+	});
+});